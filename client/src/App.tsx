@@ -15,6 +15,8 @@ import BusinessFinances from "@/pages/business-finances";
 import Calendar from "@/pages/calendar";
 import Assistant from "@/pages/assistant";
 import Subscription from "@/pages/subscription";
+import Imports from "@/pages/imports";
+import Trash from "@/pages/trash";
 import Landing from "@/pages/landing";
 import Auth from "@/pages/auth";
 import NotFound from "@/pages/not-found";
@@ -28,6 +30,8 @@ function Router() {
       <Route path="/calendar" component={Calendar} />
       <Route path="/assistant" component={Assistant} />
       <Route path="/subscription" component={Subscription} />
+      <Route path="/imports" component={Imports} />
+      <Route path="/trash" component={Trash} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,210 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Check, Loader2, Wand2, X } from "lucide-react";
+
+interface AiCategorizationDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface CategorizationJob {
+  id: number;
+  status: "running" | "completed" | "failed";
+  total: number;
+  processed: number;
+  error: string | null;
+  created_at: string;
+}
+
+interface CategorizationSuggestion {
+  id: number;
+  transaction_id: number;
+  subcategory: string;
+  transaction: { description: string; amount: string; date: string };
+}
+
+// Starts AI categorization jobs, shows their progress and lets the user
+// accept or dismiss what they suggested.
+export function AiCategorizationDialog({ open, onClose }: AiCategorizationDialogProps) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const { data: jobs } = useQuery<CategorizationJob[]>({
+    queryKey: ["/api/categorization-jobs"],
+    enabled: open,
+    refetchInterval: (query) => (query.state.data?.[0]?.status === "running" ? 1000 : false),
+  });
+  const latestJob = jobs?.[0];
+  const isRunning = latestJob?.status === "running";
+
+  // Suggestions arrive batch by batch while a job runs
+  const { data: suggestions, isLoading } = useQuery<CategorizationSuggestion[]>({
+    queryKey: ["/api/categorization-suggestions"],
+    enabled: open,
+    refetchInterval: isRunning ? 2000 : false,
+  });
+
+  const wasRunning = useRef(false);
+  useEffect(() => {
+    if (wasRunning.current && !isRunning) {
+      queryClient.invalidateQueries({ queryKey: ["/api/categorization-suggestions"] });
+    }
+    wasRunning.current = isRunning;
+  }, [isRunning]);
+
+  const startJobMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/categorization-jobs", {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categorization-jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: error.message.startsWith("400")
+          ? "No uncategorized transactions to send"
+          : error.message.startsWith("409")
+            ? "A categorization job is already running"
+            : "Failed to start categorization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (review: { accept?: number[]; dismiss?: number[] }) => {
+      const res = await apiRequest("POST", "/api/categorization-suggestions/review", review);
+      return (await res.json()) as { updated: number };
+    },
+    onSuccess: ({ updated }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categorization-suggestions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      setSelected(new Set());
+      if (updated > 0) {
+        toast({ title: `${updated} ${updated === 1 ? "transaction" : "transactions"} categorized` });
+      }
+    },
+    onError: () => {
+      toast({ title: "Failed to review suggestions", variant: "destructive" });
+    },
+  });
+
+  const toggle = (id: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+  const allSelected = !!suggestions?.length && suggestions.every((s) => selected.has(s.id));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>AI Categorization</DialogTitle>
+          <DialogDescription>
+            Uncategorized transactions are sent to the AI assistant, and its suggestions wait here for review
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm">
+              {!latestJob
+                ? "No categorization run yet"
+                : isRunning
+                  ? `Categorizing ${latestJob.processed} of ${latestJob.total} transactions...`
+                  : latestJob.status === "failed"
+                    ? `Stopped after ${latestJob.processed} of ${latestJob.total} transactions`
+                    : `Last run categorized ${latestJob.total} transactions`}
+            </div>
+            <Button
+              size="sm"
+              onClick={() => startJobMutation.mutate()}
+              disabled={isRunning || startJobMutation.isPending}
+              data-testid="button-start-categorization"
+            >
+              {isRunning ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Wand2 className="h-4 w-4 mr-1" />}
+              Categorize uncategorized
+            </Button>
+          </div>
+          {latestJob && latestJob.total > 0 && (
+            <Progress value={(latestJob.processed / latestJob.total) * 100} className="h-2" />
+          )}
+          {latestJob?.status === "failed" && latestJob.error && (
+            <p className="text-xs text-destructive">{latestJob.error}</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="select-all-suggestions"
+              checked={allSelected}
+              onCheckedChange={(checked) => setSelected(new Set(checked ? suggestions?.map((s) => s.id) : []))}
+              disabled={!suggestions?.length}
+              data-testid="checkbox-select-all-suggestions"
+            />
+            <label htmlFor="select-all-suggestions" className="text-sm cursor-pointer">
+              {suggestions?.length ?? 0} suggestions
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => reviewMutation.mutate({ dismiss: Array.from(selected) })}
+              disabled={selected.size === 0 || reviewMutation.isPending}
+              data-testid="button-dismiss-suggestions"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Dismiss
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => reviewMutation.mutate({ accept: Array.from(selected) })}
+              disabled={selected.size === 0 || reviewMutation.isPending}
+              data-testid="button-accept-suggestions"
+            >
+              <Check className="h-4 w-4 mr-1" />
+              Accept
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-h-[320px] space-y-2 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !suggestions?.length ? (
+            <p className="text-sm text-muted-foreground">No suggestions to review.</p>
+          ) : (
+            suggestions.map((suggestion) => (
+              <div key={suggestion.id} className="flex items-center gap-3 rounded-md border p-2 text-sm">
+                <Checkbox
+                  checked={selected.has(suggestion.id)}
+                  onCheckedChange={(checked) => toggle(suggestion.id, !!checked)}
+                  data-testid={`checkbox-suggestion-${suggestion.id}`}
+                />
+                <span className="text-muted-foreground">{suggestion.transaction.date}</span>
+                <span className="flex-1 truncate">{suggestion.transaction.description}</span>
+                <span className="font-mono">{parseFloat(suggestion.transaction.amount).toFixed(2)}</span>
+                <Badge variant="outline">{suggestion.subcategory}</Badge>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
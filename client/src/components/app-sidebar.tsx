@@ -6,6 +6,8 @@ import {
   CalendarDays,
   MessageSquare,
   CreditCard,
+  FileUp,
+  Trash2,
   LogOut,
 } from "lucide-react";
 import {
@@ -64,6 +66,16 @@ const toolsItems = [
     url: "/subscription",
     icon: CreditCard,
   },
+  {
+    title: "Import History",
+    url: "/imports",
+    icon: FileUp,
+  },
+  {
+    title: "Trash",
+    url: "/trash",
+    icon: Trash2,
+  },
 ];
 
 export function AppSidebar() {
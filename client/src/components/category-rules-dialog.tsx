@@ -0,0 +1,322 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Play, Plus, Trash2 } from "lucide-react";
+import type { Account } from "@shared/schema";
+
+interface CategoryRulesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type RuleMatch = "contains" | "regex";
+type RuleType = "personal" | "business";
+
+interface CategoryRule {
+  id: number;
+  priority: number;
+  match_type: RuleMatch;
+  pattern: string | null;
+  account_id: number | null;
+  min_amount: string | null;
+  max_amount: string | null;
+  subcategory: string;
+  type: RuleType | null;
+}
+
+interface RuleForm {
+  pattern: string;
+  match_type: RuleMatch;
+  account_id: string;
+  min_amount: string;
+  max_amount: string;
+  subcategory: string;
+  type: string;
+  priority: string;
+}
+
+const ANY = "__any";
+
+const EMPTY_FORM: RuleForm = {
+  pattern: "",
+  match_type: "contains",
+  account_id: ANY,
+  min_amount: "",
+  max_amount: "",
+  subcategory: "",
+  type: ANY,
+  priority: "0",
+};
+
+// Creates, deletes and re-runs the rules that categorize new transactions.
+export function CategoryRulesDialog({ open, onClose }: CategoryRulesDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [overwrite, setOverwrite] = useState(false);
+
+  const { data: rules, isLoading } = useQuery<CategoryRule[]>({
+    queryKey: ["/api/category-rules"],
+    enabled: open,
+  });
+  const { data: accounts } = useQuery<Account[]>({ queryKey: ["/api/accounts"], enabled: open });
+  const accountName = (id: number) => accounts?.find((a) => a.id === id)?.name ?? `Account ${id}`;
+
+  const createRuleMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", "/api/category-rules", {
+        pattern: form.pattern || null,
+        match_type: form.match_type,
+        account_id: form.account_id === ANY ? null : parseInt(form.account_id),
+        min_amount: form.min_amount || null,
+        max_amount: form.max_amount || null,
+        subcategory: form.subcategory,
+        type: form.type === ANY ? null : form.type,
+        priority: parseInt(form.priority) || 0,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/category-rules"] });
+      setForm(EMPTY_FORM);
+      toast({ title: "Rule added" });
+    },
+    onError: () => {
+      toast({ title: "Failed to add rule", description: "Check the pattern and amount range", variant: "destructive" });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/category-rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/category-rules"] });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete rule", variant: "destructive" });
+    },
+  });
+
+  const applyRulesMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/category-rules/apply", { overwrite });
+      return (await res.json()) as { updated: number };
+    },
+    onSuccess: ({ updated }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({ title: `${updated} ${updated === 1 ? "transaction" : "transactions"} categorized` });
+    },
+    onError: () => {
+      toast({ title: "Failed to run rules", variant: "destructive" });
+    },
+  });
+
+  const describeRule = (rule: CategoryRule) => {
+    const conditions: string[] = [];
+    if (rule.pattern) {
+      conditions.push(rule.match_type === "regex" ? `matches /${rule.pattern}/` : `contains "${rule.pattern}"`);
+    }
+    if (rule.account_id != null) conditions.push(`in ${accountName(rule.account_id)}`);
+    if (rule.min_amount != null && rule.max_amount != null) {
+      conditions.push(`$${rule.min_amount}–$${rule.max_amount}`);
+    } else if (rule.min_amount != null) {
+      conditions.push(`$${rule.min_amount} or more`);
+    } else if (rule.max_amount != null) {
+      conditions.push(`up to $${rule.max_amount}`);
+    }
+    return conditions.join(", ");
+  };
+
+  const canSave =
+    !!form.subcategory.trim() && (!!form.pattern || form.account_id !== ANY || !!form.min_amount || !!form.max_amount);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Categorization Rules</DialogTitle>
+          <DialogDescription>
+            New and imported transactions without a subcategory get the first matching rule's, highest priority first
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[280px] space-y-2 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !rules?.length ? (
+            <p className="text-sm text-muted-foreground">No rules yet.</p>
+          ) : (
+            rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge variant="secondary">{rule.priority}</Badge>
+                  <span className="text-muted-foreground">{describeRule(rule)}</span>
+                  <span>→</span>
+                  <Badge variant="outline">{rule.subcategory}</Badge>
+                  {rule.type && <Badge variant="outline">{rule.type}</Badge>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => deleteRuleMutation.mutate(rule.id)}
+                  disabled={deleteRuleMutation.isPending}
+                  data-testid={`button-delete-rule-${rule.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form
+          className="grid grid-cols-2 gap-3 rounded-md border p-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canSave) createRuleMutation.mutate();
+          }}
+        >
+          <div>
+            <Label>Description</Label>
+            <div className="flex gap-2">
+              <Select value={form.match_type} onValueChange={(v) => setForm({ ...form, match_type: v as RuleMatch })}>
+                <SelectTrigger className="w-[120px]" data-testid="select-rule-match">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="contains">Contains</SelectItem>
+                  <SelectItem value="regex">Regex</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                value={form.pattern}
+                onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                placeholder="UBER"
+                maxLength={200}
+                data-testid="input-rule-pattern"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Account</Label>
+            <Select value={form.account_id} onValueChange={(v) => setForm({ ...form, account_id: v })}>
+              <SelectTrigger data-testid="select-rule-account">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any account</SelectItem>
+                {accounts?.map((account) => (
+                  <SelectItem key={account.id} value={account.id.toString()}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Amount Range</Label>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.min_amount}
+                onChange={(e) => setForm({ ...form, min_amount: e.target.value })}
+                placeholder="Min"
+                data-testid="input-rule-min-amount"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.max_amount}
+                onChange={(e) => setForm({ ...form, max_amount: e.target.value })}
+                placeholder="Max"
+                data-testid="input-rule-max-amount"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Priority</Label>
+            <Input
+              type="number"
+              step="1"
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value })}
+              data-testid="input-rule-priority"
+            />
+          </div>
+          <div>
+            <Label>Subcategory *</Label>
+            <Input
+              value={form.subcategory}
+              onChange={(e) => setForm({ ...form, subcategory: e.target.value })}
+              placeholder="transport"
+              data-testid="input-rule-subcategory"
+            />
+          </div>
+          <div>
+            <Label>Use</Label>
+            <Select value={form.type} onValueChange={(v) => setForm({ ...form, type: v })}>
+              <SelectTrigger data-testid="select-rule-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>As the account</SelectItem>
+                <SelectItem value="personal">Personal</SelectItem>
+                <SelectItem value="business">Business</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 flex justify-end">
+            <Button type="submit" size="sm" disabled={!canSave || createRuleMutation.isPending} data-testid="button-add-rule">
+              <Plus className="h-4 w-4 mr-1" />
+              Add rule
+            </Button>
+          </div>
+        </form>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="overwrite-categories"
+              checked={overwrite}
+              onCheckedChange={(checked) => setOverwrite(!!checked)}
+              data-testid="checkbox-rules-overwrite"
+            />
+            <Label htmlFor="overwrite-categories" className="text-sm cursor-pointer">
+              Also re-categorize transactions that have a subcategory
+            </Label>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => applyRulesMutation.mutate()}
+            disabled={!rules?.length || applyRulesMutation.isPending}
+            data-testid="button-apply-rules"
+          >
+            <Play className="h-4 w-4 mr-1" />
+            Re-run rules
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
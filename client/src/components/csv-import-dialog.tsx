@@ -29,7 +29,9 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
+import { formatConfidence, useCategorySuggestions } from "@/hooks/use-category-suggestions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { fetchWithAuth } from "@/lib/api";
 import {
   Upload,
   FileSpreadsheet,
@@ -37,8 +39,8 @@ import {
   Check,
   AlertCircle,
   Loader2,
+  Sparkles,
 } from "lucide-react";
-import Papa from "papaparse";
 import type { Account } from "@shared/schema";
 
 interface CSVImportDialogProps {
@@ -66,71 +68,15 @@ interface ParsedRow {
   error?: string;
 }
 
-function parseDate(dateStr: string): string | null {
-  if (!dateStr) return null;
-  
-  // Handle ISO datetime format (2026-01-07 11:14:23)
-  const isoDateTimeMatch = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})\s/);
-  if (isoDateTimeMatch) {
-    return `${isoDateTimeMatch[1]}-${isoDateTimeMatch[2]}-${isoDateTimeMatch[3]}`;
-  }
-
-  // Handle ISO date format (2026-01-07)
-  const isoMatch = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (isoMatch) {
-    return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
-  }
-
-  // Handle MM/DD/YYYY format
-  const mdyMatch = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (mdyMatch) {
-    const month = mdyMatch[1].padStart(2, "0");
-    const day = mdyMatch[2].padStart(2, "0");
-    const year = mdyMatch[3];
-    return `${year}-${month}-${day}`;
-  }
-
-  // Try with Date object as fallback
-  const parsed = new Date(dateStr);
-  if (!isNaN(parsed.getTime())) {
-    return parsed.toISOString().split("T")[0];
-  }
-
-  return null;
-}
-
-function parseAmount(amountStr: string): number | null {
-  if (amountStr === undefined || amountStr === null) return null;
-  
-  const str = String(amountStr).trim();
-  if (str === "" || str === "0" || str === "0.0") return 0;
-  
-  // Remove currency symbols, commas, and whitespace
-  const cleaned = str
-    .replace(/[$£€¥,\s]/g, "")
-    .replace(/\(([^)]+)\)/, "-$1"); // Handle (100.00) as -100.00
-
-  const num = parseFloat(cleaned);
-  return isNaN(num) ? null : num;
-}
-
-function detectIfHasHeaders(firstRow: string[]): boolean {
-  // Check if the first row looks like headers
-  const headerPatterns = [
-    /timestamp/i, /date/i, /amount/i, /description/i, /merchant/i,
-    /transaction/i, /type/i, /status/i, /note/i, /memo/i, /currency/i
-  ];
-  
-  const matchCount = firstRow.filter(cell => 
-    headerPatterns.some(pattern => pattern.test(cell))
-  ).length;
-  
-  // If 2+ cells match header patterns, likely has headers
-  return matchCount >= 2;
-}
-
-function generateColumnNames(count: number): string[] {
-  return Array.from({ length: count }, (_, i) => `Column ${i + 1}`);
+// The parts of /api/import/parse's answer this dialog uses
+interface ImportResult {
+  candidates: { date: string; description: string; amount: number; subcategory?: string; errors: string[] }[];
+  table?: {
+    headers: string[];
+    has_headers: boolean;
+    rows: string[][];
+    columns: Partial<ColumnMapping>;
+  };
 }
 
 export function CSVImportDialog({
@@ -152,6 +98,8 @@ export function CSVImportDialog({
   const [selectedAccountId, setSelectedAccountId] = useState<string>("");
   const [parsedRows, setParsedRows] = useState<ParsedRow[]>([]);
   const [fileName, setFileName] = useState<string>("");
+  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [isParsingFile, setIsParsingFile] = useState(false);
   const { toast } = useToast();
 
   const filteredAccounts = accounts.filter((a) => a.type === accountType);
@@ -165,151 +113,79 @@ export function CSVImportDialog({
     setSelectedAccountId("");
     setParsedRows([]);
     setFileName("");
+    setUploadedFile(null);
+    setIsParsingFile(false);
   };
 
-  const processCSV = useCallback((data: string[][], detectHeaders: boolean) => {
-    if (data.length === 0) return;
-    
-    const firstRow = data[0];
-    const detectedHasHeaders = detectHeaders ? detectIfHasHeaders(firstRow) : hasHeaders;
-    setHasHeaders(detectedHasHeaders);
-    
-    let headerRow: string[];
-    let dataRows: string[][];
-    
-    if (detectedHasHeaders) {
-      headerRow = firstRow;
-      dataRows = data.slice(1);
-    } else {
-      headerRow = generateColumnNames(firstRow.length);
-      dataRows = data;
-    }
-    
-    // Sanitize headers - replace empty strings with column names
-    const sanitizedHeaders = headerRow.map((h, i) => 
-      h?.trim() ? h.trim() : `Column ${i + 1}`
-    );
-    
-    setHeaders(sanitizedHeaders);
-    setCsvData(dataRows.filter((row) => row.some((cell) => cell?.trim())));
-    
-    // Auto-detect column mappings
-    const autoMapping: ColumnMapping = {
-      date: "",
-      description: "",
-      amount: "",
-      category: "",
-    };
-    
-    headerRow.forEach((header, index) => {
-      const headerLower = header.toLowerCase().trim();
-      
-      // Date detection
-      if (headerLower.includes("date") || headerLower.includes("timestamp") || headerLower.includes("posted")) {
-        if (!autoMapping.date) autoMapping.date = header;
-      }
-      
-      // Description detection
-      if (headerLower.includes("description") || headerLower.includes("memo") || 
-          headerLower.includes("merchant") || headerLower.includes("payee")) {
-        if (!autoMapping.description) autoMapping.description = header;
-      }
-      
-      // Amount detection
-      if (headerLower.includes("amount") || headerLower.includes("debit") || headerLower.includes("credit")) {
-        if (!autoMapping.amount) autoMapping.amount = header;
-      }
-      
-      // Category detection
-      if (headerLower.includes("category") || headerLower.includes("type")) {
-        if (!autoMapping.category) autoMapping.category = header;
-      }
-    });
-    
-    // For headerless CSVs (like Premier Credit Card), try to detect by position/content
-    if (!detectedHasHeaders && dataRows.length > 0) {
-      const sampleRow = dataRows[0];
-      
-      sampleRow.forEach((cell, index) => {
-        const trimmed = cell?.trim() || "";
-        
-        // Check if it looks like a date
-        if (!autoMapping.date && (parseDate(trimmed) !== null)) {
-          autoMapping.date = headerRow[index];
-        }
-        
-        // Check if it looks like a number (amount)
-        if (!autoMapping.amount && /^-?\d+\.?\d*$/.test(trimmed.replace(/[$,]/g, ""))) {
-          // Skip if it looks like a reference number (long alphanumeric)
-          if (!/[A-Za-z]/.test(trimmed)) {
-            autoMapping.amount = headerRow[index];
-          }
+  // The server reads the file, works out its header row and guesses the
+  // columns, and once they are mapped turns the rows into transactions
+  const readFile = useCallback(
+    async (file: File, fields: Record<string, string> = {}): Promise<ImportResult | undefined> => {
+      setIsParsingFile(true);
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+        for (const [name, value] of Object.entries(fields)) formData.append(name, value);
+
+        const response = await fetchWithAuth("/api/import/parse", {
+          method: 'POST',
+          body: formData,
+        });
+        const result = await response.json();
+        if (!response.ok || !result.table) {
+          throw new Error(result.error ?? "This file is not a CSV file");
         }
-      });
-      
-      // For Premier format: Date, Reference, Amount, Description
-      // The last column is usually description
-      if (!autoMapping.description && headerRow.length >= 4) {
-        autoMapping.description = headerRow[headerRow.length - 1];
+        return result as ImportResult;
+      } catch (error) {
+        toast({
+          title: "Failed to parse CSV",
+          description: error instanceof Error ? error.message : undefined,
+          variant: "destructive",
+        });
+        return undefined;
+      } finally {
+        setIsParsingFile(false);
       }
-    }
-    
-    setMapping(autoMapping);
-  }, [hasHeaders]);
+    },
+    [toast]
+  );
+
+  const showTable = (table: NonNullable<ImportResult["table"]>) => {
+    setHeaders(table.headers);
+    setCsvData(table.rows);
+    setHasHeaders(table.has_headers);
+    setMapping({
+      date: table.columns.date ?? "",
+      description: table.columns.description ?? "",
+      amount: table.columns.amount ?? "",
+      category: table.columns.category ?? "",
+    });
+  };
 
   const handleFileUpload = useCallback(
-    (event: React.ChangeEvent<HTMLInputElement>) => {
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (!file) return;
 
       setFileName(file.name);
-
-      Papa.parse(file, {
-        complete: (results) => {
-          const data = results.data as string[][];
-          if (data.length > 0) {
-            processCSV(data, true);
-            setStep("mapping");
-          }
-        },
-        error: (error) => {
-          toast({
-            title: "Failed to parse CSV",
-            description: error.message,
-            variant: "destructive",
-          });
-        },
-      });
+      setUploadedFile(file);
+      const result = await readFile(file);
+      if (result?.table) {
+        showTable(result.table);
+        setStep("mapping");
+      }
     },
-    [toast, processCSV]
+    [readFile]
   );
 
-  const handleHeaderToggle = (checked: boolean) => {
-    setHasHeaders(checked);
-    // Reprocess with new header setting
-    const allData = hasHeaders ? [headers, ...csvData] : csvData;
-    
-    if (checked) {
-      // First row becomes headers - sanitize to prevent empty strings
-      const rawHeaders = allData[0] || [];
-      const sanitizedHeaders = rawHeaders.map((h, i) => 
-        h?.trim() ? h.trim() : `Column ${i + 1}`
-      );
-      setHeaders(sanitizedHeaders);
-      setCsvData(allData.slice(1));
-    } else {
-      // Generate column names, first row becomes data
-      const newHeaders = generateColumnNames(allData[0]?.length || 0);
-      setHeaders(newHeaders);
-      setCsvData(allData);
-    }
-    
-    // Reset mapping when toggling
-    setMapping({ date: "", description: "", amount: "", category: "" });
+  const handleHeaderToggle = async (checked: boolean) => {
+    if (!uploadedFile) return;
+    const result = await readFile(uploadedFile, { hasHeaders: String(checked) });
+    if (result?.table) showTable(result.table);
   };
 
-  const handleMappingComplete = () => {
-    if (!mapping.date || !mapping.description || !mapping.amount || !selectedAccountId) {
+  const handleMappingComplete = async () => {
+    if (!mapping.date || !mapping.description || !mapping.amount || !selectedAccountId || !uploadedFile) {
       toast({
         title: "Missing required fields",
         description: "Please map all required columns and select an account",
@@ -318,39 +194,22 @@ export function CSVImportDialog({
       return;
     }
 
-    const dateIdx = headers.indexOf(mapping.date);
-    const descIdx = headers.indexOf(mapping.description);
-    const amountIdx = headers.indexOf(mapping.amount);
-    const categoryIdx = mapping.category ? headers.indexOf(mapping.category) : -1;
-
-    const parsed: ParsedRow[] = csvData.map((row) => {
-      const dateStr = row[dateIdx]?.trim() || "";
-      const descStr = row[descIdx]?.trim() || "";
-      const amountStr = row[amountIdx]?.trim() || "";
-      const categoryStr = categoryIdx >= 0 ? row[categoryIdx]?.trim() : "";
-
-      const date = parseDate(dateStr);
-      const amount = parseAmount(amountStr);
-
-      const errors: string[] = [];
-      if (!date) errors.push("Invalid date");
-      if (!descStr) errors.push("Missing description");
-      if (amount === null) errors.push("Invalid amount");
-
-      return {
-        date: date || dateStr,
-        description: descStr,
-        amount: amount || 0,
-        category: categoryStr || "Other",
-        isValid: errors.length === 0,
-        error: errors.length > 0 ? errors.join(", ") : undefined,
-      };
+    const result = await readFile(uploadedFile, {
+      hasHeaders: String(hasHeaders),
+      columns: JSON.stringify(mapping),
     });
+    if (!result) return;
 
-    // Filter out zero-amount rows (often authorization holds)
-    const filteredParsed = parsed.filter(row => row.amount !== 0 || !row.isValid);
-    
-    setParsedRows(filteredParsed);
+    setParsedRows(
+      result.candidates.map((row) => ({
+        date: row.date,
+        description: row.description,
+        amount: row.amount,
+        category: row.subcategory ?? "",
+        isValid: row.errors.length === 0,
+        error: row.errors.length > 0 ? row.errors.join(", ") : undefined,
+      }))
+    );
     setStep("preview");
   };
 
@@ -358,20 +217,28 @@ export function CSVImportDialog({
     mutationFn: async () => {
       const validRows = parsedRows.filter((r) => r.isValid);
       
+      const accountId = parseInt(selectedAccountId);
       const transactions = validRows.map((row) => ({
-        accountId: parseInt(selectedAccountId),
+        account_id: accountId,
         description: row.description,
         amount: row.amount.toString(),
         category: row.amount < 0 ? "expense" : "income",
-        subcategory: row.category,
+        // Left out when the file had none, for the categorization rules
+        subcategory: row.category || undefined,
         date: row.date,
       }));
 
-      return apiRequest("POST", "/api/transactions/bulk", { transactions });
+      return apiRequest("POST", "/api/transactions/bulk", {
+        transactions,
+        account_id: accountId,
+        file_name: fileName,
+        parser: "csv",
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
       setStep("complete");
       toast({ title: "Transactions imported successfully" });
     },
@@ -383,6 +250,20 @@ export function CSVImportDialog({
   const validCount = parsedRows.filter((r) => r.isValid).length;
   const invalidCount = parsedRows.filter((r) => !r.isValid).length;
 
+  // Learned suggestions for uncategorized rows, taken once accepted
+  const suggestions = useCategorySuggestions(
+    parsedRows.map((row) => row.description),
+    step === "preview"
+  );
+  const suggestionFor = (index: number) => (parsedRows[index].category ? null : suggestions[index] ?? null);
+  const suggestedIndexes = parsedRows.map((_, i) => i).filter((i) => parsedRows[i].isValid && suggestionFor(i));
+
+  const acceptSuggestions = (indexes: number[]) => {
+    setParsedRows(
+      parsedRows.map((row, i) => (indexes.includes(i) ? { ...row, category: suggestionFor(i)!.subcategory } : row))
+    );
+  };
+
   return (
     <Dialog
       open={open}
@@ -428,29 +309,38 @@ export function CSVImportDialog({
 
         {step === "upload" && (
           <div className="flex flex-col items-center justify-center py-12 border-2 border-dashed rounded-lg">
-            <Upload className="h-12 w-12 text-muted-foreground mb-4" />
-            <p className="text-muted-foreground mb-2">
-              Upload a CSV file from your bank or credit card
-            </p>
-            <p className="text-xs text-muted-foreground mb-4">
-              Supports various formats including Lili, Premier, and more
-            </p>
-            <Label htmlFor="csv-file" className="cursor-pointer">
-              <Input
-                id="csv-file"
-                type="file"
-                accept=".csv"
-                className="hidden"
-                onChange={handleFileUpload}
-                data-testid="input-csv-file"
-              />
-              <Button asChild>
-                <span>
-                  <Upload className="h-4 w-4 mr-2" />
-                  Select CSV File
-                </span>
-              </Button>
-            </Label>
+            {isParsingFile ? (
+              <>
+                <Loader2 className="h-12 w-12 text-primary animate-spin mb-4" />
+                <p className="text-muted-foreground">Reading {fileName}...</p>
+              </>
+            ) : (
+              <>
+                <Upload className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground mb-2">
+                  Upload a CSV file from your bank or credit card
+                </p>
+                <p className="text-xs text-muted-foreground mb-4">
+                  Supports various formats including Lili, Premier, and more
+                </p>
+                <Label htmlFor="csv-file" className="cursor-pointer">
+                  <Input
+                    id="csv-file"
+                    type="file"
+                    accept=".csv"
+                    className="hidden"
+                    onChange={handleFileUpload}
+                    data-testid="input-csv-file"
+                  />
+                  <Button asChild>
+                    <span>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Select CSV File
+                    </span>
+                  </Button>
+                </Label>
+              </>
+            )}
           </div>
         )}
 
@@ -467,6 +357,7 @@ export function CSVImportDialog({
                   id="has-headers"
                   checked={hasHeaders}
                   onCheckedChange={(checked) => handleHeaderToggle(!!checked)}
+                  disabled={isParsingFile}
                 />
                 <Label htmlFor="has-headers" className="text-sm cursor-pointer">
                   First row is header
@@ -602,7 +493,7 @@ export function CSVImportDialog({
               </Button>
               <Button
                 onClick={handleMappingComplete}
-                disabled={!mapping.date || !mapping.description || !mapping.amount || !selectedAccountId}
+                disabled={!mapping.date || !mapping.description || !mapping.amount || !selectedAccountId || isParsingFile}
                 data-testid="button-continue-mapping"
               >
                 Continue
@@ -625,6 +516,18 @@ export function CSVImportDialog({
                   {invalidCount} errors
                 </Badge>
               )}
+              {suggestedIndexes.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 gap-1 text-xs"
+                  onClick={() => acceptSuggestions(suggestedIndexes)}
+                  data-testid="button-accept-suggestions"
+                >
+                  <Sparkles className="h-3 w-3" />
+                  Use {suggestedIndexes.length} suggested categories
+                </Button>
+              )}
             </div>
 
             <ScrollArea className="flex-1 border rounded-lg">
@@ -656,9 +559,22 @@ export function CSVImportDialog({
                         {row.description}
                       </TableCell>
                       <TableCell>
-                        <Badge variant="secondary" className="text-xs">
-                          {row.category}
-                        </Badge>
+                        {suggestionFor(i) ? (
+                          <Badge
+                            variant="outline"
+                            className="text-xs gap-1 cursor-pointer"
+                            title={`Suggested from your transactions: ${suggestionFor(i)!.type} use (${formatConfidence(suggestionFor(i)!.type_confidence)}). Click to use it`}
+                            onClick={() => acceptSuggestions([i])}
+                            data-testid={`badge-suggestion-${i}`}
+                          >
+                            <Sparkles className="h-3 w-3" />
+                            {suggestionFor(i)!.subcategory} {formatConfidence(suggestionFor(i)!.confidence)}
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary" className="text-xs">
+                            {row.category || "Uncategorized"}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell
                         className={`text-right font-mono text-sm ${
@@ -0,0 +1,367 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { formatConfidence, useCategorySuggestions } from "@/hooks/use-category-suggestions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/finance-calculations";
+import { RecordHistoryPanel } from "@/components/record-history";
+import { Plus, Sparkles, X } from "lucide-react";
+import type { Account } from "@shared/schema";
+import type { TransactionRow } from "@/lib/api-types";
+
+const toCents = (value: string) => Math.round(parseFloat(value || "0") * 100);
+
+const transactionFormSchema = z
+  .object({
+    accountId: z.string().min(1, "Account is required"),
+    description: z.string().min(1, "Description is required"),
+    amount: z.string().refine((v) => v !== "" && !isNaN(parseFloat(v)), "Enter an amount"),
+    category: z.string().min(1, "Category is required"),
+    subcategory: z.string().optional(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Enter a date"),
+    splits: z.array(
+      z.object({
+        amount: z.string().refine((v) => parseFloat(v) > 0, "Enter an amount"),
+        subcategory: z.string().min(1, "Required"),
+        type: z.enum(["personal", "business"]),
+      })
+    ),
+  })
+  // Split amounts are entered as positive numbers and take the transaction's sign
+  .refine(
+    (data) =>
+      data.splits.length === 0 ||
+      data.splits.reduce((sum, split) => sum + toCents(split.amount), 0) === Math.abs(toCents(data.amount)),
+    { message: "Splits must add up to the transaction amount", path: ["splits"] }
+  );
+
+type TransactionFormValues = z.infer<typeof transactionFormSchema>;
+
+interface EditTransactionDialogProps {
+  transaction: TransactionRow | null;
+  accounts: Account[];
+  onClose: () => void;
+}
+
+export function EditTransactionDialog({ transaction, accounts, onClose }: EditTransactionDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<TransactionFormValues>({
+    resolver: zodResolver(transactionFormSchema),
+  });
+  const splitFields = useFieldArray({ control: form.control, name: "splits" });
+
+  useEffect(() => {
+    if (transaction) {
+      form.reset({
+        accountId: transaction.account_id.toString(),
+        description: transaction.description,
+        amount: transaction.amount,
+        category: transaction.category,
+        subcategory: transaction.subcategory || "",
+        date: transaction.date,
+        splits: (transaction.splits || []).map((split) => ({
+          amount: Math.abs(parseFloat(split.amount)).toFixed(2),
+          subcategory: split.subcategory,
+          type: split.type,
+        })),
+      });
+    }
+  }, [transaction, form]);
+
+  const watchedSplits = form.watch("splits") || [];
+  const remainingCents =
+    Math.abs(toCents(form.watch("amount"))) -
+    watchedSplits.reduce((sum, split) => sum + toCents(split.amount), 0);
+  const defaultSplitType =
+    (accounts.find((a) => a.id.toString() === form.watch("accountId"))?.type as "personal" | "business") || "personal";
+
+  // Suggest a subcategory while it is empty, once the description settles
+  const watchedDescription = form.watch("description") || "";
+  const [suggestFor, setSuggestFor] = useState("");
+  useEffect(() => {
+    const timer = setTimeout(() => setSuggestFor(watchedDescription), 400);
+    return () => clearTimeout(timer);
+  }, [watchedDescription]);
+  const [suggestion] = useCategorySuggestions([suggestFor], !!transaction && !form.watch("subcategory"));
+
+  // A suggested use other than the account's becomes a split of the whole amount
+  const acceptSuggestion = () => {
+    if (!suggestion) return;
+    form.setValue("subcategory", suggestion.subcategory);
+    if (suggestion.type !== defaultSplitType && watchedSplits.length === 0 && toCents(form.getValues("amount")) !== 0) {
+      splitFields.append({
+        amount: (Math.abs(toCents(form.getValues("amount"))) / 100).toFixed(2),
+        subcategory: suggestion.subcategory,
+        type: suggestion.type,
+      });
+    }
+  };
+
+  const updateTransactionMutation = useMutation({
+    mutationFn: async (data: TransactionFormValues) => {
+      return apiRequest("PATCH", `/api/transactions/${transaction!.id}`, {
+        account_id: parseInt(data.accountId),
+        description: data.description,
+        amount: data.amount,
+        category: data.category,
+        subcategory: data.subcategory || null,
+        date: data.date,
+        splits: data.splits.map((split) => ({
+          ...split,
+          amount: (Math.sign(parseFloat(data.amount)) * parseFloat(split.amount)).toFixed(2),
+        })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      onClose();
+      toast({ title: "Transaction updated" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update transaction", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Transaction</DialogTitle>
+          <DialogDescription>
+            Changes to the amount or account are applied to the account balances
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => updateTransactionMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-edit-transaction-description" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} data-testid="input-edit-transaction-amount" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-edit-transaction-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="accountId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Account</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-edit-transaction-account">
+                        <SelectValue placeholder="Select account" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-edit-transaction-category">
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="expense">Expense</SelectItem>
+                        <SelectItem value="income">Income</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="subcategory"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Subcategory</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-edit-transaction-subcategory" />
+                    </FormControl>
+                    {!field.value && suggestion && (
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                        onClick={acceptSuggestion}
+                        data-testid="button-accept-suggestion"
+                      >
+                        <Sparkles className="h-3 w-3" />
+                        {suggestion.subcategory}, {suggestion.type} ({formatConfidence(suggestion.confidence)})
+                      </button>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Splits</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    splitFields.append({
+                      amount: remainingCents > 0 ? (remainingCents / 100).toFixed(2) : "",
+                      subcategory: "",
+                      type: defaultSplitType,
+                    })
+                  }
+                  data-testid="button-add-split"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add split
+                </Button>
+              </div>
+              {splitFields.fields.map((split, index) => (
+                <div key={split.id} className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Amount"
+                    {...form.register(`splits.${index}.amount`)}
+                    data-testid={`input-split-amount-${index}`}
+                  />
+                  <Input
+                    placeholder="Subcategory"
+                    {...form.register(`splits.${index}.subcategory`)}
+                    data-testid={`input-split-subcategory-${index}`}
+                  />
+                  <Select
+                    value={form.watch(`splits.${index}.type`)}
+                    onValueChange={(value) => form.setValue(`splits.${index}.type`, value as "personal" | "business")}
+                  >
+                    <SelectTrigger data-testid={`select-split-type-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="personal">Personal</SelectItem>
+                      <SelectItem value="business">Business</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => splitFields.remove(index)}
+                    data-testid={`button-remove-split-${index}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {splitFields.fields.length > 0 && (
+                <p className={`text-xs ${remainingCents === 0 ? "text-muted-foreground" : "text-destructive"}`}>
+                  {remainingCents === 0
+                    ? "Splits add up to the transaction amount"
+                    : `${formatCurrency(Math.abs(remainingCents) / 100)} ${remainingCents > 0 ? "left to assign" : "over the transaction amount"}`}
+                </p>
+              )}
+              {(form.formState.errors.splits?.root?.message ?? form.formState.errors.splits?.message) && (
+                <p className="text-sm font-medium text-destructive">
+                  {form.formState.errors.splits?.root?.message ?? form.formState.errors.splits?.message}
+                </p>
+              )}
+            </div>
+            {transaction && <RecordHistoryPanel key={transaction.id} entityType="transaction" entityId={transaction.id} />}
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={updateTransactionMutation.isPending}
+                data-testid="button-update-transaction"
+              >
+                {updateTransactionMutation.isPending ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Check, Pencil, Trash2 } from "lucide-react";
+import type { TagCount } from "@/components/transaction-tags";
+
+interface ManageTagsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Renames and deletes tags across every transaction that carries them.
+export function ManageTagsDialog({ open, onClose }: ManageTagsDialogProps) {
+  const { toast } = useToast();
+  const [renaming, setRenaming] = useState<{ tag: string; name: string } | null>(null);
+
+  const { data: tags, isLoading } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+
+  const onSuccess = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    setRenaming(null);
+    toast({ title });
+  };
+
+  const renameTagMutation = useMutation({
+    mutationFn: async ({ tag, name }: { tag: string; name: string }) =>
+      apiRequest("PATCH", `/api/tags/${encodeURIComponent(tag)}`, { name }),
+    onSuccess: () => onSuccess("Tag renamed"),
+    onError: () => {
+      toast({ title: "Failed to rename tag", variant: "destructive" });
+    },
+  });
+
+  const deleteTagMutation = useMutation({
+    mutationFn: async (tag: string) => apiRequest("DELETE", `/api/tags/${encodeURIComponent(tag)}`),
+    onSuccess: () => onSuccess("Tag removed from all transactions"),
+    onError: () => {
+      toast({ title: "Failed to delete tag", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Manage Tags</DialogTitle>
+          <DialogDescription>
+            Renaming or deleting a tag changes every transaction that carries it
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[400px] space-y-2 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !tags?.length ? (
+            <p className="text-sm text-muted-foreground">
+              No tags yet. Add them from the tag button on a transaction.
+            </p>
+          ) : (
+            tags.map(({ tag, count }) => (
+              <div key={tag} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                {renaming?.tag === tag ? (
+                  <form
+                    className="flex flex-1 gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (renaming.name.trim()) renameTagMutation.mutate(renaming);
+                    }}
+                  >
+                    <Input
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ tag, name: e.target.value.replace(/,/g, "") })}
+                      maxLength={40}
+                      className="h-8"
+                      autoFocus
+                      data-testid={`input-rename-tag-${tag}`}
+                    />
+                    <Button type="submit" size="icon" className="h-8 w-8 shrink-0" disabled={renameTagMutation.isPending}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{tag}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {count} {count === 1 ? "transaction" : "transactions"}
+                      </span>
+                    </div>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setRenaming({ tag, name: tag })}
+                        data-testid={`button-rename-tag-${tag}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => deleteTagMutation.mutate(tag)}
+                        disabled={deleteTagMutation.isPending}
+                        data-testid={`button-delete-tag-${tag}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/finance-calculations";
+import { Scale, Loader2 } from "lucide-react";
+
+interface AccountReconciliation {
+  account_id: number;
+  opening_balance: string;
+  transaction_total: string;
+  transaction_count: number;
+  stored_balance: string;
+  computed_balance: string;
+  drift: string;
+  applied: boolean;
+}
+
+interface ReconcileAccountPanelProps {
+  accountId: number;
+  testIdPrefix?: string;
+}
+
+export function ReconcileAccountPanel({ accountId, testIdPrefix = "reconcile" }: ReconcileAccountPanelProps) {
+  const { toast } = useToast();
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [report, setReport] = useState<AccountReconciliation | null>(null);
+
+  const reconcileMutation = useMutation({
+    mutationFn: async (apply: boolean) => {
+      const res = await apiRequest("POST", `/api/accounts/${accountId}/reconcile`, {
+        openingBalance: openingBalance || undefined,
+        apply,
+      });
+      return (await res.json()) as AccountReconciliation;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (result.applied) {
+        queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+        toast({ title: "Balance reconciled", description: `New balance ${formatCurrency(result.computed_balance)}` });
+      }
+    },
+    onError: () => {
+      toast({ title: "Failed to reconcile account", variant: "destructive" });
+    },
+  });
+
+  const hasDrift = report !== null && parseFloat(report.drift) !== 0;
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center gap-2">
+        <Scale className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Reconcile Balance</span>
+      </div>
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor={`${testIdPrefix}-opening-balance`} className="text-xs text-muted-foreground">
+            Opening balance (optional)
+          </Label>
+          <Input
+            id={`${testIdPrefix}-opening-balance`}
+            type="number"
+            step="0.01"
+            placeholder={report?.opening_balance ?? "Use stored opening balance"}
+            value={openingBalance}
+            onChange={(e) => setOpeningBalance(e.target.value)}
+            data-testid={`input-${testIdPrefix}-opening-balance`}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => reconcileMutation.mutate(false)}
+          disabled={reconcileMutation.isPending}
+          data-testid={`button-${testIdPrefix}-check`}
+        >
+          {reconcileMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Check
+        </Button>
+      </div>
+
+      {report && (
+        <div className="space-y-2 text-sm" data-testid={`${testIdPrefix}-report`}>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Opening balance</span>
+            <span>{formatCurrency(report.opening_balance)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">
+              {report.transaction_count} transaction{report.transaction_count === 1 ? "" : "s"}
+            </span>
+            <span>{formatCurrency(report.transaction_total)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Computed balance</span>
+            <span>{formatCurrency(report.computed_balance)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Stored balance</span>
+            <span>{formatCurrency(report.stored_balance)}</span>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            {hasDrift ? (
+              <Badge variant="destructive">Off by {formatCurrency(report.drift)}</Badge>
+            ) : (
+              <Badge variant="secondary">Balanced</Badge>
+            )}
+            {hasDrift && !report.applied && (
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => reconcileMutation.mutate(true)}
+                disabled={reconcileMutation.isPending}
+                data-testid={`button-${testIdPrefix}-apply`}
+              >
+                Apply {formatCurrency(report.computed_balance)}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
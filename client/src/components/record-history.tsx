@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, History, Loader2 } from "lucide-react";
+
+type HistoryEntityType = "account" | "transaction" | "obligation";
+
+interface AuditEntry {
+  id: number;
+  entity_type: HistoryEntityType;
+  entity_id: number;
+  action: "create" | "update" | "delete";
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  source: string;
+  created_at: string;
+}
+
+const HISTORY_PATHS: Record<HistoryEntityType, string> = {
+  account: "/api/accounts",
+  transaction: "/api/transactions",
+  obligation: "/api/obligations",
+};
+
+const ACTION_LABELS: Record<AuditEntry["action"], string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+// Bookkeeping columns that never differ in a meaningful way
+const HIDDEN_FIELDS = new Set(["id", "user_id", "created_at"]);
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "none";
+    return value.every((item) => typeof item === "string") ? value.join(", ") : `${value.length} lines`;
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function changedFields(entry: AuditEntry): { field: string; from: unknown; to: unknown }[] {
+  if (!entry.before || !entry.after) return [];
+  const { before, after } = entry;
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => !HIDDEN_FIELDS.has(field))
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, from: before[field], to: after[field] }));
+}
+
+interface RecordHistoryPanelProps {
+  entityType: HistoryEntityType;
+  entityId: number;
+}
+
+// Collapsible list of the changes recorded for one account, transaction or
+// obligation. The history is only fetched once the panel is opened.
+export function RecordHistoryPanel({ entityType, entityId }: RecordHistoryPanelProps) {
+  const [open, setOpen] = useState(false);
+  const { data: entries, isLoading } = useQuery<AuditEntry[]>({
+    queryKey: [HISTORY_PATHS[entityType], entityId, "history"],
+    enabled: open,
+  });
+
+  return (
+    <div className="rounded-md border p-4" data-testid={`history-${entityType}-${entityId}`}>
+      <Button
+        type="button"
+        variant="ghost"
+        className="h-auto w-full justify-start gap-2 p-0 hover:bg-transparent"
+        onClick={() => setOpen(!open)}
+        data-testid={`button-toggle-history-${entityType}-${entityId}`}
+      >
+        {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <History className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">History</span>
+      </Button>
+
+      {open && (
+        <div className="mt-3 max-h-[240px] space-y-3 overflow-y-auto">
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : !entries?.length ? (
+            <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+          ) : (
+            entries.map((entry) => {
+              const changes = changedFields(entry);
+              return (
+                <div key={entry.id} className="space-y-1 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={entry.action === "delete" ? "destructive" : "secondary"}>
+                      {ACTION_LABELS[entry.action]}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(entry.created_at), "MMM d, yyyy h:mm a")}
+                    </span>
+                    <span className="text-xs text-muted-foreground font-mono">{entry.source}</span>
+                  </div>
+                  {changes.map(({ field, from, to }) => (
+                    <p key={field} className="text-xs">
+                      <span className="text-muted-foreground">{field.replace(/_/g, " ")}:</span>{" "}
+                      <span className="line-through">{formatValue(from)}</span> → {formatValue(to)}
+                    </p>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useCallback } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -29,7 +29,9 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
+import { formatConfidence, useCategorySuggestions } from "@/hooks/use-category-suggestions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { fetchWithAuth } from "@/lib/api";
 import {
   Upload,
   FileSpreadsheet,
@@ -37,9 +39,10 @@ import {
   ArrowRight,
   Check,
   AlertCircle,
+  Copy,
   Loader2,
+  Sparkles,
 } from "lucide-react";
-import Papa from "papaparse";
 import type { Account } from "@shared/schema";
 
 interface StatementImportDialogProps {
@@ -50,15 +53,108 @@ interface StatementImportDialogProps {
 }
 
 type Step = "upload" | "mapping" | "preview" | "complete";
-type FileType = "csv" | "pdf";
+type FileType = "csv" | "xlsx" | "ods" | "pdf" | "ofx" | "qif" | "camt053" | "mt940";
+// Formats read as rows of cells, which go through the column mapping
+type MappedFileType = "csv" | "xlsx" | "ods";
+// How slash dates are read: 01/02/2026 is January 2 or 1 February
+type DateFormat = "mdy" | "dmy";
+// Whether a positive amount in a CSV is money in or money spent
+type AmountSign = "positive_in" | "positive_out";
+
+const FORMAT_LABELS: Record<FileType, string> = {
+  csv: "CSV",
+  xlsx: "Excel",
+  ods: "ODS",
+  pdf: "PDF",
+  ofx: "OFX",
+  qif: "QIF",
+  camt053: "camt.053",
+  mt940: "MT940",
+};
+
+function isMappedFileType(type: FileType): type is MappedFileType {
+  return type === "csv" || type === "xlsx" || type === "ods";
+}
 
 interface ColumnMapping {
   date: string;
   description: string;
   amount: string;
+  // Used instead of `amount` when the bank puts money out and money in in
+  // separate columns
+  debit?: string;
+  credit?: string;
   category?: string;
 }
 
+type AmountColumns = "single" | "split";
+
+const EMPTY_MAPPING: ColumnMapping = { date: "", description: "", amount: "", category: "" };
+
+// A saved mapping for one account's export, recognized by its header row
+interface ImportProfile {
+  id: number;
+  account_id: number;
+  headers: string[];
+  columns: Partial<ColumnMapping>;
+  date_format: DateFormat;
+  amount_sign: AmountSign;
+}
+
+// A row as the server read it, with what is wrong with it if anything
+interface CandidateRow {
+  date: string;
+  description: string;
+  amount: number;
+  subcategory?: string;
+  external_id?: string;
+  splits?: { amount: number; subcategory: string }[];
+  errors: string[];
+}
+
+// A CSV file or worksheet, below its header row, with the columns the
+// server read it by (or guessed)
+interface ImportTable {
+  sheets?: string[];
+  sheet?: string;
+  headers: string[];
+  has_headers: boolean;
+  rows: string[][];
+  columns: Partial<ColumnMapping>;
+}
+
+// One account of a QIF export; full-history exports hold several
+interface QifAccount {
+  name?: string;
+  type: string;
+  candidates: CandidateRow[];
+}
+
+// What /api/import/parse returns for any format
+interface ImportResult {
+  format: FileType;
+  candidates: CandidateRow[];
+  date_format: DateFormat | null;
+  amount_sign: AmountSign | null;
+  table?: ImportTable;
+  parser?: { id: string; name: string };
+  summary?: StatementSummary;
+  totals_check?: StatementTotalsCheck | null;
+  opening_balance?: StatementBalance;
+  closing_balance?: StatementBalance;
+  accounts?: QifAccount[];
+}
+
+// What the file is read with besides the file itself; anything left out is
+// detected by the server
+interface ImportOptions {
+  sheet?: string;
+  hasHeaders?: boolean;
+  columns?: ColumnMapping;
+  dateFormat?: DateFormat;
+  amountSign?: AmountSign;
+}
+
 interface ParsedRow {
   date: string;
   description: string;
@@ -66,66 +162,79 @@ interface ParsedRow {
   category: string;
   isValid: boolean;
   error?: string;
+  // The bank's id for the row (OFX FITID), used to recognize re-imports
+  externalId?: string;
+  // Split lines carried over from a QIF export
+  splits?: { amount: number; subcategory: string }[];
+}
+
+function candidateRows(candidates: CandidateRow[]): ParsedRow[] {
+  return candidates.map((row) => ({
+    date: row.date,
+    description: row.description,
+    amount: row.amount,
+    category: row.subcategory ?? "",
+    isValid: row.errors.length === 0,
+    error: row.errors.length > 0 ? row.errors.join(", ") : undefined,
+    externalId: row.external_id,
+    splits: row.splits,
+  }));
+}
+
+interface StatementBalance {
+  amount: number;
+  date: string;
+}
+
+interface StatementBalanceCheck {
+  statement_balance: string;
+  expected_balance: string;
+  difference: string;
+  balanced: boolean;
+}
+
+// Figures a PDF statement prints besides its transactions
+interface StatementSummary {
+  period_start?: string;
+  period_end?: string;
+  opening_balance?: number;
+  closing_balance?: number;
+  minimum_payment?: number;
+  payment_due_date?: string;
+  credit_limit?: number;
+}
+
+// Whether a PDF's transactions add up to its change in balance
+interface StatementTotalsCheck {
+  opening_balance: string;
+  closing_balance: string;
+  statement_change: string;
+  transactions_change: string;
+  difference: string;
+  passed: boolean;
 }
 
-function parseDate(dateStr: string): string | null {
-  if (!dateStr) return null;
-  
-  const isoDateTimeMatch = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})\s/);
-  if (isoDateTimeMatch) {
-    return `${isoDateTimeMatch[1]}-${isoDateTimeMatch[2]}-${isoDateTimeMatch[3]}`;
-  }
-
-  const isoMatch = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (isoMatch) {
-    return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
-  }
-
-  const mdyMatch = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (mdyMatch) {
-    const month = mdyMatch[1].padStart(2, "0");
-    const day = mdyMatch[2].padStart(2, "0");
-    const year = mdyMatch[3];
-    return `${year}-${month}-${day}`;
-  }
-
-  const parsed = new Date(dateStr);
-  if (!isNaN(parsed.getTime())) {
-    return parsed.toISOString().split("T")[0];
-  }
-
-  return null;
+function formatMoney(amount: number | string): string {
+  const value = Number(amount);
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
 }
 
-function parseAmount(amountStr: string): number | null {
-  if (amountStr === undefined || amountStr === null) return null;
-  
-  const str = String(amountStr).trim();
-  if (str === "" || str === "0" || str === "0.0") return 0;
-  
-  const cleaned = str
-    .replace(/[$£€¥,\s]/g, "")
-    .replace(/\(([^)]+)\)/, "-$1");
-
-  const num = parseFloat(cleaned);
-  return isNaN(num) ? null : num;
+// A row the server found already recorded, by index into the parsed rows
+interface DuplicateMatch {
+  index: number;
+  transaction_id: number;
+  match: "exact" | "fuzzy";
 }
 
-function detectIfHasHeaders(firstRow: string[]): boolean {
-  const headerPatterns = [
-    /timestamp/i, /date/i, /amount/i, /description/i, /merchant/i,
-    /transaction/i, /type/i, /status/i, /note/i, /memo/i, /currency/i
-  ];
-  
-  const matchCount = firstRow.filter(cell => 
-    headerPatterns.some(pattern => pattern.test(cell))
-  ).length;
-  
-  return matchCount >= 2;
+// The columns in use: either the amount column or the debit and credit ones
+function activeColumns(mapping: ColumnMapping, amountColumns: AmountColumns): ColumnMapping {
+  return amountColumns === "split"
+    ? { ...mapping, amount: "" }
+    : { ...mapping, debit: undefined, credit: undefined };
 }
 
-function generateColumnNames(count: number): string[] {
-  return Array.from({ length: count }, (_, i) => `Column ${i + 1}`);
+function isMappingComplete(mapping: ColumnMapping): boolean {
+  return !!mapping.date && !!mapping.description && (!!mapping.amount || (!!mapping.debit && !!mapping.credit));
 }
 
 export function StatementImportDialog({
@@ -139,19 +248,39 @@ export function StatementImportDialog({
   const [csvData, setCsvData] = useState<string[][]>([]);
   const [headers, setHeaders] = useState<string[]>([]);
   const [hasHeaders, setHasHeaders] = useState(true);
-  const [mapping, setMapping] = useState<ColumnMapping>({
-    date: "",
-    description: "",
-    amount: "",
-    category: "",
-  });
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [amountColumns, setAmountColumns] = useState<AmountColumns>("single");
+  const [dateFormat, setDateFormat] = useState<DateFormat>("mdy");
+  const [amountSign, setAmountSign] = useState<AmountSign>("positive_in");
+  // Saved mappings for this file's header row, one per account
+  const [matchedProfiles, setMatchedProfiles] = useState<ImportProfile[]>([]);
+  const [appliedProfile, setAppliedProfile] = useState<ImportProfile | null>(null);
+  const [rememberMapping, setRememberMapping] = useState(true);
   const [selectedAccountId, setSelectedAccountId] = useState<string>("");
   const [parsedRows, setParsedRows] = useState<ParsedRow[]>([]);
   const [fileName, setFileName] = useState<string>("");
-  const [isParsingPDF, setIsParsingPDF] = useState(false);
+  const [isParsingFile, setIsParsingFile] = useState(false);
+  const [openingBalance, setOpeningBalance] = useState<StatementBalance | null>(null);
+  const [closingBalance, setClosingBalance] = useState<StatementBalance | null>(null);
+  // Kept so the file can be read again with another mapping, worksheet or
+  // date order
+  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [qifAccounts, setQifAccounts] = useState<QifAccount[]>([]);
+  const [qifAccountIndex, setQifAccountIndex] = useState(0);
+  const [qifDateFormat, setQifDateFormat] = useState<DateFormat>("mdy");
+  const [sheets, setSheets] = useState<string[]>([]);
+  // The bank layout a PDF was read as
+  const [pdfParser, setPdfParser] = useState<{ id: string; name: string } | null>(null);
+  const [statementSummary, setStatementSummary] = useState<StatementSummary | null>(null);
+  const [totalsCheck, setTotalsCheck] = useState<StatementTotalsCheck | null>(null);
+  const [selectedSheet, setSelectedSheet] = useState("");
+  // Flagged duplicates are skipped unless the user ticks them back in
+  const [includedDuplicates, setIncludedDuplicates] = useState<Set<number>>(new Set());
   const { toast } = useToast();
 
   const filteredAccounts = accounts.filter((a) => a.type === accountType);
+  // The saved mapping for the chosen account and this file's header row
+  const savedProfile = matchedProfiles.find((p) => p.account_id.toString() === selectedAccountId);
 
   const resetState = () => {
     setStep("upload");
@@ -159,188 +288,256 @@ export function StatementImportDialog({
     setCsvData([]);
     setHeaders([]);
     setHasHeaders(true);
-    setMapping({ date: "", description: "", amount: "", category: "" });
+    setMapping(EMPTY_MAPPING);
+    setAmountColumns("single");
+    setDateFormat("mdy");
+    setAmountSign("positive_in");
+    setMatchedProfiles([]);
+    setAppliedProfile(null);
+    setRememberMapping(true);
     setSelectedAccountId("");
     setParsedRows([]);
     setFileName("");
-    setIsParsingPDF(false);
+    setIsParsingFile(false);
+    setOpeningBalance(null);
+    setClosingBalance(null);
+    setUploadedFile(null);
+    setQifAccounts([]);
+    setQifAccountIndex(0);
+    setQifDateFormat("mdy");
+    setSheets([]);
+    setSelectedSheet("");
+    setPdfParser(null);
+    setStatementSummary(null);
+    setTotalsCheck(null);
+    setIncludedDuplicates(new Set());
   };
 
-  const processCSV = useCallback((data: string[][], detectHeaders: boolean) => {
-    if (data.length === 0) return;
-    
-    const firstRow = data[0];
-    const detectedHasHeaders = detectHeaders ? detectIfHasHeaders(firstRow) : hasHeaders;
-    setHasHeaders(detectedHasHeaders);
-    
-    let headerRow: string[];
-    let dataRows: string[][];
-    
-    if (detectedHasHeaders) {
-      headerRow = firstRow;
-      dataRows = data.slice(1);
-    } else {
-      headerRow = generateColumnNames(firstRow.length);
-      dataRows = data;
+  // Every format is read on the server. Failures are shown here and come
+  // back as undefined.
+  const readFile = useCallback(
+    async (file: File, options: ImportOptions = {}): Promise<ImportResult | undefined> => {
+      setIsParsingFile(true);
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+        if (options.sheet) formData.append('sheet', options.sheet);
+        if (options.hasHeaders !== undefined) formData.append('hasHeaders', String(options.hasHeaders));
+        if (options.columns) formData.append('columns', JSON.stringify(options.columns));
+        if (options.dateFormat) formData.append('dateFormat', options.dateFormat);
+        if (options.amountSign) formData.append('amountSign', options.amountSign);
+
+        const response = await fetchWithAuth("/api/import/parse", {
+          method: 'POST',
+          body: formData,
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error ?? "Could not read this file");
+        }
+        return result as ImportResult;
+      } catch (error) {
+        toast({
+          title: `Failed to read ${file.name}`,
+          description: error instanceof Error ? error.message : "Could not read this file",
+          variant: "destructive",
+        });
+        return undefined;
+      } finally {
+        setIsParsingFile(false);
+      }
+    },
+    [toast]
+  );
+
+  // Shows a CSV file or worksheet in the mapping step, with the columns and
+  // the date order and amount signs the server went by
+  const showTable = (result: ImportResult, table: ImportTable) => {
+    setSheets(table.sheets ?? []);
+    setSelectedSheet(table.sheet ?? "");
+    setHeaders(table.headers);
+    setCsvData(table.rows);
+    setHasHeaders(table.has_headers);
+    setMapping({ ...EMPTY_MAPPING, ...table.columns });
+    setAmountColumns(table.columns.debit && table.columns.credit ? "split" : "single");
+    setDateFormat(result.date_format ?? "mdy");
+    setAmountSign(result.amount_sign ?? "positive_in");
+  };
+
+  const showStatement = (result: ImportResult) => {
+    if (result.candidates.length === 0) {
+      toast({
+        title: "No transactions found",
+        description: `Could not extract transactions from this ${FORMAT_LABELS[result.format]} file. Try exporting as CSV instead.`,
+        variant: "destructive",
+      });
+      return;
     }
-    
-    const sanitizedHeaders = headerRow.map((h, i) => 
-      h?.trim() ? h.trim() : `Column ${i + 1}`
-    );
-    
-    setHeaders(sanitizedHeaders);
-    setCsvData(dataRows.filter((row) => row.some((cell) => cell?.trim())));
-    
-    const autoMapping: ColumnMapping = {
-      date: "",
-      description: "",
-      amount: "",
-      category: "",
+    setParsedRows(candidateRows(result.candidates));
+    setPdfParser(result.parser ?? null);
+    setStatementSummary(result.summary ?? null);
+    setTotalsCheck(result.totals_check ?? null);
+    setOpeningBalance(result.opening_balance ?? null);
+    setClosingBalance(result.closing_balance ?? null);
+    setQifAccounts(result.accounts ?? []);
+    setQifAccountIndex(0);
+    if (result.format === "qif" && result.date_format) setQifDateFormat(result.date_format);
+    setIncludedDuplicates(new Set());
+    setStep("preview");
+  };
+
+  // Takes over a saved profile's mapping. Headers match it ignoring case and
+  // spacing, so its column names are looked up by position.
+  const applyProfile = (profile: ImportProfile, sheetHeaders: string[]) => {
+    const column = (name?: string) => (name ? sheetHeaders[profile.headers.indexOf(name)] ?? "" : "");
+    const columns: ColumnMapping = {
+      date: column(profile.columns.date),
+      description: column(profile.columns.description),
+      amount: column(profile.columns.amount),
+      debit: column(profile.columns.debit),
+      credit: column(profile.columns.credit),
+      category: column(profile.columns.category),
     };
-    
-    sanitizedHeaders.forEach((header) => {
-      const headerLower = header.toLowerCase().trim();
-      
-      if (headerLower.includes("date") || headerLower.includes("timestamp") || headerLower.includes("posted")) {
-        if (!autoMapping.date) autoMapping.date = header;
-      }
-      
-      if (headerLower.includes("description") || headerLower.includes("memo") || 
-          headerLower.includes("merchant") || headerLower.includes("payee")) {
-        if (!autoMapping.description) autoMapping.description = header;
-      }
-      
-      if (headerLower.includes("amount") || headerLower.includes("debit") || headerLower.includes("credit")) {
-        if (!autoMapping.amount) autoMapping.amount = header;
-      }
-      
-      if (headerLower.includes("category") || headerLower.includes("type")) {
-        if (!autoMapping.category) autoMapping.category = header;
+    setMapping(columns);
+    setAmountColumns(columns.debit && columns.credit ? "split" : "single");
+    setDateFormat(profile.date_format);
+    setAmountSign(profile.amount_sign);
+    return columns;
+  };
+
+  // The saved mappings for this header row, for accounts this dialog imports into
+  const matchProfiles = async (table: ImportTable) => {
+    let profiles: ImportProfile[] = [];
+    if (table.has_headers) {
+      try {
+        const res = await apiRequest("POST", "/api/import-profiles/match", { headers: table.headers });
+        const accountIds = new Set(filteredAccounts.map((a) => a.id));
+        profiles = ((await res.json()) as ImportProfile[]).filter((p) => accountIds.has(p.account_id));
+      } catch (error) {
+        // Without profiles the file is simply mapped by hand
       }
+    }
+    setMatchedProfiles(profiles);
+    setAppliedProfile(null);
+    return profiles;
+  };
+
+  // A file this user has mapped for exactly one account goes straight to the
+  // preview; otherwise the mapping step opens, filled in from a saved profile
+  // when there is one.
+  const openMapping = async (file: File, result: ImportResult, table: ImportTable) => {
+    showTable(result, table);
+    const profiles = await matchProfiles(table);
+    if (profiles.length === 0) {
+      setStep("mapping");
+      return;
+    }
+    const columns = applyProfile(profiles[0], table.headers);
+    if (profiles.length > 1 || !isMappingComplete(columns)) {
+      setStep("mapping");
+      return;
+    }
+
+    const mapped = await readFile(file, {
+      sheet: table.sheet,
+      hasHeaders: true,
+      columns,
+      dateFormat: profiles[0].date_format,
+      amountSign: profiles[0].amount_sign,
     });
-    
-    if (!detectedHasHeaders && dataRows.length > 0) {
-      const sampleRow = dataRows[0];
-      
-      sampleRow.forEach((cell, index) => {
-        const trimmed = cell?.trim() || "";
-        
-        if (!autoMapping.date && (parseDate(trimmed) !== null)) {
-          autoMapping.date = sanitizedHeaders[index];
-        }
-        
-        if (!autoMapping.amount && /^-?\d+\.?\d*$/.test(trimmed.replace(/[$,]/g, ""))) {
-          if (!/[A-Za-z]/.test(trimmed)) {
-            autoMapping.amount = sanitizedHeaders[index];
-          }
-        }
-      });
-      
-      if (!autoMapping.description && sanitizedHeaders.length >= 4) {
-        autoMapping.description = sanitizedHeaders[sanitizedHeaders.length - 1];
-      }
+    if (!mapped) {
+      setStep("mapping");
+      return;
     }
-    
-    setMapping(autoMapping);
-  }, [hasHeaders]);
-
-  const handleFileUpload = useCallback(
-    async (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0];
-      if (!file) return;
-
-      setFileName(file.name);
-      const isPDF = file.name.toLowerCase().endsWith('.pdf');
-      setFileType(isPDF ? "pdf" : "csv");
-
-      if (isPDF) {
-        setIsParsingPDF(true);
-        try {
-          const formData = new FormData();
-          formData.append('file', file);
-          
-          const response = await fetch('/api/parse-pdf', {
-            method: 'POST',
-            body: formData,
-          });
-          
-          if (!response.ok) {
-            throw new Error('Failed to parse PDF');
-          }
-          
-          const result = await response.json();
-          
-          if (result.transactions && result.transactions.length > 0) {
-            const parsed: ParsedRow[] = result.transactions.map((tx: any) => ({
-              date: tx.date,
-              description: tx.description,
-              amount: tx.amount,
-              category: "Other",
-              isValid: true,
-            }));
-            
-            setParsedRows(parsed);
-            setStep("preview");
-          } else {
-            toast({
-              title: "No transactions found",
-              description: "Could not extract transactions from this PDF. Try exporting as CSV instead.",
-              variant: "destructive",
-            });
-          }
-        } catch (error) {
-          toast({
-            title: "Failed to parse PDF",
-            description: "Could not read this PDF file. Try exporting as CSV instead.",
-            variant: "destructive",
-          });
-        } finally {
-          setIsParsingPDF(false);
-        }
-      } else {
-        Papa.parse(file, {
-          complete: (results) => {
-            const data = results.data as string[][];
-            if (data.length > 0) {
-              processCSV(data, true);
-              setStep("mapping");
-            }
-          },
-          error: (error) => {
-            toast({
-              title: "Failed to parse CSV",
-              description: error.message,
-              variant: "destructive",
-            });
-          },
-        });
-      }
+    setSelectedAccountId(profiles[0].account_id.toString());
+    setAppliedProfile(profiles[0]);
+    setParsedRows(candidateRows(mapped.candidates));
+    setIncludedDuplicates(new Set());
+    setStep("preview");
+  };
+
+  const selectMappingAccount = (accountId: string) => {
+    setSelectedAccountId(accountId);
+    const profile = matchedProfiles.find((p) => p.account_id.toString() === accountId);
+    if (profile) applyProfile(profile, headers);
+  };
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async (profile: Omit<ImportProfile, "id">) => {
+      const res = await apiRequest("POST", "/api/import-profiles", profile);
+      return (await res.json()) as ImportProfile;
     },
-    [toast, processCSV]
-  );
+    onSuccess: (saved) => {
+      setMatchedProfiles((profiles) => [...profiles.filter((p) => p.id !== saved.id), saved]);
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+    },
+    onError: () => {
+      toast({
+        title: "Mapping not saved",
+        description: "The import can go ahead, but this file will need mapping again next time.",
+        variant: "destructive",
+      });
+    },
+  });
 
-  const handleHeaderToggle = (checked: boolean) => {
-    setHasHeaders(checked);
-    const allData = hasHeaders ? [headers, ...csvData] : csvData;
-    
-    if (checked) {
-      const rawHeaders = allData[0] || [];
-      const sanitizedHeaders = rawHeaders.map((h, i) => 
-        h?.trim() ? h.trim() : `Column ${i + 1}`
-      );
-      setHeaders(sanitizedHeaders);
-      setCsvData(allData.slice(1));
+  const forgetProfileMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/import-profiles/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      setMatchedProfiles((profiles) => profiles.filter((p) => p.id !== id));
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+    },
+  });
+
+  // Reads a file, or another worksheet of it, and moves on to the mapping
+  // step or straight to the preview
+  const loadFile = async (file: File, sheet?: string) => {
+    const result = await readFile(file, { sheet });
+    if (!result) return;
+    setFileType(result.format);
+    if (result.table) {
+      await openMapping(file, result, result.table);
     } else {
-      const newHeaders = generateColumnNames(allData[0]?.length || 0);
-      setHeaders(newHeaders);
-      setCsvData(allData);
+      showStatement(result);
     }
-    
-    setMapping({ date: "", description: "", amount: "", category: "" });
   };
 
-  const handleMappingComplete = () => {
-    if (!mapping.date || !mapping.description || !mapping.amount || !selectedAccountId) {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setUploadedFile(file);
+    await loadFile(file);
+  };
+
+  const selectQifAccount = (index: number) => {
+    setQifAccountIndex(index);
+    setParsedRows(candidateRows(qifAccounts[index].candidates));
+    setIncludedDuplicates(new Set());
+  };
+
+  const changeQifDateFormat = async (format: DateFormat) => {
+    if (!uploadedFile) return;
+    const result = await readFile(uploadedFile, { dateFormat: format });
+    if (result) showStatement(result);
+  };
+
+  // The server reads the file again with or without a header row and
+  // guesses the columns afresh
+  const handleHeaderToggle = async (checked: boolean) => {
+    if (!uploadedFile) return;
+    const result = await readFile(uploadedFile, { sheet: selectedSheet, hasHeaders: checked });
+    if (!result?.table) return;
+    showTable(result, result.table);
+    await matchProfiles(result.table);
+  };
+
+  const handleMappingComplete = async () => {
+    const columns = activeColumns(mapping, amountColumns);
+    if (!isMappingComplete(columns) || !selectedAccountId || !uploadedFile) {
       toast({
         title: "Missing required fields",
         description: "Please map all required columns and select an account",
@@ -349,59 +546,109 @@ export function StatementImportDialog({
       return;
     }
 
-    const dateIdx = headers.indexOf(mapping.date);
-    const descIdx = headers.indexOf(mapping.description);
-    const amountIdx = headers.indexOf(mapping.amount);
-    const categoryIdx = mapping.category ? headers.indexOf(mapping.category) : -1;
-
-    const parsed: ParsedRow[] = csvData.map((row) => {
-      const dateStr = row[dateIdx]?.trim() || "";
-      const descStr = row[descIdx]?.trim() || "";
-      const amountStr = row[amountIdx]?.trim() || "";
-      const categoryStr = categoryIdx >= 0 ? row[categoryIdx]?.trim() : "";
-
-      const date = parseDate(dateStr);
-      const amount = parseAmount(amountStr);
-
-      const errors: string[] = [];
-      if (!date) errors.push("Invalid date");
-      if (!descStr) errors.push("Missing description");
-      if (amount === null) errors.push("Invalid amount");
-
-      return {
-        date: date || dateStr,
-        description: descStr,
-        amount: amount || 0,
-        category: categoryStr || "Other",
-        isValid: errors.length === 0,
-        error: errors.length > 0 ? errors.join(", ") : undefined,
-      };
-    });
+    const result = await readFile(uploadedFile, { sheet: selectedSheet, hasHeaders, columns, dateFormat, amountSign });
+    if (!result) return;
 
-    const filteredParsed = parsed.filter(row => row.amount !== 0 || !row.isValid);
-    
-    setParsedRows(filteredParsed);
+    // Profiles are keyed by the header row, so files without one are not saved
+    if (rememberMapping && hasHeaders) {
+      saveProfileMutation.mutate({
+        account_id: parseInt(selectedAccountId),
+        headers,
+        columns,
+        date_format: dateFormat,
+        amount_sign: amountSign,
+      });
+    }
+
+    setAppliedProfile(null);
+    setParsedRows(candidateRows(result.candidates));
+    setIncludedDuplicates(new Set());
     setStep("preview");
   };
+  const toTransaction = (row: ParsedRow) => ({
+    account_id: parseInt(selectedAccountId),
+    description: row.description,
+    amount: row.amount.toString(),
+    category: row.amount < 0 ? "expense" : "income",
+    // Left out when the file had none, for the categorization rules
+    subcategory: row.category || undefined,
+    date: row.date,
+    external_id: row.externalId,
+    splits: row.splits?.map((split) => ({
+      amount: split.amount.toString(),
+      subcategory: split.subcategory,
+      type: accountType,
+    })),
+  });
+
+  const { data: duplicateCheck, isFetching: isCheckingDuplicates } = useQuery<{ duplicates: DuplicateMatch[] }>({
+    queryKey: ["/api/transactions/duplicates", selectedAccountId, parsedRows],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/transactions/duplicates", {
+        transactions: parsedRows.map(toTransaction),
+      });
+      return res.json();
+    },
+    enabled: step === "preview" && !!selectedAccountId && parsedRows.length > 0,
+  });
+
+  const duplicateOf = new Map((duplicateCheck?.duplicates ?? []).map((d) => [d.index, d]));
+  const isSkipped = (index: number) => duplicateOf.has(index) && !includedDuplicates.has(index);
+
+  const toggleDuplicate = (index: number, include: boolean) => {
+    const next = new Set(includedDuplicates);
+    if (include) next.add(index);
+    else next.delete(index);
+    setIncludedDuplicates(next);
+  };
+
+  const rowsToImport = parsedRows.filter((row, i) => row.isValid && !isSkipped(i));
+
+  // Learned suggestions for the rows the file left uncategorized; a row
+  // takes its suggestion once the user accepts it
+  const suggestions = useCategorySuggestions(
+    parsedRows.map((row) => row.description),
+    step === "preview"
+  );
+  const suggestionFor = (index: number) => (parsedRows[index].category ? null : suggestions[index] ?? null);
+  const suggestedIndexes = parsedRows.map((_, i) => i).filter((i) => parsedRows[i].isValid && suggestionFor(i));
+
+  const acceptSuggestions = (indexes: number[]) => {
+    setParsedRows(
+      parsedRows.map((row, i) => (indexes.includes(i) ? { ...row, category: suggestionFor(i)!.subcategory } : row))
+    );
+  };
+
+  // Statements that state a closing balance are checked against the account
+  // as it will be once the rows being imported are added
+  const { data: balanceCheck } = useQuery<StatementBalanceCheck>({
+    queryKey: ["/api/accounts", selectedAccountId, "statement-check", closingBalance, rowsToImport],
+    queryFn: async () => {
+      const res = await apiRequest("POST", `/api/accounts/${selectedAccountId}/statement-check`, {
+        closingBalance: closingBalance!.amount,
+        balanceDate: closingBalance!.date,
+        transactions: rowsToImport.map(({ amount, date }) => ({ amount, date })),
+      });
+      return res.json();
+    },
+    enabled: step === "preview" && !!selectedAccountId && !!closingBalance && !isCheckingDuplicates,
+  });
 
   const importMutation = useMutation({
     mutationFn: async () => {
-      const validRows = parsedRows.filter((r) => r.isValid);
-      
-      const transactions = validRows.map((row) => ({
-        accountId: parseInt(selectedAccountId),
-        description: row.description,
-        amount: row.amount.toString(),
-        category: row.amount < 0 ? "expense" : "income",
-        subcategory: row.category,
-        date: row.date,
-      }));
-
-      return apiRequest("POST", "/api/transactions/bulk", { transactions });
+      const transactions = rowsToImport.map(toTransaction);
+
+      return apiRequest("POST", "/api/transactions/bulk", {
+        transactions,
+        account_id: parseInt(selectedAccountId),
+        file_name: fileName,
+        parser: pdfParser ? `pdf:${pdfParser.id}` : fileType,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-batches"] });
       setStep("complete");
       toast({ title: "Transactions imported successfully" });
     },
@@ -412,9 +659,11 @@ export function StatementImportDialog({
 
   const validCount = parsedRows.filter((r) => r.isValid).length;
   const invalidCount = parsedRows.filter((r) => !r.isValid).length;
+  const importCount = rowsToImport.length;
+  const skippedCount = validCount - importCount;
 
   const getSteps = (): Step[] => {
-    if (fileType === "pdf") {
+    if (!isMappedFileType(fileType)) {
       return ["upload", "preview", "complete"];
     }
     return ["upload", "mapping", "preview", "complete"];
@@ -441,7 +690,7 @@ export function StatementImportDialog({
             Import {accountType === "personal" ? "Personal" : "Business"} Statement
           </DialogTitle>
           <DialogDescription>
-            Upload a CSV or PDF statement from your bank or credit card
+            Upload a CSV, Excel/ODS, OFX/QFX, QIF, camt.053, MT940 or PDF statement from your bank or credit card
           </DialogDescription>
         </DialogHeader>
 
@@ -471,10 +720,10 @@ export function StatementImportDialog({
 
         {step === "upload" && (
           <div className="flex flex-col items-center justify-center py-12 border-2 border-dashed rounded-lg">
-            {isParsingPDF ? (
+            {isParsingFile ? (
               <>
                 <Loader2 className="h-12 w-12 text-primary animate-spin mb-4" />
-                <p className="text-muted-foreground">Parsing PDF statement...</p>
+                <p className="text-muted-foreground">Reading {fileName}...</p>
               </>
             ) : (
               <>
@@ -483,13 +732,13 @@ export function StatementImportDialog({
                   Upload a statement from your bank or credit card
                 </p>
                 <p className="text-xs text-muted-foreground mb-4">
-                  Supports CSV and PDF formats
+                  Supports CSV, XLSX/ODS, OFX/QFX, QIF, camt.053 (XML), MT940 and PDF formats
                 </p>
                 <Label htmlFor="statement-file" className="cursor-pointer">
                   <Input
                     id="statement-file"
                     type="file"
-                    accept=".csv,.pdf"
+                    accept=".csv,.xlsx,.ods,.ofx,.qfx,.qif,.xml,.sta,.mt940,.940,.swi,.pdf"
                     className="hidden"
                     onChange={handleFileUpload}
                     data-testid="input-statement-file"
@@ -506,19 +755,38 @@ export function StatementImportDialog({
           </div>
         )}
 
-        {step === "mapping" && fileType === "csv" && (
+        {step === "mapping" && isMappedFileType(fileType) && (
           <div className="space-y-4">
             <div className="flex items-center justify-between gap-2 p-3 bg-muted rounded-lg">
               <div className="flex items-center gap-2">
                 <FileSpreadsheet className="h-4 w-4" />
                 <span className="text-sm font-medium">{fileName}</span>
                 <Badge variant="secondary">{csvData.length} rows</Badge>
+                {sheets.length > 1 && uploadedFile && (
+                  <Select
+                    value={selectedSheet}
+                    onValueChange={(sheet) => loadFile(uploadedFile, sheet)}
+                    disabled={isParsingFile}
+                  >
+                    <SelectTrigger className="h-8 w-[180px]" data-testid="select-worksheet">
+                      <SelectValue placeholder="Worksheet" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sheets.map((sheet) => (
+                        <SelectItem key={sheet} value={sheet}>
+                          {sheet}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
               <div className="flex items-center gap-2">
                 <Checkbox
                   id="has-headers"
                   checked={hasHeaders}
                   onCheckedChange={(checked) => handleHeaderToggle(!!checked)}
+                  disabled={isParsingFile}
                 />
                 <Label htmlFor="has-headers" className="text-sm cursor-pointer">
                   First row is header
@@ -531,7 +799,7 @@ export function StatementImportDialog({
                 <Label>Account *</Label>
                 <Select
                   value={selectedAccountId}
-                  onValueChange={setSelectedAccountId}
+                  onValueChange={selectMappingAccount}
                 >
                   <SelectTrigger data-testid="select-import-account">
                     <SelectValue placeholder="Select account" />
@@ -582,23 +850,90 @@ export function StatementImportDialog({
                 </Select>
               </div>
               <div>
-                <Label>Amount Column *</Label>
-                <Select
-                  value={mapping.amount}
-                  onValueChange={(v) => setMapping({ ...mapping, amount: v })}
-                >
-                  <SelectTrigger data-testid="select-amount-column">
-                    <SelectValue placeholder="Select column" />
+                <Label>Amounts</Label>
+                <Select value={amountColumns} onValueChange={(v) => setAmountColumns(v as AmountColumns)}>
+                  <SelectTrigger data-testid="select-amount-columns">
+                    <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {headers.map((header) => (
-                      <SelectItem key={header} value={header}>
-                        {header}
-                      </SelectItem>
-                    ))}
+                    <SelectItem value="single">One amount column</SelectItem>
+                    <SelectItem value="split">Separate debit and credit columns</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
+              {amountColumns === "single" ? (
+                <>
+                  <div>
+                    <Label>Amount Column *</Label>
+                    <Select
+                      value={mapping.amount}
+                      onValueChange={(v) => setMapping({ ...mapping, amount: v })}
+                    >
+                      <SelectTrigger data-testid="select-amount-column">
+                        <SelectValue placeholder="Select column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Positive Amounts Are</Label>
+                    <Select value={amountSign} onValueChange={(v) => setAmountSign(v as AmountSign)}>
+                      <SelectTrigger data-testid="select-amount-sign">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="positive_in">Money in</SelectItem>
+                        <SelectItem value="positive_out">Money spent (most card exports)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div>
+                    <Label>Debit Column *</Label>
+                    <Select
+                      value={mapping.debit ?? ""}
+                      onValueChange={(v) => setMapping({ ...mapping, debit: v })}
+                    >
+                      <SelectTrigger data-testid="select-debit-column">
+                        <SelectValue placeholder="Select column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Credit Column *</Label>
+                    <Select
+                      value={mapping.credit ?? ""}
+                      onValueChange={(v) => setMapping({ ...mapping, credit: v })}
+                    >
+                      <SelectTrigger data-testid="select-credit-column">
+                        <SelectValue placeholder="Select column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
               <div>
                 <Label>Category Column (optional)</Label>
                 <Select
@@ -618,6 +953,18 @@ export function StatementImportDialog({
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label>Date Order</Label>
+                <Select value={dateFormat} onValueChange={(v) => setDateFormat(v as DateFormat)}>
+                  <SelectTrigger data-testid="select-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mdy">Month/Day/Year</SelectItem>
+                    <SelectItem value="dmy">Day/Month/Year</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <div className="p-3 bg-muted/50 rounded-lg">
@@ -648,25 +995,53 @@ export function StatementImportDialog({
               </div>
             </div>
 
-            <div className="flex justify-end gap-2">
-              <Button variant="outline" onClick={() => setStep("upload")}>
-                Back
-              </Button>
-              <Button
-                onClick={handleMappingComplete}
-                disabled={!mapping.date || !mapping.description || !mapping.amount || !selectedAccountId}
-                data-testid="button-continue-mapping"
-              >
-                Continue
-                <ArrowRight className="h-4 w-4 ml-2" />
-              </Button>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                {hasHeaders && (
+                  <>
+                    <Checkbox
+                      id="remember-mapping"
+                      checked={rememberMapping}
+                      onCheckedChange={(checked) => setRememberMapping(!!checked)}
+                      data-testid="checkbox-remember-mapping"
+                    />
+                    <Label htmlFor="remember-mapping" className="text-sm cursor-pointer">
+                      Remember this mapping for the account
+                    </Label>
+                  </>
+                )}
+                {savedProfile && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => forgetProfileMutation.mutate(savedProfile.id)}
+                    disabled={forgetProfileMutation.isPending}
+                    data-testid="button-forget-mapping"
+                  >
+                    Forget saved mapping
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setStep("upload")}>
+                  Back
+                </Button>
+                <Button
+                  onClick={handleMappingComplete}
+                  disabled={!isMappingComplete(activeColumns(mapping, amountColumns)) || !selectedAccountId || isParsingFile}
+                  data-testid="button-continue-mapping"
+                >
+                  Continue
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              </div>
             </div>
           </div>
         )}
 
         {step === "preview" && (
           <div className="flex flex-col flex-1 min-h-0">
-            {fileType === "pdf" && !selectedAccountId && (
+            {!isMappedFileType(fileType) && !selectedAccountId && (
               <div className="mb-4">
                 <Label>Select Account *</Label>
                 <Select
@@ -687,6 +1062,47 @@ export function StatementImportDialog({
               </div>
             )}
 
+            {fileType === "qif" && uploadedFile && (
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                {qifAccounts.length > 1 && (
+                  <div>
+                    <Label>Account in File</Label>
+                    <Select
+                      value={qifAccountIndex.toString()}
+                      onValueChange={(v) => selectQifAccount(parseInt(v))}
+                    >
+                      <SelectTrigger data-testid="select-qif-account">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {qifAccounts.map((account, i) => (
+                          <SelectItem key={i} value={i.toString()}>
+                            {account.name ?? `Account ${i + 1}`} ({account.candidates.length})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div>
+                  <Label>Date Order</Label>
+                  <Select
+                    value={qifDateFormat}
+                    onValueChange={(v) => changeQifDateFormat(v as DateFormat)}
+                    disabled={isParsingFile}
+                  >
+                    <SelectTrigger data-testid="select-qif-date-format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mdy">Month/Day/Year</SelectItem>
+                      <SelectItem value="dmy">Day/Month/Year</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
             <div className="flex items-center gap-4 mb-4">
               <div className="flex items-center gap-2">
                 {fileType === "pdf" ? (
@@ -696,6 +1112,16 @@ export function StatementImportDialog({
                 )}
                 <span className="text-sm font-medium">{fileName}</span>
               </div>
+              {appliedProfile && (
+                <Badge variant="outline" data-testid="badge-import-profile">
+                  Saved mapping
+                </Badge>
+              )}
+              {pdfParser && (
+                <Badge variant="outline" data-testid="badge-pdf-parser">
+                  {pdfParser.id === "generic" ? "Generic layout" : `${pdfParser.name} statement`}
+                </Badge>
+              )}
               <Badge variant="default" className="gap-1">
                 <Check className="h-3 w-3" />
                 {validCount} valid
@@ -706,8 +1132,85 @@ export function StatementImportDialog({
                   {invalidCount} errors
                 </Badge>
               )}
+              {duplicateOf.size > 0 && (
+                <Badge variant="outline" className="gap-1" data-testid="badge-duplicates">
+                  <Copy className="h-3 w-3" />
+                  {duplicateOf.size} likely duplicates, {skippedCount} skipped
+                </Badge>
+              )}
+              {suggestedIndexes.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 gap-1 text-xs"
+                  onClick={() => acceptSuggestions(suggestedIndexes)}
+                  data-testid="button-accept-suggestions"
+                >
+                  <Sparkles className="h-3 w-3" />
+                  Use {suggestedIndexes.length} suggested categories
+                </Button>
+              )}
+              {totalsCheck && (
+                <Badge
+                  variant={totalsCheck.passed ? "default" : "destructive"}
+                  className="gap-1"
+                  title={`Balance ${formatMoney(totalsCheck.opening_balance)} to ${formatMoney(totalsCheck.closing_balance)}; transactions move it ${formatMoney(totalsCheck.transactions_change)}`}
+                  data-testid="badge-statement-totals"
+                >
+                  {totalsCheck.passed ? <Check className="h-3 w-3" /> : <AlertCircle className="h-3 w-3" />}
+                  {totalsCheck.passed
+                    ? "Totals match statement"
+                    : `Totals off by ${formatMoney(Math.abs(Number(totalsCheck.difference)))}, a line may be missing`}
+                </Badge>
+              )}
+              {openingBalance && (
+                <Badge variant="outline" data-testid="badge-opening-balance">
+                  Opening balance {openingBalance.amount < 0 ? "-" : ""}${Math.abs(openingBalance.amount).toFixed(2)} on {openingBalance.date}
+                </Badge>
+              )}
+              {balanceCheck && (
+                <Badge
+                  variant={balanceCheck.balanced ? "default" : "destructive"}
+                  className="gap-1"
+                  title={`Statement ${balanceCheck.statement_balance}, account after import ${balanceCheck.expected_balance}`}
+                  data-testid="badge-statement-balance"
+                >
+                  {balanceCheck.balanced ? <Check className="h-3 w-3" /> : <AlertCircle className="h-3 w-3" />}
+                  {balanceCheck.balanced
+                    ? `Closing balance matches on ${closingBalance!.date}`
+                    : `Closing balance off by $${Math.abs(Number(balanceCheck.difference)).toFixed(2)}`}
+                </Badge>
+              )}
+              {isCheckingDuplicates && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
             </div>
 
+            {statementSummary && Object.keys(statementSummary).length > 0 && (
+              <div
+                className="flex flex-wrap gap-x-4 gap-y-1 mb-4 text-xs text-muted-foreground"
+                data-testid="text-statement-summary"
+              >
+                {statementSummary.period_end && (
+                  <span>
+                    Period {statementSummary.period_start ? `${statementSummary.period_start} to ` : "ending "}
+                    {statementSummary.period_end}
+                  </span>
+                )}
+                {statementSummary.opening_balance !== undefined && (
+                  <span>Opening {formatMoney(statementSummary.opening_balance)}</span>
+                )}
+                {statementSummary.closing_balance !== undefined && (
+                  <span>Closing {formatMoney(statementSummary.closing_balance)}</span>
+                )}
+                {statementSummary.minimum_payment !== undefined && (
+                  <span>Minimum payment {formatMoney(statementSummary.minimum_payment)}</span>
+                )}
+                {statementSummary.payment_due_date && <span>Due {statementSummary.payment_due_date}</span>}
+                {statementSummary.credit_limit !== undefined && (
+                  <span>Credit limit {formatMoney(statementSummary.credit_limit)}</span>
+                )}
+              </div>
+            )}
+
             <ScrollArea className="flex-1 border rounded-lg">
               <Table>
                 <TableHeader>
@@ -723,23 +1226,60 @@ export function StatementImportDialog({
                   {parsedRows.slice(0, 100).map((row, i) => (
                     <TableRow
                       key={i}
-                      className={row.isValid ? "" : "bg-destructive/5"}
+                      className={!row.isValid ? "bg-destructive/5" : isSkipped(i) ? "opacity-60" : ""}
                     >
                       <TableCell>
-                        {row.isValid ? (
-                          <Check className="h-4 w-4 text-green-500" />
+                        {!row.isValid ? (
+                          <span title={row.error}>
+                            <AlertCircle className="h-4 w-4 text-destructive" />
+                          </span>
+                        ) : duplicateOf.has(i) ? (
+                          <Checkbox
+                            checked={!isSkipped(i)}
+                            onCheckedChange={(checked) => toggleDuplicate(i, !!checked)}
+                            aria-label="Import this row anyway"
+                            data-testid={`checkbox-include-duplicate-${i}`}
+                          />
                         ) : (
-                          <AlertCircle className="h-4 w-4 text-destructive" />
+                          <Check className="h-4 w-4 text-green-500" />
                         )}
                       </TableCell>
                       <TableCell className="text-sm">{row.date}</TableCell>
                       <TableCell className="text-sm max-w-[200px] truncate">
                         {row.description}
+                        {duplicateOf.has(i) && (
+                          <span className="block text-xs text-muted-foreground">
+                            Likely duplicate
+                            {duplicateOf.get(i)!.match === "fuzzy" ? " (date within a few days)" : ""}
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell>
-                        <Badge variant="secondary" className="text-xs">
-                          {row.category}
-                        </Badge>
+                        {suggestionFor(i) ? (
+                          <Badge
+                            variant="outline"
+                            className="text-xs gap-1 cursor-pointer"
+                            title={`Suggested from your transactions: ${suggestionFor(i)!.type} use (${formatConfidence(suggestionFor(i)!.type_confidence)}). Click to use it`}
+                            onClick={() => acceptSuggestions([i])}
+                            data-testid={`badge-suggestion-${i}`}
+                          >
+                            <Sparkles className="h-3 w-3" />
+                            {suggestionFor(i)!.subcategory} {formatConfidence(suggestionFor(i)!.confidence)}
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary" className="text-xs">
+                            {row.category || "Uncategorized"}
+                          </Badge>
+                        )}
+                        {row.splits && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs ml-1"
+                            title={row.splits.map((split) => `${split.subcategory}: ${split.amount.toFixed(2)}`).join(", ")}
+                          >
+                            Split ({row.splits.length})
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell
                         className={`text-right font-mono text-sm ${
@@ -761,12 +1301,12 @@ export function StatementImportDialog({
             </ScrollArea>
 
             <div className="flex justify-end gap-2 mt-4">
-              <Button variant="outline" onClick={() => setStep(fileType === "pdf" ? "upload" : "mapping")}>
+              <Button variant="outline" onClick={() => setStep(isMappedFileType(fileType) ? "mapping" : "upload")}>
                 Back
               </Button>
               <Button
                 onClick={() => importMutation.mutate()}
-                disabled={validCount === 0 || importMutation.isPending || !selectedAccountId}
+                disabled={importCount === 0 || importMutation.isPending || isCheckingDuplicates || !selectedAccountId}
                 data-testid="button-import-transactions"
               >
                 {importMutation.isPending ? (
@@ -776,7 +1316,7 @@ export function StatementImportDialog({
                   </>
                 ) : (
                   <>
-                    Import {validCount} Transactions
+                    Import {importCount} Transactions
                     <ArrowRight className="h-4 w-4 ml-2" />
                   </>
                 )}
@@ -792,7 +1332,7 @@ export function StatementImportDialog({
             </div>
             <h3 className="text-lg font-semibold mb-2">Import Complete!</h3>
             <p className="text-muted-foreground mb-6">
-              Successfully imported {validCount} transactions
+              Successfully imported {importCount} transactions
             </p>
             <Button onClick={() => onOpenChange(false)} data-testid="button-close-import">
               Close
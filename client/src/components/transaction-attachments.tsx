@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { fetchWithAuth } from "@/lib/api";
+import { ExternalLink, FileText, Loader2, Paperclip, Trash2 } from "lucide-react";
+import type { AttachmentRow, TransactionRow } from "@/lib/api-types";
+
+const ACCEPTED_TYPES = "image/jpeg,image/png,image/gif,image/webp,image/heic,application/pdf";
+const MAX_THUMBNAILS = 3;
+
+// Attachment content needs the auth header, so it is fetched as a blob and
+// shown through an object URL that is released on unmount.
+function useAttachmentUrl(attachment: AttachmentRow | null): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    fetchWithAuth(`/api/attachments/${attachment.id}/content`)
+      .then((res) => (res.ok ? res.blob() : null))
+      .then((blob) => {
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => setUrl(null));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [attachment?.id]);
+
+  return url;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function Thumbnail({ attachment, onClick }: { attachment: AttachmentRow; onClick: () => void }) {
+  const isImage = attachment.content_type.startsWith("image/");
+  const url = useAttachmentUrl(isImage ? attachment : null);
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="flex h-8 w-8 items-center justify-center overflow-hidden rounded border bg-muted"
+      title={attachment.file_name}
+      data-testid={`thumbnail-attachment-${attachment.id}`}
+    >
+      {isImage && url ? (
+        <img src={url} alt={attachment.file_name} className="h-full w-full object-cover" />
+      ) : (
+        <FileText className="h-4 w-4 text-muted-foreground" />
+      )}
+    </button>
+  );
+}
+
+function AttachmentPreviewDialog({ attachment, onClose }: { attachment: AttachmentRow | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const url = useAttachmentUrl(attachment);
+
+  const deleteAttachmentMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/attachments/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      onClose();
+      toast({ title: "Attachment deleted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete attachment", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!attachment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">{attachment?.file_name}</DialogTitle>
+          <DialogDescription>{attachment && formatSize(attachment.size)}</DialogDescription>
+        </DialogHeader>
+        <div className="flex min-h-[200px] items-center justify-center rounded-md bg-muted">
+          {!url ? (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          ) : attachment?.content_type.startsWith("image/") ? (
+            <img src={url} alt={attachment.file_name} className="max-h-[60vh] object-contain" />
+          ) : (
+            <iframe src={url} title={attachment?.file_name} className="h-[60vh] w-full rounded-md" />
+          )}
+        </div>
+        <div className="flex justify-between gap-4">
+          <Button
+            variant="destructive"
+            onClick={() => attachment && deleteAttachmentMutation.mutate(attachment.id)}
+            disabled={deleteAttachmentMutation.isPending}
+            data-testid="button-delete-attachment"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+          <Button variant="outline" asChild disabled={!url}>
+            <a href={url ?? undefined} target="_blank" rel="noreferrer" data-testid="link-open-attachment">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Open
+            </a>
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Receipt thumbnails for a transaction table row, with an upload button.
+// Transfer legs are rewritten with their transfer, so they take no uploads.
+export function TransactionAttachments({ transaction }: { transaction: TransactionRow }) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [previewing, setPreviewing] = useState<AttachmentRow | null>(null);
+  const attachments = transaction.attachments || [];
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetchWithAuth(`/api/transactions/${transaction.id}/attachments`, {
+        method: "POST",
+        body: formData,
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to upload attachment");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({ title: "Attachment uploaded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to upload attachment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-1">
+      {attachments.slice(0, MAX_THUMBNAILS).map((attachment) => (
+        <Thumbnail key={attachment.id} attachment={attachment} onClick={() => setPreviewing(attachment)} />
+      ))}
+      {attachments.length > MAX_THUMBNAILS && (
+        <button
+          type="button"
+          className="text-xs text-muted-foreground"
+          onClick={() => setPreviewing(attachments[MAX_THUMBNAILS])}
+        >
+          +{attachments.length - MAX_THUMBNAILS}
+        </button>
+      )}
+      {transaction.transfer_id == null && (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            data-testid={`button-attach-${transaction.id}`}
+          >
+            {uploadMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Paperclip className="h-3 w-3" />}
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPTED_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) uploadMutation.mutate(file);
+              e.target.value = "";
+            }}
+          />
+        </>
+      )}
+      <AttachmentPreviewDialog attachment={previewing} onClose={() => setPreviewing(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ManageTagsDialog } from "@/components/manage-tags-dialog";
+import { CategoryRulesDialog } from "@/components/category-rules-dialog";
+import { AiCategorizationDialog } from "@/components/ai-categorization-dialog";
+import type { TagCount } from "@/components/transaction-tags";
+import type { TransactionFilters } from "@/hooks/use-transaction-pages";
+import { Bookmark, ListChecks, Search, Tags, Trash2, Wand2, X } from "lucide-react";
+import type { SavedView } from "@shared/schema";
+
+// The filters a user can set from the bar and store in a saved view. Views
+// saved through the API may carry any other GET /api/transactions parameter.
+export type ViewFilters = Omit<TransactionFilters, "accountIds" | "limit">;
+
+const ALL = "__all";
+
+function sameFilters(a: ViewFilters, b: ViewFilters): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof ViewFilters>;
+  return Array.from(keys).every((key) => (a[key] || "") === (b[key] || ""));
+}
+
+function withoutEmpty(filters: ViewFilters): ViewFilters {
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined && value !== ""));
+}
+
+interface TransactionFilterBarProps {
+  scope: "personal" | "business";
+  filters: ViewFilters;
+  onChange: (filters: ViewFilters) => void;
+}
+
+export function TransactionFilterBar({ scope, filters, onChange }: TransactionFilterBarProps) {
+  const { toast } = useToast();
+  const [search, setSearch] = useState(filters.q || "");
+  const [activeViewId, setActiveViewId] = useState<number | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [viewName, setViewName] = useState("");
+  const [manageTagsOpen, setManageTagsOpen] = useState(false);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [aiCategorizationOpen, setAiCategorizationOpen] = useState(false);
+
+  useEffect(() => setSearch(filters.q || ""), [filters.q]);
+
+  const { data: tags } = useQuery<TagCount[]>({ queryKey: ["/api/tags"] });
+  const { data: savedViews } = useQuery<SavedView[]>({ queryKey: ["/api/saved-views"] });
+
+  const views = savedViews?.filter((v) => v.scope === scope) || [];
+  const activeView = views.find((v) => v.id === activeViewId);
+  const isModified = activeView !== undefined && !sameFilters(activeView.filters as ViewFilters, filters);
+  const hasFilters = Object.keys(withoutEmpty(filters)).length > 0;
+
+  const setFilter = (key: keyof ViewFilters, value: string) => onChange(withoutEmpty({ ...filters, [key]: value }));
+
+  const saveViewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/saved-views", { name: viewName, scope, filters: withoutEmpty(filters) });
+      return (await res.json()) as SavedView;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+      setActiveViewId(view.id);
+      setSaveDialogOpen(false);
+      setViewName("");
+      toast({ title: "View saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: error.message.startsWith("409") ? "A view with this name already exists" : "Failed to save view",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateViewMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("PATCH", `/api/saved-views/${id}`, { filters: withoutEmpty(filters) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+      toast({ title: "View updated" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update view", variant: "destructive" });
+    },
+  });
+
+  const deleteViewMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/saved-views/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+      setActiveViewId(null);
+      toast({ title: "View deleted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete view", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <form
+          className="relative flex-1 min-w-[180px]"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setFilter("q", search);
+          }}
+        >
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onBlur={() => search !== (filters.q || "") && setFilter("q", search)}
+            placeholder="Search descriptions"
+            className="pl-8"
+            data-testid={`input-${scope}-search`}
+          />
+        </form>
+        <Select value={filters.tag || ALL} onValueChange={(value) => setFilter("tag", value === ALL ? "" : value)}>
+          <SelectTrigger className="w-[180px]" data-testid={`select-${scope}-tag`}>
+            <SelectValue placeholder="All tags" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All tags</SelectItem>
+            {filters.tag && !tags?.some((t) => t.tag === filters.tag) && (
+              <SelectItem value={filters.tag}>{filters.tag}</SelectItem>
+            )}
+            {tags?.map(({ tag, count }) => (
+              <SelectItem key={tag} value={tag}>
+                {tag} ({count})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={filters.startDate || ""}
+          onChange={(e) => setFilter("startDate", e.target.value)}
+          className="w-[150px]"
+          aria-label="From date"
+          data-testid={`input-${scope}-start-date`}
+        />
+        <Input
+          type="date"
+          value={filters.endDate || ""}
+          onChange={(e) => setFilter("endDate", e.target.value)}
+          className="w-[150px]"
+          aria-label="To date"
+          data-testid={`input-${scope}-end-date`}
+        />
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setActiveViewId(null);
+              onChange({});
+            }}
+            data-testid={`button-${scope}-clear-filters`}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={activeViewId?.toString() || ""}
+          onValueChange={(value) => {
+            const view = views.find((v) => v.id.toString() === value);
+            if (!view) return;
+            setActiveViewId(view.id);
+            onChange(view.filters as ViewFilters);
+          }}
+        >
+          <SelectTrigger className="w-[200px]" data-testid={`select-${scope}-saved-view`}>
+            <SelectValue placeholder={views.length > 0 ? "Saved views" : "No saved views"} />
+          </SelectTrigger>
+          <SelectContent>
+            {views.map((view) => (
+              <SelectItem key={view.id} value={view.id.toString()}>
+                {view.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {activeView && isModified && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateViewMutation.mutate(activeView.id)}
+            disabled={updateViewMutation.isPending}
+            data-testid={`button-${scope}-update-view`}
+          >
+            Update "{activeView.name}"
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setSaveDialogOpen(true)}
+          disabled={!hasFilters}
+          data-testid={`button-${scope}-save-view`}
+        >
+          <Bookmark className="h-4 w-4 mr-1" />
+          Save view
+        </Button>
+        {activeView && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={() => deleteViewMutation.mutate(activeView.id)}
+            disabled={deleteViewMutation.isPending}
+            data-testid={`button-${scope}-delete-view`}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete view
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={() => setManageTagsOpen(true)}
+          data-testid={`button-${scope}-manage-tags`}
+        >
+          <Tags className="h-4 w-4 mr-1" />
+          Manage tags
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setRulesOpen(true)}
+          data-testid={`button-${scope}-category-rules`}
+        >
+          <ListChecks className="h-4 w-4 mr-1" />
+          Rules
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setAiCategorizationOpen(true)}
+          data-testid={`button-${scope}-ai-categorization`}
+        >
+          <Wand2 className="h-4 w-4 mr-1" />
+          AI categorize
+        </Button>
+      </div>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>Keep the current filters under a name to reopen them later</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (viewName.trim()) saveViewMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor={`${scope}-view-name`}>Name</Label>
+              <Input
+                id={`${scope}-view-name`}
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                placeholder="e.g. Tax deductible 2026"
+                data-testid={`input-${scope}-view-name`}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={!viewName.trim() || saveViewMutation.isPending}
+                data-testid={`button-${scope}-confirm-save-view`}
+              >
+                {saveViewMutation.isPending ? "Saving..." : "Save View"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ManageTagsDialog open={manageTagsOpen} onClose={() => setManageTagsOpen(false)} />
+      <CategoryRulesDialog open={rulesOpen} onClose={() => setRulesOpen(false)} />
+      <AiCategorizationDialog open={aiCategorizationOpen} onClose={() => setAiCategorizationOpen(false)} />
+    </div>
+  );
+}
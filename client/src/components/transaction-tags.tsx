@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Tag, X } from "lucide-react";
+import type { TransactionRow } from "@/lib/api-types";
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Tag badges for a transaction table row, with a popover to add and remove
+// tags. Transfer legs are rewritten with their transfer, so they show no editor.
+export function TransactionTags({ transaction }: { transaction: TransactionRow }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+  const tags = transaction.tags || [];
+
+  const { data: allTags } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+
+  const saveTagsMutation = useMutation({
+    mutationFn: async (next: string[]) => apiRequest("PATCH", `/api/transactions/${transaction.id}`, { tags: next }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      setDraft("");
+    },
+    onError: () => {
+      toast({ title: "Failed to update tags", variant: "destructive" });
+    },
+  });
+
+  const addTag = (tag: string) => {
+    const normalized = tag.trim().toLowerCase();
+    if (!normalized || tags.includes(normalized)) return;
+    saveTagsMutation.mutate([...tags, normalized]);
+  };
+
+  const suggestions = (allTags || [])
+    .map((t) => t.tag)
+    .filter((t) => !tags.includes(t) && t.includes(draft.trim().toLowerCase()))
+    .slice(0, 8);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map((tag) => (
+        <Badge key={tag} variant="outline" className="text-xs">
+          {tag}
+        </Badge>
+      ))}
+      {transaction.transfer_id == null && (
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-6 w-6" data-testid={`button-tags-${transaction.id}`}>
+              <Tag className="h-3 w-3" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-3" align="start">
+            <div className="flex flex-wrap gap-1">
+              {tags.length === 0 && <span className="text-xs text-muted-foreground">No tags yet</span>}
+              {tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="gap-1 text-xs">
+                  {tag}
+                  <button
+                    type="button"
+                    onClick={() => saveTagsMutation.mutate(tags.filter((t) => t !== tag))}
+                    disabled={saveTagsMutation.isPending}
+                    aria-label={`Remove ${tag}`}
+                    data-testid={`button-remove-tag-${transaction.id}-${tag}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addTag(draft);
+              }}
+            >
+              <Input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value.replace(/,/g, ""))}
+                placeholder="Add a tag"
+                maxLength={40}
+                className="h-8"
+                data-testid={`input-tag-${transaction.id}`}
+              />
+              <Button type="submit" size="icon" className="h-8 w-8 shrink-0" disabled={saveTagsMutation.isPending}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant="outline"
+                    className="cursor-pointer text-xs"
+                    onClick={() => addTag(tag)}
+                  >
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
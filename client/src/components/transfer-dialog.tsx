@@ -0,0 +1,247 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { deletionIdOf, useUndoToast } from "@/hooks/use-undo-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Trash2 } from "lucide-react";
+import type { Account } from "@shared/schema";
+import type { TransferRow } from "@/lib/api-types";
+
+const transferFormSchema = z
+  .object({
+    fromAccountId: z.string().min(1, "Choose an account"),
+    toAccountId: z.string().min(1, "Choose an account"),
+    amount: z.string().refine((v) => parseFloat(v) > 0, "Enter a positive amount"),
+    description: z.string().min(1, "Description is required"),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Enter a date"),
+  })
+  .refine((data) => data.fromAccountId !== data.toAccountId, {
+    message: "Choose two different accounts",
+    path: ["toAccountId"],
+  });
+
+type TransferFormValues = z.infer<typeof transferFormSchema>;
+
+interface TransferDialogProps {
+  open: boolean;
+  // Set to edit an existing transfer, null to create a new one
+  transferId: number | null;
+  accounts: Account[];
+  onClose: () => void;
+}
+
+function emptyForm(): TransferFormValues {
+  return {
+    fromAccountId: "",
+    toAccountId: "",
+    amount: "",
+    description: "Transfer",
+    date: format(new Date(), "yyyy-MM-dd"),
+  };
+}
+
+export function TransferDialog({ open, transferId, accounts, onClose }: TransferDialogProps) {
+  const { toast } = useToast();
+  const showUndoToast = useUndoToast();
+
+  const { data: transfer } = useQuery<TransferRow>({
+    queryKey: ["/api/transfers", transferId],
+    enabled: open && transferId !== null,
+  });
+
+  const form = useForm<TransferFormValues>({
+    resolver: zodResolver(transferFormSchema),
+    defaultValues: emptyForm(),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    if (transferId === null) {
+      form.reset(emptyForm());
+    } else if (transfer) {
+      form.reset({
+        fromAccountId: transfer.from_account_id.toString(),
+        toAccountId: transfer.to_account_id.toString(),
+        amount: transfer.amount,
+        description: transfer.description,
+        date: transfer.date,
+      });
+    }
+  }, [open, transferId, transfer, form]);
+
+  const onSuccess = (title: string, deletionId: number | null = null) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+    onClose();
+    showUndoToast(title, deletionId);
+  };
+
+  const saveTransferMutation = useMutation({
+    mutationFn: async (data: TransferFormValues) => {
+      const body = {
+        from_account_id: parseInt(data.fromAccountId),
+        to_account_id: parseInt(data.toAccountId),
+        amount: data.amount,
+        description: data.description,
+        date: data.date,
+      };
+      return transferId === null
+        ? apiRequest("POST", "/api/transfers", body)
+        : apiRequest("PATCH", `/api/transfers/${transferId}`, body);
+    },
+    onSuccess: () => onSuccess(transferId === null ? "Transfer recorded" : "Transfer updated"),
+    onError: () => {
+      toast({ title: "Failed to save transfer", variant: "destructive" });
+    },
+  });
+
+  const deleteTransferMutation = useMutation({
+    mutationFn: async () => deletionIdOf(await apiRequest("DELETE", `/api/transfers/${transferId}`)),
+    onSuccess: (deletionId) => onSuccess("Transfer deleted", deletionId),
+    onError: () => {
+      toast({ title: "Failed to delete transfer", variant: "destructive" });
+    },
+  });
+
+  const accountSelect = (name: "fromAccountId" | "toAccountId", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger data-testid={`select-transfer-${name === "fromAccountId" ? "from" : "to"}`}>
+                <SelectValue placeholder="Select account" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id.toString()}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{transferId === null ? "New Transfer" : "Edit Transfer"}</DialogTitle>
+          <DialogDescription>
+            Moves money between two of your accounts without counting as income or spending
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => saveTransferMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-2 gap-4">
+              {accountSelect("fromAccountId", "From")}
+              {accountSelect("toAccountId", "To")}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} data-testid="input-transfer-amount" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-transfer-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-transfer-description" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className={`flex gap-4 ${transferId === null ? "justify-end" : "justify-between"}`}>
+              {transferId !== null && (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  onClick={() => deleteTransferMutation.mutate()}
+                  disabled={deleteTransferMutation.isPending}
+                  data-testid="button-delete-transfer"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Transfer
+                </Button>
+              )}
+              <Button
+                type="submit"
+                disabled={saveTransferMutation.isPending}
+                data-testid="button-save-transfer"
+              >
+                {saveTransferMutation.isPending ? "Saving..." : "Save Transfer"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
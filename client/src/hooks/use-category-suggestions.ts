@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface CategorySuggestion {
+  subcategory: string;
+  type: "personal" | "business";
+  confidence: number;
+  type_confidence: number;
+}
+
+// Subcategory suggestions learned from the user's categorized transactions,
+// one per description (null where there is nothing to go on)
+export function useCategorySuggestions(descriptions: string[], enabled = true) {
+  const { data } = useQuery<{ suggestions: (CategorySuggestion | null)[] }>({
+    queryKey: ["/api/transactions/suggest-categories", descriptions],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/transactions/suggest-categories", {
+        transactions: descriptions.map((description) => ({ description })),
+      });
+      return res.json();
+    },
+    enabled: enabled && descriptions.some((description) => description.trim() !== ""),
+  });
+  return data?.suggestions ?? [];
+}
+
+export function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
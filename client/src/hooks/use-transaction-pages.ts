@@ -0,0 +1,64 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { TransactionRow } from "@/lib/api-types";
+
+export interface TransactionFilters {
+  accountIds?: number[];
+  startDate?: string;
+  endDate?: string;
+  minAmount?: string;
+  maxAmount?: string;
+  category?: string;
+  subcategory?: string;
+  q?: string;
+  // Comma-separated; rows must carry every tag
+  tag?: string;
+  sort?: "date" | "amount";
+  order?: "asc" | "desc";
+  limit?: number;
+}
+
+export interface TransactionTotals {
+  count: number;
+  income: string;
+  expenses: string;
+  net: string;
+}
+
+interface TransactionPage {
+  transactions: TransactionRow[];
+  next_cursor: string | null;
+  totals: TransactionTotals;
+}
+
+function toSearchParams(filters: TransactionFilters, cursor: string | null): URLSearchParams {
+  const params = new URLSearchParams();
+  const { accountIds, ...rest } = filters;
+  if (accountIds) params.set("accountId", accountIds.join(","));
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  if (cursor) params.set("cursor", cursor);
+  return params;
+}
+
+// Loads transactions a page at a time from GET /api/transactions. The key
+// sits under "/api/transactions", so existing invalidations refresh it.
+export function useTransactionPages(filters: TransactionFilters, options: { enabled?: boolean } = {}) {
+  const query = useInfiniteQuery({
+    queryKey: ["/api/transactions", filters],
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest("GET", `/api/transactions?${toSearchParams(filters, pageParam)}`);
+      return (await res.json()) as TransactionPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+    enabled: options.enabled,
+  });
+
+  return {
+    ...query,
+    transactions: query.data?.pages.flatMap((page) => page.transactions) ?? [],
+    totals: query.data?.pages[0]?.totals,
+  };
+}
@@ -0,0 +1,66 @@
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Everything a restore can bring back
+const RESTORED_QUERIES = [
+  "/api/accounts",
+  "/api/transactions",
+  "/api/transfers",
+  "/api/obligations",
+  "/api/tags",
+  "/api/trash",
+  "/api/import-batches",
+];
+
+export function invalidateRestoredQueries() {
+  for (const key of RESTORED_QUERIES) {
+    queryClient.invalidateQueries({ queryKey: [key] });
+  }
+}
+
+// Deletes answer with the id of the trash entry they created, or 204 when
+// there was nothing to delete.
+export async function deletionIdOf(res: Response): Promise<number | null> {
+  if (res.status === 204) return null;
+  const body = await res.json();
+  return body.deletion_id ?? null;
+}
+
+// Shows the confirmation toast of a delete with an Undo button that restores
+// the trash entry it created.
+export function useUndoToast() {
+  const { toast } = useToast();
+
+  const restore = async (deletionId: number) => {
+    try {
+      await apiRequest("POST", `/api/trash/${deletionId}/restore`);
+      invalidateRestoredQueries();
+      toast({ title: "Restored" });
+    } catch (error) {
+      toast({
+        title: "Failed to restore",
+        description: error instanceof Error && error.message.startsWith("409")
+          ? "Restore the account these records belong to from the trash first"
+          : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (title: string, deletionId: number | null) => {
+    if (deletionId === null) {
+      toast({ title });
+      return;
+    }
+    toast({
+      title,
+      description: "Moved to trash for 30 days",
+      action: (
+        <ToastAction altText="Undo" onClick={() => restore(deletionId)} data-testid="button-undo-delete">
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+}
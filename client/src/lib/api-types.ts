@@ -0,0 +1,49 @@
+// Records as the API sends them. The server returns snake_case rows (see
+// server/storage.ts), not the camelCase Drizzle types in @shared/schema.
+
+export interface TransactionSplitRow {
+  id: number;
+  transaction_id: number;
+  amount: string;
+  subcategory: string;
+  type: "personal" | "business";
+}
+
+export interface AttachmentRow {
+  id: number;
+  transaction_id: number;
+  file_name: string;
+  content_type: string;
+  size: number;
+  created_at: string;
+}
+
+export interface TransactionRow {
+  id: number;
+  account_id: number;
+  description: string;
+  amount: string;
+  category: string;
+  subcategory?: string | null;
+  date: string;
+  // Set on both legs of a transfer between the user's accounts
+  transfer_id?: number | null;
+  tags: string[];
+  import_batch_id?: number | null;
+  external_id?: string | null;
+  created_at: string;
+  splits: TransactionSplitRow[];
+  attachments: AttachmentRow[];
+}
+
+export interface TransferRow {
+  id: number;
+  from_account_id: number;
+  to_account_id: number;
+  amount: string;
+  description: string;
+  date: string;
+  created_at: string;
+  // The two legs: a debit on the source account and a credit on the target
+  transactions: TransactionRow[];
+}
@@ -5,7 +5,8 @@ export async function fetchWithAuth(url: string, options: RequestInit = {}) {
 
   const headers = {
     ...options.headers,
-    'Content-Type': 'application/json',
+    // FormData bodies need the browser to set the multipart boundary
+    ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
   };
 
   if (session?.access_token) {
@@ -1,4 +1,5 @@
 import type { Account } from "@shared/schema";
+import type { TransactionRow } from "./api-types";
 
 export interface FinancialTotals {
   totalCreditLimit: number;
@@ -52,3 +53,29 @@ export function formatCurrency(value: string | number): string {
     currency: "USD",
   }).format(num);
 }
+
+// Transfers move money between the user's own accounts, so they are neither
+// income nor spending.
+export function isTransfer(transaction: TransactionRow): boolean {
+  return transaction.transfer_id != null;
+}
+
+// Spending per subcategory. Split transactions count each split line under its
+// own subcategory instead of the whole amount under the transaction's.
+export function spendingByCategory(transactions: TransactionRow[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  const add = (category: string | null | undefined, amount: string) => {
+    const cat = category || "Other";
+    totals[cat] = (totals[cat] || 0) + Math.abs(parseFloat(amount));
+  };
+
+  for (const t of transactions) {
+    if (isTransfer(t) || parseFloat(t.amount) >= 0) continue;
+    if (t.splits?.length) {
+      t.splits.forEach((split) => add(split.subcategory, split.amount));
+    } else {
+      add(t.subcategory, t.amount);
+    }
+  }
+  return totals;
+}
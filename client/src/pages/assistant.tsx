@@ -21,7 +21,9 @@ import {
   Target,
 } from "lucide-react";
 import { format, parseISO } from "date-fns";
-import type { Conversation, Message, Account, Transaction, Obligation } from "@shared/schema";
+import type { Conversation, Message, Account, Obligation } from "@shared/schema";
+import type { TransactionRow } from "@/lib/api-types";
+import { isTransfer, spendingByCategory } from "@/lib/finance-calculations";
 
 const suggestionChips = [
   { label: "Analyze my spending", icon: TrendingUp },
@@ -145,7 +147,7 @@ export default function Assistant() {
     queryKey: ["/api/accounts"],
   });
 
-  const { data: transactions } = useQuery<Transaction[]>({
+  const { data: transactions } = useQuery<TransactionRow[]>({
     queryKey: ["/api/transactions"],
   });
 
@@ -194,7 +196,8 @@ export default function Assistant() {
   const buildFinancialContext = () => {
     const personalAccounts = accounts?.filter((a) => a.type === "personal") || [];
     const businessAccounts = accounts?.filter((a) => a.type === "business") || [];
-    const recentTransactions = transactions?.slice(0, 20) || [];
+    // Transfers between the user's own accounts are not spending
+    const recentTransactions = transactions?.filter((t) => !isTransfer(t)).slice(0, 20) || [];
     const pendingObligations = obligations?.filter((o) => !o.isPaid) || [];
 
     const personalBalance = personalAccounts.reduce(
@@ -206,20 +209,14 @@ export default function Assistant() {
       0
     );
 
-    const spendingByCategory: Record<string, number> = {};
-    recentTransactions
-      .filter((t) => parseFloat(t.amount) < 0)
-      .forEach((t) => {
-        const cat = t.subcategory || "Other";
-        spendingByCategory[cat] = (spendingByCategory[cat] || 0) + Math.abs(parseFloat(t.amount));
-      });
+    const recentSpending = spendingByCategory(recentTransactions);
 
     return `
 Financial Context:
 - Personal Accounts: ${personalAccounts.length} (Total: $${personalBalance.toFixed(2)})
 - Business Accounts: ${businessAccounts.length} (Total: $${businessBalance.toFixed(2)})
 - Credit Scores: ${accounts?.filter((a) => a.creditScore).map((a) => `${a.name}: ${a.creditScore}`).join(", ") || "None recorded"}
-- Recent Spending Categories: ${Object.entries(spendingByCategory).map(([k, v]) => `${k}: $${v.toFixed(2)}`).join(", ") || "None"}
+- Recent Spending Categories: ${Object.entries(recentSpending).map(([k, v]) => `${k}: $${v.toFixed(2)}`).join(", ") || "None"}
 - Pending Obligations: ${pendingObligations.length} totaling $${pendingObligations.reduce((s, o) => s + parseFloat(o.amount), 0).toFixed(2)}
 `.trim();
   };
@@ -55,8 +55,17 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
+import { deletionIdOf, useUndoToast } from "@/hooks/use-undo-toast";
+import { useTransactionPages } from "@/hooks/use-transaction-pages";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { CSVImportDialog } from "@/components/statement-import-dialog";
+import { ReconcileAccountPanel } from "@/components/reconcile-account-panel";
+import { RecordHistoryPanel } from "@/components/record-history";
+import { EditTransactionDialog } from "@/components/edit-transaction-dialog";
+import { TransferDialog } from "@/components/transfer-dialog";
+import { TransactionFilterBar, type ViewFilters } from "@/components/transaction-filter-bar";
+import { TransactionTags } from "@/components/transaction-tags";
+import { TransactionAttachments } from "@/components/transaction-attachments";
 import {
   Plus,
   Briefcase,
@@ -71,9 +80,12 @@ import {
   ChevronRight,
   Trash2,
   Settings,
+  Pencil,
+  ArrowLeftRight,
 } from "lucide-react";
 import { format, parseISO, subMonths, addMonths } from "date-fns";
-import type { Account, Transaction } from "@shared/schema";
+import type { Account } from "@shared/schema";
+import type { TransactionRow } from "@/lib/api-types";
 import { calculateFinancialTotals, formatCurrency } from "@/lib/finance-calculations";
 
 const accountFormSchema = z.object({
@@ -106,12 +118,12 @@ interface StatementPeriod {
   label: string;
   startDate: string;
   endDate: string;
-  transactions: Transaction[];
+  transactions: TransactionRow[];
   total: number;
 }
 
 function getStatementPeriods(
-  transactions: Transaction[],
+  transactions: TransactionRow[],
   statementDay: number = 1
 ): StatementPeriod[] {
   if (transactions.length === 0) return [];
@@ -230,21 +242,30 @@ export default function BusinessFinances() {
   const [expandedPeriods, setExpandedPeriods] = useState<Set<string>>(new Set());
   const [deleteConfirm, setDeleteConfirm] = useState<{ period: StatementPeriod; accountId: number } | null>(null);
   const [deleteAccountConfirm, setDeleteAccountConfirm] = useState<number | null>(null);
+  const [editingTransaction, setEditingTransaction] = useState<TransactionRow | null>(null);
+  const [transferDialog, setTransferDialog] = useState<{ transferId: number | null } | null>(null);
+  const [viewFilters, setViewFilters] = useState<ViewFilters>({});
   const { toast } = useToast();
+  const showUndoToast = useUndoToast();
 
   const { data: accounts, isLoading: accountsLoading } = useQuery<Account[]>({
     queryKey: ["/api/accounts"],
   });
 
-  const { data: transactions, isLoading: transactionsLoading } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
-  });
-
   const businessAccounts = accounts?.filter((a) => a.type === "business") || [];
-  const businessTransactions = transactions?.filter((t) =>
-    businessAccounts.some((a) => a.id === t.accountId)
-  ) || [];
+  const {
+    transactions: businessTransactions,
+    totals: transactionTotals,
+    isLoading: transactionsLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useTransactionPages(
+    { accountIds: businessAccounts.map((a) => a.id), limit: 200, ...viewFilters },
+    { enabled: businessAccounts.length > 0 }
+  );
 
+  const hasViewFilters = Object.keys(viewFilters).length > 0;
   const financials = calculateFinancialTotals(businessAccounts);
 
   const accountForm = useForm({
@@ -307,12 +328,13 @@ export default function BusinessFinances() {
 
   const deleteAccountMutation = useMutation({
     mutationFn: async (id: number) => {
-      return apiRequest("DELETE", `/api/accounts/${id}`);
+      return deletionIdOf(await apiRequest("DELETE", `/api/accounts/${id}`));
     },
-    onSuccess: () => {
+    onSuccess: (deletionId) => {
       queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       setDeleteAccountConfirm(null);
-      toast({ title: "Account deleted successfully" });
+      showUndoToast("Account deleted", deletionId);
     },
     onError: () => {
       toast({ title: "Failed to delete account", variant: "destructive" });
@@ -321,16 +343,18 @@ export default function BusinessFinances() {
 
   const deleteStatementMutation = useMutation({
     mutationFn: async ({ accountId, startDate, endDate }: { accountId: number; startDate: string; endDate: string }) => {
-      return apiRequest("DELETE", "/api/transactions/by-date-range", {
+      const res = await apiRequest("DELETE", "/api/transactions/by-date-range", {
         accountId,
         startDate,
         endDate,
       });
+      return (await res.json()) as { deleted: number; deletion_id: number | null };
     },
-    onSuccess: () => {
+    onSuccess: ({ deletion_id }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       setDeleteConfirm(null);
-      toast({ title: "Statement transactions deleted" });
+      showUndoToast("Statement transactions deleted", deletion_id);
     },
     onError: () => {
       toast({ title: "Failed to delete transactions", variant: "destructive" });
@@ -363,7 +387,7 @@ export default function BusinessFinances() {
   };
 
   const transactionsByAccount = businessAccounts.map((account) => {
-    const accountTransactions = businessTransactions.filter((t) => t.accountId === account.id);
+    const accountTransactions = businessTransactions.filter((t) => t.account_id === account.id);
     const periods = getStatementPeriods(accountTransactions, account.statementDay || 1);
     return { account, periods };
   });
@@ -547,6 +571,16 @@ export default function BusinessFinances() {
             Import Statement
           </Button>
 
+          <Button
+            variant="outline"
+            onClick={() => setTransferDialog({ transferId: null })}
+            disabled={(accounts?.length ?? 0) < 2}
+            data-testid="button-new-transfer"
+          >
+            <ArrowLeftRight className="h-4 w-4 mr-2" />
+            Transfer
+          </Button>
+
           <CSVImportDialog
             open={importDialogOpen}
             onOpenChange={setImportDialogOpen}
@@ -646,6 +680,12 @@ export default function BusinessFinances() {
                   )}
                 />
               </div>
+              {editingAccount && (
+                <ReconcileAccountPanel key={editingAccount.id} accountId={editingAccount.id} testIdPrefix="reconcile-business" />
+              )}
+              {editingAccount && (
+                <RecordHistoryPanel key={editingAccount.id} entityType="account" entityId={editingAccount.id} />
+              )}
               <div className="flex justify-between gap-4 mt-8">
                 <Button
                   type="button"
@@ -669,6 +709,19 @@ export default function BusinessFinances() {
         </DialogContent>
       </Dialog>
 
+      <EditTransactionDialog
+        transaction={editingTransaction}
+        accounts={businessAccounts}
+        onClose={() => setEditingTransaction(null)}
+      />
+
+      <TransferDialog
+        open={!!transferDialog}
+        transferId={transferDialog?.transferId ?? null}
+        accounts={accounts || []}
+        onClose={() => setTransferDialog(null)}
+      />
+
       {/* Account Delete Confirmation */}
       <AlertDialog
         open={!!deleteAccountConfirm}
@@ -808,6 +861,11 @@ export default function BusinessFinances() {
 
       <div>
         <h2 className="text-lg font-semibold mb-4">Transactions by Statement</h2>
+        {businessAccounts.length > 0 && (
+          <div className="mb-4">
+            <TransactionFilterBar scope="business" filters={viewFilters} onChange={setViewFilters} />
+          </div>
+        )}
         {transactionsLoading ? (
           <Skeleton className="h-[300px]" />
         ) : transactionsByAccount.some((a) => a.periods.length > 0) ? (
@@ -852,15 +910,18 @@ export default function BusinessFinances() {
                                 {period.total < 0 ? "-" : "+"}
                                 {formatCurrency(Math.abs(period.total))}
                               </span>
-                              <Button
-                                size="icon"
-                                variant="ghost"
-                                className="text-destructive hover:text-destructive"
-                                onClick={() => setDeleteConfirm({ period, accountId: account.id })}
-                                data-testid={`button-delete-business-statement-${key}`}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              {/* Deleting a period removes every row in it, not just the filtered ones */}
+                              {!hasViewFilters && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  className="text-destructive hover:text-destructive"
+                                  onClick={() => setDeleteConfirm({ period, accountId: account.id })}
+                                  data-testid={`button-delete-business-statement-${key}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
                             </div>
                           </div>
                           <CollapsibleContent>
@@ -870,7 +931,10 @@ export default function BusinessFinances() {
                                   <TableHead>Date</TableHead>
                                   <TableHead>Description</TableHead>
                                   <TableHead>Category</TableHead>
+                                  <TableHead>Tags</TableHead>
+                                  <TableHead>Receipts</TableHead>
                                   <TableHead className="text-right">Amount</TableHead>
+                                  <TableHead className="w-10" />
                                 </TableRow>
                               </TableHeader>
                               <TableBody>
@@ -888,9 +952,17 @@ export default function BusinessFinances() {
                                       </TableCell>
                                       <TableCell>
                                         <Badge variant="secondary" className="text-xs">
-                                          {transaction.subcategory || transaction.category}
+                                          {transaction.splits?.length
+                                            ? `Split (${transaction.splits.length})`
+                                            : transaction.subcategory || transaction.category}
                                         </Badge>
                                       </TableCell>
+                                      <TableCell>
+                                        <TransactionTags transaction={transaction} />
+                                      </TableCell>
+                                      <TableCell>
+                                        <TransactionAttachments transaction={transaction} />
+                                      </TableCell>
                                       <TableCell className="text-right">
                                         <span
                                           className={`font-mono tabular-nums font-medium flex items-center justify-end gap-1 ${
@@ -905,6 +977,20 @@ export default function BusinessFinances() {
                                           {formatCurrency(Math.abs(amount))}
                                         </span>
                                       </TableCell>
+                                      <TableCell>
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          onClick={() =>
+                                            transaction.transfer_id != null
+                                              ? setTransferDialog({ transferId: transaction.transfer_id })
+                                              : setEditingTransaction(transaction)
+                                          }
+                                          data-testid={`button-edit-transaction-${transaction.id}`}
+                                        >
+                                          <Pencil className="h-4 w-4" />
+                                        </Button>
+                                      </TableCell>
                                     </TableRow>
                                   );
                                 })}
@@ -917,7 +1003,28 @@ export default function BusinessFinances() {
                   </CardContent>
                 </Card>
               ))}
+            {hasNextPage && (
+              <div className="flex flex-col items-center gap-2">
+                <p className="text-sm text-muted-foreground">
+                  Showing {businessTransactions.length} of {transactionTotals?.count} transactions
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  data-testid="button-load-more-business-transactions"
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load older transactions"}
+                </Button>
+              </div>
+            )}
           </div>
+        ) : hasViewFilters ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <p className="text-muted-foreground">No transactions match these filters</p>
+            </CardContent>
+          </Card>
         ) : (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
@@ -34,7 +34,9 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
+import { deletionIdOf, useUndoToast } from "@/hooks/use-undo-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RecordHistoryPanel } from "@/components/record-history";
 import {
   Plus,
   ChevronLeft,
@@ -102,6 +104,7 @@ export default function Calendar() {
   const [paymentUrl, setPaymentUrl] = useState<string | null>(null);
   const [paymentName, setPaymentName] = useState<string>("");
   const { toast } = useToast();
+  const showUndoToast = useUndoToast();
 
   const openPaymentPortal = (url: string, name: string) => {
     setPaymentUrl(url);
@@ -169,11 +172,11 @@ export default function Calendar() {
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
-      return apiRequest("DELETE", `/api/obligations/${id}`);
+      return deletionIdOf(await apiRequest("DELETE", `/api/obligations/${id}`));
     },
-    onSuccess: () => {
+    onSuccess: (deletionId) => {
       queryClient.invalidateQueries({ queryKey: ["/api/obligations"] });
-      toast({ title: "Obligation deleted" });
+      showUndoToast("Obligation deleted", deletionId);
     },
     onError: () => {
       toast({ title: "Failed to delete obligation", variant: "destructive" });
@@ -540,6 +543,9 @@ export default function Calendar() {
                         </FormItem>
                       )}
                     />
+                    {editingObligation && (
+                      <RecordHistoryPanel key={editingObligation.id} entityType="obligation" entityId={editingObligation.id} />
+                    )}
                     <div className="flex gap-2">
                       <Button
                         type="submit"
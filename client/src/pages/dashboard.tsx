@@ -28,7 +28,8 @@ import {
   addMonths, 
   subMonths 
 } from "date-fns";
-import type { Account, Transaction, Obligation } from "@shared/schema";
+import type { Account, Obligation } from "@shared/schema";
+import type { TransactionRow } from "@/lib/api-types";
 import {
   AreaChart,
   Area,
@@ -44,7 +45,7 @@ import {
 import { useState } from "react";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
-import { calculateFinancialTotals, formatCurrency } from "@/lib/finance-calculations";
+import { calculateFinancialTotals, formatCurrency, isTransfer, spendingByCategory } from "@/lib/finance-calculations";
 
 function MetricCard({
   title,
@@ -95,7 +96,7 @@ function MetricCard({
   );
 }
 
-function RecentTransactionRow({ transaction }: { transaction: Transaction }) {
+function RecentTransactionRow({ transaction }: { transaction: TransactionRow }) {
   const isExpense = parseFloat(transaction.amount) < 0;
   
   return (
@@ -167,7 +168,7 @@ export default function Dashboard() {
     queryKey: ["/api/accounts"],
   });
 
-  const { data: transactions, isLoading: transactionsLoading } = useQuery<Transaction[]>({
+  const { data: transactions, isLoading: transactionsLoading } = useQuery<TransactionRow[]>({
     queryKey: ["/api/transactions"],
   });
 
@@ -198,15 +199,9 @@ export default function Dashboard() {
 
   const recentTransactions = transactions?.slice(0, 8) || [];
 
-  const spendingByCategory = transactions
-    ?.filter((t) => parseFloat(t.amount) < 0)
-    .reduce((acc, t) => {
-      const cat = t.subcategory || "Other";
-      acc[cat] = (acc[cat] || 0) + Math.abs(parseFloat(t.amount));
-      return acc;
-    }, {} as Record<string, number>);
+  const incomeAndSpending = transactions?.filter((t) => !isTransfer(t));
 
-  const pieData = Object.entries(spendingByCategory || {})
+  const pieData = Object.entries(spendingByCategory(transactions || []))
     .map(([name, value]) => ({ name, value }))
     .sort((a, b) => b.value - a.value)
     .slice(0, 5);
@@ -219,7 +214,7 @@ export default function Dashboard() {
     "hsl(var(--chart-5))",
   ];
 
-  const monthlyData = transactions
+  const monthlyData = incomeAndSpending
     ?.reduce((acc, t) => {
       const month = format(parseISO(t.date), "MMM");
       if (!acc[month]) {
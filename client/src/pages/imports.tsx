@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { deletionIdOf, invalidateRestoredQueries, useUndoToast } from "@/hooks/use-undo-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FileUp, Loader2, Undo2 } from "lucide-react";
+import type { Account } from "@shared/schema";
+
+interface ImportBatch {
+  id: number;
+  account_id: number | null;
+  file_name: string | null;
+  parser: string | null;
+  row_count: number;
+  transaction_count: number;
+  created_at: string;
+}
+
+export default function Imports() {
+  const { toast } = useToast();
+  const showUndoToast = useUndoToast();
+  const [rollbackConfirm, setRollbackConfirm] = useState<ImportBatch | null>(null);
+
+  const { data: batches, isLoading } = useQuery<ImportBatch[]>({
+    queryKey: ["/api/import-batches"],
+  });
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const accountName = (id: number | null) => accounts?.find((a) => a.id === id)?.name ?? "—";
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: number) =>
+      deletionIdOf(await apiRequest("POST", `/api/import-batches/${id}/rollback`)),
+    onSuccess: (deletionId) => {
+      invalidateRestoredQueries();
+      setRollbackConfirm(null);
+      showUndoToast("Import rolled back", deletionId);
+    },
+    onError: () => {
+      toast({ title: "Failed to roll back import", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Import History</h1>
+        <p className="text-muted-foreground">
+          Every statement import, with the option to roll back everything it added
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      ) : !batches?.length ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <FileUp className="h-8 w-8 text-muted-foreground" />
+            <p className="text-muted-foreground">No imports yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {batches.map((batch) => {
+            const rolledBack = batch.transaction_count === 0;
+            return (
+              <Card key={batch.id} data-testid={`import-batch-${batch.id}`}>
+                <CardContent className="flex flex-col gap-4 p-4 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{batch.file_name || "Untitled import"}</span>
+                      {batch.parser && <Badge variant="secondary">{batch.parser.toUpperCase()}</Badge>}
+                      {rolledBack && <Badge variant="outline">Rolled back</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {accountName(batch.account_id)} · {batch.row_count}{" "}
+                      {batch.row_count === 1 ? "transaction" : "transactions"}
+                      {!rolledBack && batch.transaction_count !== batch.row_count &&
+                        ` (${batch.transaction_count} remaining)`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Imported {format(new Date(batch.created_at), "MMM d, yyyy h:mm a")}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRollbackConfirm(batch)}
+                    disabled={rolledBack}
+                    data-testid={`button-rollback-${batch.id}`}
+                  >
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Roll back
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={!!rollbackConfirm} onOpenChange={(open) => !open && setRollbackConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {rollbackConfirm?.transaction_count} transactions added by{" "}
+              {rollbackConfirm?.file_name || "this import"} will be moved to the trash, where they can be
+              restored for 30 days.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground"
+              onClick={() => rollbackConfirm && rollbackMutation.mutate(rollbackConfirm.id)}
+              disabled={rollbackMutation.isPending}
+            >
+              {rollbackMutation.isPending ? "Rolling back..." : "Roll Back Import"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateRestoredQueries } from "@/hooks/use-undo-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+interface TrashEntry {
+  id: number;
+  kind: "account" | "transactions" | "obligation";
+  label: string;
+  created_at: string;
+  expires_at: string;
+  counts: {
+    accounts: number;
+    transactions: number;
+    obligations: number;
+  };
+}
+
+const KIND_LABELS: Record<TrashEntry["kind"], string> = {
+  account: "Account",
+  transactions: "Transactions",
+  obligation: "Obligation",
+};
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function describeCounts(counts: TrashEntry["counts"]): string {
+  const parts = [];
+  if (counts.accounts) parts.push(plural(counts.accounts, "account"));
+  if (counts.transactions) parts.push(plural(counts.transactions, "transaction"));
+  if (counts.obligations) parts.push(plural(counts.obligations, "obligation"));
+  return parts.join(", ");
+}
+
+export default function Trash() {
+  const { toast } = useToast();
+
+  const { data: entries, isLoading } = useQuery<TrashEntry[]>({
+    queryKey: ["/api/trash"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/trash/${id}/restore`);
+    },
+    onSuccess: () => {
+      invalidateRestoredQueries();
+      toast({ title: "Restored" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore",
+        description: error.message.startsWith("409")
+          ? "Restore the account these records belong to first"
+          : undefined,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/trash/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Deleted permanently" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Trash</h1>
+        <p className="text-muted-foreground">
+          Deleted accounts, transactions and obligations are kept here for 30 days
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      ) : !entries?.length ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <Trash2 className="h-8 w-8 text-muted-foreground" />
+            <p className="text-muted-foreground">The trash is empty</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => (
+            <Card key={entry.id} data-testid={`trash-entry-${entry.id}`}>
+              <CardContent className="flex flex-col gap-4 p-4 sm:flex-row sm:items-center sm:justify-between">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="secondary">{KIND_LABELS[entry.kind]}</Badge>
+                    <span className="font-medium">{entry.label}</span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{describeCounts(entry.counts)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Deleted {format(new Date(entry.created_at), "MMM d, yyyy h:mm a")} · removed for good{" "}
+                    {formatDistanceToNow(new Date(entry.expires_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(entry.id)}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`button-restore-${entry.id}`}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(entry.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-forever-${entry.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete forever
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
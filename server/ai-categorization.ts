@@ -0,0 +1,133 @@
+import type OpenAI from "openai";
+import { batchProcess, type BatchOptions } from "./replit_integrations/batch";
+import type { CategorizationJob, IStorage, Transaction } from "./storage";
+
+// Bulk categorization through the AI service: uncategorized transactions go
+// to the model in batches, and its answers are stored as suggestions for
+// the user to review. Nothing is written to the transactions themselves.
+
+export interface CategorizationItem {
+  id: number;
+  description: string;
+  amount: string;
+}
+
+export interface CategorizationAnswer {
+  id: number;
+  subcategory: string;
+}
+
+// The model behind the job. `subcategories` are the ones the user already
+// uses, which answers should prefer.
+export interface Categorizer {
+  categorize(items: CategorizationItem[], subcategories: string[]): Promise<CategorizationAnswer[]>;
+}
+
+const MAX_SUBCATEGORY_LENGTH = 100;
+
+// Keeps the answers for items that were asked about, once each
+export function readAnswers(content: string, items: CategorizationItem[]): CategorizationAnswer[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed?.suggestions)) return [];
+
+  const pending = new Set(items.map((item) => item.id));
+  const answers: CategorizationAnswer[] = [];
+  for (const entry of parsed.suggestions) {
+    const id = Number(entry?.id);
+    const subcategory = typeof entry?.subcategory === "string" ? entry.subcategory.trim() : "";
+    if (!pending.has(id) || !subcategory || subcategory.length > MAX_SUBCATEGORY_LENGTH) continue;
+    pending.delete(id);
+    answers.push({ id, subcategory });
+  }
+  return answers;
+}
+
+export class OpenAICategorizer implements Categorizer {
+  constructor(private client: OpenAI, private model = "gpt-4o") {}
+
+  async categorize(items: CategorizationItem[], subcategories: string[]): Promise<CategorizationAnswer[]> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content:
+            "You categorize bank transactions. Give each transaction a short lowercase subcategory such as " +
+            '"groceries" or "software", preferring one of the user\'s own subcategories when it fits. ' +
+            'Answer with JSON: {"suggestions": [{"id": <transaction id>, "subcategory": "<subcategory>"}]}. ' +
+            "Leave out transactions you cannot place.",
+        },
+        {
+          role: "user",
+          content: JSON.stringify({ subcategories, transactions: items }),
+        },
+      ],
+      response_format: { type: "json_object" },
+      max_completion_tokens: 2048,
+    });
+    return readAnswers(response.choices[0]?.message?.content || "{}", items);
+  }
+}
+
+export const CATEGORIZATION_BATCH_SIZE = 25;
+
+export const INTERRUPTED_JOB_ERROR = "Stopped by a server restart";
+
+// Jobs run inside the server process, so any still marked running when the
+// server starts were cut off by a restart and will never finish.
+export async function failInterruptedCategorizationJobs(storage: IStorage): Promise<number> {
+  const failed = await storage.failRunningCategorizationJobs(INTERRUPTED_JOB_ERROR, new Date().toISOString());
+  return failed.length;
+}
+
+// Sends the transactions to the categorizer batch by batch, storing the
+// suggestions and the job's progress as each batch comes back. The job ends
+// up completed, or failed with the error once a batch has failed for good.
+export async function runCategorizationJob(
+  storage: IStorage,
+  userId: string,
+  job: CategorizationJob,
+  transactions: Transaction[],
+  subcategories: string[],
+  categorizer: Categorizer,
+  options: BatchOptions = {}
+): Promise<void> {
+  const batches: Transaction[][] = [];
+  for (let i = 0; i < transactions.length; i += CATEGORIZATION_BATCH_SIZE) {
+    batches.push(transactions.slice(i, i + CATEGORIZATION_BATCH_SIZE));
+  }
+
+  let processed = 0;
+  try {
+    await batchProcess(
+      batches,
+      async (batch) => {
+        const items = batch.map(({ id, description, amount }) => ({ id, description, amount }));
+        const answers = await categorizer.categorize(items, subcategories);
+        await storage.createCategorizationSuggestions(
+          userId,
+          answers.map(({ id, subcategory }) => ({ job_id: job.id, transaction_id: id, subcategory }))
+        );
+        processed += batch.length;
+        await storage.updateCategorizationJob(userId, job.id, { processed });
+      },
+      { concurrency: 2, retries: 5, ...options }
+    );
+    await storage.updateCategorizationJob(userId, job.id, {
+      status: "completed",
+      completed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error running categorization job:", error);
+    await storage.updateCategorizationJob(userId, job.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      completed_at: new Date().toISOString(),
+    });
+  }
+}
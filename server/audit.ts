@@ -0,0 +1,75 @@
+import type { Request } from "express";
+import type { AuditEntityType, InsertAuditEntry, IStorage } from "./storage";
+
+type AuditedRecord = { id: number } & object;
+
+// The fields kept in the log. Attachments only carry file metadata and have
+// their own routes, so they are left out of transaction snapshots.
+function snapshot(record: AuditedRecord): Record<string, unknown> {
+  const { attachments: _attachments, ...fields } = record as Record<string, unknown>;
+  return fields;
+}
+
+function sameSnapshot(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every((key) => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+}
+
+// Compares two sets of records by id: records only in `before` were
+// deleted, records only in `after` created, and records in both whose fields
+// differ updated. Unchanged records produce no entry.
+export function diffRecords(
+  entityType: AuditEntityType,
+  before: AuditedRecord[],
+  after: AuditedRecord[],
+  source: string
+): InsertAuditEntry[] {
+  const entries: InsertAuditEntry[] = [];
+  const afterById = new Map(after.map((record) => [record.id, snapshot(record)]));
+  const beforeIds = new Set(before.map((record) => record.id));
+
+  for (const record of before) {
+    const old = snapshot(record);
+    const current = afterById.get(record.id);
+    if (!current) {
+      entries.push({ entity_type: entityType, entity_id: record.id, action: "delete", before: old, after: null, source });
+    } else if (!sameSnapshot(old, current)) {
+      entries.push({ entity_type: entityType, entity_id: record.id, action: "update", before: old, after: current, source });
+    }
+  }
+  for (const record of after) {
+    if (!beforeIds.has(record.id)) {
+      const current = snapshot(record);
+      entries.push({ entity_type: entityType, entity_id: record.id, action: "create", before: null, after: current, source });
+    }
+  }
+  return entries;
+}
+
+// One record before and after a change; undefined on either side means it
+// was created or deleted.
+export function diffRecord(
+  entityType: AuditEntityType,
+  before: AuditedRecord | undefined,
+  after: AuditedRecord | undefined,
+  source: string
+): InsertAuditEntry[] {
+  return diffRecords(entityType, before ? [before] : [], after ? [after] : [], source);
+}
+
+// "METHOD /route/pattern" of the request, e.g. "PATCH /api/transactions/:id".
+export function auditSource(req: Request): string {
+  return `${req.method} ${req.route?.path ?? req.path}`;
+}
+
+// Appends the entries after the change itself has been made. A failed write
+// is logged rather than turned into an error response, since the change it
+// describes has already happened.
+export async function recordAudit(storage: IStorage, userId: string, entries: InsertAuditEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  try {
+    await storage.appendAuditEntries(userId, entries);
+  } catch (error) {
+    console.error("Error writing audit log:", error);
+  }
+}
@@ -0,0 +1,119 @@
+import type { CategoryRule, InsertTransactionSplit } from "./storage";
+
+// What a rule looks at in a transaction, or in a row about to be created
+export interface RuleTarget {
+  account_id: number;
+  description: string;
+  amount: string | number;
+}
+
+// What the matching rule sets. `splits` marks the whole amount as personal
+// or business use when the rule's type is not the account's own.
+export interface RuleOutcome {
+  rule_id: number;
+  subcategory: string;
+  splits?: InsertTransactionSplit[];
+}
+
+// Rules look at the start of a description only, which bounds the work a
+// regular expression can do on one row
+const MAX_MATCHED_DESCRIPTION_LENGTH = 500;
+
+export function ruleMatches(rule: CategoryRule, row: RuleTarget): boolean {
+  if (rule.account_id != null && rule.account_id !== row.account_id) return false;
+
+  const amount = Math.abs(Number(row.amount));
+  if (rule.min_amount != null && amount < Number(rule.min_amount)) return false;
+  if (rule.max_amount != null && amount > Number(rule.max_amount)) return false;
+
+  if (rule.pattern) {
+    const description = row.description.slice(0, MAX_MATCHED_DESCRIPTION_LENGTH);
+    if (rule.match_type === "regex") {
+      // Rules saved before patterns were checked for speed never match
+      if (!isSafePattern(rule.pattern) || !new RegExp(rule.pattern, "i").test(description)) return false;
+    } else if (!description.toLowerCase().includes(rule.pattern.toLowerCase())) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// The highest priority rule that matches; the oldest one among equals
+export function findRule(rules: CategoryRule[], row: RuleTarget): CategoryRule | undefined {
+  const ordered = [...rules].sort((a, b) => b.priority - a.priority || a.id - b.id);
+  return ordered.find((rule) => ruleMatches(rule, row));
+}
+
+// `accountType` is the type ("personal" or "business") of the row's account
+export function applyRules(rules: CategoryRule[], row: RuleTarget, accountType?: string): RuleOutcome | undefined {
+  const rule = findRule(rules, row);
+  if (!rule) return undefined;
+
+  const outcome: RuleOutcome = { rule_id: rule.id, subcategory: rule.subcategory };
+  if (rule.type && rule.type !== accountType && Number(row.amount) !== 0) {
+    outcome.splits = [{ amount: Number(row.amount).toFixed(2), subcategory: rule.subcategory, type: rule.type }];
+  }
+  return outcome;
+}
+
+// Whether a pattern can be used as a rule's regular expression
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Whether a quantifier allows more than one of what it follows
+function isRepeat(quantifier: string): boolean {
+  if (quantifier.startsWith("?")) return false;
+  const bounds = /^\{(\d+)(?:,(\d*))?\}/.exec(quantifier);
+  if (!bounds) return true;
+  const max = bounds[2] === undefined ? Number(bounds[1]) : bounds[2] === "" ? Infinity : Number(bounds[2]);
+  return max > 1;
+}
+
+// Whether a valid pattern matches in linear time. Rejects back-references and
+// a repeated group that itself repeats something, like `(a+)+` or `(\w*x?)*`,
+// which can backtrack exponentially on a description that almost matches.
+export function isSafePattern(pattern: string): boolean {
+  // Per open group, whether anything inside it repeats
+  const groups: boolean[] = [false];
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    // Whether the atom just read is a group with a repeat inside
+    let groupRepeats = false;
+
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return false;
+      i += 2;
+    } else if (char === "[") {
+      // A character class is one atom, whatever it holds
+      i++;
+      while (i < pattern.length && pattern[i] !== "]") i += pattern[i] === "\\" ? 2 : 1;
+      i++;
+    } else if (char === "(") {
+      groups.push(false);
+      i++;
+      continue;
+    } else if (char === ")") {
+      groupRepeats = groups.pop() ?? false;
+      i++;
+    } else {
+      i++;
+    }
+
+    const quantifier = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/.exec(pattern.slice(i))?.[0];
+    const repeats = quantifier !== undefined && isRepeat(quantifier);
+    if (groupRepeats && repeats) return false;
+    if (quantifier) i += quantifier.length;
+
+    const top = groups.length - 1;
+    groups[top] = groups[top] || repeats || groupRepeats;
+  }
+  return true;
+}
@@ -0,0 +1,143 @@
+import type { Transaction } from "./storage";
+
+// Learned categorization: a naive Bayes classifier over the words of a
+// description, trained on the user's own categorized transactions. It
+// suggests a subcategory and a use (personal or business) separately, each
+// with the probability the model gives it.
+
+export type SuggestedType = "personal" | "business";
+
+export interface TrainingExample {
+  description: string;
+  subcategory: string;
+  type: SuggestedType;
+}
+
+interface LabelCounts {
+  // How many examples carry each label, and how often each token appears
+  // in the descriptions of those examples
+  examples: Map<string, number>;
+  tokens: Map<string, Map<string, number>>;
+  tokenTotals: Map<string, number>;
+}
+
+export interface Classifier {
+  exampleCount: number;
+  vocabulary: Set<string>;
+  subcategories: LabelCounts;
+  types: LabelCounts;
+}
+
+export interface CategorySuggestion {
+  subcategory: string;
+  type: SuggestedType;
+  // Probabilities between 0 and 1
+  confidence: number;
+  type_confidence: number;
+}
+
+// Words of two or more letters; amounts, dates and card numbers say little
+// about the category and would only grow the vocabulary
+export function tokenize(description: string): string[] {
+  return description
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !/^\d+$/.test(token));
+}
+
+function emptyCounts(): LabelCounts {
+  return { examples: new Map(), tokens: new Map(), tokenTotals: new Map() };
+}
+
+function addExample(counts: LabelCounts, label: string, tokens: string[]) {
+  counts.examples.set(label, (counts.examples.get(label) ?? 0) + 1);
+  let labelTokens = counts.tokens.get(label);
+  if (!labelTokens) {
+    labelTokens = new Map();
+    counts.tokens.set(label, labelTokens);
+  }
+  for (const token of tokens) {
+    labelTokens.set(token, (labelTokens.get(token) ?? 0) + 1);
+  }
+  counts.tokenTotals.set(label, (counts.tokenTotals.get(label) ?? 0) + tokens.length);
+}
+
+export function trainClassifier(examples: TrainingExample[]): Classifier {
+  const classifier: Classifier = {
+    exampleCount: 0,
+    vocabulary: new Set(),
+    subcategories: emptyCounts(),
+    types: emptyCounts(),
+  };
+  for (const example of examples) {
+    const tokens = tokenize(example.description);
+    const subcategory = example.subcategory.trim();
+    if (tokens.length === 0 || !subcategory) continue;
+
+    classifier.exampleCount++;
+    tokens.forEach((token) => classifier.vocabulary.add(token));
+    addExample(classifier.subcategories, subcategory, tokens);
+    addExample(classifier.types, example.type, tokens);
+  }
+  return classifier;
+}
+
+// The most likely label and its posterior probability, with add-one
+// smoothing over the vocabulary. Tokens never seen in training are ignored.
+function classify(counts: LabelCounts, tokens: string[], total: number, vocabularySize: number) {
+  const scores = Array.from(counts.examples.entries()).map(([label, examples]) => {
+    const labelTokens = counts.tokens.get(label)!;
+    const denominator = (counts.tokenTotals.get(label) ?? 0) + vocabularySize;
+    let score = Math.log(examples / total);
+    for (const token of tokens) {
+      score += Math.log(((labelTokens.get(token) ?? 0) + 1) / denominator);
+    }
+    return { label, score };
+  });
+  if (scores.length === 0) return undefined;
+
+  // Normalize in log space so long descriptions do not underflow
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  const sum = scores.reduce((total, { score }) => total + Math.exp(score - best.score), 0);
+  return { label: best.label, probability: 1 / sum };
+}
+
+// A suggestion for a description, or undefined when none of its words were
+// seen in training
+export function suggestCategory(classifier: Classifier, description: string): CategorySuggestion | undefined {
+  const tokens = tokenize(description).filter((token) => classifier.vocabulary.has(token));
+  if (tokens.length === 0) return undefined;
+
+  const { exampleCount, vocabulary } = classifier;
+  const subcategory = classify(classifier.subcategories, tokens, exampleCount, vocabulary.size);
+  const type = classify(classifier.types, tokens, exampleCount, vocabulary.size);
+  if (!subcategory || !type) return undefined;
+
+  return {
+    subcategory: subcategory.label,
+    type: type.label as SuggestedType,
+    confidence: Number(subcategory.probability.toFixed(3)),
+    type_confidence: Number(type.probability.toFixed(3)),
+  };
+}
+
+// Categorized transactions as training examples. Split lines each count as
+// an example of their own subcategory and use; other transactions take the
+// use of their account. Transfers are left out.
+export function trainingExamples(transactions: Transaction[], accountTypes: Map<number, string>): TrainingExample[] {
+  const examples: TrainingExample[] = [];
+  for (const transaction of transactions) {
+    if (transaction.transfer_id != null) continue;
+    if (transaction.splits.length > 0) {
+      for (const split of transaction.splits) {
+        examples.push({ description: transaction.description, subcategory: split.subcategory, type: split.type });
+      }
+      continue;
+    }
+    const type = accountTypes.get(transaction.account_id);
+    if (transaction.subcategory && (type === "personal" || type === "business")) {
+      examples.push({ description: transaction.description, subcategory: transaction.subcategory, type });
+    }
+  }
+  return examples;
+}
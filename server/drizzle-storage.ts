@@ -0,0 +1,1510 @@
+import { and, arrayContains, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import {
+  accounts,
+  transactions,
+  transactionSplits,
+  attachments,
+  transfers,
+  importBatches,
+  savedViews,
+  importProfiles,
+  categoryRules,
+  categorizationJobs,
+  categorizationSuggestions,
+  obligations,
+  deletions,
+  auditLog,
+  conversations,
+  messages,
+  users,
+} from "@shared/schema";
+import { buildReconciliation, transferLegAmounts } from "./ledger";
+import { searchPattern, toPage } from "./transaction-query";
+import type {
+  IStorage,
+  Account,
+  AccountReconciliation,
+  ReconcileOptions,
+  InsertAccount,
+  Transaction,
+  InsertTransaction,
+  NewTransaction,
+  TransactionUpdate,
+  TransactionPage,
+  TransactionQuery,
+  ImportBatch,
+  InsertImportBatch,
+  TransactionSplit,
+  Attachment,
+  InsertAttachment,
+  TagCount,
+  Transfer,
+  InsertTransfer,
+  SavedView,
+  InsertSavedView,
+  ImportProfile,
+  InsertImportProfile,
+  CategoryRule,
+  InsertCategoryRule,
+  CategorizationJob,
+  UpdateCategorizationJob,
+  CategorizationSuggestion,
+  InsertCategorizationSuggestion,
+  Obligation,
+  InsertObligation,
+  DeletedRecords,
+  Deletion,
+  InsertDeletion,
+  AuditEntityType,
+  AuditEntry,
+  InsertAuditEntry,
+  Conversation,
+  Message,
+} from "./storage";
+
+// Drizzle rows use camelCase properties; the storage contract (and the API)
+// uses the snake_case column names, so every row is mapped on the way out.
+
+function toAccount(row: typeof accounts.$inferSelect): Account {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    name: row.name,
+    type: row.type,
+    category: row.category,
+    balance: row.balance,
+    opening_balance: row.openingBalance,
+    credit_limit: row.creditLimit,
+    credit_score: row.creditScore,
+    interest_rate: row.interestRate,
+    due_day: row.dueDay,
+    statement_day: row.statementDay,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function fromAccount(data: Partial<InsertAccount>): Partial<typeof accounts.$inferInsert> {
+  return {
+    name: data.name,
+    type: data.type,
+    category: data.category,
+    balance: data.balance,
+    creditLimit: data.credit_limit,
+    creditScore: data.credit_score,
+    interestRate: data.interest_rate,
+    dueDay: data.due_day,
+    statementDay: data.statement_day,
+  };
+}
+
+function toTransaction(row: typeof transactions.$inferSelect): Transaction {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    account_id: row.accountId,
+    description: row.description,
+    amount: row.amount,
+    category: row.category,
+    subcategory: row.subcategory,
+    date: row.date,
+    transfer_id: row.transferId,
+    tags: row.tags,
+    import_batch_id: row.importBatchId,
+    external_id: row.externalId,
+    created_at: row.createdAt.toISOString(),
+    splits: [],
+    attachments: [],
+  };
+}
+
+function toTransactionSplit(row: typeof transactionSplits.$inferSelect): TransactionSplit {
+  return {
+    id: row.id,
+    transaction_id: row.transactionId,
+    amount: row.amount,
+    subcategory: row.subcategory,
+    type: row.type as TransactionSplit["type"],
+  };
+}
+
+function toAttachment(row: typeof attachments.$inferSelect): Attachment {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    transaction_id: row.transactionId,
+    file_name: row.fileName,
+    content_type: row.contentType,
+    size: row.size,
+    storage_key: row.storageKey,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function toTransfer(row: typeof transfers.$inferSelect, legs: Transaction[]): Transfer {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    from_account_id: row.fromAccountId,
+    to_account_id: row.toAccountId,
+    amount: row.amount,
+    description: row.description,
+    date: row.date,
+    created_at: row.createdAt.toISOString(),
+    transactions: legs,
+  };
+}
+
+function fromTransfer(data: Partial<InsertTransfer>): Partial<typeof transfers.$inferInsert> {
+  return {
+    fromAccountId: data.from_account_id,
+    toAccountId: data.to_account_id,
+    amount: data.amount,
+    description: data.description,
+    date: data.date,
+  };
+}
+
+function toImportBatch(row: typeof importBatches.$inferSelect, transactionCount: number): ImportBatch {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    account_id: row.accountId,
+    file_name: row.fileName,
+    parser: row.parser,
+    row_count: row.rowCount,
+    transaction_count: transactionCount,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function toSavedView(row: typeof savedViews.$inferSelect): SavedView {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    name: row.name,
+    scope: row.scope as SavedView["scope"],
+    filters: row.filters,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function toImportProfile(row: typeof importProfiles.$inferSelect): ImportProfile {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    account_id: row.accountId,
+    header_signature: row.headerSignature,
+    headers: row.headers,
+    columns: row.columns as unknown as ImportProfile["columns"],
+    date_format: row.dateFormat as ImportProfile["date_format"],
+    amount_sign: row.amountSign as ImportProfile["amount_sign"],
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function fromImportProfile(data: Partial<InsertImportProfile>): Partial<typeof importProfiles.$inferInsert> {
+  return {
+    accountId: data.account_id,
+    headerSignature: data.header_signature,
+    headers: data.headers,
+    columns: data.columns as Record<string, string> | undefined,
+    dateFormat: data.date_format,
+    amountSign: data.amount_sign,
+  };
+}
+
+function toCategoryRule(row: typeof categoryRules.$inferSelect): CategoryRule {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    priority: row.priority,
+    match_type: row.matchType as CategoryRule["match_type"],
+    pattern: row.pattern,
+    account_id: row.accountId,
+    min_amount: row.minAmount,
+    max_amount: row.maxAmount,
+    subcategory: row.subcategory,
+    type: row.type as CategoryRule["type"],
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function fromCategoryRule(data: Partial<InsertCategoryRule>): Partial<typeof categoryRules.$inferInsert> {
+  return {
+    priority: data.priority,
+    matchType: data.match_type,
+    pattern: data.pattern,
+    accountId: data.account_id,
+    minAmount: data.min_amount,
+    maxAmount: data.max_amount,
+    subcategory: data.subcategory,
+    type: data.type,
+  };
+}
+
+function toCategorizationJob(row: typeof categorizationJobs.$inferSelect): CategorizationJob {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    status: row.status as CategorizationJob["status"],
+    total: row.total,
+    processed: row.processed,
+    error: row.error,
+    created_at: row.createdAt.toISOString(),
+    completed_at: row.completedAt ? row.completedAt.toISOString() : null,
+  };
+}
+
+function fromCategorizationJob(data: UpdateCategorizationJob): Partial<typeof categorizationJobs.$inferInsert> {
+  return {
+    status: data.status,
+    processed: data.processed,
+    error: data.error,
+    completedAt: data.completed_at === undefined ? undefined : data.completed_at ? new Date(data.completed_at) : null,
+  };
+}
+
+function toCategorizationSuggestion(row: typeof categorizationSuggestions.$inferSelect): CategorizationSuggestion {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    job_id: row.jobId,
+    transaction_id: row.transactionId,
+    subcategory: row.subcategory,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function toObligation(row: typeof obligations.$inferSelect): Obligation {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    account_id: row.accountId,
+    name: row.name,
+    amount: row.amount,
+    type: row.type,
+    category: row.category,
+    due_date: row.dueDate,
+    is_recurring: row.isRecurring ?? false,
+    frequency: row.frequency,
+    is_paid: row.isPaid ?? false,
+    website_url: row.websiteUrl,
+    notes: row.notes,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function fromObligation(data: Partial<InsertObligation>): Partial<typeof obligations.$inferInsert> {
+  return {
+    accountId: data.account_id,
+    name: data.name,
+    amount: data.amount,
+    type: data.type,
+    category: data.category,
+    dueDate: data.due_date,
+    isRecurring: data.is_recurring,
+    frequency: data.frequency,
+    isPaid: data.is_paid,
+    websiteUrl: data.website_url,
+    notes: data.notes,
+  };
+}
+
+function fromTransaction(userId: string, transaction: InsertTransaction): typeof transactions.$inferInsert {
+  return {
+    userId,
+    accountId: transaction.account_id,
+    description: transaction.description,
+    amount: transaction.amount,
+    category: transaction.category,
+    subcategory: transaction.subcategory,
+    date: transaction.date,
+    tags: transaction.tags,
+    externalId: transaction.external_id,
+    importBatchId: transaction.import_batch_id,
+  };
+}
+
+function fromTransactionUpdate(data: Partial<InsertTransaction>): Partial<typeof transactions.$inferInsert> {
+  return {
+    accountId: data.account_id,
+    description: data.description,
+    amount: data.amount,
+    category: data.category,
+    subcategory: data.subcategory,
+    date: data.date,
+    tags: data.tags,
+    externalId: data.external_id,
+  };
+}
+
+function toDeletion(row: typeof deletions.$inferSelect): Deletion {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    kind: row.kind as Deletion["kind"],
+    label: row.label,
+    records: row.records as unknown as DeletedRecords,
+    created_at: row.createdAt.toISOString(),
+    expires_at: row.expiresAt.toISOString(),
+  };
+}
+
+function toAuditEntry(row: typeof auditLog.$inferSelect): AuditEntry {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    entity_type: row.entityType as AuditEntityType,
+    entity_id: row.entityId,
+    action: row.action as AuditEntry["action"],
+    before: row.before,
+    after: row.after,
+    source: row.source,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function toConversation(row: typeof conversations.$inferSelect): Conversation {
+  return {
+    id: row.id,
+    user_id: row.userId,
+    title: row.title,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+function toMessage(row: typeof messages.$inferSelect): Message {
+  return {
+    id: row.id,
+    conversation_id: row.conversationId,
+    role: row.role,
+    content: row.content,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+// Drops keys the caller did not supply so a partial update only touches the
+// columns it names (Drizzle rejects an update with nothing to set).
+function definedOnly<T extends Record<string, unknown>>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Adds `delta` to the balance of each account in one statement per account.
+// Throws (rolling back the surrounding transaction) if an account is not the
+// user's, mirroring the Supabase balance trigger.
+async function applyToBalances(executor: Executor, userId: string, deltas: Map<number, number>): Promise<void> {
+  for (const [accountId, delta] of Array.from(deltas)) {
+    const updated = await executor
+      .update(accounts)
+      .set({ balance: sql`${accounts.balance} + ${delta.toFixed(2)}` })
+      .where(and(eq(accounts.id, accountId), eq(accounts.userId, userId)))
+      .returning({ id: accounts.id });
+    if (updated.length === 0) {
+      throw new Error(`Account ${accountId} not found`);
+    }
+  }
+}
+
+function sumByAccount(rows: { accountId: number; amount: string }[], sign = 1): Map<number, number> {
+  const deltas = new Map<number, number>();
+  for (const row of rows) {
+    deltas.set(row.accountId, (deltas.get(row.accountId) ?? 0) + sign * parseFloat(row.amount));
+  }
+  return deltas;
+}
+
+// Import batches with the number of their transactions that still exist, newest first.
+function selectImportBatches(executor: Executor, where: SQL) {
+  return executor
+    .select({ batch: importBatches, count: sql<number>`count(${transactions.id})::int` })
+    .from(importBatches)
+    .leftJoin(transactions, eq(transactions.importBatchId, importBatches.id))
+    .where(where)
+    .groupBy(importBatches.id)
+    .orderBy(desc(importBatches.createdAt), desc(importBatches.id));
+}
+
+// Maps transaction rows with their split lines and attachments, loaded in
+// one query each.
+async function withDetails(executor: Executor, rows: (typeof transactions.$inferSelect)[]): Promise<Transaction[]> {
+  if (rows.length === 0) return [];
+
+  const ids = rows.map((row) => row.id);
+  const splits = await executor
+    .select()
+    .from(transactionSplits)
+    .where(inArray(transactionSplits.transactionId, ids))
+    .orderBy(asc(transactionSplits.id));
+  const files = await executor
+    .select()
+    .from(attachments)
+    .where(inArray(attachments.transactionId, ids))
+    .orderBy(asc(attachments.id));
+
+  const splitsOf = new Map<number, TransactionSplit[]>();
+  for (const split of splits) {
+    const list = splitsOf.get(split.transactionId) ?? [];
+    list.push(toTransactionSplit(split));
+    splitsOf.set(split.transactionId, list);
+  }
+  const attachmentsOf = new Map<number, Attachment[]>();
+  for (const file of files) {
+    const list = attachmentsOf.get(file.transactionId) ?? [];
+    list.push(toAttachment(file));
+    attachmentsOf.set(file.transactionId, list);
+  }
+  return rows.map((row) => ({
+    ...toTransaction(row),
+    splits: splitsOf.get(row.id) ?? [],
+    attachments: attachmentsOf.get(row.id) ?? [],
+  }));
+}
+
+// Writes the splits given with new transactions, matched to the inserted rows
+// by position, and returns the rows mapped with them.
+async function insertSplits(
+  executor: Executor,
+  userId: string,
+  inserted: (typeof transactions.$inferSelect)[],
+  rows: NewTransaction[]
+): Promise<Transaction[]> {
+  const splits = inserted.flatMap((row, i) =>
+    (rows[i].splits ?? []).map((split) => ({
+      userId,
+      transactionId: row.id,
+      amount: split.amount,
+      subcategory: split.subcategory,
+      type: split.type,
+    }))
+  );
+  if (splits.length === 0) return inserted.map(toTransaction);
+
+  await executor.insert(transactionSplits).values(splits);
+  return withDetails(executor, inserted);
+}
+
+// Replaces the legs of a transfer with a fresh pair for its current accounts
+// and amount, moving both balances by the difference.
+async function writeTransferLegs(
+  executor: Executor,
+  userId: string,
+  transfer: typeof transfers.$inferSelect
+): Promise<Transaction[]> {
+  const owned = await executor
+    .select()
+    .from(accounts)
+    .where(and(eq(accounts.userId, userId), inArray(accounts.id, [transfer.fromAccountId, transfer.toAccountId])));
+  const from = owned.find((a) => a.id === transfer.fromAccountId);
+  const to = owned.find((a) => a.id === transfer.toAccountId);
+  if (!from) throw new Error(`Account ${transfer.fromAccountId} not found`);
+  if (!to) throw new Error(`Account ${transfer.toAccountId} not found`);
+
+  const removed = await executor
+    .delete(transactions)
+    .where(eq(transactions.transferId, transfer.id))
+    .returning();
+
+  const [outAmount, inAmount] = transferLegAmounts(from, to, transfer.amount);
+  const leg = { userId, description: transfer.description, category: "transfer", date: transfer.date, transferId: transfer.id };
+  const legs = await executor
+    .insert(transactions)
+    .values([
+      { ...leg, accountId: from.id, amount: outAmount },
+      { ...leg, accountId: to.id, amount: inAmount },
+    ])
+    .returning();
+
+  const deltas = sumByAccount(removed, -1);
+  for (const [accountId, delta] of Array.from(sumByAccount(legs))) {
+    deltas.set(accountId, (deltas.get(accountId) ?? 0) + delta);
+  }
+  await applyToBalances(executor, userId, deltas);
+  return legs.map(toTransaction);
+}
+
+// Deleting one leg of a transfer deletes the transfer and its other leg.
+// Returns the extra rows removed so their balance effect can be reversed.
+async function deleteTransferPartners(
+  executor: Executor,
+  userId: string,
+  deleted: (typeof transactions.$inferSelect)[]
+): Promise<(typeof transactions.$inferSelect)[]> {
+  const transferIds = Array.from(
+    new Set(deleted.map((row) => row.transferId).filter((id): id is number => id !== null))
+  );
+  if (transferIds.length === 0) return [];
+
+  const partners = await executor
+    .delete(transactions)
+    .where(and(eq(transactions.userId, userId), inArray(transactions.transferId, transferIds)))
+    .returning();
+  await executor
+    .delete(transfers)
+    .where(and(eq(transfers.userId, userId), inArray(transfers.id, transferIds)));
+  return partners;
+}
+
+function transactionFilters(userId: string, query: TransactionQuery): SQL[] {
+  const filters: SQL[] = [eq(transactions.userId, userId)];
+  if (query.account_ids) filters.push(inArray(transactions.accountId, query.account_ids));
+  if (query.start_date) filters.push(gte(transactions.date, query.start_date));
+  if (query.end_date) filters.push(lte(transactions.date, query.end_date));
+  if (query.min_amount !== undefined) filters.push(gte(transactions.amount, query.min_amount));
+  if (query.max_amount !== undefined) filters.push(lte(transactions.amount, query.max_amount));
+  if (query.category) filters.push(eq(transactions.category, query.category));
+  if (query.subcategory) filters.push(eq(transactions.subcategory, query.subcategory));
+  if (query.search) filters.push(ilike(transactions.description, searchPattern(query.search)));
+  if (query.tags) filters.push(arrayContains(transactions.tags, query.tags));
+  return filters;
+}
+
+export class DrizzleStorage implements IStorage {
+  // Users already known to have a row in `users`
+  private knownUsers = new Set<string>();
+
+  // Every table references `users`, which Supabase Auth does not fill here
+  async ensureUser(userId: string): Promise<void> {
+    if (this.knownUsers.has(userId)) return;
+    await db.insert(users).values({ id: userId }).onConflictDoNothing();
+    this.knownUsers.add(userId);
+  }
+
+  async getAccounts(userId: string): Promise<Account[]> {
+    const rows = await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.userId, userId))
+      .orderBy(desc(accounts.createdAt));
+    return rows.map(toAccount);
+  }
+
+  async getAccount(userId: string, id: number): Promise<Account | undefined> {
+    const [row] = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+    return row ? toAccount(row) : undefined;
+  }
+
+  async createAccount(userId: string, account: InsertAccount): Promise<Account> {
+    const [row] = await db
+      .insert(accounts)
+      .values({
+        ...(definedOnly(fromAccount(account)) as typeof accounts.$inferInsert),
+        openingBalance: account.balance ?? "0",
+        userId,
+      })
+      .returning();
+    return toAccount(row);
+  }
+
+  async updateAccount(userId: string, id: number, data: Partial<InsertAccount>): Promise<Account | undefined> {
+    const { balance, ...values } = definedOnly(fromAccount(data));
+    if (balance === undefined && Object.keys(values).length === 0) {
+      return this.getAccount(userId, id);
+    }
+
+    const [row] = await db
+      .update(accounts)
+      .set(
+        balance === undefined
+          ? values
+          : {
+              ...values,
+              openingBalance: sql`${accounts.openingBalance} + (${balance}::numeric - ${accounts.balance})`,
+              balance,
+            }
+      )
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+      .returning();
+    return row ? toAccount(row) : undefined;
+  }
+
+  async deleteAccount(userId: string, id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Transfers touching the account go too; reverse their other legs first
+      const legs = await tx
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.accountId, id), eq(transactions.userId, userId), isNotNull(transactions.transferId)));
+      const removed = await deleteTransferPartners(tx, userId, legs);
+      await applyToBalances(tx, userId, sumByAccount(removed, -1));
+
+      await tx
+        .delete(accounts)
+        .where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+    });
+  }
+
+  async reconcileAccount(userId: string, id: number, options: ReconcileOptions): Promise<AccountReconciliation | undefined> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .select()
+        .from(accounts)
+        .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+        .for("update");
+      if (!row) return undefined;
+
+      const ledger = await tx
+        .select({ amount: transactions.amount })
+        .from(transactions)
+        .where(eq(transactions.accountId, id));
+      const report = buildReconciliation(toAccount(row), ledger.map((t) => t.amount), options);
+
+      if (options.apply) {
+        await tx
+          .update(accounts)
+          .set({ openingBalance: report.opening_balance, balance: report.computed_balance })
+          .where(eq(accounts.id, id));
+      }
+      return report;
+    });
+  }
+
+  async getTransactions(userId: string): Promise<Transaction[]> {
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.userId, userId))
+      .orderBy(desc(transactions.date));
+    return withDetails(db, rows);
+  }
+
+  async queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage> {
+    const filters = transactionFilters(userId, query);
+    const column = query.sort === "amount" ? transactions.amount : transactions.date;
+    const [order, after] = query.order === "asc" ? [asc, gt] : [desc, lt];
+
+    const pageFilters = [...filters];
+    if (query.cursor) {
+      const { value, id } = query.cursor;
+      pageFilters.push(or(after(column, value), and(eq(column, value), after(transactions.id, id)))!);
+    }
+
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(and(...pageFilters))
+      .orderBy(order(column), order(transactions.id))
+      .limit(query.limit + 1);
+
+    const [totals] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        income: sql<string>`coalesce(sum(${transactions.amount}) filter (where ${transactions.amount} > 0 and ${transactions.transferId} is null), 0)`,
+        expenses: sql<string>`coalesce(-sum(${transactions.amount}) filter (where ${transactions.amount} < 0 and ${transactions.transferId} is null), 0)`,
+        net: sql<string>`coalesce(sum(${transactions.amount}) filter (where ${transactions.transferId} is null), 0)`,
+      })
+      .from(transactions)
+      .where(and(...filters));
+
+    return {
+      ...toPage(await withDetails(db, rows), query),
+      totals: {
+        count: totals.count,
+        income: Number(totals.income).toFixed(2),
+        expenses: Number(totals.expenses).toFixed(2),
+        net: Number(totals.net).toFixed(2),
+      },
+    };
+  }
+
+  async getTransaction(userId: string, id: number): Promise<Transaction | undefined> {
+    const [row] = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+    if (!row) return undefined;
+    const [transaction] = await withDetails(db, [row]);
+    return transaction;
+  }
+
+  async getTransactionsByAccount(userId: string, accountId: number): Promise<Transaction[]> {
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.accountId, accountId), eq(transactions.userId, userId)))
+      .orderBy(desc(transactions.date));
+    return withDetails(db, rows);
+  }
+
+  async createTransaction(userId: string, transaction: NewTransaction): Promise<Transaction> {
+    const [created] = await this.createTransactions(userId, [transaction]);
+    return created;
+  }
+
+  async createTransactions(userId: string, rows: NewTransaction[]): Promise<Transaction[]> {
+    if (rows.length === 0) return [];
+
+    return db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(transactions)
+        .values(rows.map((row) => fromTransaction(userId, row)))
+        .returning();
+      await applyToBalances(tx, userId, sumByAccount(inserted));
+      return insertSplits(tx, userId, inserted, rows);
+    });
+  }
+
+  async updateTransaction(userId: string, id: number, data: TransactionUpdate): Promise<Transaction | undefined> {
+    const { splits, ...changes } = data;
+    const values = definedOnly(fromTransactionUpdate(changes));
+    if (Object.keys(values).length === 0 && splits === undefined) {
+      return this.getTransaction(userId, id);
+    }
+
+    return db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+        .for("update");
+      if (!existing) return undefined;
+
+      let row = existing;
+      if (Object.keys(values).length > 0) {
+        [row] = await tx
+          .update(transactions)
+          .set(values)
+          .where(eq(transactions.id, id))
+          .returning();
+
+        // Back the old amount out of the old account, then apply the new one
+        const deltas = sumByAccount([existing], -1);
+        deltas.set(row.accountId, (deltas.get(row.accountId) ?? 0) + parseFloat(row.amount));
+        await applyToBalances(tx, userId, deltas);
+      }
+
+      if (splits !== undefined) {
+        await tx.delete(transactionSplits).where(eq(transactionSplits.transactionId, id));
+        if (splits.length > 0) {
+          await tx.insert(transactionSplits).values(
+            splits.map((split) => ({
+              userId,
+              transactionId: id,
+              amount: split.amount,
+              subcategory: split.subcategory,
+              type: split.type,
+            }))
+          );
+        }
+      }
+
+      const [transaction] = await withDetails(tx, [row]);
+      return transaction;
+    });
+  }
+
+  async deleteTransaction(userId: string, id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(transactions)
+        .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+        .returning();
+      const removed = [...deleted, ...(await deleteTransferPartners(tx, userId, deleted))];
+      await applyToBalances(tx, userId, sumByAccount(removed, -1));
+    });
+  }
+
+  async deleteTransactionsByDateRange(userId: string, accountId: number, startDate: string, endDate: string): Promise<number> {
+    return db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(transactions)
+        .where(
+          and(
+            eq(transactions.accountId, accountId),
+            eq(transactions.userId, userId),
+            gte(transactions.date, startDate),
+            lte(transactions.date, endDate)
+          )
+        )
+        .returning();
+      const removed = [...deleted, ...(await deleteTransferPartners(tx, userId, deleted))];
+      await applyToBalances(tx, userId, sumByAccount(removed, -1));
+      return deleted.length;
+    });
+  }
+
+  async getImportBatches(userId: string): Promise<ImportBatch[]> {
+    const rows = await selectImportBatches(db, eq(importBatches.userId, userId));
+    return rows.map(({ batch, count }) => toImportBatch(batch, count));
+  }
+
+  async getImportBatch(userId: string, id: number): Promise<ImportBatch | undefined> {
+    const [row] = await selectImportBatches(db, and(eq(importBatches.id, id), eq(importBatches.userId, userId))!);
+    return row ? toImportBatch(row.batch, row.count) : undefined;
+  }
+
+  async createImportBatch(
+    userId: string,
+    batch: InsertImportBatch,
+    rows: NewTransaction[]
+  ): Promise<{ batch: ImportBatch; transactions: Transaction[] }> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(importBatches)
+        .values({
+          userId,
+          accountId: batch.account_id,
+          fileName: batch.file_name,
+          parser: batch.parser,
+          rowCount: rows.length,
+        })
+        .returning();
+      const inserted = await tx
+        .insert(transactions)
+        .values(rows.map((row) => ({ ...fromTransaction(userId, row), importBatchId: created.id })))
+        .returning();
+      await applyToBalances(tx, userId, sumByAccount(inserted));
+      return { batch: toImportBatch(created, inserted.length), transactions: await insertSplits(tx, userId, inserted, rows) };
+    });
+  }
+
+  async getTransactionsByImportBatch(userId: string, batchId: number): Promise<Transaction[]> {
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.importBatchId, batchId), eq(transactions.userId, userId)))
+      .orderBy(asc(transactions.id));
+    return withDetails(db, rows);
+  }
+
+  async deleteTransactionsByImportBatch(userId: string, batchId: number): Promise<number> {
+    return db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(transactions)
+        .where(and(eq(transactions.importBatchId, batchId), eq(transactions.userId, userId)))
+        .returning();
+      const removed = [...deleted, ...(await deleteTransferPartners(tx, userId, deleted))];
+      await applyToBalances(tx, userId, sumByAccount(removed, -1));
+      return deleted.length;
+    });
+  }
+
+  async getAttachment(userId: string, id: number): Promise<Attachment | undefined> {
+    const [row] = await db
+      .select()
+      .from(attachments)
+      .where(and(eq(attachments.id, id), eq(attachments.userId, userId)));
+    return row ? toAttachment(row) : undefined;
+  }
+
+  async createAttachment(userId: string, attachment: InsertAttachment): Promise<Attachment> {
+    const [transaction] = await db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(and(eq(transactions.id, attachment.transaction_id), eq(transactions.userId, userId)));
+    if (!transaction) {
+      throw new Error(`Transaction ${attachment.transaction_id} not found`);
+    }
+
+    const [row] = await db
+      .insert(attachments)
+      .values({
+        userId,
+        transactionId: attachment.transaction_id,
+        fileName: attachment.file_name,
+        contentType: attachment.content_type,
+        size: attachment.size,
+        storageKey: attachment.storage_key,
+      })
+      .returning();
+    return toAttachment(row);
+  }
+
+  async deleteAttachment(userId: string, id: number): Promise<void> {
+    await db
+      .delete(attachments)
+      .where(and(eq(attachments.id, id), eq(attachments.userId, userId)));
+  }
+
+  async getTags(userId: string): Promise<TagCount[]> {
+    const tag = sql<string>`unnest(${transactions.tags})`;
+    const rows = await db
+      .select({ tag, count: sql<number>`count(*)::int` })
+      .from(transactions)
+      .where(eq(transactions.userId, userId))
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+    return rows;
+  }
+
+  async replaceTag(userId: string, tag: string, replacement: string | null): Promise<number> {
+    // Renaming onto an existing tag merges the two, so keep the array distinct
+    const updated = await db
+      .update(transactions)
+      .set({
+        tags: sql`array(
+          select distinct t from unnest(array_replace(${transactions.tags}, ${tag}::text, ${replacement}::text)) as t
+          where t is not null order by t
+        )`,
+      })
+      .where(and(eq(transactions.userId, userId), arrayContains(transactions.tags, [tag])))
+      .returning({ id: transactions.id });
+    return updated.length;
+  }
+
+  async getSavedViews(userId: string): Promise<SavedView[]> {
+    const rows = await db
+      .select()
+      .from(savedViews)
+      .where(eq(savedViews.userId, userId))
+      .orderBy(asc(savedViews.name));
+    return rows.map(toSavedView);
+  }
+
+  async getSavedView(userId: string, id: number): Promise<SavedView | undefined> {
+    const [row] = await db
+      .select()
+      .from(savedViews)
+      .where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)));
+    return row ? toSavedView(row) : undefined;
+  }
+
+  async createSavedView(userId: string, view: InsertSavedView): Promise<SavedView> {
+    const [row] = await db
+      .insert(savedViews)
+      .values({ ...view, userId })
+      .returning();
+    return toSavedView(row);
+  }
+
+  async updateSavedView(userId: string, id: number, data: Partial<InsertSavedView>): Promise<SavedView | undefined> {
+    const values = definedOnly(data);
+    if (Object.keys(values).length === 0) {
+      return this.getSavedView(userId, id);
+    }
+
+    const [row] = await db
+      .update(savedViews)
+      .set(values)
+      .where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)))
+      .returning();
+    return row ? toSavedView(row) : undefined;
+  }
+
+  async deleteSavedView(userId: string, id: number): Promise<void> {
+    await db
+      .delete(savedViews)
+      .where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)));
+  }
+
+  async getImportProfiles(userId: string): Promise<ImportProfile[]> {
+    const rows = await db
+      .select()
+      .from(importProfiles)
+      .where(eq(importProfiles.userId, userId))
+      .orderBy(asc(importProfiles.accountId), asc(importProfiles.id));
+    return rows.map(toImportProfile);
+  }
+
+  async getImportProfile(userId: string, id: number): Promise<ImportProfile | undefined> {
+    const [row] = await db
+      .select()
+      .from(importProfiles)
+      .where(and(eq(importProfiles.id, id), eq(importProfiles.userId, userId)));
+    return row ? toImportProfile(row) : undefined;
+  }
+
+  async createImportProfile(userId: string, profile: InsertImportProfile): Promise<ImportProfile> {
+    const [row] = await db
+      .insert(importProfiles)
+      .values({ ...(fromImportProfile(profile) as typeof importProfiles.$inferInsert), userId })
+      .returning();
+    return toImportProfile(row);
+  }
+
+  async updateImportProfile(userId: string, id: number, data: Partial<InsertImportProfile>): Promise<ImportProfile | undefined> {
+    const values = definedOnly(fromImportProfile(data));
+    if (Object.keys(values).length === 0) {
+      return this.getImportProfile(userId, id);
+    }
+
+    const [row] = await db
+      .update(importProfiles)
+      .set(values)
+      .where(and(eq(importProfiles.id, id), eq(importProfiles.userId, userId)))
+      .returning();
+    return row ? toImportProfile(row) : undefined;
+  }
+
+  async deleteImportProfile(userId: string, id: number): Promise<void> {
+    await db
+      .delete(importProfiles)
+      .where(and(eq(importProfiles.id, id), eq(importProfiles.userId, userId)));
+  }
+
+  async getCategoryRules(userId: string): Promise<CategoryRule[]> {
+    const rows = await db
+      .select()
+      .from(categoryRules)
+      .where(eq(categoryRules.userId, userId))
+      .orderBy(desc(categoryRules.priority), asc(categoryRules.id));
+    return rows.map(toCategoryRule);
+  }
+
+  async getCategoryRule(userId: string, id: number): Promise<CategoryRule | undefined> {
+    const [row] = await db
+      .select()
+      .from(categoryRules)
+      .where(and(eq(categoryRules.id, id), eq(categoryRules.userId, userId)));
+    return row ? toCategoryRule(row) : undefined;
+  }
+
+  async createCategoryRule(userId: string, rule: InsertCategoryRule): Promise<CategoryRule> {
+    const [row] = await db
+      .insert(categoryRules)
+      .values({ ...(fromCategoryRule(rule) as typeof categoryRules.$inferInsert), userId })
+      .returning();
+    return toCategoryRule(row);
+  }
+
+  async updateCategoryRule(userId: string, id: number, data: Partial<InsertCategoryRule>): Promise<CategoryRule | undefined> {
+    const values = definedOnly(fromCategoryRule(data));
+    if (Object.keys(values).length === 0) {
+      return this.getCategoryRule(userId, id);
+    }
+
+    const [row] = await db
+      .update(categoryRules)
+      .set(values)
+      .where(and(eq(categoryRules.id, id), eq(categoryRules.userId, userId)))
+      .returning();
+    return row ? toCategoryRule(row) : undefined;
+  }
+
+  async deleteCategoryRule(userId: string, id: number): Promise<void> {
+    await db
+      .delete(categoryRules)
+      .where(and(eq(categoryRules.id, id), eq(categoryRules.userId, userId)));
+  }
+
+  async getCategorizationJobs(userId: string): Promise<CategorizationJob[]> {
+    const rows = await db
+      .select()
+      .from(categorizationJobs)
+      .where(eq(categorizationJobs.userId, userId))
+      .orderBy(desc(categorizationJobs.createdAt), desc(categorizationJobs.id));
+    return rows.map(toCategorizationJob);
+  }
+
+  async getCategorizationJob(userId: string, id: number): Promise<CategorizationJob | undefined> {
+    const [row] = await db
+      .select()
+      .from(categorizationJobs)
+      .where(and(eq(categorizationJobs.id, id), eq(categorizationJobs.userId, userId)));
+    return row ? toCategorizationJob(row) : undefined;
+  }
+
+  async createCategorizationJob(userId: string, total: number): Promise<CategorizationJob> {
+    const [row] = await db.insert(categorizationJobs).values({ userId, total }).returning();
+    return toCategorizationJob(row);
+  }
+
+  async updateCategorizationJob(userId: string, id: number, data: UpdateCategorizationJob): Promise<CategorizationJob | undefined> {
+    const values = definedOnly(fromCategorizationJob(data));
+    if (Object.keys(values).length === 0) {
+      return this.getCategorizationJob(userId, id);
+    }
+    const [row] = await db
+      .update(categorizationJobs)
+      .set(values)
+      .where(and(eq(categorizationJobs.id, id), eq(categorizationJobs.userId, userId)))
+      .returning();
+    return row ? toCategorizationJob(row) : undefined;
+  }
+
+  async failRunningCategorizationJobs(error: string, now: string): Promise<CategorizationJob[]> {
+    const rows = await db
+      .update(categorizationJobs)
+      .set({ status: "failed", error, completedAt: new Date(now) })
+      .where(eq(categorizationJobs.status, "running"))
+      .returning();
+    return rows.map(toCategorizationJob);
+  }
+
+  async getCategorizationSuggestions(userId: string): Promise<CategorizationSuggestion[]> {
+    const rows = await db
+      .select()
+      .from(categorizationSuggestions)
+      .where(eq(categorizationSuggestions.userId, userId))
+      .orderBy(asc(categorizationSuggestions.id));
+    return rows.map(toCategorizationSuggestion);
+  }
+
+  async createCategorizationSuggestions(
+    userId: string,
+    suggestions: InsertCategorizationSuggestion[]
+  ): Promise<CategorizationSuggestion[]> {
+    if (suggestions.length === 0) return [];
+    const rows = await db
+      .insert(categorizationSuggestions)
+      .values(
+        suggestions.map((suggestion) => ({
+          userId,
+          jobId: suggestion.job_id,
+          transactionId: suggestion.transaction_id,
+          subcategory: suggestion.subcategory,
+        }))
+      )
+      .returning();
+    return rows.map(toCategorizationSuggestion);
+  }
+
+  async deleteCategorizationSuggestions(userId: string, ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .delete(categorizationSuggestions)
+      .where(and(inArray(categorizationSuggestions.id, ids), eq(categorizationSuggestions.userId, userId)));
+  }
+
+  async getTransfers(userId: string): Promise<Transfer[]> {
+    const rows = await db
+      .select()
+      .from(transfers)
+      .where(eq(transfers.userId, userId))
+      .orderBy(desc(transfers.date), desc(transfers.id));
+    if (rows.length === 0) return [];
+
+    const legs = await db
+      .select()
+      .from(transactions)
+      .where(inArray(transactions.transferId, rows.map((row) => row.id)))
+      .orderBy(asc(transactions.id));
+    return rows.map((row) =>
+      toTransfer(row, legs.filter((leg) => leg.transferId === row.id).map(toTransaction))
+    );
+  }
+
+  async getTransfer(userId: string, id: number): Promise<Transfer | undefined> {
+    const [row] = await db
+      .select()
+      .from(transfers)
+      .where(and(eq(transfers.id, id), eq(transfers.userId, userId)));
+    if (!row) return undefined;
+
+    const legs = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.transferId, id))
+      .orderBy(asc(transactions.id));
+    return toTransfer(row, legs.map(toTransaction));
+  }
+
+  async createTransfer(userId: string, transfer: InsertTransfer): Promise<Transfer> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(transfers)
+        .values({
+          ...(definedOnly(fromTransfer(transfer)) as typeof transfers.$inferInsert),
+          userId,
+        })
+        .returning();
+      return toTransfer(row, await writeTransferLegs(tx, userId, row));
+    });
+  }
+
+  async updateTransfer(userId: string, id: number, data: Partial<InsertTransfer>): Promise<Transfer | undefined> {
+    const values = definedOnly(fromTransfer(data));
+    if (Object.keys(values).length === 0) {
+      return this.getTransfer(userId, id);
+    }
+
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(transfers)
+        .set(values)
+        .where(and(eq(transfers.id, id), eq(transfers.userId, userId)))
+        .returning();
+      if (!row) return undefined;
+      return toTransfer(row, await writeTransferLegs(tx, userId, row));
+    });
+  }
+
+  async deleteTransfer(userId: string, id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const legs = await tx
+        .delete(transactions)
+        .where(and(eq(transactions.transferId, id), eq(transactions.userId, userId)))
+        .returning();
+      await tx
+        .delete(transfers)
+        .where(and(eq(transfers.id, id), eq(transfers.userId, userId)));
+      await applyToBalances(tx, userId, sumByAccount(legs, -1));
+    });
+  }
+
+  async getObligations(userId: string): Promise<Obligation[]> {
+    const rows = await db
+      .select()
+      .from(obligations)
+      .where(eq(obligations.userId, userId))
+      .orderBy(asc(obligations.dueDate));
+    return rows.map(toObligation);
+  }
+
+  async getObligation(userId: string, id: number): Promise<Obligation | undefined> {
+    const [row] = await db
+      .select()
+      .from(obligations)
+      .where(and(eq(obligations.id, id), eq(obligations.userId, userId)));
+    return row ? toObligation(row) : undefined;
+  }
+
+  async createObligation(userId: string, obligation: InsertObligation): Promise<Obligation> {
+    const [row] = await db
+      .insert(obligations)
+      .values({
+        ...(definedOnly(fromObligation(obligation)) as typeof obligations.$inferInsert),
+        userId,
+      })
+      .returning();
+    return toObligation(row);
+  }
+
+  async updateObligation(userId: string, id: number, data: Partial<InsertObligation>): Promise<Obligation | undefined> {
+    const values = definedOnly(fromObligation(data));
+    if (Object.keys(values).length === 0) {
+      return this.getObligation(userId, id);
+    }
+
+    const [row] = await db
+      .update(obligations)
+      .set(values)
+      .where(and(eq(obligations.id, id), eq(obligations.userId, userId)))
+      .returning();
+    return row ? toObligation(row) : undefined;
+  }
+
+  async deleteObligation(userId: string, id: number): Promise<void> {
+    await db
+      .delete(obligations)
+      .where(and(eq(obligations.id, id), eq(obligations.userId, userId)));
+  }
+
+  async getDeletions(userId: string): Promise<Deletion[]> {
+    const rows = await db
+      .select()
+      .from(deletions)
+      .where(and(eq(deletions.userId, userId), gt(deletions.expiresAt, new Date())))
+      .orderBy(desc(deletions.id));
+    return rows.map(toDeletion);
+  }
+
+  async getDeletion(userId: string, id: number): Promise<Deletion | undefined> {
+    const [row] = await db
+      .select()
+      .from(deletions)
+      .where(and(eq(deletions.id, id), eq(deletions.userId, userId), gt(deletions.expiresAt, new Date())));
+    return row ? toDeletion(row) : undefined;
+  }
+
+  async createDeletion(userId: string, deletion: InsertDeletion): Promise<Deletion> {
+    const [row] = await db
+      .insert(deletions)
+      .values({
+        userId,
+        kind: deletion.kind,
+        label: deletion.label,
+        records: deletion.records as unknown as Record<string, unknown[]>,
+        expiresAt: new Date(deletion.expires_at),
+      })
+      .returning();
+    return toDeletion(row);
+  }
+
+  async restoreDeletion(userId: string, id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .delete(deletions)
+        .where(and(eq(deletions.id, id), eq(deletions.userId, userId), gt(deletions.expiresAt, new Date())))
+        .returning();
+      if (!row) return false;
+      const { records } = toDeletion(row);
+
+      // Accounts come back at their opening balance; their transactions add the rest
+      if (records.accounts.length > 0) {
+        await tx.insert(accounts).values(
+          records.accounts.map((a) => ({
+            ...(definedOnly(fromAccount(a)) as typeof accounts.$inferInsert),
+            id: a.id,
+            userId,
+            balance: a.opening_balance,
+            openingBalance: a.opening_balance,
+            createdAt: new Date(a.created_at),
+          }))
+        );
+      }
+      if (records.transfers.length > 0) {
+        await tx.insert(transfers).values(
+          records.transfers.map((t) => ({
+            ...(fromTransfer(t) as typeof transfers.$inferInsert),
+            id: t.id,
+            userId,
+            createdAt: new Date(t.created_at),
+          }))
+        );
+      }
+      if (records.transactions.length > 0) {
+        const inserted = await tx
+          .insert(transactions)
+          .values(
+            records.transactions.map((t) => ({
+              ...fromTransaction(userId, t),
+              id: t.id,
+              transferId: t.transfer_id ?? null,
+              createdAt: new Date(t.created_at),
+            }))
+          )
+          .returning();
+        await applyToBalances(tx, userId, sumByAccount(inserted));
+      }
+
+      const splits = records.transactions.flatMap((t) => t.splits);
+      if (splits.length > 0) {
+        await tx.insert(transactionSplits).values(
+          splits.map((split) => ({
+            id: split.id,
+            userId,
+            transactionId: split.transaction_id,
+            amount: split.amount,
+            subcategory: split.subcategory,
+            type: split.type,
+          }))
+        );
+      }
+      const files = records.transactions.flatMap((t) => t.attachments);
+      if (files.length > 0) {
+        await tx.insert(attachments).values(
+          files.map((file) => ({
+            id: file.id,
+            userId,
+            transactionId: file.transaction_id,
+            fileName: file.file_name,
+            contentType: file.content_type,
+            size: file.size,
+            storageKey: file.storage_key,
+            createdAt: new Date(file.created_at),
+          }))
+        );
+      }
+
+      if (records.obligations.length > 0) {
+        await tx.insert(obligations).values(
+          records.obligations.map((o) => ({
+            ...(definedOnly(fromObligation(o)) as typeof obligations.$inferInsert),
+            id: o.id,
+            userId,
+            createdAt: new Date(o.created_at),
+          }))
+        );
+      }
+      for (const { id: obligationId, account_id } of records.unlinked_obligations) {
+        await tx
+          .update(obligations)
+          .set({ accountId: account_id })
+          .where(and(eq(obligations.id, obligationId), eq(obligations.userId, userId), isNull(obligations.accountId)));
+      }
+      return true;
+    });
+  }
+
+  async deleteDeletion(userId: string, id: number): Promise<void> {
+    await db
+      .delete(deletions)
+      .where(and(eq(deletions.id, id), eq(deletions.userId, userId)));
+  }
+
+  async purgeExpiredDeletions(now: string): Promise<Deletion[]> {
+    const rows = await db
+      .delete(deletions)
+      .where(lte(deletions.expiresAt, new Date(now)))
+      .returning();
+    return rows.map(toDeletion);
+  }
+
+  async appendAuditEntries(userId: string, entries: InsertAuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(auditLog).values(
+      entries.map((entry) => ({
+        userId,
+        entityType: entry.entity_type,
+        entityId: entry.entity_id,
+        action: entry.action,
+        before: entry.before,
+        after: entry.after,
+        source: entry.source,
+      }))
+    );
+  }
+
+  async getAuditEntries(userId: string, entityType: AuditEntityType, entityId: number): Promise<AuditEntry[]> {
+    const rows = await db
+      .select()
+      .from(auditLog)
+      .where(and(eq(auditLog.userId, userId), eq(auditLog.entityType, entityType), eq(auditLog.entityId, entityId)))
+      .orderBy(desc(auditLog.id));
+    return rows.map(toAuditEntry);
+  }
+
+  async getConversations(userId: string): Promise<Conversation[]> {
+    const rows = await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.userId, userId))
+      .orderBy(desc(conversations.createdAt));
+    return rows.map(toConversation);
+  }
+
+  async getConversation(userId: string, id: number): Promise<Conversation | undefined> {
+    const [row] = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
+    return row ? toConversation(row) : undefined;
+  }
+
+  async createConversation(userId: string, title: string): Promise<Conversation> {
+    const [row] = await db
+      .insert(conversations)
+      .values({ title, userId })
+      .returning();
+    return toConversation(row);
+  }
+
+  async deleteConversation(userId: string, id: number): Promise<void> {
+    await db
+      .delete(conversations)
+      .where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
+  }
+
+  async getMessagesByConversation(userId: string, conversationId: number): Promise<Message[]> {
+    const conversation = await this.getConversation(userId, conversationId);
+    if (!conversation) return [];
+
+    const rows = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(asc(messages.createdAt));
+    return rows.map(toMessage);
+  }
+
+  async createMessage(userId: string, conversationId: number, role: string, content: string): Promise<Message> {
+    const conversation = await this.getConversation(userId, conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found or not authorized");
+    }
+
+    const [row] = await db
+      .insert(messages)
+      .values({ conversationId, role, content })
+      .returning();
+    return toMessage(row);
+  }
+}
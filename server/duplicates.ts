@@ -0,0 +1,97 @@
+import type { Transaction } from "./storage";
+
+// Bank exports of the same transaction often post a few days apart (pending
+// vs. settled, or a statement cut-off), so dates this close still match.
+export const DUPLICATE_DATE_WINDOW_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ImportCandidate {
+  account_id: number;
+  date: string;
+  amount: string | number;
+  description: string;
+  external_id?: string | null;
+}
+
+// A candidate row that is probably already recorded as `transaction_id`.
+// "exact" means the same bank id or the same date, "fuzzy" a date within
+// the window.
+export interface DuplicateMatch {
+  index: number;
+  transaction_id: number;
+  match: "exact" | "fuzzy";
+}
+
+// Lowercase words without punctuation or the purely numeric tokens (card
+// suffixes, reference and store numbers) that vary between exports.
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((word) => word !== "" && !/^\d+$/.test(word))
+    .join(" ");
+}
+
+// Account, amount in cents and normalized description; the date is
+// compared separately so near dates can match.
+export function fingerprint(row: Pick<ImportCandidate, "account_id" | "amount" | "description">): string {
+  const cents = Math.round(Number(row.amount) * 100);
+  return `${row.account_id}|${cents}|${normalizeDescription(row.description)}`;
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+}
+
+// Pairs candidate rows with existing transactions on the same account that
+// carry the same bank id, or else share their fingerprint and are dated
+// within `windowDays` (rows where both sides have a bank id only ever match
+// by it). Each existing transaction matches at most one row, so a file with
+// two identical coffees against one recorded coffee flags only one of them.
+// Bank ids are paired first, then same-day matches, then the nearest
+// remaining date.
+export function findDuplicates(
+  existing: Pick<Transaction, "id" | "account_id" | "amount" | "description" | "date" | "external_id">[],
+  candidates: ImportCandidate[],
+  windowDays = DUPLICATE_DATE_WINDOW_DAYS
+): DuplicateMatch[] {
+  const byFingerprint = new Map<string, typeof existing>();
+  for (const transaction of existing) {
+    const key = fingerprint(transaction);
+    byFingerprint.set(key, [...(byFingerprint.get(key) ?? []), transaction]);
+  }
+
+  const used = new Set<number>();
+  const matches = new Map<number, DuplicateMatch>();
+
+  const byExternalId = new Map(
+    existing.filter((t) => t.external_id).map((t) => [`${t.account_id}|${t.external_id}`, t])
+  );
+  candidates.forEach((row, index) => {
+    const transaction = row.external_id ? byExternalId.get(`${row.account_id}|${row.external_id}`) : undefined;
+    if (!transaction || used.has(transaction.id)) return;
+    used.add(transaction.id);
+    matches.set(index, { index, transaction_id: transaction.id, match: "exact" });
+  });
+
+  const pair = (exactOnly: boolean) => {
+    candidates.forEach((row, index) => {
+      if (matches.has(index)) return;
+      const nearest = (byFingerprint.get(fingerprint(row)) ?? [])
+        // Two different bank ids are two different transactions
+        .filter((t) => !used.has(t.id) && !(row.external_id && t.external_id))
+        .map((t) => ({ transaction: t, days: daysApart(t.date, row.date) }))
+        .filter(({ days }) => (exactOnly ? days === 0 : days <= windowDays))
+        .sort((a, b) => a.days - b.days || a.transaction.id - b.transaction.id)[0];
+      if (!nearest) return;
+      used.add(nearest.transaction.id);
+      matches.set(index, { index, transaction_id: nearest.transaction.id, match: nearest.days === 0 ? "exact" : "fuzzy" });
+    });
+  };
+  pair(true);
+  pair(false);
+
+  return Array.from(matches.values()).sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,168 @@
+import { createHash, createHmac } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Where uploaded files (transaction attachments) are kept. Keys are
+// slash-separated paths chosen by the caller.
+export interface FileStore {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalFileStore implements FileStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid file key ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Set for S3-compatible services (MinIO, R2, Spaces...); defaults to AWS
+  endpoint?: string;
+  // Address the bucket as the first path segment instead of a subdomain
+  forcePathStyle?: boolean;
+}
+
+const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+
+// RFC 3986 encoding as Signature Version 4 expects it (encodeURIComponent
+// leaves !'()* alone).
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// Talks to any S3-compatible object store with plain HTTP requests signed
+// with AWS Signature Version 4.
+export class S3FileStore implements FileStore {
+  constructor(private config: S3Config) {}
+
+  private url(key: string): URL {
+    const { bucket, region, endpoint, forcePathStyle } = this.config;
+    const objectPath = key.split("/").map(encodeSegment).join("/");
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+    return forcePathStyle
+      ? new URL(`${base.origin}/${bucket}/${objectPath}`)
+      : new URL(`${base.protocol}//${bucket}.${base.host}/${objectPath}`);
+  }
+
+  private async send(method: "GET" | "PUT" | "DELETE", key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const { region, accessKeyId, secretAccessKey } = this.config;
+    const url = this.url(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const day = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? "");
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (contentType) headers["content-type"] = contentType;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+      "",
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+    const scope = `${day}/${region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, day), region), "s3"), "aws4_request");
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    // fetch sets Host itself
+    const { host: _host, ...sent } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...sent,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const res = await this.send("PUT", key, body, contentType);
+    if (!res.ok) throw new Error(`S3 PUT ${key} failed with ${res.status}: ${await res.text()}`);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const res = await this.send("GET", key);
+    if (res.status === 404) return undefined;
+    if (!res.ok) throw new Error(`S3 GET ${key} failed with ${res.status}: ${await res.text()}`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const res = await this.send("DELETE", key);
+    if (!res.ok && res.status !== 404) throw new Error(`S3 DELETE ${key} failed with ${res.status}: ${await res.text()}`);
+  }
+}
+
+export type FileStoreBackend = "local" | "s3";
+
+// FILE_STORE=s3 keeps attachments in the bucket named by S3_BUCKET; the
+// default writes them under UPLOAD_DIR (./uploads).
+export function createFileStore(
+  backend: FileStoreBackend = (process.env.FILE_STORE as FileStoreBackend) || "local"
+): FileStore {
+  switch (backend) {
+    case "local":
+      return new LocalFileStore(process.env.UPLOAD_DIR || "uploads");
+    case "s3": {
+      const { S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_ENDPOINT, S3_FORCE_PATH_STYLE } = process.env;
+      if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error("FILE_STORE=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+      }
+      return new S3FileStore({
+        bucket: S3_BUCKET,
+        region: S3_REGION || "us-east-1",
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        endpoint: S3_ENDPOINT || undefined,
+        forcePathStyle: S3_FORCE_PATH_STYLE === "true",
+      });
+    }
+    default:
+      throw new Error(`Unknown FILE_STORE "${backend}" (expected "local" or "s3")`);
+  }
+}
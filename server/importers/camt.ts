@@ -0,0 +1,137 @@
+import type { ParsedStatement, ParsedStatementTransaction, StatementBalance } from "./types";
+
+// ISO 20022 camt.053 is the XML end-of-day statement European banks offer
+// in place of MT940. A <BkToCstmrStmt> document holds one <Stmt> per
+// account and day, each with its balances (<Bal>) and booked entries
+// (<Ntry>). Element names are the same across schema versions; namespace
+// prefixes are dropped before reading.
+
+function stripNamespaces(text: string): string {
+  return text.replace(/<(\/?)[A-Za-z][\w.-]*:/g, "<$1");
+}
+
+function aggregates(block: string, tag: string): string[] {
+  return Array.from(block.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g")), (match) => match[1]);
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#x") || name.startsWith("#X")) return String.fromCharCode(parseInt(name.slice(2), 16));
+    if (name.startsWith("#")) return String.fromCharCode(parseInt(name.slice(1), 10));
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+// Text of the first element at `path` below `block`, e.g.
+// text(entry, "BookgDt", "Dt")
+function text(block: string | undefined, ...path: string[]): string | undefined {
+  for (const tag of path.slice(0, -1)) {
+    block = block === undefined ? undefined : aggregates(block, tag)[0];
+  }
+  if (block === undefined) return undefined;
+  const match = block.match(new RegExp(`<${path[path.length - 1]}(?:\\s[^>]*)?>([^<]*)</${path[path.length - 1]}>`));
+  const value = match && decodeEntities(match[1]).replace(/\s+/g, " ").trim();
+  return value || undefined;
+}
+
+// The first <Dt>, or date part of a <DtTm>, inside `block`. Matched
+// directly since balances nest a <Dt> inside a <Dt>.
+function date(block: string | undefined): string | undefined {
+  return block?.match(/<Dt(?:Tm)?>\s*(\d{4}-\d{2}-\d{2})/)?.[1];
+}
+
+// Amounts are unsigned; <CdtDbtInd> says which way the money went. A
+// reversal carries the indicator of the entry it reverses.
+function signedAmount(block: string): number | undefined {
+  const amount = parseFloat(text(block, "Amt") ?? "");
+  if (isNaN(amount)) return undefined;
+  const debit = text(block, "CdtDbtInd") === "DBIT";
+  const reversal = text(block, "RvslInd") === "true";
+  return debit !== reversal ? -amount : amount;
+}
+
+function balance(statement: string, codes: string[]): StatementBalance | undefined {
+  const balances = aggregates(statement, "Bal");
+  for (const code of codes) {
+    const bal = balances.find((b) => text(b, "Tp", "CdOrPrtry", "Cd") === code);
+    const amount = bal !== undefined ? signedAmount(bal) : undefined;
+    const balanceDate = date(bal);
+    if (amount !== undefined && balanceDate) return { amount, date: balanceDate };
+  }
+  return undefined;
+}
+
+function parseEntry(entry: string): ParsedStatementTransaction | null {
+  // Pending and information-only entries have not hit the balance
+  const status = text(entry, "Sts", "Cd") ?? text(entry, "Sts");
+  if (status && status !== "BOOK") return null;
+
+  const entryDate = date(aggregates(entry, "BookgDt")[0]) ?? date(aggregates(entry, "ValDt")[0]);
+  const amount = signedAmount(entry);
+  if (!entryDate || amount === undefined) return null;
+
+  // The other party: who was paid for a debit, who paid for a credit
+  const party = text(entry, amount < 0 ? "Cdtr" : "Dbtr", "Nm");
+  const remittance = aggregates(entry, "RmtInf")
+    .flatMap((info) => aggregates(info, "Ustrd"))
+    .map((line) => decodeEntities(line).trim())
+    .join(" ");
+  const description =
+    [party, remittance].filter(Boolean).join(" - ") || text(entry, "AddtlNtryInf") || text(entry, "AddtlTxInf") || "";
+
+  return {
+    date: entryDate,
+    description,
+    amount,
+    external_id: text(entry, "AcctSvcrRef") ?? text(entry, "NtryRef"),
+  };
+}
+
+function accountId(statement: string): string | undefined {
+  return text(statement, "Acct", "Id", "IBAN") ?? text(statement, "Acct", "Id", "Othr", "Id");
+}
+
+export function isCamt053(text: string): boolean {
+  return /<([\w.-]+:)?BkToCstmrStmt[\s>]/.test(text);
+}
+
+// Bytes of an XML file as text, honoring a Latin-1 encoding declaration
+export function decodeXml(buffer: Buffer): string {
+  const head = buffer.subarray(0, 200).toString("latin1");
+  const latin1 = /encoding=["'](iso-8859-1|latin-?1|windows-1252)["']/i.test(head);
+  return buffer.toString(latin1 ? "latin1" : "utf8").replace(/^\uFEFF/, "");
+}
+
+// Reads a camt.053 document. Several statements for the same account (one
+// per day, say) are read as one, opening with the first and closing with
+// the last. Returns null when the text is not camt.053 or covers more than
+// one account.
+export function parseCamt053(xml: string): ParsedStatement | null {
+  if (!isCamt053(xml)) return null;
+
+  const statements = aggregates(stripNamespaces(xml), "Stmt");
+  if (statements.length === 0 || new Set(statements.map(accountId)).size !== 1) return null;
+
+  const transactions = statements.flatMap((statement) =>
+    aggregates(statement, "Ntry")
+      .map(parseEntry)
+      .filter((t): t is ParsedStatementTransaction => t !== null)
+  );
+
+  const first = statements[0];
+  const last = statements[statements.length - 1];
+  const currency = text(first, "Acct", "Ccy") ?? first.match(/<Amt\s+Ccy="([A-Z]{3})"/)?.[1];
+
+  return {
+    transactions,
+    account_number: accountId(first),
+    currency,
+    period_start: text(first, "FrToDt", "FrDtTm")?.slice(0, 10) ?? text(first, "FrToDt", "FrDt"),
+    period_end: text(last, "FrToDt", "ToDtTm")?.slice(0, 10) ?? text(last, "FrToDt", "ToDt"),
+    // Opening booked, or else the previous day's closing
+    opening_balance: balance(first, ["OPBD", "PRCD"]),
+    closing_balance: balance(last, ["CLBD"]),
+  };
+}
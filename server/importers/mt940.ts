@@ -0,0 +1,182 @@
+import type { ParsedStatement, ParsedStatementTransaction, StatementBalance } from "./types";
+
+// SWIFT MT940 is a tagged text format: every field starts with a tag such
+// as ":61:" at the start of a line and runs until the next tag. A file holds
+// one or more statements, each starting with ":20:", with the account in
+// ":25:", the opening balance in ":60F:" (":60M:" on a continuation page),
+// a ":61:" line per booking with its details in the ":86:" after it, and
+// the closing balance in ":62F:" (":62M:").
+
+interface Field {
+  tag: string;
+  value: string;
+}
+
+type Mt940Balance = StatementBalance & { currency: string };
+
+interface Mt940Statement {
+  account?: string;
+  opening?: Mt940Balance;
+  closing?: Mt940Balance;
+  transactions: ParsedStatementTransaction[];
+}
+
+// Two-digit years are 20xx up to 79
+function yymmdd(raw: string): string {
+  const year = parseInt(raw.slice(0, 2), 10);
+  return `${year < 80 ? 2000 + year : 1900 + year}-${raw.slice(2, 4)}-${raw.slice(4, 6)}`;
+}
+
+function parseMt940Amount(raw: string): number {
+  return parseFloat(raw.replace(",", "."));
+}
+
+// "C260131EUR1234,56": credit or debit mark, date, currency and amount
+function parseBalance(value: string): Mt940Balance | undefined {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})(\d+,\d*)/);
+  if (!match) return undefined;
+  const amount = parseMt940Amount(match[4]);
+  return { amount: match[1] === "D" ? -amount : amount, date: yymmdd(match[2]), currency: match[3] };
+}
+
+// Strips the SWIFT envelope ({1:...}{2:...}{4: ... -}) some banks keep and
+// splits the rest into fields. Lines without a tag continue the field above.
+function readFields(text: string): Field[] {
+  const body = text
+    .replace(/\{[1235]:(?:\{[^}]*\}|[^{}])*\}/g, "")
+    .replace(/\{4:/g, "")
+    .replace(/-\}/g, "");
+
+  const fields: Field[] = [];
+  for (const line of body.split(/\r?\n/)) {
+    const tagged = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagged) {
+      fields.push({ tag: tagged[1], value: tagged[2] });
+    } else if (fields.length > 0 && line.trim() !== "-" && line.trim() !== "") {
+      fields[fields.length - 1].value += "\n" + line;
+    }
+  }
+  return fields;
+}
+
+// The booking date is given without a year; it takes the value date's year,
+// moved by one when the two straddle New Year.
+function entryDate(valueDate: string, mmdd: string): string {
+  let year = parseInt(valueDate.slice(0, 4), 10);
+  const valueMonth = parseInt(valueDate.slice(5, 7), 10);
+  const entryMonth = parseInt(mmdd.slice(0, 2), 10);
+  if (valueMonth === 1 && entryMonth === 12) year--;
+  if (valueMonth === 12 && entryMonth === 1) year++;
+  return `${year}-${mmdd.slice(0, 2)}-${mmdd.slice(2, 4)}`;
+}
+
+// ":86:" is free text, or structured: German banks write "?20".."?29" for
+// the purpose and "?32"/"?33" for the other party, Dutch banks
+// "/NAME/.../REMI/...". Structured lines are wrapped at fixed widths, so
+// line breaks carry no meaning.
+function describe(details: string | undefined): string | undefined {
+  if (!details) return undefined;
+  const flat = details.replace(/\r?\n/g, "");
+
+  if (/^\d{3}\?/.test(flat) || /\?2\d/.test(flat)) {
+    const subfields = new Map<string, string>();
+    for (const match of Array.from(flat.matchAll(/\?(\d{2})([^?]*)/g))) {
+      subfields.set(match[1], (subfields.get(match[1]) ?? "") + match[2]);
+    }
+    const join = (codes: string[]) => codes.map((code) => subfields.get(code)?.trim() ?? "").filter(Boolean).join(" ");
+    const party = join(["32", "33"]);
+    const purpose = join(["20", "21", "22", "23", "24", "25", "26", "27", "28", "29"]);
+    return [party, purpose].filter(Boolean).join(" - ") || subfields.get("00")?.trim();
+  }
+
+  if (/^\/[A-Z]{4}\//.test(flat)) {
+    const party = flat.match(/\/NAME\/([^/]*)/)?.[1].trim();
+    const remittance = flat.match(/\/REMI\/(?:USTD\/\/)?(.*?)(?=\/[A-Z]{4}\/|$)/)?.[1].replace(/\/+$/, "").trim();
+    const description = [party, remittance].filter(Boolean).join(" - ");
+    if (description) return description;
+  }
+
+  return details.replace(/\s+/g, " ").trim();
+}
+
+// ":61:2601050105D4,75NTRFNONREF//B6A01\nsupplementary details": value
+// date, optional booking date, mark (C, D, or RC/RD for a reversal),
+// optional funds code, amount, transaction type, the account owner's
+// reference and, after "//", the bank's reference.
+function parseStatementLine(line: string, details: string | undefined): ParsedStatementTransaction | null {
+  const match = line.match(/^(\d{6})(\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/);
+  if (!match) return null;
+  const [, valueDate, bookingDate, mark, rawAmount, type, ownerRef, bankRef, supplementary] = match;
+
+  const amount = parseMt940Amount(rawAmount);
+  // A reversed credit takes money out; a reversed debit puts it back
+  const outgoing = mark === "D" || mark === "RC";
+  const date = bookingDate ? entryDate(yymmdd(valueDate), bookingDate) : yymmdd(valueDate);
+  const reference = bankRef?.trim() || (ownerRef.trim() !== "NONREF" ? ownerRef.trim() : "");
+
+  return {
+    date,
+    description: describe(details) ?? supplementary?.trim() ?? type,
+    amount: outgoing ? -amount : amount,
+    ...(reference ? { external_id: reference } : {}),
+  };
+}
+
+function readStatements(fields: Field[]): Mt940Statement[] {
+  const statements: Mt940Statement[] = [];
+  let current: Mt940Statement | null = null;
+
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (field.tag === "20" || !current) {
+      current = { transactions: [] };
+      statements.push(current);
+    }
+    if (field.tag === "25") current.account = field.value.trim();
+    if (field.tag === "60F" || field.tag === "60M") current.opening = parseBalance(field.value);
+    if (field.tag === "62F" || field.tag === "62M") current.closing = parseBalance(field.value);
+    if (field.tag === "61") {
+      const next = fields[i + 1];
+      const transaction = parseStatementLine(field.value, next?.tag === "86" ? next.value : undefined);
+      if (transaction) current.transactions.push(transaction);
+    }
+  }
+  return statements;
+}
+
+export function isMt940(text: string): boolean {
+  return /^:20:/m.test(text) && /^:25:/m.test(text) && /^:6[01]\w?:/m.test(text);
+}
+
+// MT940 files are plain ASCII by the SWIFT rules, but bank exports carry
+// umlauts in Latin-1 as often as in UTF-8.
+export function decodeMt940(buffer: Buffer): string {
+  const utf8 = buffer.toString("utf8");
+  return utf8.includes("\uFFFD") ? buffer.toString("latin1") : utf8.replace(/^\uFEFF/, "");
+}
+
+// Reads the statements of an MT940 file. Daily statements for the same
+// account are read as one, opening with the first and closing with the
+// last. Returns null when the text is not MT940 or covers more than one
+// account.
+export function parseMT940(text: string): ParsedStatement | null {
+  if (!isMt940(text)) return null;
+
+  const statements = readStatements(readFields(text)).filter((s) => s.account || s.transactions.length > 0);
+  if (statements.length === 0 || new Set(statements.map((s) => s.account)).size !== 1) return null;
+
+  const first = statements[0];
+  const last = statements[statements.length - 1];
+  const strip = (balance: Mt940Balance | undefined) =>
+    balance ? { amount: balance.amount, date: balance.date } : undefined;
+
+  return {
+    transactions: statements.flatMap((s) => s.transactions),
+    account_number: first.account,
+    currency: first.opening?.currency ?? last.closing?.currency,
+    period_start: first.opening?.date,
+    period_end: last.closing?.date,
+    opening_balance: strip(first.opening),
+    closing_balance: strip(last.closing),
+  };
+}
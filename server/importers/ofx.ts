@@ -0,0 +1,93 @@
+import type { ParsedStatement, ParsedStatementTransaction } from "./types";
+
+// OFX 1.x is SGML: aggregates such as <STMTTRN> are closed, but leaf
+// elements usually are not (`<TRNAMT>-4.50` and a line break). OFX 2.x is
+// XML and closes everything. Reading a leaf as "text up to the next tag or
+// line break" and an aggregate as "everything up to its closing tag" covers
+// both, so there is one parser for .ofx and .qfx files of either version.
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) return String.fromCharCode(parseInt(name.slice(1), 10));
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function element(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match && decodeEntities(match[1]).trim();
+  return value || undefined;
+}
+
+function aggregates(block: string, tag: string): string[] {
+  return Array.from(block.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi")), (match) => match[1]);
+}
+
+// OFX dates are YYYYMMDD, optionally followed by a time and a timezone such
+// as "20260105120000.000[-5:EST]". Only the calendar date is kept.
+export function parseOfxDate(raw: string | undefined): string | undefined {
+  const match = raw?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+// Some banks write amounts with a decimal comma
+function parseOfxAmount(raw: string | undefined): number | undefined {
+  if (!raw) return undefined;
+  const normalized = raw.includes(".") ? raw.replace(/,/g, "") : raw.replace(",", ".");
+  const amount = parseFloat(normalized.replace(/[^\d.+-]/g, ""));
+  return isNaN(amount) ? undefined : amount;
+}
+
+function parseTransaction(block: string): ParsedStatementTransaction | null {
+  const date = parseOfxDate(element(block, "DTPOSTED"));
+  const amount = parseOfxAmount(element(block, "TRNAMT"));
+  if (!date || amount === undefined) return null;
+
+  const description = element(block, "NAME") ?? element(block, "MEMO") ?? element(block, "TRNTYPE") ?? "";
+  return { date, description, amount, external_id: element(block, "FITID") };
+}
+
+// Bytes of an OFX download as text. SGML files declare their character set
+// in the header; anything but UTF-8 is read as Windows-1252 / Latin-1.
+export function decodeOfx(buffer: Buffer): string {
+  const head = buffer.subarray(0, 512).toString("latin1");
+  const utf8 = /encoding="utf-8"/i.test(head) || /^ENCODING:\s*UTF-8/im.test(head);
+  return buffer.toString(utf8 || !/^CHARSET:/im.test(head) ? "utf8" : "latin1");
+}
+
+export function isOfx(text: string): boolean {
+  return /<OFX>/i.test(text);
+}
+
+// Reads the bank or credit card statement in an OFX/QFX file. Returns null
+// when the text is not OFX or carries statements for several accounts,
+// which would all land in the one account being imported into.
+export function parseOFX(text: string): ParsedStatement | null {
+  if (!isOfx(text)) return null;
+
+  const statements = [...aggregates(text, "STMTRS"), ...aggregates(text, "CCSTMTRS")];
+  if (statements.length !== 1) return null;
+  const [statement] = statements;
+
+  const transactions = aggregates(statement, "STMTTRN")
+    .map(parseTransaction)
+    .filter((t): t is ParsedStatementTransaction => t !== null);
+
+  const [accountFrom] = [...aggregates(statement, "BANKACCTFROM"), ...aggregates(statement, "CCACCTFROM")];
+  const [transactionList] = aggregates(statement, "BANKTRANLIST");
+  const [ledgerBalance] = aggregates(statement, "LEDGERBAL");
+  const balanceAmount = ledgerBalance !== undefined ? parseOfxAmount(element(ledgerBalance, "BALAMT")) : undefined;
+  const balanceDate = ledgerBalance !== undefined ? parseOfxDate(element(ledgerBalance, "DTASOF")) : undefined;
+
+  return {
+    transactions,
+    account_number: accountFrom ? element(accountFrom, "ACCTID") : undefined,
+    currency: element(statement, "CURDEF"),
+    period_start: transactionList ? parseOfxDate(element(transactionList, "DTSTART")) : undefined,
+    period_end: transactionList ? parseOfxDate(element(transactionList, "DTEND")) : undefined,
+    closing_balance:
+      balanceAmount !== undefined && balanceDate ? { amount: balanceAmount, date: balanceDate } : undefined,
+  };
+}
@@ -0,0 +1,33 @@
+import type { PdfStatementParser, ParsedStatementTransaction } from "../types";
+import { fullYear, isoDate, parseMoney, statementLines } from "./text";
+
+// American Express card statements. Lines carry a full MM/DD/YY date (an
+// asterisk marks payments) and the amount with a dollar sign; charges are
+// positive, payments and credits negative:
+//   01/05/26 STARBUCKS SEATTLE WA $4.75
+//   01/10/26* ONLINE PAYMENT - THANK YOU -$500.00
+const HEADER = /American Express/i;
+const TRANSACTION_LINE = /^(\d{2})\/(\d{2})\/(\d{2,4})\*?\s+(.+?)\s+(-?\$[\d,]+\.\d{2})$/;
+
+function parse(text: string): ParsedStatementTransaction[] {
+  const transactions: ParsedStatementTransaction[] = [];
+  for (const line of statementLines(text)) {
+    const match = line.match(TRANSACTION_LINE);
+    const amount = match ? parseMoney(match[5]) : undefined;
+    if (!match || amount === undefined) continue;
+
+    transactions.push({
+      date: isoDate(fullYear(match[3]), parseInt(match[1], 10), parseInt(match[2], 10)),
+      description: match[4],
+      amount: -amount,
+    });
+  }
+  return transactions;
+}
+
+export const amexParser: PdfStatementParser = {
+  id: "amex",
+  name: "American Express",
+  detect: (text) => HEADER.test(text) && /Closing Date/i.test(text),
+  parse,
+};
@@ -0,0 +1,41 @@
+import type { PdfStatementParser, ParsedStatementTransaction } from "../types";
+import { isoDate, monthNumber, parseMoney, statementLines, yearInPeriod } from "./text";
+
+// Capital One card statements. Lines start with the transaction and post
+// dates as "Mon D" and end with the amount; credits are written "- $500.00":
+//   Dec 15, 2025 - Jan 14, 2026 | 31 days in Billing Cycle
+//   Jan 5 Jan 6 STARBUCKS SEATTLE WA $4.75
+//   Jan 10 Jan 10 CAPITAL ONE MOBILE PYMT - $500.00
+const HEADER = /Capital One/i;
+const PERIOD = /[A-Z][a-z]{2} \d{1,2}, \d{4} - ([A-Z][a-z]{2}) \d{1,2}, (\d{4})/;
+const TRANSACTION_LINE = /^([A-Z][a-z]{2}) (\d{1,2}) [A-Z][a-z]{2} \d{1,2} (.+?) ((?:- )?\$[\d,]+\.\d{2})$/;
+
+function parse(text: string): ParsedStatementTransaction[] {
+  const period = text.match(PERIOD);
+  const endMonth = period ? monthNumber(period[1]) : undefined;
+  if (!period || !endMonth) return [];
+  const end = { year: parseInt(period[2], 10), month: endMonth };
+
+  const transactions: ParsedStatementTransaction[] = [];
+  for (const line of statementLines(text)) {
+    const match = line.match(TRANSACTION_LINE);
+    const month = match ? monthNumber(match[1]) : undefined;
+    const amount = match ? parseMoney(match[4]) : undefined;
+    if (!match || !month || amount === undefined) continue;
+
+    transactions.push({
+      date: isoDate(yearInPeriod(month, end), month, parseInt(match[2], 10)),
+      description: match[3],
+      // Charges are printed positive; they are money spent
+      amount: -amount,
+    });
+  }
+  return transactions;
+}
+
+export const capitalOneParser: PdfStatementParser = {
+  id: "capital-one",
+  name: "Capital One",
+  detect: (text) => HEADER.test(text) && PERIOD.test(text),
+  parse,
+};
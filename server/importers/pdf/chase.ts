@@ -0,0 +1,59 @@
+import type { PdfStatementParser, ParsedStatementTransaction } from "../types";
+import { fullYear, isoDate, monthNumber, parseMoney, statementLines, yearInPeriod } from "./text";
+
+// Chase credit card and checking statements. Both print MM/DD dates
+// without a year, so the year comes from the statement period.
+//
+// Card statements list "ACCOUNT ACTIVITY" with charges as positive amounts:
+//   Opening/Closing Date 12/15/25 - 01/14/26
+//   01/05     STARBUCKS STORE 12345 SEATTLE WA 4.75
+// Checking statements list "TRANSACTION DETAIL" with signed amounts and the
+// running balance:
+//   December 16, 2025 through January 15, 2026
+//   01/06 Zelle Payment To J Doe 00000000 -100.00 3,345.79
+const HEADER = /chase\.com|JPMorgan Chase/i;
+const CARD_SECTION = /ACCOUNT ACTIVITY/;
+const CHECKING_SECTION = /TRANSACTION DETAIL/;
+
+const CARD_PERIOD = /Opening\/Closing Date\s+\d{2}\/\d{2}\/\d{2,4}\s*-\s*(\d{2})\/\d{2}\/(\d{2,4})/;
+const CHECKING_PERIOD = /through\s+([A-Z][a-z]+)\s+\d{1,2},\s+(\d{4})/;
+
+const CARD_LINE = /^(\d{2})\/(\d{2})\s+(.+?)\s+(-?[\d,]+\.\d{2})$/;
+const CHECKING_LINE = /^(\d{2})\/(\d{2})\s+(.+?)\s+(-?[\d,]+\.\d{2})\s+-?[\d,]+\.\d{2}$/;
+
+function periodEnd(text: string): { year: number; month: number } | undefined {
+  const card = text.match(CARD_PERIOD);
+  if (card) return { year: fullYear(card[2]), month: parseInt(card[1], 10) };
+  const checking = text.match(CHECKING_PERIOD);
+  const month = checking ? monthNumber(checking[1]) : undefined;
+  return checking && month ? { year: parseInt(checking[2], 10), month } : undefined;
+}
+
+function parse(text: string): ParsedStatementTransaction[] {
+  const end = periodEnd(text);
+  if (!end) return [];
+  const isCard = CARD_SECTION.test(text);
+
+  const transactions: ParsedStatementTransaction[] = [];
+  for (const line of statementLines(text)) {
+    const match = line.match(isCard ? CARD_LINE : CHECKING_LINE);
+    const amount = match ? parseMoney(match[4]) : undefined;
+    if (!match || amount === undefined) continue;
+
+    const month = parseInt(match[1], 10);
+    transactions.push({
+      date: isoDate(yearInPeriod(month, end), month, parseInt(match[2], 10)),
+      description: match[3],
+      // A card charge is money spent
+      amount: isCard ? -amount : amount,
+    });
+  }
+  return transactions;
+}
+
+export const chaseParser: PdfStatementParser = {
+  id: "chase",
+  name: "Chase",
+  detect: (text) => HEADER.test(text) && (CARD_SECTION.test(text) || CHECKING_SECTION.test(text)),
+  parse,
+};
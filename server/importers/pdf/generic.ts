@@ -0,0 +1,48 @@
+import type { PdfStatementParser, ParsedStatementTransaction } from "../types";
+import { statementLines } from "./text";
+
+// The fallback for statements no bank parser recognizes: any line that
+// starts with a date and has an amount after it. The first amount is taken
+// as the transaction's, so a running balance further along is ignored.
+const DATE_PATTERNS = [
+  /^(\d{2}\/\d{2}\/\d{4})/, // MM/DD/YYYY
+  /^(\d{4}-\d{2}-\d{2})/, // YYYY-MM-DD
+  /^(\d{2}-\d{2}-\d{4})/, // MM-DD-YYYY
+];
+// Dollars and cents standing on their own, so store numbers and auth codes
+// in the description are not taken for the amount
+const AMOUNT = /(?:^|\s)-?\$?(-?\d{1,3}(?:,\d{3})*\.\d{2})(?=\s|$)/;
+
+function toIsoDate(dateStr: string): string {
+  const mdy = dateStr.match(/^(\d{2})[/-](\d{2})[/-](\d{4})$/);
+  return mdy ? `${mdy[3]}-${mdy[1]}-${mdy[2]}` : dateStr;
+}
+
+function parse(text: string): ParsedStatementTransaction[] {
+  const transactions: ParsedStatementTransaction[] = [];
+  for (const line of statementLines(text)) {
+    const dateStr = DATE_PATTERNS.map((pattern) => line.match(pattern)?.[1]).find(Boolean);
+    if (!dateStr) continue;
+
+    // Amounts are looked for after the date, whose own digits would
+    // otherwise read as one
+    const rest = line.slice(dateStr.length);
+    const amountMatch = rest.match(AMOUNT);
+    if (!amountMatch || amountMatch.index === undefined) continue;
+
+    const amount = parseFloat(amountMatch[1].replace(/,/g, "")) * (amountMatch[0].trim().startsWith("-") ? -1 : 1);
+    // Auth codes some banks print before the description are dropped
+    const description = rest.slice(0, amountMatch.index).trim().replace(/^\d+\s+/, "").trim();
+    if (description && !isNaN(amount)) {
+      transactions.push({ date: toIsoDate(dateStr), description, amount });
+    }
+  }
+  return transactions;
+}
+
+export const genericParser: PdfStatementParser = {
+  id: "generic",
+  name: "Generic",
+  detect: () => true,
+  parse,
+};
@@ -0,0 +1,27 @@
+import type { PdfStatementParser, ParsedStatementTransaction } from "../types";
+import { amexParser } from "./amex";
+import { capitalOneParser } from "./capital-one";
+import { chaseParser } from "./chase";
+import { genericParser } from "./generic";
+import { liliParser } from "./lili";
+
+// Bank parsers in the order they are tried. A new bank gets its own module
+// with a text fixture under ./fixtures and a case in pdf-parsers.test.ts.
+export const PDF_PARSERS: PdfStatementParser[] = [chaseParser, amexParser, capitalOneParser, liliParser];
+
+export interface PdfParseResult {
+  parser: Pick<PdfStatementParser, "id" | "name">;
+  transactions: ParsedStatementTransaction[];
+}
+
+// Reads the transactions of a PDF statement's text with the first parser
+// that recognizes it. When none does, or the one that did finds nothing,
+// the generic line parser is used instead.
+export function parseStatementText(text: string): PdfParseResult {
+  const parser = PDF_PARSERS.find((p) => p.detect(text));
+  const transactions = parser?.parse(text) ?? [];
+  if (parser && transactions.length > 0) {
+    return { parser: { id: parser.id, name: parser.name }, transactions };
+  }
+  return { parser: { id: genericParser.id, name: genericParser.name }, transactions: genericParser.parse(text) };
+}
@@ -0,0 +1,33 @@
+import type { PdfStatementParser, ParsedStatementTransaction } from "../types";
+import { statementLines } from "./text";
+
+// Lili business checking. Each line is the date, an authorization code, the
+// description, the amount and the running balance:
+//   01/05/2026 123456 STARBUCKS SEATTLE WA -4.75 995.25
+const TRANSACTION_LINE = /^(\d{2}\/\d{2}\/\d{4})\s+(\d+)\s+(.+?)\s+\$?([-]?\d+\.?\d*)\s+\$?[-]?\d+\.?\d*$/;
+
+function parse(text: string): ParsedStatementTransaction[] {
+  const transactions: ParsedStatementTransaction[] = [];
+  for (const line of statementLines(text)) {
+    const match = line.match(TRANSACTION_LINE);
+    if (!match) continue;
+
+    const [, dateStr, , description, amountStr] = match;
+    const [month, day, year] = dateStr.split("/");
+    transactions.push({
+      date: `${year}-${month}-${day}`,
+      description: description.trim(),
+      amount: parseFloat(amountStr),
+    });
+  }
+  return transactions;
+}
+
+export const liliParser: PdfStatementParser = {
+  id: "lili",
+  name: "Lili",
+  // The layout is distinctive enough on its own; exports do not always keep
+  // the logo text
+  detect: (text) => /\blili\b/i.test(text) || statementLines(text).some((line) => TRANSACTION_LINE.test(line)),
+  parse,
+};
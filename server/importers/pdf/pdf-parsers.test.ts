@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { PDF_PARSERS, parseStatementText } from "./index";
+import { checkStatementTotals, extractStatementSummary } from "./summary";
+
+// Fixtures are the text pdf-parse extracts from real statements, with
+// names, account numbers and amounts replaced
+const fixture = (name: string) => readFileSync(path.join(import.meta.dirname, "fixtures", name), "utf8");
+
+describe("PDF statement parsers", () => {
+  it("reads Chase card statements, dating December charges in the year before", () => {
+    expect(parseStatementText(fixture("chase-card.txt"))).toEqual({
+      parser: { id: "chase", name: "Chase" },
+      transactions: [
+        { date: "2026-01-10", description: "Payment Thank You - Web", amount: 500 },
+        { date: "2025-12-28", description: "AMAZON MKTPLACE PMTS AMZN.COM/BILL WA", amount: -23.99 },
+        { date: "2026-01-05", description: "STARBUCKS STORE 12345 SEATTLE WA", amount: -4.75 },
+        { date: "2026-01-12", description: "SHELL OIL 57444 AUSTIN TX", amount: -1045.1 },
+      ],
+    });
+  });
+
+  it("reads Chase checking statements without taking the balance for the amount", () => {
+    expect(parseStatementText(fixture("chase-checking.txt"))).toEqual({
+      parser: { id: "chase", name: "Chase" },
+      transactions: [
+        { date: "2025-12-20", description: "Card Purchase 12/19 Trader Joe's #123 Austin TX Card 0000", amount: -54.21 },
+        { date: "2026-01-02", description: "Payroll Acme Inc PPD ID: 0000000000", amount: 2500 },
+        { date: "2026-01-06", description: "Zelle Payment To J Doe 00000000", amount: -100 },
+      ],
+    });
+  });
+
+  it("reads American Express statements", () => {
+    expect(parseStatementText(fixture("amex.txt"))).toEqual({
+      parser: { id: "amex", name: "American Express" },
+      transactions: [
+        { date: "2026-01-10", description: "ONLINE PAYMENT - THANK YOU", amount: 500 },
+        { date: "2026-01-08", description: "AMAZON.COM RETURN AMZN.COM/BILL WA", amount: 23.99 },
+        { date: "2026-01-05", description: "STARBUCKS SEATTLE WA", amount: -4.75 },
+        { date: "2026-01-07", description: "DELTA AIR LINES ATLANTA GA", amount: -1234.56 },
+      ],
+    });
+  });
+
+  it("reads Capital One statements", () => {
+    expect(parseStatementText(fixture("capital-one.txt"))).toEqual({
+      parser: { id: "capital-one", name: "Capital One" },
+      transactions: [
+        { date: "2026-01-10", description: "CAPITAL ONE MOBILE PYMT", amount: 500 },
+        { date: "2025-12-28", description: "AMAZON.COM AMZN.COM/BILLWA", amount: -23.99 },
+        { date: "2026-01-05", description: "STARBUCKS SEATTLE WA", amount: -4.75 },
+      ],
+    });
+  });
+
+  it("reads Lili statements", () => {
+    expect(parseStatementText(fixture("lili.txt"))).toEqual({
+      parser: { id: "lili", name: "Lili" },
+      transactions: [
+        { date: "2026-01-05", description: "STARBUCKS SEATTLE WA", amount: -4.75 },
+        { date: "2026-01-15", description: "ACME PAYROLL", amount: 1500 },
+        { date: "2026-01-20", description: "OFFICE DEPOT 0000", amount: -89.99 },
+      ],
+    });
+  });
+
+  it("falls back to the generic parser for unknown banks", () => {
+    expect(parseStatementText(fixture("generic.txt"))).toEqual({
+      parser: { id: "generic", name: "Generic" },
+      transactions: [
+        { date: "2026-01-05", description: "Coffee Shop Store 1234", amount: -4.75 },
+        { date: "2026-01-15", description: "Direct Deposit ACME", amount: 1500 },
+        { date: "2026-01-20", description: "Check 1001", amount: -120 },
+      ],
+    });
+  });
+
+  it("only recognizes each fixture with its own parser", () => {
+    const fixtures: Record<string, string> = {
+      "chase-card.txt": "chase",
+      "chase-checking.txt": "chase",
+      "amex.txt": "amex",
+      "capital-one.txt": "capital-one",
+      "lili.txt": "lili",
+      "generic.txt": "none",
+    };
+    for (const [name, expected] of Object.entries(fixtures)) {
+      const text = fixture(name);
+      const detected = PDF_PARSERS.filter((parser) => parser.detect(text)).map((parser) => parser.id);
+      expect(detected, name).toEqual(expected === "none" ? [] : [expected]);
+    }
+  });
+
+  it("falls back to the generic parser when a recognized layout yields nothing", () => {
+    const text = "Capital One\nDec 15, 2025 - Jan 14, 2026\n01/05/2026 Coffee 4.75";
+    expect(parseStatementText(text)).toEqual({
+      parser: { id: "generic", name: "Generic" },
+      transactions: [{ date: "2026-01-05", description: "Coffee", amount: 4.75 }],
+    });
+  });
+});
+
+describe("PDF statement summaries", () => {
+  const check = (name: string) => {
+    const text = fixture(name);
+    const summary = extractStatementSummary(text);
+    return { summary, totals: checkStatementTotals(summary, parseStatementText(text).transactions) };
+  };
+
+  it("reads a card statement's period, balances, payment terms and credit line", () => {
+    const { summary, totals } = check("chase-card.txt");
+    expect(summary).toEqual({
+      period_start: "2025-12-15",
+      period_end: "2026-01-14",
+      opening_balance: 1200,
+      closing_balance: 1773.84,
+      minimum_payment: 40,
+      payment_due_date: "2026-02-08",
+      credit_limit: 10000,
+    });
+    // Charges raise what is owed on a card
+    expect(totals).toEqual({
+      opening_balance: "1200.00",
+      closing_balance: "1773.84",
+      statement_change: "573.84",
+      transactions_change: "573.84",
+      difference: "0.00",
+      passed: true,
+    });
+  });
+
+  it("balances every fixture that prints an opening and closing balance", () => {
+    expect(check("chase-checking.txt").summary).toEqual({
+      period_start: "2025-12-16",
+      period_end: "2026-01-15",
+      opening_balance: 1000,
+      closing_balance: 3345.79,
+    });
+    expect(check("amex.txt").summary).toMatchObject({ period_end: "2026-01-14", payment_due_date: "2026-02-08" });
+    expect(check("capital-one.txt").summary).toMatchObject({
+      period_start: "2025-12-15",
+      period_end: "2026-01-14",
+      payment_due_date: "2026-02-08",
+      credit_limit: 5000,
+    });
+    for (const name of ["chase-checking.txt", "amex.txt", "capital-one.txt", "lili.txt"]) {
+      expect(check(name).totals?.passed, name).toBe(true);
+    }
+    expect(check("generic.txt").totals).toBeUndefined();
+  });
+
+  it("fails the check when a transaction line was missed", () => {
+    const text = fixture("chase-checking.txt").replace(/^01\/02 Payroll.*$/m, "");
+    const summary = extractStatementSummary(text);
+    expect(checkStatementTotals(summary, parseStatementText(text).transactions)).toMatchObject({
+      statement_change: "2345.79",
+      transactions_change: "-154.21",
+      difference: "2500.00",
+      passed: false,
+    });
+  });
+});
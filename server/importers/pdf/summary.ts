@@ -0,0 +1,91 @@
+import type { ParsedStatementTransaction, StatementSummary } from "../types";
+import { fullYear, isoDate, monthNumber, parseMoney, statementLines } from "./text";
+
+// Statement summaries use the same handful of labels across banks, so one
+// set of patterns covers every layout. Each field takes the first line that
+// matches; summaries are printed before the transaction list.
+
+const AMOUNT = "(-?\\$?\\s?-?[\\d,]+(?:\\.\\d{2})?)";
+const DATE = "(\\d{1,2}\\/\\d{1,2}\\/\\d{2,4}|[A-Z][a-z]+\\.? \\d{1,2}, \\d{4})";
+
+const LABELS: { field: "opening_balance" | "closing_balance" | "minimum_payment" | "credit_limit"; pattern: RegExp }[] = [
+  { field: "opening_balance", pattern: new RegExp(`^(?:Previous|Beginning|Opening|Starting) Balance[:\\s]+${AMOUNT}$`, "i") },
+  { field: "closing_balance", pattern: new RegExp(`^(?:New|Ending|Closing) Balance[:\\s]+${AMOUNT}$`, "i") },
+  { field: "minimum_payment", pattern: new RegExp(`^Minimum Payment(?: Due)?[:\\s]+${AMOUNT}$`, "i") },
+  { field: "credit_limit", pattern: new RegExp(`^(?:Credit Limit|Credit Access Line|Total Credit Line)[:\\s]+${AMOUNT}$`, "i") },
+];
+
+const PAYMENT_DUE = new RegExp(`^Payment Due Date[:\\s]+${DATE}`, "i");
+// "Opening/Closing Date 12/15/25 - 01/14/26", "Statement Period: 01/01/2026
+// - 01/31/2026", "December 16, 2025 through January 15, 2026"
+const PERIOD = new RegExp(`${DATE}\\s*(?:-|to|through)\\s*${DATE}`);
+const CLOSING_DATE = new RegExp(`^(?:Closing Date|Statement Closing Date)[:\\s]+${DATE}`, "i");
+
+// "01/14/26", "01/14/2026", "Jan 14, 2026" or "January 14, 2026"
+function parseStatementDate(raw: string): string | undefined {
+  const numeric = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (numeric) return isoDate(fullYear(numeric[3]), parseInt(numeric[1], 10), parseInt(numeric[2], 10));
+  const named = raw.match(/^([A-Z][a-z]+)\.? (\d{1,2}), (\d{4})$/);
+  const month = named ? monthNumber(named[1]) : undefined;
+  return named && month ? isoDate(parseInt(named[3], 10), month, parseInt(named[2], 10)) : undefined;
+}
+
+export function extractStatementSummary(text: string): StatementSummary {
+  const summary: StatementSummary = {};
+  for (const line of statementLines(text)) {
+    for (const { field, pattern } of LABELS) {
+      const match = summary[field] === undefined ? line.match(pattern) : null;
+      const amount = match ? parseMoney(match[1]) : undefined;
+      if (amount !== undefined) summary[field] = amount;
+    }
+
+    const due = summary.payment_due_date ? null : line.match(PAYMENT_DUE);
+    if (due) summary.payment_due_date = parseStatementDate(due[1]);
+
+    const period = summary.period_end ? null : line.match(PERIOD);
+    if (period) {
+      summary.period_start = parseStatementDate(period[1]);
+      summary.period_end = parseStatementDate(period[2]);
+    }
+    const closing = summary.period_end ? null : line.match(CLOSING_DATE);
+    if (closing) summary.period_end = parseStatementDate(closing[1]);
+  }
+  return summary;
+}
+
+export interface StatementTotalsCheck {
+  opening_balance: string;
+  closing_balance: string;
+  // How far the balance moved over the period, and how far the parsed
+  // transactions move it; they match when no line was missed
+  statement_change: string;
+  transactions_change: string;
+  difference: string;
+  passed: boolean;
+}
+
+// Checks that the parsed transactions account for the change between the
+// opening and closing balance. On a card statement (one that prints a
+// credit limit or minimum payment) the balance is what is owed, so money
+// spent raises it. Returns undefined when the statement has no balances.
+export function checkStatementTotals(
+  summary: StatementSummary,
+  transactions: Pick<ParsedStatementTransaction, "amount">[]
+): StatementTotalsCheck | undefined {
+  if (summary.opening_balance === undefined || summary.closing_balance === undefined) return undefined;
+
+  const toCents = (value: number) => Math.round(value * 100);
+  const isCard = summary.credit_limit !== undefined || summary.minimum_payment !== undefined;
+  const statementCents = toCents(summary.closing_balance) - toCents(summary.opening_balance);
+  const totalCents = transactions.reduce((sum, t) => sum + toCents(t.amount), 0);
+  const transactionsCents = isCard ? -totalCents : totalCents;
+
+  return {
+    opening_balance: summary.opening_balance.toFixed(2),
+    closing_balance: summary.closing_balance.toFixed(2),
+    statement_change: (statementCents / 100).toFixed(2),
+    transactions_change: (transactionsCents / 100).toFixed(2),
+    difference: ((statementCents - transactionsCents) / 100).toFixed(2),
+    passed: statementCents === transactionsCents,
+  };
+}
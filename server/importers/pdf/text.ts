@@ -0,0 +1,41 @@
+// Helpers shared by the PDF statement parsers, which all work line by line
+// on the text pdf-parse extracts.
+
+export function statementLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+}
+
+// "$1,234.56", "-$4.75", "- $500.00" or "(12.00)"
+export function parseMoney(raw: string): number | undefined {
+  const negative = /^\s*-|^\s*\(.*\)\s*$/.test(raw);
+  const amount = parseFloat(raw.replace(/[^\d.]/g, ""));
+  if (isNaN(amount)) return undefined;
+  return negative ? -amount : amount;
+}
+
+export function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Two-digit years are 20xx
+export function fullYear(year: string): number {
+  return year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10);
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// 1-12 for "Jan", "January" and so on
+export function monthNumber(name: string): number | undefined {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index < 0 ? undefined : index + 1;
+}
+
+// Card statements print transaction dates without a year. A statement
+// closing in January also lists December transactions, which belong to the
+// year before.
+export function yearInPeriod(month: number, periodEnd: { year: number; month: number }): number {
+  return month > periodEnd.month ? periodEnd.year - 1 : periodEnd.year;
+}
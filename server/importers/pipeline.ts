@@ -0,0 +1,261 @@
+import Papa from "papaparse";
+import type { ImportAmountSign, ImportProfileColumns } from "../storage";
+import { decodeXml, isCamt053, parseCamt053 } from "./camt";
+import { decodeMt940, isMt940, parseMT940 } from "./mt940";
+import { decodeOfx, isOfx, parseOFX } from "./ofx";
+import { parseStatementText } from "./pdf";
+import { checkStatementTotals, extractStatementSummary, type StatementTotalsCheck } from "./pdf/summary";
+import { parseQIF, type QifCategory } from "./qif";
+import { openWorkbook, type SpreadsheetFormat } from "./spreadsheet";
+import {
+  columnNames,
+  detectAmountSign,
+  guessColumns,
+  isCompleteMapping,
+  looksLikeHeaderRow,
+  mapTableRows,
+} from "./table";
+import type {
+  CandidateRow,
+  ParsedStatement,
+  ParsedStatementTransaction,
+  StatementBalance,
+  StatementSummary,
+} from "./types";
+import { detectDateFormat, parseAmount, type DateFormat } from "./values";
+
+// One entry point for every import format: a file goes in, and candidate
+// rows for the preview come out with per-row validation errors, however the
+// format was read. CSV files and worksheets also come back as a table with
+// the columns used (or guessed), for the mapping step.
+
+export type ImportFormat = "csv" | SpreadsheetFormat | "pdf" | "ofx" | "qif" | "camt053" | "mt940";
+
+export interface ImportOptions {
+  // Worksheet of a workbook; the first one by default
+  sheet?: string;
+  // For CSV and worksheets. Anything not given is detected from the file.
+  hasHeaders?: boolean;
+  columns?: ImportProfileColumns;
+  // Also applies to QIF files
+  dateFormat?: DateFormat;
+  amountSign?: ImportAmountSign;
+}
+
+export interface ImportTable {
+  sheets?: string[];
+  sheet?: string;
+  headers: string[];
+  has_headers: boolean;
+  rows: string[][]; // the rows below the header row
+  // The mapping the candidates were read with. Guessed columns may be
+  // incomplete, in which case there are no candidates yet.
+  columns: Partial<ImportProfileColumns>;
+}
+
+export interface ImportParseResult {
+  format: ImportFormat;
+  candidates: CandidateRow[];
+  // How the file was read: the date order for formats that leave it open
+  // (CSV, worksheets, QIF) and the sign convention of a single amount column
+  date_format: DateFormat | null;
+  amount_sign: ImportAmountSign | null;
+  // What the file itself suggests; null where it could be read either way
+  detected: { date_format: DateFormat | null; amount_sign: ImportAmountSign | null };
+  table?: ImportTable;
+  // PDF statements
+  parser?: { id: string; name: string };
+  summary?: StatementSummary;
+  totals_check?: StatementTotalsCheck | null;
+  // OFX, camt.053 and MT940
+  account_number?: string;
+  currency?: string;
+  period_start?: string;
+  period_end?: string;
+  opening_balance?: StatementBalance;
+  closing_balance?: StatementBalance;
+  // QIF exports, which hold one list of candidates per account
+  accounts?: { name?: string; type: string; candidates: CandidateRow[] }[];
+  categories?: QifCategory[];
+  skipped_records?: number;
+}
+
+export type ImportReadResult = ImportParseResult | { error: string };
+
+const EXTENSIONS: Record<string, ImportFormat> = {
+  ".ofx": "ofx",
+  ".qfx": "ofx",
+  ".qif": "qif",
+  ".xml": "camt053",
+  ".sta": "mt940",
+  ".mt940": "mt940",
+  ".940": "mt940",
+  ".swi": "mt940",
+};
+
+// Text files as UTF-8, falling back to Latin-1 for older bank exports
+function decodeText(buffer: Buffer): string {
+  const utf8 = buffer.toString("utf8");
+  return utf8.includes("\uFFFD") ? buffer.toString("latin1") : utf8.replace(/^\uFEFF/, "");
+}
+
+// Decides the format from the file's content, and from its extension when
+// the content is not recognized (so a broken OFX file is reported as one).
+// Anything else is read as CSV.
+export function detectImportFormat(fileName: string, buffer: Buffer): ImportFormat {
+  const head = buffer.subarray(0, 4).toString("latin1");
+  if (head === "%PDF") return "pdf";
+  if (head.startsWith("PK")) {
+    return openWorkbook(buffer)?.format ?? (fileName.toLowerCase().endsWith(".ods") ? "ods" : "xlsx");
+  }
+
+  const text = decodeText(buffer);
+  if (isOfx(text) || /^\s*OFXHEADER:/.test(text)) return "ofx";
+  if (isCamt053(text)) return "camt053";
+  if (isMt940(text)) return "mt940";
+  if (/^!(Type|Account)/im.test(text)) return "qif";
+
+  const name = fileName.toLowerCase();
+  const extension = Object.keys(EXTENSIONS).find((ext) => name.endsWith(ext));
+  return extension ? EXTENSIONS[extension] : "csv";
+}
+
+// Statement formats fix their own dates and signs; rows only fail on what
+// the parser could not fill in
+export function statementCandidates(transactions: ParsedStatementTransaction[]): CandidateRow[] {
+  return transactions.map((t) => {
+    const errors: string[] = [];
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(t.date)) errors.push("Invalid date");
+    if (!t.description?.trim()) errors.push("Missing description");
+    if (!Number.isFinite(t.amount)) errors.push("Invalid amount");
+    return {
+      date: t.date,
+      description: t.description?.trim() ?? "",
+      amount: t.amount,
+      subcategory: t.subcategory,
+      external_id: t.external_id,
+      splits: t.splits,
+      errors,
+    };
+  });
+}
+
+function readStatement(format: ImportFormat, statement: ParsedStatement): ImportParseResult {
+  const { transactions, ...details } = statement;
+  return {
+    format,
+    candidates: statementCandidates(transactions),
+    date_format: null,
+    amount_sign: null,
+    detected: { date_format: null, amount_sign: null },
+    ...details,
+  };
+}
+
+function readTable(format: ImportFormat, data: string[][], options: ImportOptions): ImportReadResult {
+  const cells = data.filter((row) => row.some((cell) => cell?.trim()));
+  const hasHeaders = cells.length > 0 && (options.hasHeaders ?? looksLikeHeaderRow(cells[0]));
+  const headers = cells.length > 0 ? columnNames(cells[0], hasHeaders) : [];
+  const rows = hasHeaders ? cells.slice(1) : cells;
+
+  const columns = options.columns ?? guessColumns(headers, rows, hasHeaders);
+  for (const [field, header] of Object.entries(columns)) {
+    if (header && !headers.includes(header)) return { error: `Column ${field} is not in the headers` };
+  }
+
+  const columnValues = (header?: string) => {
+    const index = header ? headers.indexOf(header) : -1;
+    return index < 0 ? [] : rows.map((row) => row[index]?.trim() ?? "").filter((value) => value !== "");
+  };
+  const detectedDateFormat = detectDateFormat(columnValues(columns.date)) ?? null;
+  const singleAmount = columns.amount && !(columns.debit && columns.credit) ? columns.amount : undefined;
+  const amounts = columnValues(singleAmount).map(parseAmount).filter((a): a is number => a !== null);
+  const detectedSign = singleAmount ? detectAmountSign(singleAmount, amounts) ?? null : null;
+
+  const dateFormat = options.dateFormat ?? detectedDateFormat ?? "mdy";
+  const amountSign = options.amountSign ?? detectedSign ?? "positive_in";
+  return {
+    format,
+    candidates: isCompleteMapping(columns) ? mapTableRows(rows, headers, { columns, dateFormat, amountSign }) : [],
+    date_format: dateFormat,
+    amount_sign: amountSign,
+    detected: { date_format: detectedDateFormat, amount_sign: detectedSign },
+    table: { headers, has_headers: hasHeaders, rows, columns },
+  };
+}
+
+// Reads an uploaded file of any supported format. `pdfText` extracts the
+// text of a PDF. Files that turn out not to be what they look like, and
+// mappings that name missing columns, come back as an error.
+export async function readImportFile(
+  file: { name: string; buffer: Buffer },
+  options: ImportOptions,
+  pdfText: (buffer: Buffer) => Promise<string>
+): Promise<ImportReadResult> {
+  const format = detectImportFormat(file.name, file.buffer);
+
+  switch (format) {
+    case "pdf": {
+      const text = await pdfText(file.buffer);
+      const { parser, transactions } = parseStatementText(text);
+      const summary = extractStatementSummary(text);
+      return {
+        format,
+        candidates: statementCandidates(transactions),
+        date_format: null,
+        amount_sign: null,
+        detected: { date_format: null, amount_sign: null },
+        parser,
+        summary,
+        totals_check: checkStatementTotals(summary, transactions) ?? null,
+      };
+    }
+    case "ofx": {
+      const statement = parseOFX(decodeOfx(file.buffer));
+      return statement ? readStatement(format, statement) : { error: "Not an OFX file with a single bank or credit card statement" };
+    }
+    case "camt053": {
+      const statement = parseCamt053(decodeXml(file.buffer));
+      return statement ? readStatement(format, statement) : { error: "Not a camt.053 file with statements for a single account" };
+    }
+    case "mt940": {
+      const statement = parseMT940(decodeMt940(file.buffer));
+      return statement ? readStatement(format, statement) : { error: "Not an MT940 file with statements for a single account" };
+    }
+    case "qif": {
+      const text = decodeText(file.buffer);
+      const detected = parseQIF(text);
+      const parsed = options.dateFormat ? parseQIF(text, options.dateFormat) : detected;
+      if (!detected || !parsed) return { error: "Not a QIF file" };
+      const accounts = parsed.accounts.map(({ transactions, ...account }) => ({
+        ...account,
+        candidates: statementCandidates(transactions),
+      }));
+      return {
+        format,
+        candidates: accounts[0]?.candidates ?? [],
+        date_format: parsed.date_format,
+        amount_sign: null,
+        detected: { date_format: detected.date_format, amount_sign: null },
+        accounts,
+        categories: parsed.categories,
+        skipped_records: parsed.skipped_records,
+      };
+    }
+    case "xlsx":
+    case "ods": {
+      const workbook = openWorkbook(file.buffer);
+      if (!workbook || workbook.sheets.length === 0) return { error: "Not an XLSX or ODS workbook" };
+      const sheet = options.sheet || workbook.sheets[0];
+      if (!workbook.sheets.includes(sheet)) return { error: "Worksheet not found" };
+
+      const result = readTable(workbook.format, workbook.readSheet(sheet), options);
+      if ("error" in result) return result;
+      return { ...result, table: { ...result.table!, sheets: workbook.sheets, sheet } };
+    }
+    case "csv": {
+      const { data } = Papa.parse<string[]>(decodeText(file.buffer), { skipEmptyLines: "greedy" });
+      return readTable(format, data, options);
+    }
+  }
+}
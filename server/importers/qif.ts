@@ -0,0 +1,173 @@
+import type { ParsedStatementSplit, ParsedStatementTransaction } from "./types";
+import { detectDateFormat, parseAmount, parseDate, type DateFormat } from "./values";
+
+// QIF is a line-based format from desktop finance software. A "!Type:..."
+// header starts a section, each line of a record begins with a one-letter
+// field code, and "^" ends the record. Full-history exports hold several
+// accounts: an "!Account" record names the account the next "!Type"
+// section belongs to.
+
+// Sections holding bank-style transactions; investment, memorized and
+// price sections are skipped.
+const TRANSACTION_SECTIONS: Record<string, string> = {
+  bank: "bank",
+  cash: "cash",
+  ccard: "credit_card",
+  "oth a": "other_asset",
+  "oth l": "other_liability",
+};
+
+export interface QifAccount {
+  name?: string;
+  type: string; // 'bank', 'cash', 'credit_card', 'other_asset' or 'other_liability'
+  transactions: ParsedStatementTransaction[];
+}
+
+export interface QifCategory {
+  name: string;
+  description?: string;
+  type: "income" | "expense";
+}
+
+export interface ParsedQif {
+  accounts: QifAccount[];
+  categories: QifCategory[];
+  date_format: DateFormat;
+  // Transaction records without a readable date or amount
+  skipped_records: number;
+}
+
+type QifRecord = { code: string; value: string }[];
+
+// "Auto:Fuel/Business" is category Auto:Fuel with class Business; the class
+// is dropped. "[Savings]" names the other account of a transfer.
+function parseCategory(raw: string | undefined): { subcategory?: string; transfer_account?: string } {
+  const value = raw?.split("/")[0].trim();
+  if (!value) return {};
+  const transfer = value.match(/^\[(.*)\]$/);
+  return transfer ? { transfer_account: transfer[1] } : { subcategory: value };
+}
+
+function field(record: QifRecord, code: string): string | undefined {
+  return record.find((line) => line.code === code)?.value;
+}
+
+// Split lines ("S" category, "$" amount) are only kept when they add up to
+// the amount and share its sign, which is what the ledger accepts; otherwise
+// the transaction comes through unsplit under its own category.
+function parseSplits(record: QifRecord, amount: number): ParsedStatementSplit[] | undefined {
+  const splits: ParsedStatementSplit[] = [];
+  let current: { subcategory?: string } | null = null;
+  for (const { code, value } of record) {
+    if (code === "S") {
+      const category = parseCategory(value);
+      current = { subcategory: category.subcategory ?? category.transfer_account };
+    } else if (code === "$" && current) {
+      const splitAmount = parseAmount(value);
+      if (splitAmount === null || !current.subcategory) return undefined;
+      splits.push({ amount: splitAmount, subcategory: current.subcategory });
+      current = null;
+    }
+  }
+  if (splits.length === 0) return undefined;
+
+  const toCents = (value: number) => Math.round(value * 100);
+  const sameSign = splits.every((s) => toCents(s.amount) !== 0 && Math.sign(s.amount) === Math.sign(amount));
+  const total = splits.reduce((sum, s) => sum + toCents(s.amount), 0);
+  return sameSign && total === toCents(amount) ? splits : undefined;
+}
+
+function readRecords(text: string): { header: string; record: QifRecord }[] {
+  const records: { header: string; record: QifRecord }[] = [];
+  let header = "";
+  let record: QifRecord = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (line === "") continue;
+    if (line.startsWith("!")) {
+      // Option lines do not start a section
+      if (!/^!(Option|Clear):/i.test(line)) header = line.slice(1).trim().toLowerCase();
+      record = [];
+    } else if (line.startsWith("^")) {
+      if (record.length > 0) records.push({ header, record });
+      record = [];
+    } else {
+      record.push({ code: line[0], value: line.slice(1).trim() });
+    }
+  }
+  if (record.length > 0) records.push({ header, record });
+  return records;
+}
+
+// Reads the accounts, their transactions and the category list of a QIF
+// file. Returns null when the text has no QIF section header. Dates are
+// read as `dateFormat`, or as detected from the file when not given.
+export function parseQIF(text: string, dateFormat?: DateFormat): ParsedQif | null {
+  if (!/^!(Type|Account)/im.test(text)) return null;
+
+  const records = readRecords(text);
+  const isTransaction = (header: string) => header.startsWith("type:") && header.slice(5) in TRANSACTION_SECTIONS;
+  const format =
+    dateFormat ??
+    detectDateFormat(
+      records.filter((r) => isTransaction(r.header)).flatMap((r) => r.record.filter((l) => l.code === "D").map((l) => l.value))
+    ) ??
+    "mdy";
+
+  const accounts: QifAccount[] = [];
+  const categories: QifCategory[] = [];
+  let namedAccount: string | undefined;
+  let current: QifAccount | null = null;
+  let currentHeader = "";
+  let skipped = 0;
+
+  for (const { header, record } of records) {
+    if (header === "account") {
+      namedAccount = field(record, "N");
+      current = null;
+      continue;
+    }
+    if (header === "type:cat") {
+      const name = field(record, "N");
+      if (name) {
+        categories.push({
+          name,
+          description: field(record, "D"),
+          type: record.some((line) => line.code === "I") ? "income" : "expense",
+        });
+      }
+      continue;
+    }
+    if (!isTransaction(header)) continue;
+
+    if (!current || header !== currentHeader) {
+      current = { name: namedAccount, type: TRANSACTION_SECTIONS[header.slice(5)], transactions: [] };
+      currentHeader = header;
+      accounts.push(current);
+    }
+
+    const date = parseDate(field(record, "D") ?? "", format);
+    const amount = parseAmount(field(record, "T") ?? field(record, "U") ?? "");
+    if (!date || amount === null) {
+      skipped++;
+      continue;
+    }
+
+    const { subcategory } = parseCategory(field(record, "L"));
+    const splits = parseSplits(record, amount);
+    current.transactions.push({
+      date,
+      description: field(record, "P") ?? field(record, "M") ?? "",
+      amount,
+      ...(subcategory ? { subcategory } : {}),
+      ...(splits ? { splits } : {}),
+    });
+  }
+
+  return {
+    accounts: accounts.filter((a) => a.transactions.length > 0),
+    categories,
+    date_format: format,
+    skipped_records: skipped,
+  };
+}
@@ -0,0 +1,264 @@
+import { openZip, type ZipArchive } from "./zip";
+
+// Reads the worksheets of an Excel (.xlsx) or OpenDocument (.ods) workbook
+// as rows of text, the same shape Papa.parse gives for a CSV, so the import
+// dialog's column mapping works on either. Both formats are ZIP archives of
+// XML parts. Dates come out as YYYY-MM-DD (with HH:MM when there is a
+// time) and numbers without formatting, so "$1,234.50" reads as "1234.5".
+
+export type SpreadsheetFormat = "xlsx" | "ods";
+
+export interface Workbook {
+  format: SpreadsheetFormat;
+  // Visible worksheets in workbook order
+  sheets: string[];
+  readSheet(name: string): string[][];
+}
+
+// Excel's last column (XFD); anything further out is a broken reference
+const MAX_COLUMNS = 16384;
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (/^#x/i.test(name)) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith("#")) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+function formatDateTime(date: Date): string {
+  const iso = date.toISOString();
+  const time = iso.slice(11, 16);
+  return time === "00:00" ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${time}`;
+}
+
+// Drops floating point noise such as 0.30000000000000004
+function formatNumber(raw: string): string {
+  const value = Number(raw);
+  return isNaN(value) ? raw : String(parseFloat(value.toPrecision(15)));
+}
+
+function trimRow(row: string[]): string[] {
+  let end = row.length;
+  while (end > 0 && row[end - 1] === "") end--;
+  return row.slice(0, end);
+}
+
+function readText(zip: ZipArchive, name: string): string | undefined {
+  return zip.read(name)?.toString("utf8");
+}
+
+// ---- XLSX ----
+
+// Built-in number formats that display a date or time
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// A custom format shows a date if it has d, m, y or h codes outside quoted
+// text, escapes and [color]/[$-locale] sections
+function isDateFormatCode(code: string): boolean {
+  const bare = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  return /[dmyh]/i.test(bare) && !/^general$/i.test(bare);
+}
+
+// Indexes into cellXfs whose number format is a date
+function dateStyles(stylesXml: string | undefined): Set<number> {
+  const styles = new Set<number>();
+  if (!stylesXml) return styles;
+
+  const customDates = new Set<number>();
+  for (const [tag] of Array.from(stylesXml.matchAll(/<numFmt\s[^>]*>/g))) {
+    if (isDateFormatCode(attribute(tag, "formatCode") ?? "")) customDates.add(Number(attribute(tag, "numFmtId")));
+  }
+  const cellXfs = stylesXml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? "";
+  Array.from(cellXfs.matchAll(/<xf\s[^>]*>/g)).forEach(([tag], index) => {
+    const formatId = Number(attribute(tag, "numFmtId") ?? 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDates.has(formatId)) styles.add(index);
+  });
+  return styles;
+}
+
+function sharedStrings(xml: string | undefined): string[] {
+  if (!xml) return [];
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), ([, item]) => runText(item));
+}
+
+// The text of a string item, whether plain <t> or rich text runs. Phonetic
+// guides (<rPh>) are not part of the value.
+function runText(item: string): string {
+  const withoutPhonetic = item.replace(/<rPh[\s\S]*?<\/rPh>/g, "");
+  return Array.from(withoutPhonetic.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), ([, t]) => decodeEntities(t)).join("");
+}
+
+// "C12" is column 2 (zero-based)
+function columnIndex(ref: string | undefined): number | undefined {
+  const letters = ref?.match(/^[A-Z]+/)?.[0];
+  if (!letters) return undefined;
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+// Excel counts days from 1899-12-30 (or 1904-01-01 in the Mac date system)
+function excelDate(serial: number, date1904: boolean): string {
+  const days = serial + (date1904 ? 1462 : 0) - 25569;
+  return formatDateTime(new Date(Math.round(days * 86400000)));
+}
+
+function openXlsx(zip: ZipArchive): Workbook | null {
+  const workbookXml = readText(zip, "xl/workbook.xml");
+  if (!workbookXml) return null;
+
+  const targets = new Map<string, string>();
+  for (const [tag] of Array.from((readText(zip, "xl/_rels/workbook.xml.rels") ?? "").matchAll(/<Relationship\s[^>]*>/g))) {
+    const target = attribute(tag, "Target") ?? "";
+    targets.set(attribute(tag, "Id") ?? "", target.startsWith("/") ? target.slice(1) : `xl/${target}`);
+  }
+
+  const sheetParts = new Map<string, string>();
+  for (const [tag] of Array.from(workbookXml.matchAll(/<sheet\s[^>]*>/g))) {
+    const name = attribute(tag, "name");
+    const part = targets.get(attribute(tag, "r:id") ?? "");
+    const state = attribute(tag, "state");
+    if (name && part && state !== "hidden" && state !== "veryHidden") sheetParts.set(name, part);
+  }
+
+  const date1904 = /<workbookPr\s[^>]*date1904="(1|true)"/.test(workbookXml);
+  let strings: string[] | undefined;
+  let dates: Set<number> | undefined;
+
+  return {
+    format: "xlsx",
+    sheets: Array.from(sheetParts.keys()),
+    readSheet(name) {
+      const xml = readText(zip, sheetParts.get(name) ?? "");
+      if (!xml) return [];
+      strings ??= sharedStrings(readText(zip, "xl/sharedStrings.xml"));
+      dates ??= dateStyles(readText(zip, "xl/styles.xml"));
+
+      const rows: string[][] = [];
+      for (const [, , rowXml = ""] of Array.from(xml.matchAll(/<row(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+        const row: string[] = [];
+        for (const [, tag, content = ""] of Array.from(rowXml.matchAll(/<c(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+          const cellTag = tag ?? "";
+          const index = columnIndex(attribute(cellTag, "r")) ?? row.length;
+          if (index >= MAX_COLUMNS) continue;
+
+          const type = attribute(cellTag, "t");
+          const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+          let value = "";
+          if (type === "s") value = strings[Number(raw)] ?? "";
+          else if (type === "inlineStr") value = runText(content);
+          else if (type === "str") value = decodeEntities(raw ?? "");
+          else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+          else if (type === "e" || raw === undefined) value = "";
+          else if (dates.has(Number(attribute(cellTag, "s") ?? 0)) && !isNaN(Number(raw))) value = excelDate(Number(raw), date1904);
+          else value = formatNumber(raw);
+
+          while (row.length < index) row.push("");
+          row[index] = value;
+        }
+        // Blank rows are dropped, as blank CSV lines are
+        const trimmed = trimRow(row);
+        if (trimmed.length > 0) rows.push(trimmed);
+      }
+      return rows;
+    },
+  };
+}
+
+// ---- ODS ----
+
+// The text of a cell's paragraphs: <text:s text:c="3"/> is three spaces,
+// and markup such as <text:span> is dropped
+function odsCellText(content: string): string {
+  return Array.from(content.matchAll(/<text:p(?:\s[^>]*)?>([\s\S]*?)<\/text:p>/g), ([, paragraph]) =>
+    decodeEntities(
+      paragraph
+        .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count) => " ".repeat(Number(count ?? 1)))
+        .replace(/<text:tab\s*\/>/g, "\t")
+        .replace(/<text:line-break\s*\/>/g, "\n")
+        .replace(/<[^>]+>/g, "")
+    )
+  ).join("\n");
+}
+
+function odsCellValue(tag: string, content: string): string {
+  switch (attribute(tag, "office:value-type")) {
+    case "float":
+    case "currency":
+    case "percentage":
+      return formatNumber(attribute(tag, "office:value") ?? "");
+    case "date": {
+      const value = attribute(tag, "office:date-value") ?? "";
+      const time = value.slice(11, 16);
+      return time && time !== "00:00" ? `${value.slice(0, 10)} ${time}` : value.slice(0, 10);
+    }
+    case "boolean":
+      return attribute(tag, "office:boolean-value") === "true" ? "TRUE" : "FALSE";
+    default:
+      return odsCellText(content);
+  }
+}
+
+function readOdsTable(tableXml: string): string[][] {
+  const rows: string[][] = [];
+  const rowPattern = /<table:table-row(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/table:table-row>)/g;
+  for (const [, rowTag = "", rowXml = ""] of Array.from(tableXml.matchAll(rowPattern))) {
+    const row: string[] = [];
+    // Empty cells are only written out when a value follows them, so the
+    // 16384 blank columns a row often ends with cost nothing
+    let pendingEmpty = 0;
+    const cellPattern = /<table:(?:covered-)?table-cell(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/table:(?:covered-)?table-cell>)/g;
+    for (const [, cellTag = "", content = ""] of Array.from(rowXml.matchAll(cellPattern))) {
+      const repeat = Math.min(Number(attribute(cellTag, "table:number-columns-repeated") ?? 1), MAX_COLUMNS);
+      const value = odsCellValue(cellTag, content);
+      if (value === "") {
+        pendingEmpty += repeat;
+        continue;
+      }
+      for (let i = 0; i < pendingEmpty && row.length < MAX_COLUMNS; i++) row.push("");
+      pendingEmpty = 0;
+      for (let i = 0; i < repeat && row.length < MAX_COLUMNS; i++) row.push(value);
+    }
+    if (row.length === 0) continue;
+    // Blank rows are dropped; repeated rows with content are rare (a copied
+    // block) and kept
+    const repeat = Math.min(Number(attribute(rowTag, "table:number-rows-repeated") ?? 1), 1000);
+    for (let i = 0; i < repeat; i++) rows.push(row);
+  }
+  return rows;
+}
+
+function openOds(zip: ZipArchive): Workbook | null {
+  const contentXml = readText(zip, "content.xml");
+  if (!contentXml) return null;
+
+  const tables = new Map<string, string>();
+  for (const [, tag, tableXml] of Array.from(contentXml.matchAll(/<table:table(\s[^>]*)>([\s\S]*?)<\/table:table>/g))) {
+    const name = attribute(tag, "table:name");
+    if (name && !tables.has(name)) tables.set(name, tableXml);
+  }
+
+  return {
+    format: "ods",
+    sheets: Array.from(tables.keys()),
+    readSheet: (name) => readOdsTable(tables.get(name) ?? ""),
+  };
+}
+
+// Returns null when the file is not an XLSX or ODS workbook
+export function openWorkbook(buffer: Buffer): Workbook | null {
+  const zip = openZip(buffer);
+  if (!zip) return null;
+  if (zip.names.includes("xl/workbook.xml")) return openXlsx(zip);
+  const mimetype = readText(zip, "mimetype")?.trim();
+  if (mimetype === "application/vnd.oasis.opendocument.spreadsheet") return openOds(zip);
+  return null;
+}
@@ -0,0 +1,138 @@
+import type { ImportAmountSign, ImportProfileColumns } from "../storage";
+import type { CandidateRow } from "./types";
+import { parseAmount, parseDate, type DateFormat } from "./values";
+
+// Rows of cells from a CSV file or a worksheet: finding the header row,
+// guessing which column holds what, and turning the rows into candidates.
+
+const HEADER_PATTERNS = [
+  /timestamp/i, /date/i, /amount/i, /description/i, /merchant/i,
+  /transaction/i, /type/i, /status/i, /note/i, /memo/i, /currency/i,
+  /debit/i, /credit/i, /payee/i, /details/i, /category/i, /balance/i,
+  /posted/i, /withdrawal/i, /deposit/i, /paid (?:in|out)/i, /money (?:in|out)/i,
+];
+
+// A first row with two or more cells named like columns is a header row
+export function looksLikeHeaderRow(row: string[]): boolean {
+  return row.filter((cell) => HEADER_PATTERNS.some((pattern) => pattern.test(cell ?? ""))).length >= 2;
+}
+
+// Header names as shown in the mapping step. Blank headers, and every
+// column of a file without a header row, are called "Column n".
+export function columnNames(firstRow: string[], hasHeaders: boolean): string[] {
+  return firstRow.map((cell, i) => (hasHeaders && cell?.trim() ? cell.trim() : `Column ${i + 1}`));
+}
+
+export function isCompleteMapping(columns: Partial<ImportProfileColumns>): columns is ImportProfileColumns {
+  return !!columns.date && !!columns.description && (!!columns.amount || (!!columns.debit && !!columns.credit));
+}
+
+// Picks columns by their header names. Separate debit and credit columns are
+// used when there is no amount column. Files without a header row are
+// guessed from their first row instead: the first date, the first plain
+// number and, with four or more columns, the last column as description.
+export function guessColumns(headers: string[], rows: string[][], hasHeaders: boolean): Partial<ImportProfileColumns> {
+  const columns: Partial<ImportProfileColumns> = {};
+  const pick = (field: keyof ImportProfileColumns, header: string) => {
+    if (!columns[field]) columns[field] = header;
+  };
+
+  if (hasHeaders) {
+    for (const header of headers) {
+      const name = header.toLowerCase();
+      if (/date|timestamp|posted/.test(name)) pick("date", header);
+      if (/description|memo|merchant|payee/.test(name)) pick("description", header);
+      if (name.includes("amount")) pick("amount", header);
+      if (/debit|withdrawal|paid out|money out/.test(name)) pick("debit", header);
+      if (/credit|deposit|paid in|money in/.test(name)) pick("credit", header);
+      if (/category|type/.test(name)) pick("category", header);
+    }
+    if (columns.amount || !(columns.debit && columns.credit)) {
+      // One signed column; a lone debit or credit column is taken as it
+      columns.amount = columns.amount ?? columns.debit ?? columns.credit;
+      delete columns.debit;
+      delete columns.credit;
+    }
+    return columns;
+  }
+
+  const sample = rows[0] ?? [];
+  sample.forEach((cell, i) => {
+    const value = cell?.trim() ?? "";
+    if (!columns.date && parseDate(value, "mdy") !== null) columns.date = headers[i];
+    if (!columns.amount && !/[A-Za-z]/.test(value) && /^-?\d+\.?\d*$/.test(value.replace(/[$,]/g, ""))) {
+      columns.amount = headers[i];
+    }
+  });
+  if (headers.length >= 4) columns.description = headers[headers.length - 1];
+  return columns;
+}
+
+// Card exports write purchases as positive amounts and payments as negative
+// ones. A column named for debits says so outright; otherwise a file whose
+// positive amounts outnumber the negative ones two to one is taken as
+// written that way. Undefined when there is nothing to go on, such as a
+// file of only positive amounts.
+export function detectAmountSign(amountHeader: string, amounts: number[]): ImportAmountSign | undefined {
+  if (/debit|withdrawal|charge/i.test(amountHeader)) return "positive_out";
+  const positive = amounts.filter((a) => a > 0).length;
+  const negative = amounts.filter((a) => a < 0).length;
+  if (positive === 0 || negative === 0) return undefined;
+  return positive > 2 * negative ? "positive_out" : "positive_in";
+}
+
+export interface TableMapping {
+  columns: ImportProfileColumns;
+  dateFormat: DateFormat;
+  amountSign: ImportAmountSign;
+}
+
+// Turns rows into candidates. Rows with a zero amount (card authorizations,
+// mostly) are left out unless something else is wrong with them.
+export function mapTableRows(rows: string[][], headers: string[], { columns, dateFormat, amountSign }: TableMapping): CandidateRow[] {
+  const cell = (row: string[], column?: string) => {
+    const index = column ? headers.indexOf(column) : -1;
+    return index >= 0 ? row[index]?.trim() ?? "" : "";
+  };
+  // Blank amount cells are zero, as in the unused one of a debit and a
+  // credit column
+  const amountIn = (row: string[], column?: string) => {
+    const value = cell(row, column);
+    return value === "" ? 0 : parseAmount(value);
+  };
+
+  const candidates: CandidateRow[] = [];
+  for (const row of rows) {
+    const rawDate = cell(row, columns.date);
+    const description = cell(row, columns.description);
+    const category = cell(row, columns.category);
+    const date = parseDate(rawDate, dateFormat);
+
+    let amount: number | null;
+    if (columns.debit && columns.credit) {
+      // Banks differ on whether debits carry a minus sign, so only the
+      // column says which way the money went
+      const debit = amountIn(row, columns.debit);
+      const credit = amountIn(row, columns.credit);
+      amount = debit === null || credit === null ? null : Math.abs(credit) - Math.abs(debit);
+    } else {
+      amount = amountIn(row, columns.amount);
+      if (amount !== null && amountSign === "positive_out") amount = -amount;
+    }
+
+    const errors: string[] = [];
+    if (!date) errors.push("Invalid date");
+    if (!description) errors.push("Missing description");
+    if (amount === null) errors.push("Invalid amount");
+    if (amount === 0 && errors.length === 0) continue;
+
+    candidates.push({
+      date: date ?? rawDate,
+      description,
+      amount: amount ? Math.round(amount * 100) / 100 : 0,
+      subcategory: category || undefined,
+      errors,
+    });
+  }
+  return candidates;
+}
@@ -0,0 +1,72 @@
+// What the statement importers produce. Amounts are signed from the account
+// holder's side: money spent is negative, on card statements too (a charge
+// is negative, a payment positive). Imports into a credit card or loan
+// account negate them into the amount owed (see statementToLedger).
+
+export interface ParsedStatementTransaction {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number;
+  // The bank's own id for the transaction (OFX FITID), used to recognize it
+  // when an overlapping statement is imported again
+  external_id?: string;
+  // Category assigned in the exporting software, if the format carries one
+  subcategory?: string;
+  splits?: ParsedStatementSplit[];
+}
+
+// A split line as exported; the lines add up to the transaction amount and
+// share its sign.
+export interface ParsedStatementSplit {
+  amount: number;
+  subcategory: string;
+}
+
+export interface StatementBalance {
+  amount: number;
+  date: string; // YYYY-MM-DD
+}
+
+export interface ParsedStatement {
+  transactions: ParsedStatementTransaction[];
+  account_number?: string;
+  currency?: string;
+  period_start?: string;
+  period_end?: string;
+  opening_balance?: StatementBalance;
+  closing_balance?: StatementBalance;
+}
+
+// A bank's PDF statement layout. `detect` looks at the text pdf-parse
+// extracted (header text, section titles or the shape of the transaction
+// lines) and `parse` pulls the transactions out of it.
+export interface PdfStatementParser {
+  id: string;
+  name: string;
+  detect(text: string): boolean;
+  parse(text: string): ParsedStatementTransaction[];
+}
+
+// The figures a statement prints besides its transaction lines. Balances
+// are as printed: on a card statement a positive balance is owed.
+export interface StatementSummary {
+  period_start?: string;
+  period_end?: string;
+  opening_balance?: number;
+  closing_balance?: number;
+  minimum_payment?: number;
+  payment_due_date?: string;
+  credit_limit?: number;
+}
+
+// A row of an import, normalized for the preview. `errors` says why the row
+// cannot be imported as it stands; such rows keep the text from the file.
+export interface CandidateRow {
+  date: string; // YYYY-MM-DD when readable
+  description: string;
+  amount: number;
+  subcategory?: string;
+  external_id?: string;
+  splits?: ParsedStatementSplit[];
+  errors: string[];
+}
@@ -0,0 +1,100 @@
+import { isoDate, monthNumber } from "./pdf/text";
+
+// Reading the dates and amounts of text-based exports (CSV, spreadsheets,
+// QIF), which write them however the bank's locale does.
+
+// Whether 01/02/2026 is January 2 (mdy) or 1 February (dmy)
+export type DateFormat = "mdy" | "dmy";
+
+interface NumericDate {
+  first: number;
+  second: number;
+  year: number;
+}
+
+const TIME_OF_DAY = /(?:T|\s+)\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:\s*[AP]M)?(?:Z|[+-]\d{2}:?\d{2})?$/i;
+
+// 1/5/26, 01/05/2026, 1/ 5'26 (Quicken writes an apostrophe for years
+// from 2000), 05.01.2026 or 05-01-2026. Two-digit years before 70 are
+// taken as 20xx.
+function splitNumericDate(raw: string): NumericDate | null {
+  const value = raw.replace(TIME_OF_DAY, "").replace(/\s+/g, "");
+  const match = value.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-]|')(\d{2}|\d{4})$/);
+  if (!match) return null;
+  let year = parseInt(match[3], 10);
+  if (match[3].length === 2) {
+    year += value.includes("'") || year < 70 ? 2000 : 1900;
+  }
+  return { first: parseInt(match[1], 10), second: parseInt(match[2], 10), year };
+}
+
+// Day-first if any date only makes sense that way, month-first if any only
+// makes sense that way, otherwise day-first when dates are written with
+// dots, as European exports do. Undefined when the dates read the same
+// either way.
+export function detectDateFormat(rawDates: string[]): DateFormat | undefined {
+  const dates = rawDates.map(splitNumericDate).filter((d): d is NumericDate => d !== null);
+  if (dates.some((d) => d.first > 12)) return "dmy";
+  if (dates.some((d) => d.second > 12)) return "mdy";
+  return rawDates.some((d) => /^\s*\d{1,2}\.\d{1,2}\./.test(d)) ? "dmy" : undefined;
+}
+
+function validDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return day <= daysInMonth ? isoDate(year, month, day) : null;
+}
+
+// Reads a date as YYYY-MM-DD. Besides the numeric forms above this takes
+// ISO dates (with or without a time), 2026/01/05, "Jan 5, 2026" and
+// "5 Jan 2026" / "05-Jan-26".
+export function parseDate(raw: string, format: DateFormat): string | null {
+  const value = raw.trim();
+
+  const iso = value.replace(TIME_OF_DAY, "").match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (iso) return validDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+
+  const numeric = splitNumericDate(value);
+  if (numeric) {
+    const [month, day] = format === "mdy" ? [numeric.first, numeric.second] : [numeric.second, numeric.first];
+    return validDate(numeric.year, month, day);
+  }
+
+  const monthFirst = value.match(/^([A-Za-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{4})$/);
+  const dayFirst = value.match(/^(\d{1,2})[\s-]([A-Za-z]{3,})\.?[\s-](\d{2}|\d{4})$/);
+  const named = monthFirst
+    ? { month: monthFirst[1], day: monthFirst[2], year: monthFirst[3] }
+    : dayFirst && { month: dayFirst[2], day: dayFirst[1], year: dayFirst[3] };
+  const month = named ? monthNumber(named.month) : undefined;
+  if (!named || !month) return null;
+  const year = named.year.length === 2 ? 2000 + parseInt(named.year, 10) : parseInt(named.year, 10);
+  return validDate(year, month, parseInt(named.day, 10));
+}
+
+// "1,234.56", "-4.75", "$12.00", "(12.00)", "12.00-", "12.00 CR" / "DR" or,
+// from European exports, "1.234,56". Null when the text is not a number.
+export function parseAmount(raw: string): number | null {
+  let value = raw.replace(/[\s$€£¥]/g, "").replace(/^(?:USD|EUR|GBP|CAD)|(?:USD|EUR|GBP|CAD)$/i, "");
+  let sign = 1;
+  const creditDebit = value.match(/(CR|DR)$/i);
+  if (creditDebit) {
+    value = value.slice(0, -2);
+    if (creditDebit[1].toUpperCase() === "DR") sign = -1;
+  }
+  if (/^\(.*\)$/.test(value)) {
+    value = value.slice(1, -1);
+    sign = -sign;
+  }
+  if (value.endsWith("-")) {
+    value = value.slice(0, -1);
+    sign = -sign;
+  }
+
+  if (/,\d{1,2}$/.test(value)) {
+    value = value.replace(/\./g, "").replace(",", ".");
+  } else {
+    value = value.replace(/,/g, "");
+  }
+  if (!/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(value)) return null;
+  return sign * parseFloat(value);
+}
@@ -0,0 +1,70 @@
+import { inflateRawSync } from "zlib";
+
+// Just enough of the ZIP format to read the XML parts of an XLSX or ODS
+// workbook: the central directory, and entries that are stored or deflated.
+// ZIP64 archives and encrypted entries are not supported.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Workbook parts are XML and compress well; anything inflating past this is
+// not a statement export
+const MAX_ENTRY_SIZE = 64 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  names: string[];
+  read(name: string): Buffer | undefined;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64KB
+  const stop = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+}
+
+// Returns null when the buffer is not a readable ZIP archive
+export function openZip(buffer: Buffer): ZipArchive | null {
+  if (buffer.length < 22) return null;
+  const end = findEndOfCentralDirectory(buffer);
+  if (end < 0) return null;
+
+  const entries = new Map<string, ZipEntry>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) return null;
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32);
+  }
+
+  return {
+    names: Array.from(entries.keys()),
+    read(name) {
+      const entry = entries.get(name);
+      if (!entry) return undefined;
+      const header = entry.localHeaderOffset;
+      if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) return undefined;
+      const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+      const data = buffer.subarray(start, start + entry.compressedSize);
+      if (entry.method === 0) return data;
+      if (entry.method === 8) return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+      return undefined;
+    },
+  };
+}
@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { createStorage } from "./storage";
+import { createFileStore } from "./file-store";
+import { startTrashPurge } from "./trash";
+import { failInterruptedCategorizationJobs } from "./ai-categorization";
 import { createServer } from "http";
 
 const app = express();
@@ -60,7 +64,13 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  await registerRoutes(httpServer, app);
+  const storage = await createStorage();
+  const files = createFileStore();
+  await failInterruptedCategorizationJobs(storage).catch((error) =>
+    console.error("Error failing interrupted categorization jobs:", error)
+  );
+  await registerRoutes(httpServer, app, storage, files);
+  startTrashPurge(storage, files);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,115 @@
+import type { Account, AccountReconciliation, ReconcileOptions, Transaction, TransactionTotals } from "./storage";
+
+// Builds the reconciliation report for backends that sum the ledger in
+// application code. Amounts are added up in cents to avoid float drift.
+export function buildReconciliation(
+  account: Account,
+  amounts: string[],
+  options: ReconcileOptions
+): AccountReconciliation {
+  const toCents = (value: string | number) => Math.round(Number(value) * 100);
+  const totalCents = amounts.reduce((sum, amount) => sum + toCents(amount), 0);
+  const openingCents = toCents(options.opening_balance ?? account.opening_balance);
+  const storedCents = toCents(account.balance);
+  const computedCents = openingCents + totalCents;
+
+  return {
+    account_id: account.id,
+    opening_balance: (openingCents / 100).toFixed(2),
+    transaction_total: (totalCents / 100).toFixed(2),
+    transaction_count: amounts.length,
+    stored_balance: (storedCents / 100).toFixed(2),
+    computed_balance: (computedCents / 100).toFixed(2),
+    drift: ((storedCents - computedCents) / 100).toFixed(2),
+    applied: !!options.apply,
+  };
+}
+
+// Income, expense and net totals for a set of transactions, in the same
+// shape the database aggregates return. Transfer legs only move money between
+// the user's own accounts, so they count towards `count` and nothing else.
+export function buildTransactionTotals(rows: Pick<Transaction, "amount" | "transfer_id">[]): TransactionTotals {
+  let incomeCents = 0;
+  let expenseCents = 0;
+  for (const row of rows) {
+    if (row.transfer_id != null) continue;
+    const cents = Math.round(Number(row.amount) * 100);
+    if (cents > 0) incomeCents += cents;
+    else expenseCents -= cents;
+  }
+
+  return {
+    count: rows.length,
+    income: (incomeCents / 100).toFixed(2),
+    expenses: (expenseCents / 100).toFixed(2),
+    net: ((incomeCents - expenseCents) / 100).toFixed(2),
+  };
+}
+
+// Credit cards and loans store the amount owed, so money paid into them
+// lowers their balance and money taken out of them raises it.
+export function isDebtAccount(account: Pick<Account, "category">): boolean {
+  return account.category === "credit_card" || account.category === "loan";
+}
+
+// Statements sign amounts from the account holder's side, so a card charge
+// is negative and a payment positive; every parser and file format keeps
+// that. A debt account's ledger holds the amount owed instead, so rows
+// imported into one are negated on the way in, which also gives a card
+// payment the same sign as the card leg of a transfer.
+export function statementToLedger(account: Pick<Account, "category">, amount: string | number): string {
+  return isDebtAccount(account) ? (-Number(amount)).toFixed(2) : String(amount);
+}
+
+// Signed amounts for the [from, to] legs of a transfer of `amount`.
+export function transferLegAmounts(
+  from: Pick<Account, "category">,
+  to: Pick<Account, "category">,
+  amount: string
+): [string, string] {
+  const value = Math.abs(Number(amount));
+  const out = isDebtAccount(from) ? value : -value;
+  const into = isDebtAccount(to) ? -value : value;
+  return [out.toFixed(2), into.toFixed(2)];
+}
+
+export interface StatementBalanceCheck {
+  account_id: number;
+  balance_date: string;
+  statement_balance: string;
+  expected_balance: string;
+  difference: string;
+  balanced: boolean;
+}
+
+// Compares a statement's closing balance with the balance the account's
+// ledger will show on that date once the rows being imported are added.
+// Only rows dated on or before the balance date count on either side. The
+// incoming rows and the closing balance are signed as on the statement (a
+// card statement in OFX gives what is owed as negative), so on a credit card
+// or loan both are negated into the amount owed, as the import does.
+export function buildStatementBalanceCheck(
+  account: Pick<Account, "id" | "opening_balance" | "category">,
+  ledger: Pick<Transaction, "amount" | "date">[],
+  incoming: { amount: string | number; date: string }[],
+  closing: { amount: string | number; date: string }
+): StatementBalanceCheck {
+  const toCents = (value: string | number) => Math.round(Number(value) * 100);
+  const sumUntil = (rows: { amount: string | number; date: string }[]) =>
+    rows.filter((row) => row.date <= closing.date).reduce((sum, row) => sum + toCents(row.amount), 0);
+
+  const owed = (rows: { amount: string | number; date: string }[]) =>
+    rows.map((row) => ({ ...row, amount: statementToLedger(account, row.amount) }));
+
+  const expectedCents = toCents(account.opening_balance) + sumUntil(ledger) + sumUntil(owed(incoming));
+  const statementCents = toCents(statementToLedger(account, closing.amount));
+
+  return {
+    account_id: account.id,
+    balance_date: closing.date,
+    statement_balance: (statementCents / 100).toFixed(2),
+    expected_balance: (expectedCents / 100).toFixed(2),
+    difference: ((statementCents - expectedCents) / 100).toFixed(2),
+    balanced: statementCents === expectedCents,
+  };
+}
@@ -0,0 +1,847 @@
+import { buildReconciliation, buildTransactionTotals, transferLegAmounts } from "./ledger";
+import { toPage } from "./transaction-query";
+import type {
+  IStorage,
+  Account,
+  AccountReconciliation,
+  ReconcileOptions,
+  InsertAccount,
+  Transaction,
+  InsertTransaction,
+  NewTransaction,
+  TransactionUpdate,
+  TransactionPage,
+  TransactionQuery,
+  ImportBatch,
+  InsertImportBatch,
+  Attachment,
+  InsertAttachment,
+  TagCount,
+  Transfer,
+  InsertTransfer,
+  SavedView,
+  InsertSavedView,
+  ImportProfile,
+  InsertImportProfile,
+  CategoryRule,
+  InsertCategoryRule,
+  CategorizationJob,
+  UpdateCategorizationJob,
+  CategorizationSuggestion,
+  InsertCategorizationSuggestion,
+  Obligation,
+  InsertObligation,
+  Deletion,
+  InsertDeletion,
+  AuditEntityType,
+  AuditEntry,
+  InsertAuditEntry,
+  Conversation,
+  Message,
+} from "./storage";
+
+// In-process IStorage used by the API tests. It mirrors the database
+// behaviour the routes rely on: per-user scoping, sort orders and the
+// cascades declared on the foreign keys.
+
+function byNewest<T extends { id: number; created_at: string }>(a: T, b: T): number {
+  return b.created_at.localeCompare(a.created_at) || b.id - a.id;
+}
+
+export class MemStorage implements IStorage {
+  private accounts = new Map<number, Account>();
+  private transactions = new Map<number, Transaction>();
+  private transfers = new Map<number, Omit<Transfer, "transactions">>();
+  private importBatches = new Map<number, Omit<ImportBatch, "transaction_count">>();
+  private savedViews = new Map<number, SavedView>();
+  private importProfiles = new Map<number, ImportProfile>();
+  private categoryRules = new Map<number, CategoryRule>();
+  private categorizationJobs = new Map<number, CategorizationJob>();
+  private categorizationSuggestions = new Map<number, CategorizationSuggestion>();
+  private obligations = new Map<number, Obligation>();
+  private deletions = new Map<number, Deletion>();
+  private auditLog: AuditEntry[] = [];
+  private conversations = new Map<number, Conversation>();
+  private messages = new Map<number, Message>();
+  private nextId = 1;
+
+  private now(): string {
+    return new Date().toISOString();
+  }
+
+  async ensureUser(): Promise<void> {}
+
+  async getAccounts(userId: string): Promise<Account[]> {
+    return Array.from(this.accounts.values())
+      .filter((a) => a.user_id === userId)
+      .sort(byNewest);
+  }
+
+  async getAccount(userId: string, id: number): Promise<Account | undefined> {
+    const account = this.accounts.get(id);
+    return account && account.user_id === userId ? account : undefined;
+  }
+
+  async createAccount(userId: string, account: InsertAccount): Promise<Account> {
+    const created: Account = {
+      credit_limit: null,
+      credit_score: null,
+      interest_rate: null,
+      due_day: null,
+      statement_day: null,
+      ...account,
+      balance: account.balance ?? "0",
+      opening_balance: account.balance ?? "0",
+      id: this.nextId++,
+      user_id: userId,
+      created_at: this.now(),
+    };
+    this.accounts.set(created.id, created);
+    return created;
+  }
+
+  async updateAccount(userId: string, id: number, data: Partial<InsertAccount>): Promise<Account | undefined> {
+    const account = await this.getAccount(userId, id);
+    if (!account) return undefined;
+
+    const updated = { ...account, ...data };
+    if (data.balance !== undefined) {
+      const shift = parseFloat(data.balance) - parseFloat(account.balance);
+      updated.opening_balance = (parseFloat(account.opening_balance) + shift).toFixed(2);
+    }
+    this.accounts.set(id, updated);
+    return updated;
+  }
+
+  // Ledger changes only ever touch `balance`; direct edits go through updateAccount.
+  private applyToBalance(accountId: number, delta: number): void {
+    const account = this.accounts.get(accountId);
+    if (!account) return;
+    this.accounts.set(accountId, {
+      ...account,
+      balance: (parseFloat(account.balance) + delta).toFixed(2),
+    });
+  }
+
+  async deleteAccount(userId: string, id: number): Promise<void> {
+    if (!(await this.getAccount(userId, id))) return;
+
+    for (const transfer of Array.from(this.transfers.values())) {
+      if (transfer.from_account_id === id || transfer.to_account_id === id) {
+        await this.deleteTransfer(userId, transfer.id);
+      }
+    }
+    this.accounts.delete(id);
+    for (const transaction of Array.from(this.transactions.values())) {
+      if (transaction.account_id === id) {
+        this.transactions.delete(transaction.id);
+        this.dropSuggestionsFor(transaction.id);
+      }
+    }
+    for (const obligation of Array.from(this.obligations.values())) {
+      if (obligation.account_id === id) {
+        this.obligations.set(obligation.id, { ...obligation, account_id: null });
+      }
+    }
+    for (const batch of Array.from(this.importBatches.values())) {
+      if (batch.account_id === id) this.importBatches.set(batch.id, { ...batch, account_id: null });
+    }
+    for (const profile of Array.from(this.importProfiles.values())) {
+      if (profile.account_id === id) this.importProfiles.delete(profile.id);
+    }
+    for (const rule of Array.from(this.categoryRules.values())) {
+      if (rule.account_id === id) this.categoryRules.delete(rule.id);
+    }
+  }
+
+  async reconcileAccount(userId: string, id: number, options: ReconcileOptions): Promise<AccountReconciliation | undefined> {
+    const account = await this.getAccount(userId, id);
+    if (!account) return undefined;
+
+    const ledger = Array.from(this.transactions.values()).filter((t) => t.account_id === id);
+    const report = buildReconciliation(account, ledger.map((t) => t.amount), options);
+
+    if (options.apply) {
+      this.accounts.set(id, {
+        ...account,
+        opening_balance: report.opening_balance,
+        balance: report.computed_balance,
+      });
+    }
+    return report;
+  }
+
+  async getTransactions(userId: string): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter((t) => t.user_id === userId)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id);
+  }
+
+  async queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage> {
+    const needle = query.search?.toLowerCase();
+    const matching = (await this.getTransactions(userId)).filter((t) => {
+      const amount = parseFloat(t.amount);
+      return (
+        (!query.account_ids || query.account_ids.includes(t.account_id)) &&
+        (!query.start_date || t.date >= query.start_date) &&
+        (!query.end_date || t.date <= query.end_date) &&
+        (query.min_amount === undefined || amount >= parseFloat(query.min_amount)) &&
+        (query.max_amount === undefined || amount <= parseFloat(query.max_amount)) &&
+        (!query.category || t.category === query.category) &&
+        (!query.subcategory || t.subcategory === query.subcategory) &&
+        (!needle || t.description.toLowerCase().includes(needle)) &&
+        (!query.tags || query.tags.every((tag) => t.tags.includes(tag)))
+      );
+    });
+
+    const direction = query.order === "asc" ? 1 : -1;
+    const compareKey = (t: Transaction, value: string) =>
+      query.sort === "amount" ? parseFloat(t.amount) - parseFloat(value) : t.date.localeCompare(value);
+    const sorted = matching.sort((a, b) => direction * (compareKey(a, b[query.sort]) || a.id - b.id));
+
+    const { cursor } = query;
+    const remaining = cursor
+      ? sorted.filter((t) => direction * (compareKey(t, cursor.value) || t.id - cursor.id) > 0)
+      : sorted;
+
+    return {
+      ...toPage(remaining.slice(0, query.limit + 1), query),
+      totals: buildTransactionTotals(matching),
+    };
+  }
+
+  async getTransaction(userId: string, id: number): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    return transaction && transaction.user_id === userId ? transaction : undefined;
+  }
+
+  async getTransactionsByAccount(userId: string, accountId: number): Promise<Transaction[]> {
+    return (await this.getTransactions(userId)).filter((t) => t.account_id === accountId);
+  }
+
+  async createTransaction(userId: string, transaction: NewTransaction): Promise<Transaction> {
+    const [created] = await this.createTransactions(userId, [transaction]);
+    return created;
+  }
+
+  async createTransactions(userId: string, transactions: NewTransaction[]): Promise<Transaction[]> {
+    // Check every row before writing any, so a bad row leaves nothing behind.
+    for (const transaction of transactions) {
+      if (!(await this.getAccount(userId, transaction.account_id))) {
+        throw new Error(`Account ${transaction.account_id} not found`);
+      }
+    }
+
+    return transactions.map(({ splits = [], ...transaction }) => {
+      const id = this.nextId++;
+      const created: Transaction = {
+        subcategory: null,
+        transfer_id: null,
+        tags: [],
+        import_batch_id: null,
+        external_id: null,
+        ...transaction,
+        id,
+        user_id: userId,
+        created_at: this.now(),
+        splits: splits.map((split) => ({ ...split, id: this.nextId++, transaction_id: id })),
+        attachments: [],
+      };
+      this.transactions.set(created.id, created);
+      this.applyToBalance(created.account_id, parseFloat(created.amount));
+      return created;
+    });
+  }
+
+  async updateTransaction(userId: string, id: number, data: TransactionUpdate): Promise<Transaction | undefined> {
+    const transaction = await this.getTransaction(userId, id);
+    if (!transaction) return undefined;
+
+    const { splits, ...changes } = data;
+    const updated = { ...transaction, ...changes };
+    if (!(await this.getAccount(userId, updated.account_id))) {
+      throw new Error(`Account ${updated.account_id} not found`);
+    }
+    if (splits !== undefined) {
+      updated.splits = splits.map((split) => ({ ...split, id: this.nextId++, transaction_id: id }));
+    }
+
+    this.transactions.set(id, updated);
+    this.applyToBalance(transaction.account_id, -parseFloat(transaction.amount));
+    this.applyToBalance(updated.account_id, parseFloat(updated.amount));
+    return updated;
+  }
+
+  private removeTransaction(transaction: Transaction): void {
+    if (!this.transactions.delete(transaction.id)) return;
+    this.dropSuggestionsFor(transaction.id);
+    this.applyToBalance(transaction.account_id, -parseFloat(transaction.amount));
+    // Deleting one leg of a transfer deletes the transfer and its other leg
+    if (transaction.transfer_id != null) {
+      this.transfers.delete(transaction.transfer_id);
+      for (const leg of this.legsOf(transaction.transfer_id)) this.removeTransaction(leg);
+    }
+  }
+
+  async deleteTransaction(userId: string, id: number): Promise<void> {
+    const transaction = await this.getTransaction(userId, id);
+    if (transaction) this.removeTransaction(transaction);
+  }
+
+  async deleteTransactionsByDateRange(userId: string, accountId: number, startDate: string, endDate: string): Promise<number> {
+    const matches = (await this.getTransactionsByAccount(userId, accountId)).filter(
+      (t) => t.date >= startDate && t.date <= endDate
+    );
+    for (const transaction of matches) this.removeTransaction(transaction);
+    return matches.length;
+  }
+
+  private withTransactionCount(batch: Omit<ImportBatch, "transaction_count">): ImportBatch {
+    const count = Array.from(this.transactions.values()).filter((t) => t.import_batch_id === batch.id).length;
+    return { ...batch, transaction_count: count };
+  }
+
+  async getImportBatches(userId: string): Promise<ImportBatch[]> {
+    return Array.from(this.importBatches.values())
+      .filter((b) => b.user_id === userId)
+      .sort(byNewest)
+      .map((b) => this.withTransactionCount(b));
+  }
+
+  async getImportBatch(userId: string, id: number): Promise<ImportBatch | undefined> {
+    const batch = this.importBatches.get(id);
+    return batch && batch.user_id === userId ? this.withTransactionCount(batch) : undefined;
+  }
+
+  async createImportBatch(
+    userId: string,
+    batch: InsertImportBatch,
+    transactions: NewTransaction[]
+  ): Promise<{ batch: ImportBatch; transactions: Transaction[] }> {
+    // createTransactions checks every row first, so the batch is only kept if they all go in
+    const id = this.nextId++;
+    const created = await this.createTransactions(
+      userId,
+      transactions.map((t) => ({ ...t, import_batch_id: id }))
+    );
+    this.importBatches.set(id, { ...batch, id, user_id: userId, row_count: created.length, created_at: this.now() });
+    return { batch: (await this.getImportBatch(userId, id))!, transactions: created };
+  }
+
+  async getTransactionsByImportBatch(userId: string, batchId: number): Promise<Transaction[]> {
+    return (await this.getTransactions(userId))
+      .filter((t) => t.import_batch_id === batchId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async deleteTransactionsByImportBatch(userId: string, batchId: number): Promise<number> {
+    const matches = await this.getTransactionsByImportBatch(userId, batchId);
+    for (const transaction of matches) this.removeTransaction(transaction);
+    return matches.length;
+  }
+
+  // Attachments live on their transaction, so they go when it is deleted.
+  async getAttachment(userId: string, id: number): Promise<Attachment | undefined> {
+    for (const transaction of await this.getTransactions(userId)) {
+      const attachment = transaction.attachments.find((a) => a.id === id);
+      if (attachment) return attachment;
+    }
+    return undefined;
+  }
+
+  async createAttachment(userId: string, attachment: InsertAttachment): Promise<Attachment> {
+    const transaction = await this.getTransaction(userId, attachment.transaction_id);
+    if (!transaction) {
+      throw new Error(`Transaction ${attachment.transaction_id} not found`);
+    }
+
+    const created: Attachment = {
+      ...attachment,
+      id: this.nextId++,
+      user_id: userId,
+      created_at: this.now(),
+    };
+    this.transactions.set(transaction.id, { ...transaction, attachments: [...transaction.attachments, created] });
+    return created;
+  }
+
+  async deleteAttachment(userId: string, id: number): Promise<void> {
+    const attachment = await this.getAttachment(userId, id);
+    if (!attachment) return;
+
+    const transaction = this.transactions.get(attachment.transaction_id)!;
+    this.transactions.set(transaction.id, {
+      ...transaction,
+      attachments: transaction.attachments.filter((a) => a.id !== id),
+    });
+  }
+
+  async getTags(userId: string): Promise<TagCount[]> {
+    const counts = new Map<string, number>();
+    for (const transaction of await this.getTransactions(userId)) {
+      for (const tag of transaction.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => a.tag.localeCompare(b.tag));
+  }
+
+  async replaceTag(userId: string, tag: string, replacement: string | null): Promise<number> {
+    const carrying = (await this.getTransactions(userId)).filter((t) => t.tags.includes(tag));
+    for (const transaction of carrying) {
+      const tags = transaction.tags.map((t) => (t === tag ? replacement : t)).filter((t): t is string => t !== null);
+      this.transactions.set(transaction.id, { ...transaction, tags: Array.from(new Set(tags)).sort() });
+    }
+    return carrying.length;
+  }
+
+  async getSavedViews(userId: string): Promise<SavedView[]> {
+    return Array.from(this.savedViews.values())
+      .filter((v) => v.user_id === userId)
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getSavedView(userId: string, id: number): Promise<SavedView | undefined> {
+    const view = this.savedViews.get(id);
+    return view && view.user_id === userId ? view : undefined;
+  }
+
+  async createSavedView(userId: string, view: InsertSavedView): Promise<SavedView> {
+    const created: SavedView = {
+      ...view,
+      id: this.nextId++,
+      user_id: userId,
+      created_at: this.now(),
+    };
+    this.savedViews.set(created.id, created);
+    return created;
+  }
+
+  async updateSavedView(userId: string, id: number, data: Partial<InsertSavedView>): Promise<SavedView | undefined> {
+    const view = await this.getSavedView(userId, id);
+    if (!view) return undefined;
+
+    const updated = { ...view, ...data };
+    this.savedViews.set(id, updated);
+    return updated;
+  }
+
+  async deleteSavedView(userId: string, id: number): Promise<void> {
+    if (await this.getSavedView(userId, id)) {
+      this.savedViews.delete(id);
+    }
+  }
+
+  async getImportProfiles(userId: string): Promise<ImportProfile[]> {
+    return Array.from(this.importProfiles.values())
+      .filter((p) => p.user_id === userId)
+      .sort((a, b) => a.account_id - b.account_id || a.id - b.id);
+  }
+
+  async getImportProfile(userId: string, id: number): Promise<ImportProfile | undefined> {
+    const profile = this.importProfiles.get(id);
+    return profile && profile.user_id === userId ? profile : undefined;
+  }
+
+  async createImportProfile(userId: string, profile: InsertImportProfile): Promise<ImportProfile> {
+    const created: ImportProfile = {
+      ...profile,
+      id: this.nextId++,
+      user_id: userId,
+      created_at: this.now(),
+    };
+    this.importProfiles.set(created.id, created);
+    return created;
+  }
+
+  async updateImportProfile(userId: string, id: number, data: Partial<InsertImportProfile>): Promise<ImportProfile | undefined> {
+    const profile = await this.getImportProfile(userId, id);
+    if (!profile) return undefined;
+
+    const updated = { ...profile, ...data };
+    this.importProfiles.set(id, updated);
+    return updated;
+  }
+
+  async deleteImportProfile(userId: string, id: number): Promise<void> {
+    if (await this.getImportProfile(userId, id)) {
+      this.importProfiles.delete(id);
+    }
+  }
+
+  async getCategoryRules(userId: string): Promise<CategoryRule[]> {
+    return Array.from(this.categoryRules.values())
+      .filter((r) => r.user_id === userId)
+      .sort((a, b) => b.priority - a.priority || a.id - b.id);
+  }
+
+  async getCategoryRule(userId: string, id: number): Promise<CategoryRule | undefined> {
+    const rule = this.categoryRules.get(id);
+    return rule && rule.user_id === userId ? rule : undefined;
+  }
+
+  async createCategoryRule(userId: string, rule: InsertCategoryRule): Promise<CategoryRule> {
+    const created: CategoryRule = {
+      ...rule,
+      id: this.nextId++,
+      user_id: userId,
+      created_at: this.now(),
+    };
+    this.categoryRules.set(created.id, created);
+    return created;
+  }
+
+  async updateCategoryRule(userId: string, id: number, data: Partial<InsertCategoryRule>): Promise<CategoryRule | undefined> {
+    const rule = await this.getCategoryRule(userId, id);
+    if (!rule) return undefined;
+
+    const updated = { ...rule, ...data };
+    this.categoryRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteCategoryRule(userId: string, id: number): Promise<void> {
+    if (await this.getCategoryRule(userId, id)) {
+      this.categoryRules.delete(id);
+    }
+  }
+
+  async getCategorizationJobs(userId: string): Promise<CategorizationJob[]> {
+    return Array.from(this.categorizationJobs.values())
+      .filter((j) => j.user_id === userId)
+      .sort(byNewest);
+  }
+
+  async getCategorizationJob(userId: string, id: number): Promise<CategorizationJob | undefined> {
+    const job = this.categorizationJobs.get(id);
+    return job && job.user_id === userId ? job : undefined;
+  }
+
+  async createCategorizationJob(userId: string, total: number): Promise<CategorizationJob> {
+    const created: CategorizationJob = {
+      id: this.nextId++,
+      user_id: userId,
+      status: "running",
+      total,
+      processed: 0,
+      error: null,
+      created_at: this.now(),
+      completed_at: null,
+    };
+    this.categorizationJobs.set(created.id, created);
+    return created;
+  }
+
+  async updateCategorizationJob(userId: string, id: number, data: UpdateCategorizationJob): Promise<CategorizationJob | undefined> {
+    const job = await this.getCategorizationJob(userId, id);
+    if (!job) return undefined;
+
+    const updated = { ...job, ...data };
+    this.categorizationJobs.set(id, updated);
+    return updated;
+  }
+
+  async failRunningCategorizationJobs(error: string, now: string): Promise<CategorizationJob[]> {
+    const failed = Array.from(this.categorizationJobs.values())
+      .filter((job) => job.status === "running")
+      .map((job) => ({ ...job, status: "failed" as const, error, completed_at: now }));
+    for (const job of failed) this.categorizationJobs.set(job.id, job);
+    return failed;
+  }
+
+  async getCategorizationSuggestions(userId: string): Promise<CategorizationSuggestion[]> {
+    return Array.from(this.categorizationSuggestions.values())
+      .filter((s) => s.user_id === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createCategorizationSuggestions(
+    userId: string,
+    suggestions: InsertCategorizationSuggestion[]
+  ): Promise<CategorizationSuggestion[]> {
+    return suggestions.map((suggestion) => {
+      const created: CategorizationSuggestion = {
+        ...suggestion,
+        id: this.nextId++,
+        user_id: userId,
+        created_at: this.now(),
+      };
+      this.categorizationSuggestions.set(created.id, created);
+      return created;
+    });
+  }
+
+  async deleteCategorizationSuggestions(userId: string, ids: number[]): Promise<void> {
+    for (const id of ids) {
+      if (this.categorizationSuggestions.get(id)?.user_id === userId) this.categorizationSuggestions.delete(id);
+    }
+  }
+
+  private dropSuggestionsFor(transactionId: number): void {
+    for (const suggestion of Array.from(this.categorizationSuggestions.values())) {
+      if (suggestion.transaction_id === transactionId) this.categorizationSuggestions.delete(suggestion.id);
+    }
+  }
+
+  private legsOf(transferId: number): Transaction[] {
+    return Array.from(this.transactions.values())
+      .filter((t) => t.transfer_id === transferId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  private withLegs(transfer: Omit<Transfer, "transactions">): Transfer {
+    return { ...transfer, transactions: this.legsOf(transfer.id) };
+  }
+
+  // Replaces the legs of a transfer with a fresh pair for its current
+  // accounts and amount.
+  private async writeTransferLegs(userId: string, transfer: Omit<Transfer, "transactions">): Promise<void> {
+    const from = await this.getAccount(userId, transfer.from_account_id);
+    const to = await this.getAccount(userId, transfer.to_account_id);
+    if (!from) throw new Error(`Account ${transfer.from_account_id} not found`);
+    if (!to) throw new Error(`Account ${transfer.to_account_id} not found`);
+
+    for (const leg of this.legsOf(transfer.id)) {
+      this.transactions.delete(leg.id);
+      this.applyToBalance(leg.account_id, -parseFloat(leg.amount));
+    }
+
+    const [outAmount, inAmount] = transferLegAmounts(from, to, transfer.amount);
+    for (const [account, amount] of [[from, outAmount], [to, inAmount]] as const) {
+      const leg: Transaction = {
+        id: this.nextId++,
+        user_id: userId,
+        account_id: account.id,
+        description: transfer.description,
+        amount,
+        category: "transfer",
+        subcategory: null,
+        date: transfer.date,
+        transfer_id: transfer.id,
+        tags: [],
+        created_at: this.now(),
+        splits: [],
+        attachments: [],
+      };
+      this.transactions.set(leg.id, leg);
+      this.applyToBalance(account.id, parseFloat(amount));
+    }
+  }
+
+  async getTransfers(userId: string): Promise<Transfer[]> {
+    return Array.from(this.transfers.values())
+      .filter((t) => t.user_id === userId)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id)
+      .map((t) => this.withLegs(t));
+  }
+
+  async getTransfer(userId: string, id: number): Promise<Transfer | undefined> {
+    const transfer = this.transfers.get(id);
+    return transfer && transfer.user_id === userId ? this.withLegs(transfer) : undefined;
+  }
+
+  async createTransfer(userId: string, transfer: InsertTransfer): Promise<Transfer> {
+    const created = {
+      ...transfer,
+      id: this.nextId++,
+      user_id: userId,
+      created_at: this.now(),
+    };
+    await this.writeTransferLegs(userId, created);
+    this.transfers.set(created.id, created);
+    return this.withLegs(created);
+  }
+
+  async updateTransfer(userId: string, id: number, data: Partial<InsertTransfer>): Promise<Transfer | undefined> {
+    const transfer = this.transfers.get(id);
+    if (!transfer || transfer.user_id !== userId) return undefined;
+
+    const updated = { ...transfer, ...data };
+    await this.writeTransferLegs(userId, updated);
+    this.transfers.set(id, updated);
+    return this.withLegs(updated);
+  }
+
+  async deleteTransfer(userId: string, id: number): Promise<void> {
+    const transfer = this.transfers.get(id);
+    if (!transfer || transfer.user_id !== userId) return;
+
+    this.transfers.delete(id);
+    for (const leg of this.legsOf(id)) this.removeTransaction(leg);
+  }
+
+  async getObligations(userId: string): Promise<Obligation[]> {
+    return Array.from(this.obligations.values())
+      .filter((o) => o.user_id === userId)
+      .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.id - b.id);
+  }
+
+  async getObligation(userId: string, id: number): Promise<Obligation | undefined> {
+    const obligation = this.obligations.get(id);
+    return obligation && obligation.user_id === userId ? obligation : undefined;
+  }
+
+  async createObligation(userId: string, obligation: InsertObligation): Promise<Obligation> {
+    const created: Obligation = {
+      account_id: null,
+      is_recurring: false,
+      frequency: null,
+      is_paid: false,
+      website_url: null,
+      notes: null,
+      ...obligation,
+      id: this.nextId++,
+      user_id: userId,
+      created_at: this.now(),
+    };
+    this.obligations.set(created.id, created);
+    return created;
+  }
+
+  async updateObligation(userId: string, id: number, data: Partial<InsertObligation>): Promise<Obligation | undefined> {
+    const obligation = await this.getObligation(userId, id);
+    if (!obligation) return undefined;
+
+    const updated = { ...obligation, ...data };
+    this.obligations.set(id, updated);
+    return updated;
+  }
+
+  async deleteObligation(userId: string, id: number): Promise<void> {
+    if (await this.getObligation(userId, id)) {
+      this.obligations.delete(id);
+    }
+  }
+
+  async getDeletions(userId: string): Promise<Deletion[]> {
+    const now = this.now();
+    return Array.from(this.deletions.values())
+      .filter((d) => d.user_id === userId && d.expires_at > now)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getDeletion(userId: string, id: number): Promise<Deletion | undefined> {
+    const deletion = this.deletions.get(id);
+    return deletion && deletion.user_id === userId && deletion.expires_at > this.now() ? deletion : undefined;
+  }
+
+  async createDeletion(userId: string, deletion: InsertDeletion): Promise<Deletion> {
+    const created: Deletion = { ...deletion, id: this.nextId++, user_id: userId, created_at: this.now() };
+    this.deletions.set(created.id, created);
+    return created;
+  }
+
+  async restoreDeletion(userId: string, id: number): Promise<boolean> {
+    const deletion = await this.getDeletion(userId, id);
+    if (!deletion) return false;
+
+    const { records } = deletion;
+    const restoredAccountIds = new Set(records.accounts.map((a) => a.id));
+    for (const transaction of records.transactions) {
+      if (!restoredAccountIds.has(transaction.account_id) && !(await this.getAccount(userId, transaction.account_id))) {
+        throw new Error(`Account ${transaction.account_id} not found`);
+      }
+    }
+
+    // Accounts come back at their opening balance; their transactions add the rest
+    for (const account of records.accounts) {
+      this.accounts.set(account.id, { ...account, balance: account.opening_balance });
+    }
+    for (const transfer of records.transfers) {
+      this.transfers.set(transfer.id, transfer);
+    }
+    for (const transaction of records.transactions) {
+      this.transactions.set(transaction.id, transaction);
+      this.applyToBalance(transaction.account_id, parseFloat(transaction.amount));
+    }
+    for (const obligation of records.obligations) {
+      this.obligations.set(obligation.id, obligation);
+    }
+    for (const { id: obligationId, account_id } of records.unlinked_obligations) {
+      const obligation = this.obligations.get(obligationId);
+      if (obligation && obligation.account_id == null) {
+        this.obligations.set(obligationId, { ...obligation, account_id });
+      }
+    }
+    this.deletions.delete(id);
+    return true;
+  }
+
+  async deleteDeletion(userId: string, id: number): Promise<void> {
+    const deletion = this.deletions.get(id);
+    if (deletion && deletion.user_id === userId) this.deletions.delete(id);
+  }
+
+  async purgeExpiredDeletions(now: string): Promise<Deletion[]> {
+    const expired = Array.from(this.deletions.values()).filter((d) => d.expires_at <= now);
+    for (const deletion of expired) this.deletions.delete(deletion.id);
+    return expired;
+  }
+
+  async appendAuditEntries(userId: string, entries: InsertAuditEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.auditLog.push({ ...entry, id: this.nextId++, user_id: userId, created_at: this.now() });
+    }
+  }
+
+  async getAuditEntries(userId: string, entityType: AuditEntityType, entityId: number): Promise<AuditEntry[]> {
+    return this.auditLog
+      .filter((e) => e.user_id === userId && e.entity_type === entityType && e.entity_id === entityId)
+      .reverse();
+  }
+
+  async getConversations(userId: string): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter((c) => c.user_id === userId)
+      .sort(byNewest);
+  }
+
+  async getConversation(userId: string, id: number): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    return conversation && conversation.user_id === userId ? conversation : undefined;
+  }
+
+  async createConversation(userId: string, title: string): Promise<Conversation> {
+    const created: Conversation = {
+      id: this.nextId++,
+      user_id: userId,
+      title,
+      created_at: this.now(),
+    };
+    this.conversations.set(created.id, created);
+    return created;
+  }
+
+  async deleteConversation(userId: string, id: number): Promise<void> {
+    if (!(await this.getConversation(userId, id))) return;
+
+    this.conversations.delete(id);
+    for (const message of Array.from(this.messages.values())) {
+      if (message.conversation_id === id) this.messages.delete(message.id);
+    }
+  }
+
+  async getMessagesByConversation(userId: string, conversationId: number): Promise<Message[]> {
+    const conversation = await this.getConversation(userId, conversationId);
+    if (!conversation) return [];
+
+    return Array.from(this.messages.values())
+      .filter((m) => m.conversation_id === conversationId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id);
+  }
+
+  async createMessage(userId: string, conversationId: number, role: string, content: string): Promise<Message> {
+    const conversation = await this.getConversation(userId, conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found or not authorized");
+    }
+
+    const created: Message = {
+      id: this.nextId++,
+      conversation_id: conversationId,
+      role,
+      content,
+      created_at: this.now(),
+    };
+    this.messages.set(created.id, created);
+    return created;
+  }
+}
@@ -1,3 +0,0 @@
-export { registerChatRoutes } from "./routes";
-export { chatStorage, type IChatStorage } from "./storage";
-
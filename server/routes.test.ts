@@ -0,0 +1,2802 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import express from "express";
+import { createServer } from "http";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { crc32, deflateRawSync } from "zlib";
+import path from "path";
+import request from "supertest";
+import { registerRoutes } from "./routes";
+import { MemStorage } from "./mem-storage";
+import { LocalFileStore } from "./file-store";
+import { purgeExpiredTrash } from "./trash";
+import {
+  failInterruptedCategorizationJobs,
+  INTERRUPTED_JOB_ERROR,
+  type CategorizationAnswer,
+  type CategorizationItem,
+  type Categorizer,
+} from "./ai-categorization";
+
+// Tests authenticate as whichever user id is sent as the bearer token.
+vi.mock("./auth", () => ({
+  requireAuth: (req: any, res: any, next: any) => {
+    const header: string | undefined = req.headers.authorization;
+    if (!header?.startsWith("Bearer ")) {
+      return res.status(401).json({ error: "Unauthorized - No token provided" });
+    }
+    req.userId = header.substring(7);
+    next();
+  },
+  getUserId: (req: any) => {
+    if (!req.userId) throw new Error("User not authenticated");
+    return req.userId;
+  },
+}));
+
+vi.mock("openai", () => ({
+  default: class {
+    chat = {
+      completions: {
+        create: async () =>
+          (async function* () {
+            yield { choices: [{ delta: { content: "Spend " } }] };
+            yield { choices: [{ delta: { content: "less." } }] };
+          })(),
+      },
+    };
+  },
+}));
+
+// Stands in for the AI service: answers from keywords in the description,
+// or fails with `failWith`. Batches wait for `gate` when it is set.
+class StubCategorizer implements Categorizer {
+  calls: { items: CategorizationItem[]; subcategories: string[] }[] = [];
+  failWith?: Error;
+  gate?: Promise<void>;
+
+  constructor(private keywords: Record<string, string>) {}
+
+  async categorize(items: CategorizationItem[], subcategories: string[]): Promise<CategorizationAnswer[]> {
+    this.calls.push({ items, subcategories });
+    await this.gate;
+    if (this.failWith) throw this.failWith;
+    return items.flatMap((item) => {
+      const keyword = Object.keys(this.keywords).find((k) => item.description.toLowerCase().includes(k));
+      return keyword ? [{ id: item.id, subcategory: this.keywords[keyword] }] : [];
+    });
+  }
+}
+
+const ALICE = "Bearer alice";
+const BOB = "Bearer bob";
+
+let storage: MemStorage;
+let files: LocalFileStore;
+let uploadDir: string;
+let app: express.Express;
+let categorizer: StubCategorizer;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  uploadDir = await mkdtemp(path.join(tmpdir(), "attachments-"));
+  files = new LocalFileStore(uploadDir);
+  app = express();
+  app.use(express.json());
+  categorizer = new StubCategorizer({ tesco: "groceries", uber: "transport" });
+  await registerRoutes(createServer(app), app, storage, files, categorizer);
+});
+
+afterEach(async () => {
+  await rm(uploadDir, { recursive: true, force: true });
+});
+
+async function createAccount(auth: string, overrides: Record<string, unknown> = {}) {
+  const res = await request(app)
+    .post("/api/accounts")
+    .set("Authorization", auth)
+    .send({ name: "Checking", type: "personal", category: "checking", balance: "100.00", ...overrides });
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+async function createTransaction(auth: string, accountId: number, overrides: Record<string, unknown> = {}) {
+  const res = await request(app)
+    .post("/api/transactions")
+    .set("Authorization", auth)
+    .send({
+      account_id: accountId,
+      description: "Groceries",
+      amount: "-25.50",
+      category: "expense",
+      subcategory: "groceries",
+      date: "2026-01-05",
+      ...overrides,
+    });
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+describe("authentication", () => {
+  it("rejects requests without a bearer token", async () => {
+    const res = await request(app).get("/api/accounts");
+    expect(res.status).toBe(401);
+  });
+
+  it("lets the storage backend record signed-in users before the route runs", async () => {
+    const ensureUser = vi.spyOn(storage, "ensureUser");
+
+    await request(app).get("/api/accounts").expect(401);
+    expect(ensureUser).not.toHaveBeenCalled();
+
+    await request(app).get("/api/accounts").set("Authorization", ALICE).expect(200);
+    expect(ensureUser).toHaveBeenCalledWith("alice");
+
+    ensureUser.mockRejectedValueOnce(new Error("database down"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = await request(app).get("/api/accounts").set("Authorization", ALICE);
+    expect(res.status).toBe(500);
+    expect(res.body.error).toBe("Failed to load user");
+  });
+});
+
+describe("/api/accounts", () => {
+  it("creates and lists accounts for the current user only", async () => {
+    const account = await createAccount(ALICE);
+    await createAccount(BOB, { name: "Bob Savings", category: "savings" });
+
+    const res = await request(app).get("/api/accounts").set("Authorization", ALICE);
+    expect(res.status).toBe(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0]).toMatchObject({ id: account.id, name: "Checking", user_id: "alice" });
+  });
+
+  it("fetches a single account and hides other users' accounts", async () => {
+    const account = await createAccount(ALICE);
+
+    const own = await request(app).get(`/api/accounts/${account.id}`).set("Authorization", ALICE);
+    expect(own.status).toBe(200);
+    expect(own.body.name).toBe("Checking");
+
+    const other = await request(app).get(`/api/accounts/${account.id}`).set("Authorization", BOB);
+    expect(other.status).toBe(404);
+  });
+
+  it("updates an account", async () => {
+    const account = await createAccount(ALICE);
+
+    const res = await request(app)
+      .patch(`/api/accounts/${account.id}`)
+      .set("Authorization", ALICE)
+      .send({ name: "Main Checking", due_day: 15 });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ name: "Main Checking", due_day: 15 });
+  });
+
+  it("ignores fields an account update cannot change", async () => {
+    const account = await createAccount(ALICE);
+
+    const res = await request(app)
+      .patch(`/api/accounts/${account.id}`)
+      .set("Authorization", ALICE)
+      .send({ name: "Renamed", user_id: "bob", id: 999, opening_balance: "5000.00" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ id: account.id, user_id: "alice", name: "Renamed", opening_balance: "100.00" });
+
+    const bobs = await request(app).get("/api/accounts").set("Authorization", BOB);
+    expect(bobs.body).toHaveLength(0);
+  });
+
+  it("does not let another user update or delete an account", async () => {
+    const account = await createAccount(ALICE);
+
+    const patch = await request(app)
+      .patch(`/api/accounts/${account.id}`)
+      .set("Authorization", BOB)
+      .send({ name: "Hijacked" });
+    expect(patch.status).toBe(404);
+
+    const del = await request(app).delete(`/api/accounts/${account.id}`).set("Authorization", BOB);
+    expect(del.status).toBe(204);
+
+    const res = await request(app).get(`/api/accounts/${account.id}`).set("Authorization", ALICE);
+    expect(res.body.name).toBe("Checking");
+  });
+
+  it("deletes an account together with its transactions", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id);
+
+    const del = await request(app).delete(`/api/accounts/${account.id}`).set("Authorization", ALICE);
+    expect(del.status).toBe(200);
+
+    const accounts = await request(app).get("/api/accounts").set("Authorization", ALICE);
+    expect(accounts.body).toHaveLength(0);
+    const transactions = await request(app).get("/api/transactions").set("Authorization", ALICE);
+    expect(transactions.body).toHaveLength(0);
+  });
+});
+
+describe("/api/transactions", () => {
+  it("creates a transaction and applies it to the account balance", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+    expect(transaction).toMatchObject({ account_id: account.id, amount: "-25.50", user_id: "alice" });
+
+    const res = await request(app).get(`/api/accounts/${account.id}`).set("Authorization", ALICE);
+    expect(res.body.balance).toBe("74.50");
+  });
+
+  it("rejects a transaction for a missing account", async () => {
+    const res = await request(app)
+      .post("/api/transactions")
+      .set("Authorization", ALICE)
+      .send({ account_id: 999, description: "x", amount: "1", category: "income", date: "2026-01-01" });
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects invalid transactions without touching the balance", async () => {
+    const account = await createAccount(ALICE);
+    const row = { account_id: account.id, description: "x", amount: "1", category: "income", date: "2026-01-01" };
+
+    for (const [overrides, error] of [
+      [{ amount: "abc" }, "Invalid amount"],
+      [{ date: "nope" }, "Invalid date"],
+      [{ description: "" }, "Missing description"],
+    ] as const) {
+      const res = await request(app).post("/api/transactions").set("Authorization", ALICE).send({ ...row, ...overrides });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe(error);
+    }
+
+    const stored = await request(app).get(`/api/accounts/${account.id}`).set("Authorization", ALICE);
+    expect(stored.body.balance).toBe("100.00");
+  });
+
+  it("rejects a posted transaction with invalid tags", async () => {
+    const account = await createAccount(ALICE);
+
+    const res = await request(app)
+      .post("/api/transactions")
+      .set("Authorization", ALICE)
+      .send({ account_id: account.id, description: "x", amount: "1", category: "income", date: "2026-01-01", tags: [1, {}] });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("Invalid tags");
+
+    const list = await request(app).get("/api/transactions").set("Authorization", ALICE);
+    expect(list.body).toHaveLength(0);
+  });
+
+  it("lists transactions newest first for the current user only", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { description: "Older", date: "2026-01-01" });
+    await createTransaction(ALICE, account.id, { description: "Newer", date: "2026-01-09" });
+    const bobAccount = await createAccount(BOB);
+    await createTransaction(BOB, bobAccount.id, { description: "Bob's" });
+
+    const res = await request(app).get("/api/transactions").set("Authorization", ALICE);
+    expect(res.status).toBe(200);
+    expect(res.body.map((t: any) => t.description)).toEqual(["Newer", "Older"]);
+  });
+
+  it("fetches a single transaction and hides other users' transactions", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+
+    const own = await request(app).get(`/api/transactions/${transaction.id}`).set("Authorization", ALICE);
+    expect(own.status).toBe(200);
+    expect(own.body.description).toBe("Groceries");
+
+    const other = await request(app).get(`/api/transactions/${transaction.id}`).set("Authorization", BOB);
+    expect(other.status).toBe(404);
+  });
+
+  it("edits a transaction's details", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+
+    const res = await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ description: "Farmers market", category: "expense", subcategory: "Food", date: "2026-01-09" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      id: transaction.id,
+      description: "Farmers market",
+      subcategory: "Food",
+      date: "2026-01-09",
+      amount: transaction.amount,
+    });
+  });
+
+  it("rejects invalid edits", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+
+    const badAmount = await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ amount: "abc" });
+    expect(badAmount.status).toBe(400);
+    expect(badAmount.body.error).toBe("Invalid amount");
+
+    const badDate = await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ date: "01/09/2026" });
+    expect(badDate.body.error).toBe("Invalid date");
+  });
+
+  it("does not let another user edit a transaction", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+
+    await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", BOB)
+      .send({ description: "Hijacked" })
+      .expect(404);
+  });
+
+  it("deletes a transaction, but not another user's", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+
+    await request(app).delete(`/api/transactions/${transaction.id}`).set("Authorization", BOB).expect(204);
+    await request(app).get(`/api/transactions/${transaction.id}`).set("Authorization", ALICE).expect(200);
+
+    await request(app).delete(`/api/transactions/${transaction.id}`).set("Authorization", ALICE).expect(200);
+    await request(app).get(`/api/transactions/${transaction.id}`).set("Authorization", ALICE).expect(404);
+  });
+
+  it("deletes transactions within a date range", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { date: "2025-12-31" });
+    await createTransaction(ALICE, account.id, { date: "2026-01-01" });
+    await createTransaction(ALICE, account.id, { date: "2026-01-31" });
+    await createTransaction(ALICE, account.id, { date: "2026-02-01" });
+
+    const res = await request(app)
+      .delete("/api/transactions/by-date-range")
+      .set("Authorization", ALICE)
+      .send({ accountId: account.id, startDate: "2026-01-01", endDate: "2026-01-31" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ deleted: 2 });
+
+    const remaining = await request(app).get("/api/transactions").set("Authorization", ALICE);
+    expect(remaining.body.map((t: any) => t.date)).toEqual(["2026-02-01", "2025-12-31"]);
+  });
+
+  it("requires all date range parameters", async () => {
+    const res = await request(app)
+      .delete("/api/transactions/by-date-range")
+      .set("Authorization", ALICE)
+      .send({ startDate: "2026-01-01" });
+    expect(res.status).toBe(400);
+  });
+
+  it("only deletes the current user's transactions by date range", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { date: "2026-01-10" });
+
+    const res = await request(app)
+      .delete("/api/transactions/by-date-range")
+      .set("Authorization", BOB)
+      .send({ accountId: account.id, startDate: "2026-01-01", endDate: "2026-01-31" });
+    expect(res.body).toEqual({ deleted: 0, deletion_id: null });
+  });
+
+  it("bulk imports transactions and reports failed rows", async () => {
+    const account = await createAccount(ALICE);
+
+    const res = await request(app)
+      .post("/api/transactions/bulk")
+      .set("Authorization", ALICE)
+      .send({
+        transactions: [
+          { account_id: account.id, description: "Coffee", amount: "-4.00", category: "expense", date: "2026-01-02" },
+          { account_id: 999, description: "Nowhere", amount: "-1.00", category: "expense", date: "2026-01-02" },
+          { account_id: account.id, description: "Salary", amount: "1000.00", category: "income", date: "2026-01-03" },
+        ],
+      });
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ imported: 2, errors: 1, details: [{ index: 1 }] });
+
+    const balance = await request(app).get(`/api/accounts/${account.id}`).set("Authorization", ALICE);
+    expect(balance.body.balance).toBe("1096.00");
+  });
+
+  it("rejects an empty bulk import", async () => {
+    const res = await request(app)
+      .post("/api/transactions/bulk")
+      .set("Authorization", ALICE)
+      .send({ transactions: [] });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("split transactions", () => {
+  const costcoSplits = [
+    { amount: "-60.00", subcategory: "groceries", type: "personal" },
+    { amount: "-25.00", subcategory: "household", type: "personal" },
+    { amount: "-15.00", subcategory: "office supplies", type: "business" },
+  ];
+
+  it("stores split lines on a transaction and returns them with it", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id, { description: "Costco", amount: "-100.00" });
+    expect(transaction.splits).toEqual([]);
+
+    const res = await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ splits: costcoSplits });
+    expect(res.status).toBe(200);
+    expect(res.body.splits.map((s: any) => [s.amount, s.subcategory, s.type])).toEqual([
+      ["-60.00", "groceries", "personal"],
+      ["-25.00", "household", "personal"],
+      ["-15.00", "office supplies", "business"],
+    ]);
+
+    const list = await request(app).get("/api/transactions").set("Authorization", ALICE);
+    expect(list.body[0].splits).toHaveLength(3);
+  });
+
+  it("leaves the account balance to the transaction amount", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id, { amount: "-100.00" });
+
+    await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ splits: costcoSplits })
+      .expect(200);
+    const stored = await request(app).get(`/api/accounts/${account.id}`).set("Authorization", ALICE);
+    expect(stored.body.balance).toBe("0.00");
+  });
+
+  it("requires the splits to add up to the transaction amount", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id, { amount: "-100.00" });
+
+    const short = await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ splits: costcoSplits.slice(0, 2) });
+    expect(short.status).toBe(400);
+    expect(short.body.error).toBe("Split amounts must add up to the transaction amount");
+
+    const badType = await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ splits: [{ amount: "-100.00", subcategory: "groceries", type: "family" }] });
+    expect(badType.body.error).toBe("Split type must be personal or business");
+  });
+
+  it("changes the amount and splits together, and rejects an amount that breaks existing splits", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id, { amount: "-100.00" });
+    await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ splits: costcoSplits })
+      .expect(200);
+
+    await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ amount: "-90.00" })
+      .expect(400);
+
+    const res = await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({
+        amount: "-90.00",
+        splits: [
+          { amount: "-60.00", subcategory: "groceries", type: "personal" },
+          { amount: "-30.00", subcategory: "household", type: "personal" },
+        ],
+      });
+    expect(res.status).toBe(200);
+    expect(res.body.amount).toBe("-90.00");
+    expect(res.body.splits).toHaveLength(2);
+  });
+
+  it("rejects splits that are not a list without changing the transaction", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id, { amount: "-100.00" });
+    await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ splits: costcoSplits })
+      .expect(200);
+
+    const res = await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ description: "Renamed", splits: null });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("Splits must be an array");
+
+    const stored = await request(app).get(`/api/transactions/${transaction.id}`).set("Authorization", ALICE);
+    expect(stored.body.description).toBe(transaction.description);
+    expect(stored.body.splits).toHaveLength(3);
+  });
+
+  it("removes the splits when given an empty list", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id, { amount: "-100.00" });
+    await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ splits: costcoSplits })
+      .expect(200);
+
+    const res = await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ splits: [] });
+    expect(res.body.splits).toEqual([]);
+  });
+});
+
+describe("GET /api/transactions paging and filters", () => {
+  async function list(auth: string, query: Record<string, string | number>) {
+    return request(app).get("/api/transactions").query(query).set("Authorization", auth);
+  }
+
+  it("pages through transactions newest first with a cursor", async () => {
+    const account = await createAccount(ALICE);
+    for (const date of ["2026-01-01", "2026-01-02", "2026-01-03", "2026-01-03", "2026-01-04"]) {
+      await createTransaction(ALICE, account.id, { date, description: `Item ${date}` });
+    }
+
+    const first = await list(ALICE, { limit: 2 });
+    expect(first.status).toBe(200);
+    expect(first.body.transactions.map((t: any) => t.date)).toEqual(["2026-01-04", "2026-01-03"]);
+    expect(first.body.next_cursor).toEqual(expect.any(String));
+
+    const second = await list(ALICE, { limit: 2, cursor: first.body.next_cursor });
+    expect(second.body.transactions.map((t: any) => t.date)).toEqual(["2026-01-03", "2026-01-02"]);
+
+    const third = await list(ALICE, { limit: 2, cursor: second.body.next_cursor });
+    expect(third.body.transactions.map((t: any) => t.date)).toEqual(["2026-01-01"]);
+    expect(third.body.next_cursor).toBeNull();
+
+    const ids = [...first.body.transactions, ...second.body.transactions, ...third.body.transactions].map((t: any) => t.id);
+    expect(new Set(ids).size).toBe(5);
+  });
+
+  it("filters by account, date range, amount range, category and description", async () => {
+    const checking = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings" });
+    await createTransaction(ALICE, checking.id, { description: "Coffee shop", amount: "-4.50", date: "2026-02-01" });
+    await createTransaction(ALICE, checking.id, { description: "Rent", amount: "-1200.00", subcategory: "housing", date: "2026-02-02" });
+    await createTransaction(ALICE, checking.id, { description: "Paycheck", amount: "2500.00", category: "income", subcategory: "salary", date: "2026-02-15" });
+    await createTransaction(ALICE, savings.id, { description: "Interest", amount: "3.10", category: "income", date: "2026-03-01" });
+
+    const descriptions = async (query: Record<string, string | number>) =>
+      (await list(ALICE, query)).body.transactions.map((t: any) => t.description);
+
+    expect(await descriptions({ accountId: savings.id })).toEqual(["Interest"]);
+    expect(await descriptions({ accountId: `${checking.id},${savings.id}`, startDate: "2026-02-02", endDate: "2026-02-28" })).toEqual([
+      "Paycheck",
+      "Rent",
+    ]);
+    expect(await descriptions({ minAmount: "-100", maxAmount: "0" })).toEqual(["Coffee shop"]);
+    expect(await descriptions({ category: "income" })).toEqual(["Interest", "Paycheck"]);
+    expect(await descriptions({ subcategory: "housing" })).toEqual(["Rent"]);
+    expect(await descriptions({ q: "COFFEE" })).toEqual(["Coffee shop"]);
+  });
+
+  it("sorts by amount in either direction", async () => {
+    const account = await createAccount(ALICE);
+    for (const amount of ["-10.00", "50.00", "-300.00", "7.25"]) {
+      await createTransaction(ALICE, account.id, { amount });
+    }
+
+    const asc = await list(ALICE, { sort: "amount", order: "asc", limit: 3 });
+    expect(asc.body.transactions.map((t: any) => t.amount)).toEqual(["-300.00", "-10.00", "7.25"]);
+
+    const rest = await list(ALICE, { sort: "amount", order: "asc", limit: 3, cursor: asc.body.next_cursor });
+    expect(rest.body.transactions.map((t: any) => t.amount)).toEqual(["50.00"]);
+
+    const desc = await list(ALICE, { sort: "amount", order: "desc", limit: 1 });
+    expect(desc.body.transactions[0].amount).toBe("50.00");
+  });
+
+  it("returns totals for every matching row, not just the page", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { amount: "-20.00" });
+    await createTransaction(ALICE, account.id, { amount: "-5.25" });
+    await createTransaction(ALICE, account.id, { amount: "100.00", category: "income" });
+
+    const res = await list(ALICE, { limit: 1 });
+    expect(res.body.transactions).toHaveLength(1);
+    expect(res.body.totals).toEqual({ count: 3, income: "100.00", expenses: "25.25", net: "74.75" });
+  });
+
+  it("only returns the current user's transactions", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id);
+
+    const res = await list(BOB, { limit: 10 });
+    expect(res.body.transactions).toEqual([]);
+    expect(res.body.totals.count).toBe(0);
+  });
+
+  it("rejects malformed parameters", async () => {
+    for (const query of [{ startDate: "March" }, { minAmount: "lots" }, { sort: "name" }, { limit: 0 }, { cursor: "nope" }]) {
+      const res = await list(ALICE, query);
+      expect(res.status).toBe(400);
+    }
+  });
+
+  it("rejects cursors made for another sort or carrying a bad value", async () => {
+    const account = await createAccount(ALICE);
+    for (const date of ["2024-01-01", "2024-01-02"]) {
+      await createTransaction(ALICE, account.id, { date });
+    }
+
+    const byDate = await list(ALICE, { limit: 1 });
+    const reused = await list(ALICE, { sort: "amount", limit: 1, cursor: byDate.body.next_cursor });
+    expect(reused.status).toBe(400);
+    expect(reused.body.error).toBe("Invalid cursor");
+
+    const forged = Buffer.from(JSON.stringify({ sort: "date", value: "2024-01-01,id.gt.0", id: 1 })).toString(
+      "base64url"
+    );
+    expect((await list(ALICE, { cursor: forged })).status).toBe(400);
+  });
+
+  it("still returns the plain list without parameters", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id);
+
+    const res = await request(app).get("/api/transactions").set("Authorization", ALICE);
+    expect(Array.isArray(res.body)).toBe(true);
+  });
+});
+
+describe("ledger balances", () => {
+  async function balanceOf(accountId: number) {
+    const res = await request(app).get(`/api/accounts/${accountId}`).set("Authorization", ALICE);
+    return res.body as { balance: string; opening_balance: string };
+  }
+
+  it("starts the ledger at the account's initial balance", async () => {
+    const account = await createAccount(ALICE, { balance: "250.00" });
+    expect(account.opening_balance).toBe("250.00");
+  });
+
+  it("reverses a deleted transaction", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id, { amount: "-40.00" });
+    expect((await balanceOf(account.id)).balance).toBe("60.00");
+
+    await request(app).delete(`/api/transactions/${transaction.id}`).set("Authorization", ALICE).expect(200);
+    expect((await balanceOf(account.id)).balance).toBe("100.00");
+  });
+
+  it("reverses transactions removed by a date range delete", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { amount: "-10.00", date: "2026-01-05" });
+    await createTransaction(ALICE, account.id, { amount: "-15.00", date: "2026-01-20" });
+    await createTransaction(ALICE, account.id, { amount: "-20.00", date: "2026-02-03" });
+
+    await request(app)
+      .delete("/api/transactions/by-date-range")
+      .set("Authorization", ALICE)
+      .send({ accountId: account.id, startDate: "2026-01-01", endDate: "2026-01-31" })
+      .expect(200);
+    expect((await balanceOf(account.id)).balance).toBe("80.00");
+  });
+
+  it("keeps the ledger consistent when the balance is edited directly", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { amount: "-30.00" });
+
+    const res = await request(app)
+      .patch(`/api/accounts/${account.id}`)
+      .set("Authorization", ALICE)
+      .send({ balance: "500.00" });
+    expect(res.body).toMatchObject({ balance: "500.00", opening_balance: "530.00" });
+  });
+
+  it("does not apply transactions to another user's account", async () => {
+    const account = await createAccount(ALICE);
+
+    await request(app)
+      .post("/api/transactions")
+      .set("Authorization", BOB)
+      .send({ account_id: account.id, description: "Sneaky", amount: "-50", category: "expense", date: "2026-01-01" })
+      .expect(400);
+    expect((await balanceOf(account.id)).balance).toBe("100.00");
+  });
+
+  it("applies the difference when a transaction's amount is edited", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id, { amount: "-40.00" });
+
+    await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ amount: "-55.50" })
+      .expect(200);
+    expect((await balanceOf(account.id)).balance).toBe("44.50");
+  });
+
+  it("moves the balance effect when a transaction changes account", async () => {
+    const checking = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings", balance: "500.00" });
+    const transaction = await createTransaction(ALICE, checking.id, { amount: "-40.00" });
+
+    await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ account_id: savings.id, amount: "-25.00" })
+      .expect(200);
+    expect((await balanceOf(checking.id)).balance).toBe("100.00");
+    expect((await balanceOf(savings.id)).balance).toBe("475.00");
+  });
+
+  it("does not move a transaction into another user's account", async () => {
+    const account = await createAccount(ALICE);
+    const bobs = await createAccount(BOB);
+    const transaction = await createTransaction(ALICE, account.id, { amount: "-40.00" });
+
+    const res = await request(app)
+      .patch(`/api/transactions/${transaction.id}`)
+      .set("Authorization", ALICE)
+      .send({ account_id: bobs.id });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("Account not found");
+
+    expect((await balanceOf(account.id)).balance).toBe("60.00");
+    const bobBalance = await request(app).get(`/api/accounts/${bobs.id}`).set("Authorization", BOB);
+    expect(bobBalance.body.balance).toBe("100.00");
+  });
+
+  it("validates bulk rows before importing the rest in one batch", async () => {
+    const account = await createAccount(ALICE);
+
+    const res = await request(app)
+      .post("/api/transactions/bulk")
+      .set("Authorization", ALICE)
+      .send({
+        transactions: [
+          { account_id: account.id, description: "Coffee", amount: "-4.00", category: "expense", date: "2026-01-02" },
+          { account_id: account.id, description: "Bad amount", amount: "abc", category: "expense", date: "2026-01-02" },
+          { account_id: account.id, description: "Bad date", amount: "-1.00", category: "expense", date: "01/02/2026" },
+        ],
+      });
+    expect(res.body).toMatchObject({
+      imported: 1,
+      errors: 2,
+      details: [
+        { index: 1, error: "Invalid amount" },
+        { index: 2, error: "Invalid date" },
+      ],
+    });
+
+    expect((await balanceOf(account.id)).balance).toBe("96.00");
+  });
+});
+
+describe("POST /api/accounts/:id/reconcile", () => {
+  it("reports no drift for a ledger that matches the stored balance", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { amount: "-25.00" });
+
+    const res = await request(app).post(`/api/accounts/${account.id}/reconcile`).set("Authorization", ALICE).send({});
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      account_id: account.id,
+      opening_balance: "100.00",
+      transaction_total: "-25.00",
+      transaction_count: 1,
+      stored_balance: "75.00",
+      computed_balance: "75.00",
+      drift: "0.00",
+      applied: false,
+    });
+  });
+
+  it("reports drift against a given opening balance without changing anything", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { amount: "-25.00" });
+
+    const res = await request(app)
+      .post(`/api/accounts/${account.id}/reconcile`)
+      .set("Authorization", ALICE)
+      .send({ openingBalance: "120.00" });
+    expect(res.body).toMatchObject({ computed_balance: "95.00", drift: "-20.00", applied: false });
+
+    const stored = await request(app).get(`/api/accounts/${account.id}`).set("Authorization", ALICE);
+    expect(stored.body).toMatchObject({ balance: "75.00", opening_balance: "100.00" });
+  });
+
+  it("writes the recomputed balance back when asked to", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { amount: "-25.00" });
+
+    const res = await request(app)
+      .post(`/api/accounts/${account.id}/reconcile`)
+      .set("Authorization", ALICE)
+      .send({ openingBalance: "120.00", apply: true });
+    expect(res.body).toMatchObject({ stored_balance: "75.00", computed_balance: "95.00", applied: true });
+
+    const stored = await request(app).get(`/api/accounts/${account.id}`).set("Authorization", ALICE);
+    expect(stored.body).toMatchObject({ balance: "95.00", opening_balance: "120.00" });
+  });
+
+  it("rejects a non-numeric opening balance", async () => {
+    const account = await createAccount(ALICE);
+
+    await request(app)
+      .post(`/api/accounts/${account.id}/reconcile`)
+      .set("Authorization", ALICE)
+      .send({ openingBalance: "lots" })
+      .expect(400);
+  });
+
+  it("does not reconcile another user's account", async () => {
+    const account = await createAccount(ALICE);
+
+    await request(app)
+      .post(`/api/accounts/${account.id}/reconcile`)
+      .set("Authorization", BOB)
+      .send({ apply: true })
+      .expect(404);
+  });
+});
+
+describe("/api/transfers", () => {
+  async function balanceOf(accountId: number) {
+    const res = await request(app).get(`/api/accounts/${accountId}`).set("Authorization", ALICE);
+    return res.body.balance as string;
+  }
+
+  async function createTransfer(auth: string, overrides: Record<string, unknown>) {
+    const res = await request(app)
+      .post("/api/transfers")
+      .set("Authorization", auth)
+      .send({ amount: "100.00", description: "Card payment", date: "2026-03-01", ...overrides });
+    expect(res.status).toBe(201);
+    return res.body;
+  }
+
+  it("creates a linked pair of transactions and moves both balances", async () => {
+    const checking = await createAccount(ALICE, { balance: "1000.00" });
+    const savings = await createAccount(ALICE, { name: "Savings", category: "savings", balance: "0.00" });
+
+    const transfer = await createTransfer(ALICE, { from_account_id: checking.id, to_account_id: savings.id });
+    expect(transfer.transactions).toHaveLength(2);
+    expect(transfer.transactions.map((t: any) => [t.account_id, t.amount, t.category, t.transfer_id])).toEqual([
+      [checking.id, "-100.00", "transfer", transfer.id],
+      [savings.id, "100.00", "transfer", transfer.id],
+    ]);
+
+    expect(await balanceOf(checking.id)).toBe("900.00");
+    expect(await balanceOf(savings.id)).toBe("100.00");
+  });
+
+  it("pays down the amount owed on a credit card", async () => {
+    const checking = await createAccount(ALICE, { balance: "1000.00" });
+    const card = await createAccount(ALICE, { name: "Visa", category: "credit_card", balance: "450.00" });
+
+    await createTransfer(ALICE, { from_account_id: checking.id, to_account_id: card.id, amount: "200" });
+    expect(await balanceOf(checking.id)).toBe("800.00");
+    expect(await balanceOf(card.id)).toBe("250.00");
+  });
+
+  it("imports card statement rows as amounts owed, signed like the card leg of a payment", async () => {
+    const checking = await createAccount(ALICE, { balance: "1000.00" });
+    const card = await createAccount(ALICE, { name: "Visa", category: "credit_card", balance: "0.00" });
+    const row = { account_id: card.id, category: "expense", date: "2026-03-01" };
+
+    // As the statement prints them: the charge negative, the refund positive
+    const imported = await request(app)
+      .post("/api/transactions/bulk")
+      .set("Authorization", ALICE)
+      .send({
+        transactions: [
+          { ...row, description: "STARBUCKS", amount: "-40.00", splits: [{ amount: "-40", subcategory: "coffee", type: "personal" }] },
+          { ...row, description: "Refund", amount: "15.00" },
+        ],
+      })
+      .expect(201);
+    expect(await balanceOf(card.id)).toBe("25.00");
+    const rows = (
+      await request(app).get(`/api/import-batches/${imported.body.batch_id}/transactions`).set("Authorization", ALICE)
+    ).body;
+    expect(rows.map((t: any) => t.amount)).toEqual(["40.00", "-15.00"]);
+    expect(rows[0].splits[0].amount).toBe("40.00");
+
+    const transfer = await createTransfer(ALICE, { from_account_id: checking.id, to_account_id: card.id });
+    const cardLeg = transfer.transactions.find((t: any) => t.account_id === card.id);
+    const duplicates = await request(app)
+      .post("/api/transactions/duplicates")
+      .set("Authorization", ALICE)
+      .send({ transactions: [{ ...row, description: "Card payment", amount: "100.00" }] });
+    expect(duplicates.body.duplicates).toEqual([{ index: 0, transaction_id: cardLeg.id, match: "exact" }]);
+  });
+
+  it("edits both legs together", async () => {
+    const checking = await createAccount(ALICE, { balance: "1000.00" });
+    const savings = await createAccount(ALICE, { name: "Savings", balance: "0.00" });
+    const brokerage = await createAccount(ALICE, { name: "Brokerage", category: "investment", balance: "0.00" });
+    const transfer = await createTransfer(ALICE, { from_account_id: checking.id, to_account_id: savings.id });
+
+    const res = await request(app)
+      .patch(`/api/transfers/${transfer.id}`)
+      .set("Authorization", ALICE)
+      .send({ amount: "250.00", to_account_id: brokerage.id, date: "2026-03-05" });
+    expect(res.status).toBe(200);
+    expect(res.body.transactions.map((t: any) => [t.account_id, t.amount, t.date])).toEqual([
+      [checking.id, "-250.00", "2026-03-05"],
+      [brokerage.id, "250.00", "2026-03-05"],
+    ]);
+
+    expect(await balanceOf(checking.id)).toBe("750.00");
+    expect(await balanceOf(savings.id)).toBe("0.00");
+    expect(await balanceOf(brokerage.id)).toBe("250.00");
+  });
+
+  it("refuses to edit a single leg", async () => {
+    const checking = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings" });
+    const transfer = await createTransfer(ALICE, { from_account_id: checking.id, to_account_id: savings.id, amount: "10" });
+
+    await request(app)
+      .patch(`/api/transactions/${transfer.transactions[0].id}`)
+      .set("Authorization", ALICE)
+      .send({ amount: "-5.00" })
+      .expect(409);
+  });
+
+  it("deletes both legs with the transfer, or with either leg", async () => {
+    const checking = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings" });
+    const first = await createTransfer(ALICE, { from_account_id: checking.id, to_account_id: savings.id, amount: "10" });
+    const second = await createTransfer(ALICE, { from_account_id: checking.id, to_account_id: savings.id, amount: "20" });
+
+    await request(app).delete(`/api/transfers/${first.id}`).set("Authorization", ALICE).expect(200);
+    await request(app).delete(`/api/transactions/${second.transactions[1].id}`).set("Authorization", ALICE).expect(200);
+
+    const remaining = await request(app).get("/api/transactions").set("Authorization", ALICE);
+    expect(remaining.body).toEqual([]);
+    await request(app).get(`/api/transfers/${second.id}`).set("Authorization", ALICE).expect(404);
+    expect(await balanceOf(checking.id)).toBe("100.00");
+    expect(await balanceOf(savings.id)).toBe("100.00");
+  });
+
+  it("leaves transfers out of income and expense totals", async () => {
+    const checking = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings" });
+    await createTransaction(ALICE, checking.id, { amount: "-30.00" });
+    await createTransfer(ALICE, { from_account_id: checking.id, to_account_id: savings.id, amount: "50" });
+
+    const res = await request(app).get("/api/transactions").query({ limit: 10 }).set("Authorization", ALICE);
+    expect(res.body.totals).toEqual({ count: 3, income: "0.00", expenses: "30.00", net: "-30.00" });
+  });
+
+  it("validates the accounts and amount", async () => {
+    const checking = await createAccount(ALICE);
+    const bobs = await createAccount(BOB);
+
+    for (const [body, error] of [
+      [{ from_account_id: checking.id, to_account_id: checking.id }, "Accounts must differ"],
+      [{ from_account_id: checking.id, to_account_id: bobs.id }, "To account not found"],
+      [{ from_account_id: checking.id, to_account_id: 999, amount: "10" }, "To account not found"],
+    ] as const) {
+      const res = await request(app)
+        .post("/api/transfers")
+        .set("Authorization", ALICE)
+        .send({ amount: "10", date: "2026-03-01", ...body });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe(error);
+    }
+
+    const savings = await createAccount(ALICE, { name: "Savings" });
+    const negative = await request(app)
+      .post("/api/transfers")
+      .set("Authorization", ALICE)
+      .send({ from_account_id: checking.id, to_account_id: savings.id, amount: "-10", date: "2026-03-01" });
+    expect(negative.body.error).toBe("Amount must be positive");
+  });
+
+  it("hides transfers from other users", async () => {
+    const checking = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings" });
+    const transfer = await createTransfer(ALICE, { from_account_id: checking.id, to_account_id: savings.id, amount: "10" });
+
+    await request(app).get(`/api/transfers/${transfer.id}`).set("Authorization", BOB).expect(404);
+    await request(app).patch(`/api/transfers/${transfer.id}`).set("Authorization", BOB).send({ amount: "1" }).expect(404);
+    await request(app).delete(`/api/transfers/${transfer.id}`).set("Authorization", BOB).expect(204);
+
+    const list = await request(app).get("/api/transfers").set("Authorization", ALICE);
+    expect(list.body).toHaveLength(1);
+  });
+
+  it("removes the other leg when an account is deleted", async () => {
+    const checking = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings" });
+    await createTransfer(ALICE, { from_account_id: checking.id, to_account_id: savings.id, amount: "40" });
+
+    await request(app).delete(`/api/accounts/${checking.id}`).set("Authorization", ALICE).expect(200);
+    expect(await balanceOf(savings.id)).toBe("100.00");
+    const remaining = await request(app).get("/api/transactions").set("Authorization", ALICE);
+    expect(remaining.body).toEqual([]);
+  });
+});
+
+describe("attachments", () => {
+  const receipt = Buffer.from("89504e470d0a1a0a", "hex");
+
+  function upload(auth: string, transactionId: number, body = receipt, contentType = "image/png") {
+    return request(app)
+      .post(`/api/transactions/${transactionId}/attachments`)
+      .set("Authorization", auth)
+      .attach("file", body, { filename: "receipt.png", contentType });
+  }
+
+  it("stores an upload and embeds it in the transaction", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+    expect(transaction.attachments).toEqual([]);
+
+    const res = await upload(ALICE, transaction.id);
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ transaction_id: transaction.id, file_name: "receipt.png", content_type: "image/png", size: 8 });
+    expect(await files.get(res.body.storage_key)).toEqual(receipt);
+
+    const fetched = await request(app).get(`/api/transactions/${transaction.id}`).set("Authorization", ALICE);
+    expect(fetched.body.attachments.map((a: any) => a.id)).toEqual([res.body.id]);
+
+    const content = await request(app).get(`/api/attachments/${res.body.id}/content`).set("Authorization", ALICE);
+    expect(content.status).toBe(200);
+    expect(content.headers["content-type"]).toBe("image/png");
+    expect(content.body).toEqual(receipt);
+  });
+
+  it("hides attachments from other users", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+    const attachment = (await upload(ALICE, transaction.id)).body;
+
+    await upload(BOB, transaction.id).expect(404);
+    await request(app).get(`/api/attachments/${attachment.id}/content`).set("Authorization", BOB).expect(404);
+    await request(app).delete(`/api/attachments/${attachment.id}`).set("Authorization", BOB).expect(204);
+    expect(await files.get(attachment.storage_key)).toEqual(receipt);
+  });
+
+  it("only accepts images and PDFs up to 10 MB on regular transactions", async () => {
+    const account = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings" });
+    const transaction = await createTransaction(ALICE, account.id);
+
+    const text = await upload(ALICE, transaction.id, Buffer.from("hello"), "text/plain");
+    expect(text.status).toBe(400);
+    expect(text.body.error).toBe("Attachments must be images or PDFs");
+
+    await upload(ALICE, transaction.id, Buffer.alloc(10 * 1024 * 1024 + 1), "application/pdf").expect(413);
+    await request(app).post(`/api/transactions/${transaction.id}/attachments`).set("Authorization", ALICE).expect(400);
+
+    const transfer = await request(app)
+      .post("/api/transfers")
+      .set("Authorization", ALICE)
+      .send({ from_account_id: account.id, to_account_id: savings.id, amount: "5", date: "2026-01-05" });
+    await upload(ALICE, transfer.body.transactions[0].id).expect(409);
+  });
+
+  it("removes stored files with the attachment, or once its transaction leaves the trash", async () => {
+    const account = await createAccount(ALICE);
+    const first = await createTransaction(ALICE, account.id);
+    const second = await createTransaction(ALICE, account.id);
+    const a = (await upload(ALICE, first.id)).body;
+    const b = (await upload(ALICE, second.id)).body;
+
+    await request(app).delete(`/api/attachments/${a.id}`).set("Authorization", ALICE).expect(204);
+    expect(await files.get(a.storage_key)).toBeUndefined();
+    await request(app).get(`/api/attachments/${a.id}`).set("Authorization", ALICE).expect(404);
+
+    // A deleted transaction keeps its files while it is in the trash
+    const del = await request(app).delete(`/api/transactions/${second.id}`).set("Authorization", ALICE).expect(200);
+    expect(await files.get(b.storage_key)).toEqual(receipt);
+    await request(app).delete(`/api/trash/${del.body.deletion_id}`).set("Authorization", ALICE).expect(204);
+    expect(await files.get(b.storage_key)).toBeUndefined();
+  });
+});
+
+describe("/api/tags", () => {
+  async function tag(id: number, tags: string[], auth = ALICE) {
+    return request(app).patch(`/api/transactions/${id}`).set("Authorization", auth).send({ tags });
+  }
+
+  it("stores tags lowercase, sorted and without duplicates", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+    expect(transaction.tags).toEqual([]);
+
+    const res = await tag(transaction.id, [" Vacation-2026", "reimbursable", "vacation-2026"]);
+    expect(res.status).toBe(200);
+    expect(res.body.tags).toEqual(["reimbursable", "vacation-2026"]);
+
+    for (const tags of [["a,b"], [""], ["x".repeat(41)], "tax"] as const) {
+      const invalid = await request(app)
+        .patch(`/api/transactions/${transaction.id}`)
+        .set("Authorization", ALICE)
+        .send({ tags });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe("Invalid tags");
+    }
+  });
+
+  it("filters and totals transactions carrying every requested tag", async () => {
+    const account = await createAccount(ALICE);
+    const hotel = await createTransaction(ALICE, account.id, { amount: "-200.00", tags: ["vacation-2026", "Tax-Deductible"] });
+    await createTransaction(ALICE, account.id, { amount: "-50.00", tags: ["vacation-2026"] });
+    await createTransaction(ALICE, account.id, { amount: "-10.00" });
+
+    const vacation = await request(app).get("/api/transactions").query({ tag: "vacation-2026" }).set("Authorization", ALICE);
+    expect(vacation.body.totals).toEqual({ count: 2, income: "0.00", expenses: "250.00", net: "-250.00" });
+
+    const both = await request(app)
+      .get("/api/transactions")
+      .query({ tag: "vacation-2026,TAX-DEDUCTIBLE" })
+      .set("Authorization", ALICE);
+    expect(both.body.transactions.map((t: any) => t.id)).toEqual([hotel.id]);
+
+    await request(app).get("/api/transactions").query({ tag: "a,,b" }).set("Authorization", ALICE).expect(400);
+  });
+
+  it("lists, renames and deletes tags across transactions", async () => {
+    const account = await createAccount(ALICE);
+    const first = await createTransaction(ALICE, account.id, { tags: ["trip", "work"] });
+    const second = await createTransaction(ALICE, account.id, { tags: ["travel"] });
+    await createTransaction(BOB, (await createAccount(BOB)).id, { tags: ["trip"] });
+
+    const list = await request(app).get("/api/tags").set("Authorization", ALICE);
+    expect(list.body).toEqual([
+      { tag: "travel", count: 1 },
+      { tag: "trip", count: 1 },
+      { tag: "work", count: 1 },
+    ]);
+
+    // Renaming onto an existing tag merges the two
+    const renamed = await request(app).patch("/api/tags/trip").set("Authorization", ALICE).send({ name: "Travel" });
+    expect(renamed.body).toEqual({ tag: "travel", updated: 1 });
+    expect((await request(app).get(`/api/transactions/${first.id}`).set("Authorization", ALICE)).body.tags).toEqual([
+      "travel",
+      "work",
+    ]);
+
+    await request(app).delete("/api/tags/travel").set("Authorization", ALICE).expect(204);
+    expect((await request(app).get(`/api/transactions/${second.id}`).set("Authorization", ALICE)).body.tags).toEqual([]);
+    await request(app).patch("/api/tags/travel").set("Authorization", ALICE).send({ name: "x" }).expect(404);
+
+    const bobs = await request(app).get("/api/tags").set("Authorization", BOB);
+    expect(bobs.body).toEqual([{ tag: "trip", count: 1 }]);
+  });
+});
+
+describe("/api/import-profiles", () => {
+  const CARD_HEADERS = ["Transaction Date", "Post Date", "Description", "Category", "Type", "Amount"];
+  const cardProfile = (accountId: number, overrides: Record<string, unknown> = {}) => ({
+    account_id: accountId,
+    headers: CARD_HEADERS,
+    columns: { date: "Transaction Date", description: "Description", amount: "Amount", category: "Category", debit: "" },
+    date_format: "mdy",
+    amount_sign: "positive_out",
+    ...overrides,
+  });
+
+  it("saves one profile per account and header row and matches files by their headers", async () => {
+    const card = await createAccount(ALICE, { name: "Card", category: "credit_card" });
+    const created = await request(app).post("/api/import-profiles").set("Authorization", ALICE).send(cardProfile(card.id));
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({
+      account_id: card.id,
+      header_signature: "transaction date|post date|description|category|type|amount",
+      columns: { date: "Transaction Date", description: "Description", amount: "Amount", category: "Category" },
+      amount_sign: "positive_out",
+    });
+    expect(created.body.columns).not.toHaveProperty("debit");
+
+    // Saving the same account and layout again replaces the profile
+    const replaced = await request(app)
+      .post("/api/import-profiles")
+      .set("Authorization", ALICE)
+      .send(cardProfile(card.id, { date_format: "dmy" }));
+    expect(replaced.status).toBe(200);
+    expect(replaced.body).toMatchObject({ id: created.body.id, date_format: "dmy" });
+
+    const match = await request(app)
+      .post("/api/import-profiles/match")
+      .set("Authorization", ALICE)
+      .send({ headers: CARD_HEADERS.map((h) => ` ${h.toUpperCase()} `) });
+    expect(match.status).toBe(200);
+    expect(match.body.map((p: any) => p.id)).toEqual([created.body.id]);
+
+    const other = await request(app)
+      .post("/api/import-profiles/match")
+      .set("Authorization", ALICE)
+      .send({ headers: ["Date", "Description", "Amount"] });
+    expect(other.body).toEqual([]);
+
+    expect((await request(app).post("/api/import-profiles/match").set("Authorization", BOB).send({ headers: CARD_HEADERS })).body).toEqual([]);
+    await request(app).delete(`/api/import-profiles/${created.body.id}`).set("Authorization", BOB).expect(204);
+    expect((await request(app).get("/api/import-profiles").set("Authorization", ALICE)).body).toHaveLength(1);
+
+    // Profiles go with their account
+    await request(app).delete(`/api/accounts/${card.id}`).set("Authorization", ALICE).expect(200);
+    expect((await request(app).get("/api/import-profiles").set("Authorization", ALICE)).body).toEqual([]);
+  });
+
+  it("rejects mappings that do not fit the header row", async () => {
+    const card = await createAccount(ALICE, { name: "Card", category: "credit_card" });
+    const others = await createAccount(BOB);
+    for (const [body, error] of [
+      [cardProfile(others.id), "Account not found"],
+      [cardProfile(card.id, { headers: [] }), "headers must be a non-empty array of strings"],
+      [cardProfile(card.id, { columns: { date: "Date", description: "Description", amount: "Amount" } }), "Column date is not in the headers"],
+      [cardProfile(card.id, { columns: { date: "Post Date", description: "Description", debit: "Amount" } }), "Map an amount column or both debit and credit columns"],
+      [cardProfile(card.id, { date_format: "ymd" }), "date_format must be mdy or dmy"],
+      [cardProfile(card.id, { amount_sign: "negative" }), "amount_sign must be positive_in or positive_out"],
+    ] as const) {
+      const res = await request(app).post("/api/import-profiles").set("Authorization", ALICE).send(body);
+      expect(res.status, error).toBe(400);
+      expect(res.body.error).toBe(error);
+    }
+
+    const split = await request(app)
+      .post("/api/import-profiles")
+      .set("Authorization", ALICE)
+      .send(cardProfile(card.id, { columns: { date: "Post Date", description: "Description", debit: "Amount", credit: "Type" } }));
+    expect(split.status).toBe(201);
+  });
+});
+
+describe("/api/category-rules", () => {
+  const createRule = async (body: Record<string, unknown>) => {
+    const res = await request(app).post("/api/category-rules").set("Authorization", ALICE).send(body);
+    expect(res.status).toBe(201);
+    return res.body;
+  };
+
+  it("categorizes new transactions by the highest priority matching rule", async () => {
+    const checking = await createAccount(ALICE);
+    const business = await createAccount(ALICE, { name: "Business Card", type: "business", category: "credit_card" });
+
+    const uber = await createRule({ pattern: "uber", subcategory: "transport", type: "business" });
+    expect(uber).toMatchObject({ priority: 0, match_type: "contains", account_id: null, min_amount: null, type: "business" });
+    await createRule({ pattern: "^uber\\s+eats", match_type: "regex", subcategory: "dining", priority: 10 });
+    await createRule({ account_id: business.id, min_amount: "1000", subcategory: "equipment", priority: 5 });
+
+    const rides = await createTransaction(ALICE, checking.id, { description: "UBER TRIP 1234", subcategory: undefined });
+    expect(rides.subcategory).toBe("transport");
+    // A personal account's transaction is marked as business use with one split line
+    expect(rides.splits).toMatchObject([{ amount: "-25.50", subcategory: "transport", type: "business" }]);
+
+    const meal = await createTransaction(ALICE, checking.id, { description: "Uber Eats order", subcategory: undefined });
+    expect(meal.subcategory).toBe("dining");
+    expect(meal.splits).toEqual([]);
+
+    const laptop = await createTransaction(ALICE, business.id, { description: "Computer store", amount: "-1499.00", subcategory: undefined });
+    expect(laptop.subcategory).toBe("equipment");
+    const cable = await createTransaction(ALICE, business.id, { description: "Computer store", amount: "-19.00", subcategory: undefined });
+    expect(cable.subcategory).toBeNull();
+
+    // A business account's transaction is business use already
+    const trip = await createTransaction(ALICE, business.id, { description: "UBER TRIP", subcategory: undefined });
+    expect(trip).toMatchObject({ subcategory: "transport", splits: [] });
+
+    // Subcategories given by hand win, and other users' rules do not apply
+    expect((await createTransaction(ALICE, checking.id, { description: "UBER TRIP" })).subcategory).toBe("groceries");
+    const bobs = await createAccount(BOB);
+    expect((await createTransaction(BOB, bobs.id, { description: "UBER TRIP", subcategory: undefined })).subcategory).toBeNull();
+
+    const list = await request(app).get("/api/category-rules").set("Authorization", ALICE);
+    expect(list.body.map((r: any) => r.subcategory)).toEqual(["dining", "equipment", "transport"]);
+    expect((await request(app).get("/api/category-rules").set("Authorization", BOB)).body).toEqual([]);
+  });
+
+  it("validates rules and updates them", async () => {
+    const checking = await createAccount(ALICE);
+    const others = await createAccount(BOB);
+    for (const [body, error] of [
+      [{ subcategory: "transport" }, "A rule needs a pattern, an account or an amount range"],
+      [{ pattern: "uber" }, "Missing subcategory"],
+      [{ pattern: "(uber", match_type: "regex", subcategory: "transport" }, "pattern is not a valid regular expression"],
+      [{ pattern: "^(\\w+\\s?)*$", match_type: "regex", subcategory: "transport" }, "pattern could take too long to match"],
+      [{ pattern: "(uber)\\1", match_type: "regex", subcategory: "transport" }, "pattern could take too long to match"],
+      [{ pattern: "u".repeat(201), subcategory: "transport" }, "Invalid pattern"],
+      [{ pattern: "uber", match_type: "glob", subcategory: "transport" }, "match_type must be contains or regex"],
+      [{ account_id: others.id, subcategory: "transport" }, "Account not found"],
+      [{ min_amount: "-5", subcategory: "transport" }, "min_amount must be a number of zero or more"],
+      [{ min_amount: "50", max_amount: "10", subcategory: "transport" }, "min_amount is more than max_amount"],
+      [{ pattern: "uber", subcategory: "transport", type: "family" }, "type must be personal or business"],
+      [{ pattern: "uber", subcategory: "transport", priority: 1.5 }, "priority must be a whole number"],
+    ] as const) {
+      const res = await request(app).post("/api/category-rules").set("Authorization", ALICE).send(body);
+      expect(res.status, error).toBe(400);
+      expect(res.body.error).toBe(error);
+    }
+
+    const rule = await createRule({ pattern: "uber", account_id: checking.id, max_amount: "", subcategory: " transport " });
+    expect(rule).toMatchObject({ subcategory: "transport", account_id: checking.id, max_amount: null });
+
+    const updated = await request(app)
+      .patch(`/api/category-rules/${rule.id}`)
+      .set("Authorization", ALICE)
+      .send({ account_id: null, max_amount: 80, priority: 3 });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ pattern: "uber", account_id: null, max_amount: "80.00", priority: 3 });
+
+    await request(app).patch(`/api/category-rules/${rule.id}`).set("Authorization", ALICE).send({ pattern: null }).expect(200);
+    await request(app)
+      .patch(`/api/category-rules/${rule.id}`)
+      .set("Authorization", ALICE)
+      .send({ max_amount: null })
+      .expect(400);
+    await request(app).patch(`/api/category-rules/${rule.id}`).set("Authorization", BOB).send({ priority: 1 }).expect(404);
+    await request(app).delete(`/api/category-rules/${rule.id}`).set("Authorization", BOB).expect(204);
+    await request(app).delete(`/api/category-rules/${rule.id}`).set("Authorization", ALICE).expect(204);
+    expect((await request(app).get("/api/category-rules").set("Authorization", ALICE)).body).toEqual([]);
+  });
+
+  it("categorizes uncategorized rows on bulk import and re-runs over existing transactions", async () => {
+    const checking = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings", category: "savings" });
+    await createRule({ pattern: "shell", subcategory: "fuel" });
+
+    const imported = await request(app)
+      .post("/api/transactions/bulk")
+      .set("Authorization", ALICE)
+      .send({
+        transactions: [
+          { account_id: checking.id, description: "SHELL OIL 123", amount: "-40.00", category: "expense", date: "2026-01-05" },
+          { account_id: checking.id, description: "SHELL OIL 456", amount: "-30.00", category: "expense", subcategory: "travel", date: "2026-01-06" },
+          { account_id: checking.id, description: "COSTCO", amount: "-80.00", category: "expense", date: "2026-01-07" },
+        ],
+      });
+    expect(imported.status).toBe(201);
+    const rows = (await request(app).get(`/api/import-batches/${imported.body.batch_id}/transactions`).set("Authorization", ALICE)).body;
+    expect(rows.map((t: any) => [t.description, t.subcategory])).toEqual(
+      expect.arrayContaining([["SHELL OIL 123", "fuel"], ["SHELL OIL 456", "travel"], ["COSTCO", null]])
+    );
+
+    const costco = rows.find((t: any) => t.description === "COSTCO");
+    const savingsCostco = await createTransaction(ALICE, savings.id, { description: "COSTCO REFUND", subcategory: undefined });
+    await createRule({ pattern: "costco", subcategory: "groceries" });
+
+    const scoped = await request(app)
+      .post("/api/category-rules/apply")
+      .set("Authorization", ALICE)
+      .send({ account_id: checking.id });
+    expect(scoped.body).toEqual({ updated: 1 });
+    expect((await request(app).get(`/api/transactions/${costco.id}`).set("Authorization", ALICE)).body.subcategory).toBe("groceries");
+    expect((await request(app).get(`/api/transactions/${savingsCostco.id}`).set("Authorization", ALICE)).body.subcategory).toBeNull();
+
+    // Without overwrite only uncategorized transactions change
+    expect((await request(app).post("/api/category-rules/apply").set("Authorization", ALICE).send({})).body).toEqual({ updated: 1 });
+    const overwritten = await request(app).post("/api/category-rules/apply").set("Authorization", ALICE).send({ overwrite: true });
+    expect(overwritten.body).toEqual({ updated: 1 });
+
+    const history = await request(app).get(`/api/transactions/${costco.id}/history`).set("Authorization", ALICE);
+    expect(history.body[0]).toMatchObject({ action: "update", source: "POST /api/category-rules/apply" });
+
+    await request(app).post("/api/category-rules/apply").set("Authorization", ALICE).send({ overwrite: "yes" }).expect(400);
+    await request(app).post("/api/category-rules/apply").set("Authorization", BOB).send({ account_id: checking.id }).expect(400);
+  });
+});
+
+describe("/api/categorization-jobs", () => {
+  const startJob = (auth: string, body: Record<string, unknown> = {}) =>
+    request(app).post("/api/categorization-jobs").set("Authorization", auth).send(body);
+  const getSuggestions = (auth: string) =>
+    request(app).get("/api/categorization-suggestions").set("Authorization", auth);
+
+  async function waitForJob(auth: string, id: number) {
+    for (let i = 0; i < 100; i++) {
+      const res = await request(app).get(`/api/categorization-jobs/${id}`).set("Authorization", auth);
+      expect(res.status).toBe(200);
+      if (res.body.status !== "running") return res.body;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error("Categorization job did not finish");
+  }
+
+  it("sends uncategorized transactions in batches and stores the answers for review", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { description: "Rent", subcategory: "housing" });
+    for (let i = 0; i < 26; i++) {
+      await createTransaction(ALICE, account.id, { description: `TESCO STORES ${i}`, subcategory: null });
+    }
+    const uber = await createTransaction(ALICE, account.id, { description: "Uber trip", subcategory: null });
+    await createTransaction(ALICE, account.id, { description: "Mystery", subcategory: null });
+
+    const started = await startJob(ALICE);
+    expect(started.status).toBe(202);
+    expect(started.body).toMatchObject({ status: "running", total: 28, processed: 0 });
+
+    const job = await waitForJob(ALICE, started.body.id);
+    expect(job).toMatchObject({ status: "completed", total: 28, processed: 28, error: null });
+    expect(job.completed_at).toBeTruthy();
+    expect(categorizer.calls.map((call) => call.items.length).sort((a, b) => a - b)).toEqual([3, 25]);
+    expect(categorizer.calls[0].subcategories).toEqual(["housing"]);
+
+    const suggestions = (await getSuggestions(ALICE)).body;
+    expect(suggestions).toHaveLength(27);
+    const [first, second] = suggestions.filter((s: any) => s.subcategory === "groceries");
+    const transport = suggestions.find((s: any) => s.transaction_id === uber.id);
+    expect(transport).toMatchObject({ job_id: job.id, subcategory: "transport", transaction: { description: "Uber trip" } });
+
+    const reviewed = await request(app)
+      .post("/api/categorization-suggestions/review")
+      .set("Authorization", ALICE)
+      .send({ accept: [first.id, second.id], dismiss: [transport.id] });
+    expect(reviewed.body).toEqual({ updated: 2 });
+    const accepted = await storage.getTransaction("alice", first.transaction_id);
+    expect(accepted?.subcategory).toBe("groceries");
+    expect((await getSuggestions(ALICE)).body).toHaveLength(24);
+
+    // Transactions with a pending suggestion are not sent again
+    const again = await startJob(ALICE);
+    expect(again.body.total).toBe(2);
+    await waitForJob(ALICE, again.body.id);
+  });
+
+  it("allows one running job per user and records failures", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { description: "Tesco", subcategory: null });
+
+    let release!: () => void;
+    categorizer.gate = new Promise((resolve) => (release = resolve));
+    categorizer.failWith = new Error("Model unavailable");
+    const started = await startJob(ALICE);
+    await startJob(ALICE).expect(409);
+    release();
+
+    const job = await waitForJob(ALICE, started.body.id);
+    expect(job).toMatchObject({ status: "failed", processed: 0, error: "Model unavailable" });
+    expect((await getSuggestions(ALICE)).body).toEqual([]);
+
+    await startJob(ALICE, { account_id: 9999 }).expect(400);
+    await startJob(BOB).expect(400);
+    await request(app).get(`/api/categorization-jobs/${job.id}`).set("Authorization", BOB).expect(404);
+    const jobs = await request(app).get("/api/categorization-jobs").set("Authorization", ALICE);
+    expect(jobs.body.map((j: any) => j.id)).toEqual([job.id]);
+  });
+
+  it("fails jobs left running by an earlier server process", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { description: "Tesco", subcategory: null });
+    const orphaned = await storage.createCategorizationJob("alice", 1);
+    await startJob(ALICE).expect(409);
+
+    expect(await failInterruptedCategorizationJobs(storage)).toBe(1);
+    expect(await storage.getCategorizationJob("alice", orphaned.id)).toMatchObject({
+      status: "failed",
+      error: INTERRUPTED_JOB_ERROR,
+    });
+
+    const started = await startJob(ALICE).expect(202);
+    expect((await waitForJob(ALICE, started.body.id)).status).toBe("completed");
+  });
+
+  it("reviews only the user's own suggestions", async () => {
+    const account = await createAccount(ALICE);
+    const tesco = await createTransaction(ALICE, account.id, { description: "Tesco", subcategory: null });
+    const started = await startJob(ALICE);
+    await waitForJob(ALICE, started.body.id);
+    const [suggestion] = (await getSuggestions(ALICE)).body;
+
+    const bob = await request(app)
+      .post("/api/categorization-suggestions/review")
+      .set("Authorization", BOB)
+      .send({ accept: [suggestion.id] });
+    expect(bob.body).toEqual({ updated: 0 });
+    expect((await storage.getTransaction("alice", tesco.id))?.subcategory).toBeFalsy();
+    expect((await getSuggestions(ALICE)).body).toHaveLength(1);
+
+    await request(app)
+      .post("/api/categorization-suggestions/review")
+      .set("Authorization", ALICE)
+      .send({ accept: "all" })
+      .expect(400);
+  });
+});
+
+describe("/api/saved-views", () => {
+  it("saves, lists, updates and deletes views per user", async () => {
+    const created = await request(app)
+      .post("/api/saved-views")
+      .set("Authorization", ALICE)
+      .send({ name: " Reimbursable ", scope: "business", filters: { tag: "reimbursable", q: "", order: "asc" } });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ name: "Reimbursable", scope: "business", filters: { tag: "reimbursable", order: "asc" } });
+
+    const duplicate = await request(app)
+      .post("/api/saved-views")
+      .set("Authorization", ALICE)
+      .send({ name: "Reimbursable", scope: "business", filters: {} });
+    expect(duplicate.status).toBe(409);
+
+    const updated = await request(app)
+      .patch(`/api/saved-views/${created.body.id}`)
+      .set("Authorization", ALICE)
+      .send({ filters: { tag: "reimbursable", startDate: "2026-01-01" } });
+    expect(updated.status).toBe(200);
+    expect(updated.body.filters).toEqual({ tag: "reimbursable", startDate: "2026-01-01" });
+    expect(updated.body.name).toBe("Reimbursable");
+
+    expect((await request(app).get("/api/saved-views").set("Authorization", BOB)).body).toEqual([]);
+    await request(app).patch(`/api/saved-views/${created.body.id}`).set("Authorization", BOB).send({ name: "Mine" }).expect(404);
+    await request(app).delete(`/api/saved-views/${created.body.id}`).set("Authorization", BOB).expect(204);
+    expect((await request(app).get("/api/saved-views").set("Authorization", ALICE)).body).toHaveLength(1);
+
+    await request(app).delete(`/api/saved-views/${created.body.id}`).set("Authorization", ALICE).expect(204);
+    expect((await request(app).get("/api/saved-views").set("Authorization", ALICE)).body).toEqual([]);
+  });
+
+  it("rejects filters GET /api/transactions would not accept", async () => {
+    for (const [body, error] of [
+      [{ name: "", scope: "personal", filters: {} }, "Missing name"],
+      [{ name: "A", scope: "shared", filters: {} }, "Scope must be personal or business"],
+      [{ name: "A", scope: "personal", filters: { cursor: "abc" } }, "Unknown filter cursor"],
+      [{ name: "A", scope: "personal", filters: { startDate: "January" } }, "Invalid startDate"],
+      [{ name: "A", scope: "personal", filters: { minAmount: 5 } }, "Invalid minAmount"],
+    ] as const) {
+      const res = await request(app).post("/api/saved-views").set("Authorization", ALICE).send(body);
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe(error);
+    }
+  });
+});
+
+describe("/api/obligations", () => {
+  const obligation = {
+    name: "Rent",
+    amount: "1500.00",
+    type: "personal",
+    category: "bill",
+    due_date: "2026-02-01",
+  };
+
+  it("creates, lists and fetches obligations for the current user only", async () => {
+    const created = await request(app).post("/api/obligations").set("Authorization", ALICE).send(obligation);
+    expect(created.status).toBe(201);
+    await request(app).post("/api/obligations").set("Authorization", BOB).send({ ...obligation, name: "Bob's rent" });
+
+    const list = await request(app).get("/api/obligations").set("Authorization", ALICE);
+    expect(list.body.map((o: any) => o.name)).toEqual(["Rent"]);
+
+    await request(app).get(`/api/obligations/${created.body.id}`).set("Authorization", ALICE).expect(200);
+    await request(app).get(`/api/obligations/${created.body.id}`).set("Authorization", BOB).expect(404);
+  });
+
+  it("lists obligations by due date", async () => {
+    await request(app).post("/api/obligations").set("Authorization", ALICE).send({ ...obligation, name: "Later", due_date: "2026-03-01" });
+    await request(app).post("/api/obligations").set("Authorization", ALICE).send({ ...obligation, name: "Sooner", due_date: "2026-01-15" });
+
+    const list = await request(app).get("/api/obligations").set("Authorization", ALICE);
+    expect(list.body.map((o: any) => o.name)).toEqual(["Sooner", "Later"]);
+  });
+
+  it("marks an obligation as paid, but not another user's", async () => {
+    const created = await request(app).post("/api/obligations").set("Authorization", ALICE).send(obligation);
+
+    await request(app)
+      .patch(`/api/obligations/${created.body.id}`)
+      .set("Authorization", BOB)
+      .send({ is_paid: true })
+      .expect(404);
+
+    const res = await request(app)
+      .patch(`/api/obligations/${created.body.id}`)
+      .set("Authorization", ALICE)
+      .send({ is_paid: true });
+    expect(res.status).toBe(200);
+    expect(res.body.is_paid).toBe(true);
+  });
+
+  it("deletes an obligation, but not another user's", async () => {
+    const created = await request(app).post("/api/obligations").set("Authorization", ALICE).send(obligation);
+
+    await request(app).delete(`/api/obligations/${created.body.id}`).set("Authorization", BOB).expect(204);
+    await request(app).get(`/api/obligations/${created.body.id}`).set("Authorization", ALICE).expect(200);
+
+    await request(app).delete(`/api/obligations/${created.body.id}`).set("Authorization", ALICE).expect(200);
+    await request(app).get(`/api/obligations/${created.body.id}`).set("Authorization", ALICE).expect(404);
+  });
+});
+
+describe("/api/trash", () => {
+  const restore = (id: number, auth = ALICE) => request(app).post(`/api/trash/${id}/restore`).set("Authorization", auth);
+  const balanceOf = async (id: number) =>
+    (await request(app).get(`/api/accounts/${id}`).set("Authorization", ALICE)).body.balance;
+
+  it("restores a date range delete with its balance effect", async () => {
+    const account = await createAccount(ALICE);
+    const first = await createTransaction(ALICE, account.id, { date: "2026-01-10", amount: "-20.00" });
+    const second = await createTransaction(ALICE, account.id, { date: "2026-01-20", amount: "-30.00", tags: ["food"] });
+
+    const del = await request(app)
+      .delete("/api/transactions/by-date-range")
+      .set("Authorization", ALICE)
+      .send({ accountId: account.id, startDate: "2026-01-01", endDate: "2026-01-31" });
+    expect(await balanceOf(account.id)).toBe("100.00");
+
+    const trash = await request(app).get("/api/trash").set("Authorization", ALICE);
+    expect(trash.body).toEqual([
+      expect.objectContaining({
+        id: del.body.deletion_id,
+        kind: "transactions",
+        label: "2 transactions from Checking, 2026-01-01 to 2026-01-31",
+        counts: { accounts: 0, transactions: 2, obligations: 0 },
+      }),
+    ]);
+
+    const res = await restore(del.body.deletion_id);
+    expect(res.status).toBe(200);
+    expect(await balanceOf(account.id)).toBe("50.00");
+    const restored = await request(app).get(`/api/transactions/${second.id}`).set("Authorization", ALICE);
+    expect(restored.body).toMatchObject({ id: second.id, amount: "-30.00", tags: ["food"] });
+    await request(app).get(`/api/transactions/${first.id}`).set("Authorization", ALICE).expect(200);
+
+    expect((await request(app).get("/api/trash").set("Authorization", ALICE)).body).toEqual([]);
+    await restore(del.body.deletion_id).expect(404);
+  });
+
+  it("restores an account with its transactions, transfers and obligation links", async () => {
+    const checking = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings", balance: "0" });
+    await createTransaction(ALICE, checking.id, { amount: "-10.00" });
+    await request(app)
+      .post("/api/transfers")
+      .set("Authorization", ALICE)
+      .send({ from_account_id: checking.id, to_account_id: savings.id, amount: "40.00", date: "2026-01-05" });
+    const obligation = await request(app)
+      .post("/api/obligations")
+      .set("Authorization", ALICE)
+      .send({ account_id: checking.id, name: "Rent", amount: "900.00", type: "personal", category: "bill", due_date: "2026-02-01" });
+
+    const del = await request(app).delete(`/api/accounts/${checking.id}`).set("Authorization", ALICE).expect(200);
+    expect(await balanceOf(savings.id)).toBe("0.00");
+
+    await restore(del.body.deletion_id).expect(200);
+    expect(await balanceOf(checking.id)).toBe("50.00");
+    expect(await balanceOf(savings.id)).toBe("40.00");
+    const transfers = await request(app).get("/api/transfers").set("Authorization", ALICE);
+    expect(transfers.body).toHaveLength(1);
+    expect(transfers.body[0].transactions).toHaveLength(2);
+    const relinked = await request(app).get(`/api/obligations/${obligation.body.id}`).set("Authorization", ALICE);
+    expect(relinked.body.account_id).toBe(checking.id);
+  });
+
+  it("asks for the account to be restored before its transactions", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+    const txDeletion = await request(app).delete(`/api/transactions/${transaction.id}`).set("Authorization", ALICE);
+    const accountDeletion = await request(app).delete(`/api/accounts/${account.id}`).set("Authorization", ALICE);
+
+    const res = await restore(txDeletion.body.deletion_id);
+    expect(res.status).toBe(409);
+
+    await restore(accountDeletion.body.deletion_id).expect(200);
+    await restore(txDeletion.body.deletion_id).expect(200);
+    expect(await balanceOf(account.id)).toBe("74.50");
+  });
+
+  it("keeps each user's trash separate", async () => {
+    const created = await request(app)
+      .post("/api/obligations")
+      .set("Authorization", ALICE)
+      .send({ name: "Rent", amount: "900.00", type: "personal", category: "bill", due_date: "2026-02-01" });
+    const del = await request(app).delete(`/api/obligations/${created.body.id}`).set("Authorization", ALICE);
+
+    expect((await request(app).get("/api/trash").set("Authorization", BOB)).body).toEqual([]);
+    await restore(del.body.deletion_id, BOB).expect(404);
+    await request(app).delete(`/api/trash/${del.body.deletion_id}`).set("Authorization", BOB).expect(204);
+
+    await restore(del.body.deletion_id).expect(200);
+    await request(app).get(`/api/obligations/${created.body.id}`).set("Authorization", ALICE).expect(200);
+  });
+
+  it("purges entries after 30 days along with their attachment files", async () => {
+    const account = await createAccount(ALICE);
+    const transaction = await createTransaction(ALICE, account.id);
+    const attachment = (
+      await request(app)
+        .post(`/api/transactions/${transaction.id}/attachments`)
+        .set("Authorization", ALICE)
+        .attach("file", Buffer.from("%PDF-1.4"), { filename: "receipt.pdf", contentType: "application/pdf" })
+    ).body;
+    await request(app).delete(`/api/transactions/${transaction.id}`).set("Authorization", ALICE).expect(200);
+
+    expect(await purgeExpiredTrash(storage, files)).toBe(0);
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(Date.now() + 31 * 24 * 60 * 60 * 1000);
+      expect(await purgeExpiredTrash(storage, files)).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(await files.get(attachment.storage_key)).toBeUndefined();
+    expect((await request(app).get("/api/trash").set("Authorization", ALICE)).body).toEqual([]);
+  });
+});
+
+describe("/api/import-batches", () => {
+  const importRows = (auth: string, body: Record<string, unknown>) =>
+    request(app).post("/api/transactions/bulk").set("Authorization", auth).send(body);
+  const row = (accountId: number, overrides: Record<string, unknown> = {}) => ({
+    account_id: accountId,
+    description: "Coffee",
+    amount: "-4.00",
+    category: "expense",
+    date: "2026-01-02",
+    ...overrides,
+  });
+
+  it("records each bulk import as a batch carried by its transactions", async () => {
+    const account = await createAccount(ALICE);
+
+    const res = await importRows(ALICE, {
+      file_name: "january.csv",
+      parser: "csv",
+      transactions: [row(account.id), row(999), row(account.id, { description: "Lunch", amount: "-12.00" })],
+    });
+    expect(res.status).toBe(201);
+    expect(res.body.batch_id).toEqual(expect.any(Number));
+
+    const batches = await request(app).get("/api/import-batches").set("Authorization", ALICE);
+    expect(batches.body).toEqual([
+      expect.objectContaining({
+        id: res.body.batch_id,
+        account_id: account.id,
+        file_name: "january.csv",
+        parser: "csv",
+        row_count: 2,
+        transaction_count: 2,
+      }),
+    ]);
+
+    const imported = await request(app)
+      .get(`/api/import-batches/${res.body.batch_id}/transactions`)
+      .set("Authorization", ALICE);
+    expect(imported.body.map((t: any) => [t.description, t.import_batch_id])).toEqual([
+      ["Coffee", res.body.batch_id],
+      ["Lunch", res.body.batch_id],
+    ]);
+  });
+
+  it("ignores an import_batch_id sent with the rows and creates no batch when nothing imports", async () => {
+    const account = await createAccount(ALICE);
+    const other = await importRows(ALICE, { transactions: [row(account.id)] });
+
+    const res = await importRows(ALICE, { transactions: [row(account.id, { import_batch_id: other.body.batch_id })] });
+    const imported = await request(app)
+      .get(`/api/import-batches/${res.body.batch_id}/transactions`)
+      .set("Authorization", ALICE);
+    expect(imported.body).toHaveLength(1);
+
+    const empty = await importRows(ALICE, { transactions: [row(999)] });
+    expect(empty.body).toMatchObject({ imported: 0, batch_id: null });
+    expect((await request(app).get("/api/import-batches").set("Authorization", ALICE)).body).toHaveLength(2);
+  });
+
+  it("rolls back a whole batch through the trash", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { amount: "-10.00" });
+    const batch = await importRows(ALICE, {
+      file_name: "statement.pdf",
+      transactions: [row(account.id), row(account.id, { amount: "-6.00" })],
+    });
+    const balance = async () =>
+      (await request(app).get(`/api/accounts/${account.id}`).set("Authorization", ALICE)).body.balance;
+    expect(await balance()).toBe("80.00");
+
+    const res = await request(app)
+      .post(`/api/import-batches/${batch.body.batch_id}/rollback`)
+      .set("Authorization", ALICE);
+    expect(res.body).toMatchObject({ deleted: 2, deletion_id: expect.any(Number) });
+    expect(await balance()).toBe("90.00");
+
+    const [rolledBack] = (await request(app).get("/api/import-batches").set("Authorization", ALICE)).body;
+    expect(rolledBack).toMatchObject({ row_count: 2, transaction_count: 0 });
+    const trash = await request(app).get("/api/trash").set("Authorization", ALICE);
+    expect(trash.body[0].label).toBe("2 imported transactions from statement.pdf");
+
+    await request(app).post(`/api/trash/${res.body.deletion_id}/restore`).set("Authorization", ALICE).expect(200);
+    expect(await balance()).toBe("80.00");
+    const [restored] = (await request(app).get("/api/import-batches").set("Authorization", ALICE)).body;
+    expect(restored.transaction_count).toBe(2);
+  });
+
+  it("keeps batches per user", async () => {
+    const account = await createAccount(ALICE);
+    const batch = await importRows(ALICE, { transactions: [row(account.id)] });
+
+    expect((await request(app).get("/api/import-batches").set("Authorization", BOB)).body).toEqual([]);
+    await request(app).get(`/api/import-batches/${batch.body.batch_id}/transactions`).set("Authorization", BOB).expect(404);
+    await request(app).post(`/api/import-batches/${batch.body.batch_id}/rollback`).set("Authorization", BOB).expect(404);
+  });
+});
+
+describe("POST /api/transactions/duplicates", () => {
+  const check = (auth: string, transactions: unknown) =>
+    request(app).post("/api/transactions/duplicates").set("Authorization", auth).send({ transactions });
+  const row = (accountId: number, overrides: Record<string, unknown> = {}) => ({
+    account_id: accountId,
+    description: "Groceries",
+    amount: "-25.50",
+    category: "expense",
+    date: "2026-01-05",
+    ...overrides,
+  });
+
+  it("flags rows matching a recorded transaction on the same or a nearby date", async () => {
+    const account = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings" });
+    const coffee = await createTransaction(ALICE, account.id, { description: "STARBUCKS #1234", amount: "-4.75", date: "2026-01-10" });
+    const rent = await createTransaction(ALICE, account.id, { description: "Rent", amount: "-900.00", date: "2026-01-01" });
+    await createTransaction(ALICE, account.id, { description: "Gym", amount: "-30.00", date: "2026-01-01" });
+
+    const res = await check(ALICE, [
+      row(account.id, { description: "Starbucks 5678", amount: "-4.75", date: "2026-01-10" }),
+      row(account.id, { description: "RENT", amount: "-900", date: "2026-01-03" }),
+      row(account.id, { description: "Gym", amount: "-30.00", date: "2026-01-08" }),
+      row(savings.id, { description: "Rent", amount: "-900.00", date: "2026-01-01" }),
+      row(account.id, { description: "Rent", amount: "-901.00", date: "2026-01-01" }),
+    ]);
+    expect(res.status).toBe(200);
+    expect(res.body.duplicates).toEqual([
+      { index: 0, transaction_id: coffee.id, match: "exact" },
+      { index: 1, transaction_id: rent.id, match: "fuzzy" },
+    ]);
+  });
+
+  it("matches each recorded transaction once and ignores invalid rows and other users", async () => {
+    const account = await createAccount(ALICE);
+    const recorded = await createTransaction(ALICE, account.id);
+
+    const res = await check(ALICE, [row(account.id, { date: "2026-01-06" }), row(account.id), { description: "Groceries" }]);
+    expect(res.body.duplicates).toEqual([{ index: 1, transaction_id: recorded.id, match: "exact" }]);
+
+    const bob = await check(BOB, [row(account.id)]);
+    expect(bob.body.duplicates).toEqual([]);
+    await check(BOB, "Groceries").expect(400);
+  });
+});
+
+describe("POST /api/transactions/suggest-categories", () => {
+  const suggest = (auth: string, transactions: unknown) =>
+    request(app).post("/api/transactions/suggest-categories").set("Authorization", auth).send({ transactions });
+
+  it("suggests the subcategory and use learned from categorized transactions", async () => {
+    const personal = await createAccount(ALICE);
+    const business = await createAccount(ALICE, { name: "Business", type: "business" });
+    await createTransaction(ALICE, personal.id, { description: "TESCO STORES 2231", subcategory: "groceries" });
+    await createTransaction(ALICE, personal.id, { description: "Tesco Express", subcategory: "groceries" });
+    await createTransaction(ALICE, business.id, { description: "AWS EMEA invoice", subcategory: "hosting" });
+    await createTransaction(ALICE, business.id, { description: "Github invoice", subcategory: "software" });
+    await createTransaction(ALICE, personal.id, { description: "Tesco", subcategory: null });
+
+    const res = await suggest(ALICE, [
+      { description: "TESCO STORES 9921" },
+      { description: "AWS EMEA" },
+      { description: "Unknown merchant" },
+      { amount: "-4.00" },
+    ]);
+    expect(res.status).toBe(200);
+    const [tesco, aws, unknown, blank] = res.body.suggestions;
+    expect(tesco).toMatchObject({ subcategory: "groceries", type: "personal" });
+    expect(tesco.confidence).toBeGreaterThan(0.5);
+    expect(tesco.confidence).toBeLessThanOrEqual(1);
+    expect(aws).toMatchObject({ subcategory: "hosting", type: "business" });
+    expect(unknown).toBeNull();
+    expect(blank).toBeNull();
+  });
+
+  it("learns the use of split lines and only from the user's own transactions", async () => {
+    const account = await createAccount(ALICE);
+    const phone = await createTransaction(ALICE, account.id, { description: "Vodafone bill", amount: "-40.00" });
+    await request(app)
+      .patch(`/api/transactions/${phone.id}`)
+      .set("Authorization", ALICE)
+      .send({ splits: [{ amount: "-40.00", subcategory: "phone", type: "business" }] })
+      .expect(200);
+
+    const res = await suggest(ALICE, [{ description: "VODAFONE" }]);
+    expect(res.body.suggestions[0]).toMatchObject({ subcategory: "phone", type: "business" });
+
+    const bob = await suggest(BOB, [{ description: "VODAFONE" }]);
+    expect(bob.body.suggestions).toEqual([null]);
+    await suggest(BOB, "VODAFONE").expect(400);
+  });
+});
+
+describe("OFX import", () => {
+  const SGML_OFX = [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "ENCODING:USASCII",
+    "CHARSET:1252",
+    "",
+    "<OFX>",
+    "<BANKMSGSRSV1><STMTTRNRS><STMTRS>",
+    "<CURDEF>USD",
+    "<BANKACCTFROM><BANKID>121000248<ACCTID>0001234567<ACCTTYPE>CHECKING</BANKACCTFROM>",
+    "<BANKTRANLIST>",
+    "<DTSTART>20260101<DTEND>20260131",
+    "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260105120000.000[-5:EST]<TRNAMT>-4,75<FITID>2026010501<NAME>STARBUCKS #1234</STMTTRN>",
+    "<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260115<TRNAMT>1500.00<FITID>2026011502<NAME>ACME PAYROLL &amp; CO<MEMO>Salary</STMTTRN>",
+    "</BANKTRANLIST>",
+    "<LEDGERBAL><BALAMT>1595.25<DTASOF>20260131</LEDGERBAL>",
+    "</STMTRS></STMTTRNRS></BANKMSGSRSV1>",
+    "</OFX>",
+  ].join("\n");
+
+  const XML_OFX = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+  <CURDEF>USD</CURDEF>
+  <CCACCTFROM><ACCTID>4111</ACCTID></CCACCTFROM>
+  <BANKTRANLIST>
+    <STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260203</DTPOSTED><TRNAMT>-42.10</TRNAMT><FITID>A1</FITID><MEMO>Café</MEMO></STMTTRN>
+  </BANKTRANLIST>
+  <LEDGERBAL><BALAMT>-42.10</BALAMT><DTASOF>20260228</DTASOF></LEDGERBAL>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+  const parse = (content: string, filename = "statement.ofx") =>
+    request(app).post("/api/import/parse").set("Authorization", ALICE).attach("file", Buffer.from(content), filename);
+
+  it("parses OFX 1.x SGML statements with their bank ids and ledger balance", async () => {
+    const res = await parse(SGML_OFX);
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      success: true,
+      format: "ofx",
+      candidates: [
+        { date: "2026-01-05", description: "STARBUCKS #1234", amount: -4.75, external_id: "2026010501", errors: [] },
+        { date: "2026-01-15", description: "ACME PAYROLL & CO", amount: 1500, external_id: "2026011502", errors: [] },
+      ],
+      date_format: null,
+      amount_sign: null,
+      detected: { date_format: null, amount_sign: null },
+      account_number: "0001234567",
+      currency: "USD",
+      period_start: "2026-01-01",
+      period_end: "2026-01-31",
+      closing_balance: { amount: 1595.25, date: "2026-01-31" },
+    });
+  });
+
+  it("parses OFX 2.x XML credit card statements and rejects broken ones", async () => {
+    const res = await parse(XML_OFX, "card.qfx");
+    expect(res.body).toMatchObject({
+      candidates: [{ date: "2026-02-03", description: "Café", amount: -42.1, external_id: "A1", errors: [] }],
+      account_number: "4111",
+      closing_balance: { amount: -42.1, date: "2026-02-28" },
+    });
+
+    await parse("OFXHEADER:100\n<OFX></OFX>", "card.qfx").expect(400);
+  });
+
+  it("recognizes re-imported rows by their bank id even when the details changed", async () => {
+    const account = await createAccount(ALICE);
+    const imported = await request(app)
+      .post("/api/transactions/bulk")
+      .set("Authorization", ALICE)
+      .send({
+        transactions: [
+          { account_id: account.id, description: "STARBUCKS", amount: "-4.75", category: "expense", date: "2026-01-05", external_id: "F1" },
+        ],
+      });
+    const [recorded] = (
+      await request(app).get(`/api/import-batches/${imported.body.batch_id}/transactions`).set("Authorization", ALICE)
+    ).body;
+    expect(recorded.external_id).toBe("F1");
+
+    const res = await request(app)
+      .post("/api/transactions/duplicates")
+      .set("Authorization", ALICE)
+      .send({
+        transactions: [
+          { account_id: account.id, description: "Starbucks Coffee", amount: "-4.75", category: "expense", date: "2026-01-09", external_id: "F1" },
+          { account_id: account.id, description: "STARBUCKS", amount: "-4.75", category: "expense", date: "2026-01-05", external_id: "F2" },
+        ],
+      });
+    expect(res.body.duplicates).toEqual([{ index: 0, transaction_id: recorded.id, match: "exact" }]);
+  });
+
+  it("checks a statement's closing balance against the account after import", async () => {
+    const account = await createAccount(ALICE);
+    await createTransaction(ALICE, account.id, { amount: "-10.00", date: "2026-01-03" });
+    await createTransaction(ALICE, account.id, { amount: "-99.00", date: "2026-02-10" });
+    const check = (body: Record<string, unknown>, id = account.id) =>
+      request(app).post(`/api/accounts/${id}/statement-check`).set("Authorization", ALICE).send(body);
+
+    const rows = [
+      { amount: -4.75, date: "2026-01-05" },
+      { amount: 1500, date: "2026-01-15" },
+    ];
+    const res = await check({ closingBalance: 1585.25, balanceDate: "2026-01-31", transactions: rows });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      account_id: account.id,
+      balance_date: "2026-01-31",
+      statement_balance: "1585.25",
+      expected_balance: "1585.25",
+      difference: "0.00",
+      balanced: true,
+    });
+
+    const missingRow = await check({ closingBalance: 1585.25, balanceDate: "2026-01-31", transactions: rows.slice(1) });
+    expect(missingRow.body).toMatchObject({ difference: "-4.75", balanced: false });
+
+    await check({ closingBalance: "abc", balanceDate: "2026-01-31" }).expect(400);
+    await check({ closingBalance: 1, balanceDate: "2026-01-31" }, 999).expect(404);
+  });
+
+  it("checks a card statement against the amount owed", async () => {
+    const card = await createAccount(ALICE, { name: "Visa", category: "credit_card", balance: "100.00" });
+    const check = (body: Record<string, unknown>) =>
+      request(app).post(`/api/accounts/${card.id}/statement-check`).set("Authorization", ALICE).send(body);
+
+    // An OFX card statement: two charges and a payment, with 142.10 owed at the end
+    const rows = [
+      { amount: -42.1, date: "2026-02-03" },
+      { amount: -50, date: "2026-02-10" },
+      { amount: 50, date: "2026-02-20" },
+    ];
+    const res = await check({ closingBalance: -142.1, balanceDate: "2026-02-28", transactions: rows });
+    expect(res.body).toMatchObject({
+      statement_balance: "142.10",
+      expected_balance: "142.10",
+      difference: "0.00",
+      balanced: true,
+    });
+
+    const missingCharge = await check({ closingBalance: -142.1, balanceDate: "2026-02-28", transactions: rows.slice(1) });
+    expect(missingCharge.body).toMatchObject({ difference: "42.10", balanced: false });
+  });
+});
+
+describe("QIF import", () => {
+  const BANK_QIF = [
+    "!Type:Bank",
+    "D1/ 5'26",
+    "T-4.75",
+    "PSTARBUCKS #1234",
+    "LDining:Coffee",
+    "^",
+    "D1/15/26",
+    "U1,500.00",
+    "T1,500.00",
+    "PACME PAYROLL",
+    "LSalary/Work",
+    "^",
+    "D1/20/26",
+    "T-120.00",
+    "PCOSTCO",
+    "LGroceries",
+    "SGroceries",
+    "$-90.00",
+    "SHousehold",
+    "$-30.00",
+    "^",
+    "D1/22/26",
+    "T-500.00",
+    "PTransfer",
+    "L[Savings]",
+    "^",
+    "!Type:Cat",
+    "NGroceries",
+    "DFood and supplies",
+    "E",
+    "^",
+    "NSalary",
+    "I",
+    "^",
+  ].join("\n");
+
+  const parse = (content: string, dateFormat?: string) => {
+    const req = request(app).post("/api/import/parse").set("Authorization", ALICE);
+    if (dateFormat) req.field("dateFormat", dateFormat);
+    return req.attach("file", Buffer.from(content), "export.qif");
+  };
+
+  it("parses bank records with their categories, split lines and the category list", async () => {
+    const res = await parse(BANK_QIF);
+    expect(res.status).toBe(200);
+    const candidates = [
+      { date: "2026-01-05", description: "STARBUCKS #1234", amount: -4.75, subcategory: "Dining:Coffee", errors: [] },
+      { date: "2026-01-15", description: "ACME PAYROLL", amount: 1500, subcategory: "Salary", errors: [] },
+      {
+        date: "2026-01-20",
+        description: "COSTCO",
+        amount: -120,
+        subcategory: "Groceries",
+        splits: [
+          { amount: -90, subcategory: "Groceries" },
+          { amount: -30, subcategory: "Household" },
+        ],
+        errors: [],
+      },
+      { date: "2026-01-22", description: "Transfer", amount: -500, errors: [] },
+    ];
+    expect(res.body).toEqual({
+      success: true,
+      format: "qif",
+      candidates,
+      date_format: "mdy",
+      amount_sign: null,
+      detected: { date_format: "mdy", amount_sign: null },
+      accounts: [{ type: "bank", candidates }],
+      categories: [
+        { name: "Groceries", description: "Food and supplies", type: "expense" },
+        { name: "Salary", type: "income" },
+      ],
+      skipped_records: 0,
+    });
+
+    await parse("Date,Amount\n2026-01-01,5").expect(400);
+    await parse(BANK_QIF, "ymd").expect(400);
+  });
+
+  it("names accounts from !Account records and detects day-first dates", async () => {
+    const qif = [
+      "!Account",
+      "NVisa",
+      "TCCard",
+      "^",
+      "!Type:CCard",
+      "D05.01.2026",
+      "T-42,10",
+      "MCafé",
+      "^",
+      "D25.01.2026",
+      "T-10.00",
+      "PBakery",
+      "LFood",
+      "SFood",
+      "$-6.00",
+      "SGifts",
+      "$-5.00",
+      "^",
+      "Dnot a date",
+      "T-1.00",
+      "^",
+      "!Account",
+      "NCash box",
+      "TCash",
+      "^",
+      "!Type:Cash",
+      "^",
+    ].join("\r\n");
+
+    const res = await parse(qif);
+    expect(res.body).toMatchObject({
+      accounts: [
+        {
+          name: "Visa",
+          type: "credit_card",
+          candidates: [
+            { date: "2026-01-05", description: "Café", amount: -42.1, errors: [] },
+            // Split lines that do not add up are dropped
+            { date: "2026-01-25", description: "Bakery", amount: -10, subcategory: "Food", errors: [] },
+          ],
+        },
+      ],
+      date_format: "dmy",
+      skipped_records: 1,
+    });
+    expect(res.body.accounts[0].candidates[1].splits).toBeUndefined();
+
+    // The date order can be forced when the file cannot tell
+    const forced = await parse("!Type:Bank\nD01/02/2026\nT-1.00\nPFee\n^", "dmy");
+    expect(forced.body.accounts[0].candidates[0].date).toBe("2026-02-01");
+  });
+
+  it("imports rows with split lines in bulk", async () => {
+    const account = await createAccount(ALICE);
+    const row = { account_id: account.id, description: "COSTCO", amount: "-120.00", category: "expense", date: "2026-01-20" };
+    const splits = [
+      { amount: "-90", subcategory: "Groceries", type: "personal" },
+      { amount: "-30", subcategory: "Household", type: "personal" },
+    ];
+
+    const res = await request(app)
+      .post("/api/transactions/bulk")
+      .set("Authorization", ALICE)
+      .send({
+        transactions: [
+          { ...row, splits },
+          { ...row, splits: splits.slice(0, 1) },
+          { ...row, description: "Fee", amount: "-2.00" },
+        ],
+      })
+      .expect(201);
+    expect(res.body).toMatchObject({ imported: 2, errors: 1 });
+    expect(res.body.details).toEqual([{ index: 1, error: "Split amounts must add up to the transaction amount" }]);
+
+    const imported = (
+      await request(app).get(`/api/import-batches/${res.body.batch_id}/transactions`).set("Authorization", ALICE)
+    ).body;
+    const costco = imported.find((t: any) => t.description === "COSTCO");
+    expect(costco.splits.map((s: any) => [s.amount, s.subcategory])).toEqual([
+      ["-90.00", "Groceries"],
+      ["-30.00", "Household"],
+    ]);
+    expect(imported.find((t: any) => t.description === "Fee").splits).toEqual([]);
+  });
+});
+
+describe("camt.053 and MT940 import", () => {
+  const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG1</MsgId><CreDtTm>2026-02-01T06:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT-2026-01</Id>
+      <FrToDt><FrDtTm>2026-01-01T00:00:00</FrDtTm><ToDtTm>2026-01-31T23:59:59</ToDtTm></FrToDt>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2026-01-01</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">2245.25</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2026-01-31</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="EUR">4.75</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2026-01-05</Dt></BookgDt><ValDt><Dt>2026-01-06</Dt></ValDt>
+        <AcctSvcrRef>REF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Amt Ccy="EUR">4.75</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+          <RltdPties><Cdtr><Pty><Nm>Bäckerei Müller &amp; Sohn</Nm></Pty></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Card payment</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">1250.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2026-01-15T10:00:00</DtTm></BookgDt>
+        <AcctSvcrRef>REF-2</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Pty><Nm>ACME GmbH</Nm></Pty></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Invoice 2026-001</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">99.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>PDNG</Cd></Sts>
+        <BookgDt><Dt>2026-01-31</Dt></BookgDt>
+        <AddtlNtryInf>Pending card payment</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+  const MT940 = [
+    "{1:F01BANKDEFFAXXX0000000000}{2:O9400000260201BANKDEFFAXXX00000000002602010000N}{4:",
+    ":20:STARTUMSE",
+    ":25:37040044/0532013000",
+    ":28C:00001/001",
+    ":60F:C260101EUR1000,00",
+    ":61:2601050105D4,75NDDTNONREF//B6A01",
+    ":86:005?00LASTSCHRIFT?20Kartenzahlung?21Filiale 12?32Baeckerei Mueller",
+    "?33Sohn",
+    ":61:2601150115C1250,00NTRFINV2026001",
+    ":86:/ORDP//NAME/ACME GmbH/REMI/USTD//Invoice 2026-001/",
+    ":62M:C260115EUR2245,25",
+    "-}",
+    "{1:F01BANKDEFFAXXX0000000000}{4:",
+    ":20:STARTUMSE",
+    ":25:37040044/0532013000",
+    ":28C:00002/001",
+    ":60M:C260115EUR2245,25",
+    ":61:2601311231RD20,00NCHGNONREF",
+    "Fee refund",
+    ":62F:C260131EUR2265,25",
+    "-}",
+  ].join("\r\n");
+
+  const parse = (content: string | Buffer, filename: string) =>
+    request(app).post("/api/import/parse").set("Authorization", ALICE).attach("file", Buffer.from(content), filename);
+
+  it("parses camt.053 booked entries with opening and closing balances", async () => {
+    const res = await parse(CAMT, "statement.xml");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      success: true,
+      format: "camt053",
+      candidates: [
+        { date: "2026-01-05", description: "Bäckerei Müller & Sohn - Card payment", amount: -4.75, external_id: "REF-1", errors: [] },
+        { date: "2026-01-15", description: "ACME GmbH - Invoice 2026-001", amount: 1250, external_id: "REF-2", errors: [] },
+      ],
+      date_format: null,
+      amount_sign: null,
+      detected: { date_format: null, amount_sign: null },
+      account_number: "DE89370400440532013000",
+      currency: "EUR",
+      period_start: "2026-01-01",
+      period_end: "2026-01-31",
+      opening_balance: { amount: 1000, date: "2026-01-01" },
+      closing_balance: { amount: 2245.25, date: "2026-01-31" },
+    });
+  });
+
+  it("rejects camt.053 files covering several accounts and files that are not statements", async () => {
+    const stmt = CAMT.slice(CAMT.indexOf("<Stmt>"), CAMT.indexOf("</Stmt>") + "</Stmt>".length);
+    const twoAccounts = CAMT.replace(stmt, stmt + stmt.replace("DE89370400440532013000", "DE02120300000000202051"));
+    await parse(twoAccounts, "statement.xml").expect(400);
+    await parse("<Document><BkToCstmrAcctRpt/></Document>", "report.xml").expect(400);
+    await parse("no statement here", "statement.sta").expect(400);
+  });
+
+  it("parses MT940 statements across pages with structured details and reversals", async () => {
+    const res = await parse(MT940, "statement.sta");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      success: true,
+      format: "mt940",
+      candidates: [
+        { date: "2026-01-05", description: "Baeckerei Mueller Sohn - Kartenzahlung Filiale 12", amount: -4.75, external_id: "B6A01", errors: [] },
+        { date: "2026-01-15", description: "ACME GmbH - Invoice 2026-001", amount: 1250, external_id: "INV2026001", errors: [] },
+        // A reversed debit booked in December for a January value date
+        { date: "2025-12-31", description: "Fee refund", amount: 20, errors: [] },
+      ],
+      date_format: null,
+      amount_sign: null,
+      detected: { date_format: null, amount_sign: null },
+      account_number: "37040044/0532013000",
+      currency: "EUR",
+      period_start: "2026-01-01",
+      period_end: "2026-01-31",
+      opening_balance: { amount: 1000, date: "2026-01-01" },
+      closing_balance: { amount: 2265.25, date: "2026-01-31" },
+    });
+
+    const otherAccount = MT940.replace(/:25:37040044\/0532013000(?![\s\S]*:25:)/, ":25:DE02120300000000202051");
+    await parse(otherAccount, "statement.sta").expect(400);
+  });
+
+  it("reads Latin-1 MT940 exports", async () => {
+    const latin1 = Buffer.from(":20:X\n:25:123\n:60F:C260101EUR0,00\n:61:260105D1,00NMSCNONREF\n:86:Gebühr\n:62F:D260105EUR1,00\n", "latin1");
+    const res = await parse(latin1, "statement.940");
+    expect(res.body.candidates).toEqual([{ date: "2026-01-05", description: "Gebühr", amount: -1, errors: [] }]);
+    expect(res.body.closing_balance).toEqual({ amount: -1, date: "2026-01-05" });
+  });
+});
+
+describe("Spreadsheet import", () => {
+  // A ZIP archive with each part deflated, as spreadsheet programs write them
+  const zip = (parts: Record<string, string>) => {
+    const locals: Buffer[] = [];
+    const central: Buffer[] = [];
+    let offset = 0;
+    for (const [name, content] of Object.entries(parts)) {
+      const data = Buffer.from(content);
+      const compressed = deflateRawSync(data);
+      const fileName = Buffer.from(name);
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034b50, 0);
+      header.writeUInt16LE(8, 8);
+      header.writeUInt32LE(crc32(data), 14);
+      header.writeUInt32LE(compressed.length, 18);
+      header.writeUInt32LE(data.length, 22);
+      header.writeUInt16LE(fileName.length, 26);
+      const entry = Buffer.alloc(46);
+      entry.writeUInt32LE(0x02014b50, 0);
+      entry.writeUInt16LE(8, 10);
+      entry.writeUInt32LE(crc32(data), 16);
+      entry.writeUInt32LE(compressed.length, 20);
+      entry.writeUInt32LE(data.length, 24);
+      entry.writeUInt16LE(fileName.length, 28);
+      entry.writeUInt32LE(offset, 42);
+      locals.push(header, fileName, compressed);
+      central.push(entry, fileName);
+      offset += header.length + fileName.length + compressed.length;
+    }
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(parts).length, 8);
+    end.writeUInt16LE(Object.keys(parts).length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...locals, directory, end]);
+  };
+
+  const XLSX = zip({
+    "[Content_Types].xml": "<Types/>",
+    "xl/workbook.xml": `<workbook xmlns:r="r"><workbookPr/><sheets>
+      <sheet name="Summary" sheetId="1" r:id="rId1"/>
+      <sheet name="Hidden" sheetId="2" state="hidden" r:id="rId2"/>
+      <sheet name="Transactions" sheetId="3" r:id="rId3"/>
+    </sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels": `<Relationships>
+      <Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>
+      <Relationship Id="rId2" Type="worksheet" Target="worksheets/sheet2.xml"/>
+      <Relationship Id="rId3" Type="worksheet" Target="/xl/worksheets/sheet3.xml"/>
+    </Relationships>`,
+    "xl/sharedStrings.xml": `<sst><si><t>Date</t></si><si><t>Description</t></si><si><t>Amount</t></si>
+      <si><r><t>Coffee </t></r><r><rPr><b/></rPr><t>&amp; cake</t></r></si><si><t>Refund</t></si></sst>`,
+    "xl/styles.xml": `<styleSheet><numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy;@"/></numFmts>
+      <cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="22"/></cellXfs></styleSheet>`,
+    "xl/worksheets/sheet1.xml": `<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Card summary</t></is></c></row></sheetData></worksheet>`,
+    "xl/worksheets/sheet2.xml": `<worksheet><sheetData/></worksheet>`,
+    "xl/worksheets/sheet3.xml": `<worksheet><sheetData>
+      <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="s"><v>2</v></c></row>
+      <row r="2" spans="1:4"/>
+      <row r="3"><c r="A3" s="1"><v>46027</v></c><c r="B3" t="s"><v>3</v></c><c r="D3"><v>-4.7500000000000009</v></c></row>
+      <row r="4"><c r="A4" s="2"><v>46037.5</v></c><c r="B4" t="s"><v>4</v></c><c r="D4"><v>12</v></c><c r="E4" t="e"><v>#N/A</v></c></row>
+    </sheetData></worksheet>`,
+  });
+
+  const ODS = zip({
+    mimetype: "application/vnd.oasis.opendocument.spreadsheet",
+    "content.xml": `<office:document-content><office:body><office:spreadsheet>
+      <table:table table:name="Card &amp; Co">
+        <table:table-column table:number-columns-repeated="3"/>
+        <table:table-row><table:table-cell office:value-type="string"><text:p>Date</text:p></table:table-cell><table:table-cell office:value-type="string"><text:p>Payee</text:p></table:table-cell><table:table-cell office:value-type="string"><text:p>Amount</text:p></table:table-cell></table:table-row>
+        <table:table-row><table:table-cell office:value-type="date" office:date-value="2026-01-05"><text:p>05/01/2026</text:p></table:table-cell><table:table-cell office:value-type="string"><text:p>Café<text:s text:c="2"/><text:span>Nord</text:span></text:p></table:table-cell><table:table-cell office:value-type="currency" office:currency="EUR" office:value="-4.75"><text:p>-4,75 €</text:p></table:table-cell><table:table-cell table:number-columns-repeated="16381"/></table:table-row>
+        <table:table-row><table:table-cell table:number-columns-repeated="2"/><table:table-cell office:value-type="float" office:value="3"><text:p>3</text:p></table:table-cell></table:table-row>
+        <table:table-row table:number-rows-repeated="1048573"><table:table-cell table:number-columns-repeated="16384"/></table:table-row>
+      </table:table>
+      <table:table table:name="Empty"><table:table-row><table:table-cell/></table:table-row></table:table>
+    </office:spreadsheet></office:body></office:document-content>`,
+  });
+
+  const parse = (file: Buffer, filename: string, sheet?: string) => {
+    const req = request(app).post("/api/import/parse").set("Authorization", ALICE);
+    if (sheet) req.field("sheet", sheet);
+    return req.attach("file", file, filename);
+  };
+
+  it("reads an XLSX worksheet with shared strings, dates and numbers", async () => {
+    const first = await parse(XLSX, "card.xlsx");
+    expect(first.status).toBe(200);
+    expect(first.body).toMatchObject({
+      format: "xlsx",
+      table: { sheets: ["Summary", "Transactions"], sheet: "Summary", rows: [["Card summary"]] },
+      candidates: [],
+    });
+
+    const res = await parse(XLSX, "card.xlsx", "Transactions");
+    expect(res.body.table).toMatchObject({
+      sheet: "Transactions",
+      headers: ["Date", "Description", "Column 3", "Amount"],
+      rows: [
+        ["2026-01-05", "Coffee & cake", "", "-4.75"],
+        ["2026-01-15 12:00", "Refund", "", "12"],
+      ],
+    });
+
+    await parse(XLSX, "card.xlsx", "Hidden").expect(400);
+  });
+
+  it("reads an ODS sheet without expanding repeated blank cells", async () => {
+    const res = await parse(ODS, "card.ods");
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ format: "ods", table: { sheets: ["Card & Co", "Empty"], sheet: "Card & Co" } });
+    expect(res.body.table.headers).toEqual(["Date", "Payee", "Amount"]);
+    expect(res.body.table.rows).toEqual([
+      ["2026-01-05", "Café  Nord", "-4.75"],
+      ["", "", "3"],
+    ]);
+
+    const empty = await parse(ODS, "card.ods", "Empty");
+    expect(empty.body.table.rows).toEqual([]);
+
+    await parse(zip({ "word/document.xml": "<w:document/>" }), "letter.docx").expect(400);
+  });
+});
+
+describe("POST /api/import/parse", () => {
+  const parse = (content: string, filename: string, fields: Record<string, string> = {}) => {
+    const req = request(app).post("/api/import/parse").set("Authorization", ALICE);
+    for (const [name, value] of Object.entries(fields)) req.field(name, value);
+    return req.attach("file", Buffer.from(content), filename);
+  };
+
+  it("detects day-first dates and card-style signs in a CSV file", async () => {
+    const csv = [
+      "Transaction Date,Description,Amount,Category",
+      "15/01/2026,COFFEE,4.75,Dining",
+      "16/01/2026,GROCER,\"1,052.10\",Groceries",
+      "17/01/2026,PAYMENT THANK YOU,-100.00,",
+      "18/01/2026,AUTH HOLD,0.00,",
+      "32/01/2026,BAD DATE,5.00,",
+      "19/01/2026,,7.00,",
+    ].join("\n");
+
+    const res = await parse(csv, "card.csv");
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      success: true,
+      format: "csv",
+      date_format: "dmy",
+      amount_sign: "positive_out",
+      detected: { date_format: "dmy", amount_sign: "positive_out" },
+      table: {
+        headers: ["Transaction Date", "Description", "Amount", "Category"],
+        has_headers: true,
+        columns: { date: "Transaction Date", description: "Description", amount: "Amount", category: "Category" },
+      },
+    });
+    expect(res.body.candidates).toEqual([
+      { date: "2026-01-15", description: "COFFEE", amount: -4.75, subcategory: "Dining", errors: [] },
+      { date: "2026-01-16", description: "GROCER", amount: -1052.1, subcategory: "Groceries", errors: [] },
+      { date: "2026-01-17", description: "PAYMENT THANK YOU", amount: 100, errors: [] },
+      { date: "32/01/2026", description: "BAD DATE", amount: -5, errors: ["Invalid date"] },
+      { date: "2026-01-19", description: "", amount: -7, errors: ["Missing description"] },
+    ]);
+
+    const asWritten = await parse(csv, "card.csv", { amountSign: "positive_in", dateFormat: "mdy" });
+    expect(asWritten.body).toMatchObject({ date_format: "mdy", amount_sign: "positive_in" });
+    expect(asWritten.body.candidates[0]).toMatchObject({ date: "15/01/2026", amount: 4.75, errors: ["Invalid date"] });
+  });
+
+  it("reads debit and credit columns with the mapping given", async () => {
+    const csv = "Date,Details,Paid Out,Paid In\n01/02/2026,RENT,1200.00,\n01/03/2026,SALARY,,2500.00\n";
+
+    const guessed = await parse(csv, "bank.csv");
+    expect(guessed.status).toBe(200);
+    expect(guessed.body.table.columns).toEqual({ date: "Date", debit: "Paid Out", credit: "Paid In" });
+    expect(guessed.body.candidates).toEqual([]);
+    expect(guessed.body.detected).toEqual({ date_format: null, amount_sign: null });
+
+    const columns = JSON.stringify({ date: "Date", description: "Details", debit: "Paid Out", credit: "Paid In" });
+    const res = await parse(csv, "bank.csv", { columns, dateFormat: "dmy" });
+    expect(res.status).toBe(200);
+    expect(res.body.candidates).toEqual([
+      { date: "2026-02-01", description: "RENT", amount: -1200, errors: [] },
+      { date: "2026-03-01", description: "SALARY", amount: 2500, errors: [] },
+    ]);
+
+    const missing = await parse(csv, "bank.csv", { columns: JSON.stringify({ date: "Posted", description: "Details", amount: "Paid Out" }) });
+    expect(missing.status).toBe(400);
+    expect(missing.body.error).toBe("Column date is not in the headers");
+    await parse(csv, "bank.csv", { columns: JSON.stringify({ date: "Date", description: "Details" }) }).expect(400);
+    await parse(csv, "bank.csv", { hasHeaders: "maybe" }).expect(400);
+    await parse(csv, "bank.csv", { dateFormat: "ymd" }).expect(400);
+  });
+
+  it("reads a headerless CSV file by its first row", async () => {
+    const res = await parse("01/05/2026,-4.75,Card,STARBUCKS\n01/06/2026,-20.00,Card,SHELL\n", "export.csv");
+    expect(res.body.table).toMatchObject({
+      headers: ["Column 1", "Column 2", "Column 3", "Column 4"],
+      has_headers: false,
+      columns: { date: "Column 1", amount: "Column 2", description: "Column 4" },
+    });
+    expect(res.body.candidates.map((c: { date: string; amount: number }) => [c.date, c.amount])).toEqual([
+      ["2026-01-05", -4.75],
+      ["2026-01-06", -20],
+    ]);
+  });
+
+  it("reads statement formats into the same candidates", async () => {
+    const ofx = [
+      "OFXHEADER:100",
+      "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD",
+      "<BANKACCTFROM><ACCTID>0001234567</BANKACCTFROM>",
+      "<BANKTRANLIST>",
+      "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260105<TRNAMT>-4.75<FITID>A1<NAME>STARBUCKS</STMTTRN>",
+      "</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+    ].join("\n");
+    const res = await parse(ofx, "download.qfx");
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ format: "ofx", account_number: "0001234567", currency: "USD", date_format: null });
+    expect(res.body.candidates).toEqual([
+      { date: "2026-01-05", description: "STARBUCKS", amount: -4.75, external_id: "A1", errors: [] },
+    ]);
+
+    const qif = "!Type:Bank\nD05/01/2026\nT-4.75\nPCOFFEE\n^\nD20/01/2026\nT12.00\nPREFUND\n^\n";
+    const read = await parse(qif, "export.txt");
+    expect(read.body).toMatchObject({ format: "qif", date_format: "dmy", detected: { date_format: "dmy" } });
+    expect(read.body.accounts).toHaveLength(1);
+    expect(read.body.candidates.map((c: { date: string }) => c.date)).toEqual(["2026-01-05", "2026-01-20"]);
+
+    const monthFirst = await parse(qif, "export.txt", { dateFormat: "mdy" });
+    expect(monthFirst.body.candidates[0].date).toBe("2026-05-01");
+    expect(monthFirst.body.detected.date_format).toBe("dmy");
+
+    await parse("<OFX></OFX>", "broken.ofx").expect(400);
+  });
+
+  it("requires a file", async () => {
+    const res = await request(app).post("/api/import/parse").set("Authorization", ALICE);
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("No file uploaded");
+  });
+});
+
+describe("audit history", () => {
+  const history = (path: string, auth = ALICE) => request(app).get(`/api/${path}/history`).set("Authorization", auth);
+
+  it("records a transaction edit with its before and after values", async () => {
+    const account = await createAccount(ALICE);
+    const tx = await createTransaction(ALICE, account.id);
+
+    await request(app)
+      .patch(`/api/transactions/${tx.id}`)
+      .set("Authorization", ALICE)
+      .send({ amount: "-30.00" })
+      .expect(200);
+    // Saving unchanged values leaves no entry
+    await request(app)
+      .patch(`/api/transactions/${tx.id}`)
+      .set("Authorization", ALICE)
+      .send({ amount: "-30.00" })
+      .expect(200);
+
+    const res = await history(`transactions/${tx.id}`);
+    expect(res.status).toBe(200);
+    expect(res.body.map((e: any) => e.action)).toEqual(["update", "create"]);
+    expect(res.body[0]).toMatchObject({
+      entity_type: "transaction",
+      entity_id: tx.id,
+      source: "PATCH /api/transactions/:id",
+      before: { amount: "-25.50", description: "Groceries" },
+      after: { amount: "-30.00", description: "Groceries" },
+    });
+
+    const others = await history(`transactions/${tx.id}`, BOB);
+    expect(others.body).toEqual([]);
+  });
+
+  it("keeps the history of every transaction removed by a date range delete", async () => {
+    const account = await createAccount(ALICE);
+    const inRange = await createTransaction(ALICE, account.id, { date: "2026-01-10" });
+    const outside = await createTransaction(ALICE, account.id, { date: "2026-02-10" });
+
+    await request(app)
+      .delete("/api/transactions/by-date-range")
+      .set("Authorization", ALICE)
+      .send({ accountId: account.id, startDate: "2026-01-01", endDate: "2026-01-31" })
+      .expect(200);
+
+    const res = await history(`transactions/${inRange.id}`);
+    expect(res.body[0]).toMatchObject({
+      action: "delete",
+      source: "DELETE /api/transactions/by-date-range",
+      before: { id: inRange.id, amount: "-25.50", date: "2026-01-10" },
+      after: null,
+    });
+    expect((await history(`transactions/${outside.id}`)).body.map((e: any) => e.action)).toEqual(["create"]);
+  });
+
+  it("records bulk imports and the transactions deleted with their account", async () => {
+    const account = await createAccount(ALICE);
+    await request(app)
+      .post("/api/transactions/bulk")
+      .set("Authorization", ALICE)
+      .send({
+        transactions: [
+          { account_id: account.id, description: "Coffee", amount: "-4.00", category: "expense", date: "2026-01-02" },
+        ],
+      })
+      .expect(201);
+    const [imported] = await storage.getTransactions("alice");
+
+    await request(app).delete(`/api/accounts/${account.id}`).set("Authorization", ALICE).expect(200);
+
+    const txHistory = await history(`transactions/${imported.id}`);
+    expect(txHistory.body.map((e: any) => [e.action, e.source])).toEqual([
+      ["delete", "DELETE /api/accounts/:id"],
+      ["create", "POST /api/transactions/bulk"],
+    ]);
+    const accountHistory = await history(`accounts/${account.id}`);
+    expect(accountHistory.body.map((e: any) => e.action)).toEqual(["delete", "create"]);
+  });
+
+  it("records both legs when one leg of a transfer is deleted", async () => {
+    const checking = await createAccount(ALICE);
+    const savings = await createAccount(ALICE, { name: "Savings" });
+    const transfer = await request(app)
+      .post("/api/transfers")
+      .set("Authorization", ALICE)
+      .send({ from_account_id: checking.id, to_account_id: savings.id, amount: "50.00", date: "2026-01-05" });
+    const [out, into] = transfer.body.transactions;
+
+    await request(app).delete(`/api/transactions/${out.id}`).set("Authorization", ALICE).expect(200);
+
+    for (const leg of [out, into]) {
+      const res = await history(`transactions/${leg.id}`);
+      expect(res.body.map((e: any) => [e.action, e.source])).toEqual([
+        ["delete", "DELETE /api/transactions/:id"],
+        ["create", "POST /api/transfers"],
+      ]);
+    }
+  });
+
+  it("records obligation changes", async () => {
+    const created = await request(app)
+      .post("/api/obligations")
+      .set("Authorization", ALICE)
+      .send({ name: "Rent", amount: "1500.00", type: "personal", category: "bill", due_date: "2026-02-01" });
+    await request(app).patch(`/api/obligations/${created.body.id}`).set("Authorization", ALICE).send({ is_paid: true });
+    await request(app).delete(`/api/obligations/${created.body.id}`).set("Authorization", ALICE).expect(200);
+
+    const res = await history(`obligations/${created.body.id}`);
+    expect(res.body.map((e: any) => e.action)).toEqual(["delete", "update", "create"]);
+    expect(res.body[1].before.is_paid).toBeFalsy();
+    expect(res.body[1].after.is_paid).toBe(true);
+  });
+});
+
+describe("/api/conversations", () => {
+  it("creates conversations with a default title and lists them per user", async () => {
+    const created = await request(app).post("/api/conversations").set("Authorization", ALICE).send({});
+    expect(created.status).toBe(201);
+    expect(created.body.title).toBe("New Chat");
+    await request(app).post("/api/conversations").set("Authorization", BOB).send({ title: "Bob's chat" });
+
+    const list = await request(app).get("/api/conversations").set("Authorization", ALICE);
+    expect(list.body.map((c: any) => c.title)).toEqual(["New Chat"]);
+  });
+
+  it("returns a conversation with its messages, hidden from other users", async () => {
+    const created = await request(app).post("/api/conversations").set("Authorization", ALICE).send({ title: "Budget" });
+
+    const res = await request(app).get(`/api/conversations/${created.body.id}`).set("Authorization", ALICE);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ title: "Budget", messages: [] });
+
+    await request(app).get(`/api/conversations/${created.body.id}`).set("Authorization", BOB).expect(404);
+  });
+
+  it("streams an assistant reply and stores both messages", async () => {
+    const created = await request(app).post("/api/conversations").set("Authorization", ALICE).send({ title: "Budget" });
+
+    const res = await request(app)
+      .post(`/api/conversations/${created.body.id}/messages`)
+      .set("Authorization", ALICE)
+      .send({ content: "How do I save?" });
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/event-stream");
+    expect(res.text).toContain(`data: ${JSON.stringify({ content: "Spend " })}`);
+    expect(res.text).toContain(`data: ${JSON.stringify({ done: true })}`);
+
+    const conversation = await request(app).get(`/api/conversations/${created.body.id}`).set("Authorization", ALICE);
+    expect(conversation.body.messages.map((m: any) => [m.role, m.content])).toEqual([
+      ["user", "How do I save?"],
+      ["assistant", "Spend less."],
+    ]);
+  });
+
+  it("refuses to post messages into another user's conversation", async () => {
+    const created = await request(app).post("/api/conversations").set("Authorization", ALICE).send({});
+
+    const res = await request(app)
+      .post(`/api/conversations/${created.body.id}/messages`)
+      .set("Authorization", BOB)
+      .send({ content: "Hello" });
+    expect(res.status).toBe(500);
+
+    const conversation = await request(app).get(`/api/conversations/${created.body.id}`).set("Authorization", ALICE);
+    expect(conversation.body.messages).toHaveLength(0);
+  });
+
+  it("deletes a conversation, but not another user's", async () => {
+    const created = await request(app).post("/api/conversations").set("Authorization", ALICE).send({});
+
+    await request(app).delete(`/api/conversations/${created.body.id}`).set("Authorization", BOB).expect(204);
+    await request(app).get(`/api/conversations/${created.body.id}`).set("Authorization", ALICE).expect(200);
+
+    await request(app).delete(`/api/conversations/${created.body.id}`).set("Authorization", ALICE).expect(204);
+    await request(app).get(`/api/conversations/${created.body.id}`).set("Authorization", ALICE).expect(404);
+  });
+});
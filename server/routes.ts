@@ -1,9 +1,34 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import { storage, InsertAccount, InsertTransaction, InsertObligation } from "./storage";
+import { randomUUID } from "crypto";
+import type {
+  AuditEntityType,
+  IStorage,
+  ImportProfileColumns,
+  InsertAccount,
+  InsertCategoryRule,
+  InsertImportProfile,
+  InsertSavedView,
+  InsertTransaction,
+  InsertTransactionSplit,
+  InsertTransfer,
+  NewTransaction,
+  Transaction,
+} from "./storage";
 import OpenAI from "openai";
 import multer from "multer";
-import { requireAuth, getUserId, type AuthRequest } from "./auth";
+import { requireAuth as authenticate, getUserId, type AuthRequest } from "./auth";
+import { isPagedRequest, parseTransactionQuery, parseViewFilters } from "./transaction-query";
+import { normalizeTag, normalizeTags } from "./tags";
+import type { FileStore } from "./file-store";
+import { auditSource, diffRecord, diffRecords, recordAudit } from "./audit";
+import { findDuplicates, type ImportCandidate } from "./duplicates";
+import { buildStatementBalanceCheck, statementToLedger } from "./ledger";
+import { applyRules, isSafePattern, isValidPattern } from "./categorization";
+import { suggestCategory, trainClassifier, trainingExamples } from "./classifier";
+import { OpenAICategorizer, runCategorizationJob, type Categorizer } from "./ai-categorization";
+import { readImportFile, type ImportOptions } from "./importers/pipeline";
+import { collectRecords, missingAccountIds, moveToTrash, removeAttachmentFiles, summarizeDeletion } from "./trash";
 import { supabase } from "./supabase";
 import Stripe from "stripe";
 
@@ -24,112 +49,316 @@ const openai = new OpenAI({
 
 const upload = multer({ storage: multer.memoryStorage() });
 
-interface ParsedPDFTransaction {
-  date: string;
-  description: string;
-  amount: number;
-  authCode?: string;
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Receipt and document types accepted as attachments, with the extension
+// their stored files get. SVG is left out since browsers run its scripts.
+const ATTACHMENT_TYPES: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/heic": ".heic",
+  "application/pdf": ".pdf",
+};
+
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE, files: 1 },
+});
+
+const MAX_EXTERNAL_ID_LENGTH = 255;
+
+const ACCOUNT_FIELDS = [
+  "name",
+  "type",
+  "category",
+  "balance",
+  "credit_limit",
+  "credit_score",
+  "interest_rate",
+  "due_day",
+  "statement_day",
+] as const;
+
+// Copies only the client-writable columns: `opening_balance` moves with
+// `balance` or by reconciling, and `id` and `user_id` never change.
+function pickAccountFields(row: any): Partial<InsertAccount> {
+  return Object.fromEntries(
+    ACCOUNT_FIELDS.filter((field) => row?.[field] !== undefined).map((field) => [field, row[field]])
+  );
 }
 
-function parseLiliStatementPDF(text: string): ParsedPDFTransaction[] {
-  const transactions: ParsedPDFTransaction[] = [];
-  const lines = text.split('\n');
-  
-  // Match transaction lines: MM/DD/YYYY followed by auth code and description
-  const txPattern = /^(\d{2}\/\d{2}\/\d{4})\s+(\d+)\s+(.+?)\s+\$?([-]?\d+\.?\d*)\s+\$?[-]?\d+\.?\d*$/;
-  
-  for (const line of lines) {
-    const trimmed = line.trim();
-    const match = trimmed.match(txPattern);
-    
-    if (match) {
-      const [, dateStr, authCode, description, amountStr] = match;
-      
-      // Parse date from MM/DD/YYYY to YYYY-MM-DD
-      const [month, day, year] = dateStr.split('/');
-      const formattedDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-      
-      // Parse amount
-      const amount = parseFloat(amountStr.replace(/[$,]/g, ''));
-      
-      transactions.push({
-        date: formattedDate,
-        description: description.trim(),
-        amount,
-        authCode,
-      });
-    }
+// Returns a reason the row cannot be imported, or null when it is usable.
+function validateTransactionInput(row: any, accountIds: Set<number>): string | null {
+  if (!row || typeof row !== "object") return "Invalid data";
+  if (!accountIds.has(Number(row.account_id))) return "Account not found";
+  if (!row.description || typeof row.description !== "string") return "Missing description";
+  if (row.amount === undefined || row.amount === null || isNaN(parseFloat(row.amount))) return "Invalid amount";
+  if (!row.category) return "Missing category";
+  if (typeof row.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(row.date)) return "Invalid date";
+  if (row.tags !== undefined && normalizeTags(row.tags) === null) return "Invalid tags";
+  if (row.external_id != null && (typeof row.external_id !== "string" || row.external_id.length > MAX_EXTERNAL_ID_LENGTH)) {
+    return "Invalid external_id";
   }
-  
-  return transactions;
+  return null;
 }
 
-function parseGenericStatementPDF(text: string): ParsedPDFTransaction[] {
-  const transactions: ParsedPDFTransaction[] = [];
-  const lines = text.split('\n');
-  
-  // Try to find lines that look like transactions
-  // Pattern: Date (various formats), description, amount
-  const datePatterns = [
-    /^(\d{2}\/\d{2}\/\d{4})/,  // MM/DD/YYYY
-    /^(\d{4}-\d{2}-\d{2})/,    // YYYY-MM-DD
-    /^(\d{2}-\d{2}-\d{4})/,    // MM-DD-YYYY
-  ];
-  
-  for (const line of lines) {
-    const trimmed = line.trim();
-    
-    for (const pattern of datePatterns) {
-      const dateMatch = trimmed.match(pattern);
-      if (dateMatch) {
-        // Try to extract amount (look for dollar amounts)
-        const amountMatch = trimmed.match(/\$?([-]?\d{1,3}(?:,\d{3})*\.?\d{0,2})(?:\s|$)/g);
-        
-        if (amountMatch && amountMatch.length > 0) {
-          const dateStr = dateMatch[1];
-          let formattedDate = dateStr;
-          
-          // Convert to YYYY-MM-DD format
-          if (dateStr.includes('/')) {
-            const [month, day, year] = dateStr.split('/');
-            formattedDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-          } else if (dateStr.match(/^\d{2}-\d{2}-\d{4}$/)) {
-            const [month, day, year] = dateStr.split('-');
-            formattedDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-          }
-          
-          // Get the first amount found
-          const amountStr = amountMatch[0].replace(/[$,\s]/g, '');
-          const amount = parseFloat(amountStr);
-          
-          // Extract description (everything between date and amount)
-          const dateEndIdx = trimmed.indexOf(dateMatch[1]) + dateMatch[1].length;
-          const amountStartIdx = trimmed.lastIndexOf(amountMatch[amountMatch.length - 1]);
-          let description = trimmed.substring(dateEndIdx, amountStartIdx).trim();
-          
-          // Clean up description (remove auth codes if present)
-          description = description.replace(/^\d+\s+/, '').trim();
-          
-          if (description && !isNaN(amount)) {
-            transactions.push({
-              date: formattedDate,
-              description,
-              amount,
-            });
-          }
-        }
-        break;
-      }
+const TRANSACTION_FIELDS = [
+  "account_id",
+  "description",
+  "amount",
+  "category",
+  "subcategory",
+  "date",
+  "tags",
+  "external_id",
+] as const;
+
+// Copies only the client-writable columns, so e.g. `transfer_id` can only be
+// set by creating a transfer.
+function pickTransactionFields(row: any): Partial<InsertTransaction> {
+  const picked: Partial<InsertTransaction> = Object.fromEntries(
+    TRANSACTION_FIELDS.filter((field) => row?.[field] !== undefined).map((field) => [field, row[field]])
+  );
+  if (picked.account_id !== undefined) {
+    picked.account_id = Number(picked.account_id);
+  }
+  if (picked.tags !== undefined) {
+    // Invalid tags are kept as sent: every route runs validateTransactionInput,
+    // which rejects them, before writing a picked row
+    picked.tags = normalizeTags(picked.tags) ?? picked.tags;
+  }
+  return picked;
+}
+
+// Split lines must each be a non-zero amount with the transaction's sign,
+// and together add up to the transaction amount exactly.
+function validateSplits(splits: unknown, amount: string): string | null {
+  if (!Array.isArray(splits)) return "Splits must be an array";
+  if (splits.length === 0) return null;
+
+  const toCents = (value: unknown) => Math.round(Number(value) * 100);
+  const totalCents = toCents(amount);
+  let sumCents = 0;
+  for (const split of splits) {
+    if (!split || typeof split !== "object") return "Invalid split";
+    const cents = toCents(split.amount);
+    if (isNaN(cents) || cents === 0) return "Invalid split amount";
+    if (Math.sign(cents) !== Math.sign(totalCents)) return "Split amounts must have the transaction's sign";
+    if (!split.subcategory || typeof split.subcategory !== "string") return "Missing split subcategory";
+    if (split.type !== "personal" && split.type !== "business") return "Split type must be personal or business";
+    sumCents += cents;
+  }
+  if (sumCents !== totalCents) return "Split amounts must add up to the transaction amount";
+  return null;
+}
+
+// Split lines as stored: the amount fixed to cents
+function pickSplits(splits: any[]): InsertTransactionSplit[] {
+  return splits.map((split) => ({
+    amount: Number(split.amount).toFixed(2),
+    subcategory: split.subcategory,
+    type: split.type,
+  }));
+}
+
+function validateSavedViewInput(row: any): string | null {
+  if (!row || typeof row !== "object") return "Invalid data";
+  if (!row.name || typeof row.name !== "string" || !row.name.trim()) return "Missing name";
+  if (row.scope !== "personal" && row.scope !== "business") return "Scope must be personal or business";
+  const parsed = parseViewFilters(row.filters);
+  return "error" in parsed ? parsed.error : null;
+}
+
+// Identifies an export layout by its header row, ignoring case and spacing
+function headerSignature(headers: string[]): string {
+  return headers.map((h) => h.trim().replace(/\s+/g, " ").toLowerCase()).join("|");
+}
+
+function isHeaderRow(headers: unknown): headers is string[] {
+  return Array.isArray(headers) && headers.length > 0 && headers.every((h) => typeof h === "string");
+}
+
+const PROFILE_COLUMNS: (keyof ImportProfileColumns)[] = ["date", "description", "amount", "debit", "credit", "category"];
+
+function validateImportProfileInput(row: any, accountIds: Set<number>): string | null {
+  if (!row || typeof row !== "object") return "Invalid data";
+  if (!accountIds.has(Number(row.account_id))) return "Account not found";
+  if (!isHeaderRow(row.headers)) return "headers must be a non-empty array of strings";
+  const columns = row.columns;
+  if (!columns || typeof columns !== "object") return "Missing columns";
+  for (const field of PROFILE_COLUMNS) {
+    const header = columns[field];
+    if (header === undefined || header === "") continue;
+    if (typeof header !== "string" || !row.headers.includes(header)) return `Column ${field} is not in the headers`;
+  }
+  if (!columns.date) return "Missing date column";
+  if (!columns.description) return "Missing description column";
+  if (!columns.amount && !(columns.debit && columns.credit)) return "Map an amount column or both debit and credit columns";
+  if (row.date_format !== "mdy" && row.date_format !== "dmy") return "date_format must be mdy or dmy";
+  if (row.amount_sign !== "positive_in" && row.amount_sign !== "positive_out") {
+    return "amount_sign must be positive_in or positive_out";
+  }
+  return null;
+}
+
+// Only the mapped fields are kept; blank ones mean "not mapped"
+function pickImportProfile(row: any): InsertImportProfile {
+  const columns: ImportProfileColumns = { date: row.columns.date, description: row.columns.description };
+  for (const field of PROFILE_COLUMNS) {
+    if (row.columns[field]) columns[field] = row.columns[field];
+  }
+  return {
+    account_id: Number(row.account_id),
+    header_signature: headerSignature(row.headers),
+    headers: row.headers,
+    columns,
+    date_format: row.date_format,
+    amount_sign: row.amount_sign,
+  };
+}
+
+function validateTransferInput(row: any, accountIds: Set<number>): string | null {
+  if (!row || typeof row !== "object") return "Invalid data";
+  if (!accountIds.has(Number(row.from_account_id))) return "From account not found";
+  if (!accountIds.has(Number(row.to_account_id))) return "To account not found";
+  if (Number(row.from_account_id) === Number(row.to_account_id)) return "Accounts must differ";
+  if (!(parseFloat(row.amount) > 0)) return "Amount must be positive";
+  if (!row.description || typeof row.description !== "string") return "Missing description";
+  if (typeof row.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(row.date)) return "Invalid date";
+  return null;
+}
+
+// Reads the multipart fields of POST /api/import/parse. `columns` is sent
+// as JSON since form fields are text.
+function parseImportOptions(body: any): ImportOptions | { error: string } {
+  const { sheet, hasHeaders, columns, dateFormat, amountSign } = body ?? {};
+  const options: ImportOptions = {};
+  if (sheet) options.sheet = String(sheet);
+  if (hasHeaders != null && hasHeaders !== "") {
+    if (hasHeaders !== "true" && hasHeaders !== "false") return { error: "hasHeaders must be true or false" };
+    options.hasHeaders = hasHeaders === "true";
+  }
+  if (columns) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(columns);
+    } catch {
+      parsed = null;
+    }
+    if (!parsed || typeof parsed !== "object" || Object.values(parsed).some((v) => typeof v !== "string")) {
+      return { error: "columns must be a JSON object of header names" };
+    }
+    const mapped = parsed as Record<string, string>;
+    if (!mapped.date || !mapped.description || !(mapped.amount || (mapped.debit && mapped.credit))) {
+      return { error: "Map an amount column or both debit and credit columns" };
     }
+    options.columns = {
+      date: mapped.date,
+      description: mapped.description,
+      ...(mapped.amount ? { amount: mapped.amount } : { debit: mapped.debit, credit: mapped.credit }),
+      ...(mapped.category ? { category: mapped.category } : {}),
+    };
+  }
+  if (dateFormat) {
+    if (dateFormat !== "mdy" && dateFormat !== "dmy") return { error: "dateFormat must be mdy or dmy" };
+    options.dateFormat = dateFormat;
+  }
+  if (amountSign) {
+    if (amountSign !== "positive_in" && amountSign !== "positive_out") {
+      return { error: "amountSign must be positive_in or positive_out" };
+    }
+    options.amountSign = amountSign;
+  }
+  return options;
+}
+
+const MAX_RULE_PATTERN_LENGTH = 200;
+
+// Transactions sent to the AI service by one categorization job
+const MAX_CATEGORIZATION_JOB_SIZE = 1000;
+
+// Blank fields of a rule are left unset
+function isSet(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== "";
+}
+
+// Returns a reason the rule cannot be saved, or null. Updates are checked
+// merged with the rule they change.
+function validateCategoryRuleInput(row: any, accountIds: Set<number>): string | null {
+  if (!row || typeof row !== "object") return "Invalid data";
+  if (!Number.isInteger(row.priority)) return "priority must be a whole number";
+  if (row.match_type !== "contains" && row.match_type !== "regex") return "match_type must be contains or regex";
+  if (isSet(row.pattern)) {
+    if (typeof row.pattern !== "string" || row.pattern.length > MAX_RULE_PATTERN_LENGTH) return "Invalid pattern";
+    if (row.match_type === "regex" && !isValidPattern(row.pattern)) return "pattern is not a valid regular expression";
+    if (row.match_type === "regex" && !isSafePattern(row.pattern)) return "pattern could take too long to match";
+  }
+  if (isSet(row.account_id) && !accountIds.has(Number(row.account_id))) return "Account not found";
+  for (const field of ["min_amount", "max_amount"]) {
+    if (isSet(row[field]) && !(Number(row[field]) >= 0)) return `${field} must be a number of zero or more`;
+  }
+  if (isSet(row.min_amount) && isSet(row.max_amount) && Number(row.min_amount) > Number(row.max_amount)) {
+    return "min_amount is more than max_amount";
   }
-  
-  return transactions;
+  if (typeof row.subcategory !== "string" || !row.subcategory.trim()) return "Missing subcategory";
+  if (isSet(row.type) && row.type !== "personal" && row.type !== "business") return "type must be personal or business";
+  if (!isSet(row.pattern) && !isSet(row.account_id) && !isSet(row.min_amount) && !isSet(row.max_amount)) {
+    return "A rule needs a pattern, an account or an amount range";
+  }
+  return null;
+}
+
+function pickCategoryRule(row: any): InsertCategoryRule {
+  return {
+    priority: row.priority,
+    match_type: row.match_type,
+    pattern: isSet(row.pattern) ? row.pattern : null,
+    account_id: isSet(row.account_id) ? Number(row.account_id) : null,
+    min_amount: isSet(row.min_amount) ? Number(row.min_amount).toFixed(2) : null,
+    max_amount: isSet(row.max_amount) ? Number(row.max_amount).toFixed(2) : null,
+    subcategory: row.subcategory.trim(),
+    type: isSet(row.type) ? row.type : null,
+  };
+}
+
+// The user's rules applied to a row about to be created
+async function categorize(storage: IStorage, userId: string, row: InsertTransaction) {
+  const account = await storage.getAccount(userId, Number(row.account_id));
+  if (!account || typeof row.description !== "string") return undefined;
+  return applyRules(await storage.getCategoryRules(userId), row, account.type);
 }
 
+// The routes serving GET /api/<path>/:id/history for each audited record type
+const HISTORY_ROUTES: Record<string, AuditEntityType> = {
+  accounts: "account",
+  transactions: "transaction",
+  obligations: "obligation",
+};
+
 export async function registerRoutes(
   httpServer: Server,
-  app: Express
+  app: Express,
+  storage: IStorage,
+  files: FileStore,
+  categorizer: Categorizer = new OpenAICategorizer(openai)
 ): Promise<Server> {
+  // Users with a categorization job running in this process
+  const categorizingUsers = new Set<string>();
+
+  // Auth always goes through Supabase; the storage backend then learns of the user
+  const requireAuth: RequestHandler = (req: AuthRequest, res, next) =>
+    authenticate(req, res, async (err?: unknown) => {
+      if (err) return next(err);
+      try {
+        await storage.ensureUser(getUserId(req));
+        next();
+      } catch (error) {
+        console.error("Error recording user:", error);
+        res.status(500).json({ error: "Failed to load user" });
+      }
+    });
 
   // Auth routes
   app.post("/api/auth/signup", async (req, res) => {
@@ -244,7 +473,8 @@ export async function registerRoutes(
   app.post("/api/accounts", requireAuth, async (req: AuthRequest, res) => {
     try {
       const userId = getUserId(req);
-      const account = await storage.createAccount(userId, req.body);
+      const account = await storage.createAccount(userId, pickAccountFields(req.body) as InsertAccount);
+      await recordAudit(storage, userId, diffRecord("account", undefined, account, auditSource(req)));
       res.status(201).json(account);
     } catch (error) {
       console.error("Error creating account:", error);
@@ -256,10 +486,12 @@ export async function registerRoutes(
     try {
       const userId = getUserId(req);
       const id = parseInt(req.params.id);
-      const account = await storage.updateAccount(userId, id, req.body);
+      const existing = await storage.getAccount(userId, id);
+      const account = existing && (await storage.updateAccount(userId, id, pickAccountFields(req.body)));
       if (!account) {
         return res.status(404).json({ error: "Account not found" });
       }
+      await recordAudit(storage, userId, diffRecord("account", existing, account, auditSource(req)));
       res.json(account);
     } catch (error) {
       console.error("Error updating account:", error);
@@ -271,20 +503,121 @@ export async function registerRoutes(
     try {
       const userId = getUserId(req);
       const id = parseInt(req.params.id);
-      await storage.deleteAccount(userId, id);
-      res.status(204).send();
+      const account = await storage.getAccount(userId, id);
+      if (!account) {
+        return res.status(204).send();
+      }
+
+      // The account takes its transactions (and both legs of its transfers)
+      // with it, and obligations paid from it are unlinked
+      const obligations = (await storage.getObligations(userId)).filter((o) => o.account_id === id);
+      const records = await collectRecords(storage, userId, {
+        accounts: [account],
+        transactions: await storage.getTransactionsByAccount(userId, id),
+        unlinked_obligations: obligations,
+      });
+      const deletion = await moveToTrash(storage, userId, "account", account.name, records, () =>
+        storage.deleteAccount(userId, id)
+      );
+      const remainingObligations = await storage.getObligations(userId);
+
+      const source = auditSource(req);
+      await recordAudit(storage, userId, [
+        ...diffRecord("account", account, undefined, source),
+        ...diffRecords("transaction", records.transactions, [], source),
+        ...diffRecords(
+          "obligation",
+          obligations,
+          remainingObligations.filter((o) => obligations.some((before) => before.id === o.id)),
+          source
+        ),
+      ]);
+      res.json({ deletion_id: deletion.id });
     } catch (error) {
       console.error("Error deleting account:", error);
       res.status(500).json({ error: "Failed to delete account" });
     }
   });
 
+  // Recompute the balance from the opening balance plus the ledger, report
+  // the drift against the stored balance and optionally write the fix back
+  app.post("/api/accounts/:id/reconcile", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const { openingBalance, apply } = req.body ?? {};
+
+      if (openingBalance !== undefined && openingBalance !== null && isNaN(parseFloat(openingBalance))) {
+        return res.status(400).json({ error: "openingBalance must be a number" });
+      }
+
+      const existing = await storage.getAccount(userId, id);
+      const report = await storage.reconcileAccount(userId, id, {
+        opening_balance: openingBalance ?? undefined,
+        apply: apply === true,
+      });
+      if (!report) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+      if (report.applied) {
+        const account = await storage.getAccount(userId, id);
+        await recordAudit(storage, userId, diffRecord("account", existing, account, auditSource(req)));
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error reconciling account:", error);
+      res.status(500).json({ error: "Failed to reconcile account" });
+    }
+  });
+
+  // Checks a statement's closing balance against the account as it will be
+  // once the rows being imported are added; nothing is written.
+  app.post("/api/accounts/:id/statement-check", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const { closingBalance, balanceDate, transactions = [] } = req.body ?? {};
+
+      if (closingBalance === undefined || closingBalance === null || isNaN(parseFloat(closingBalance))) {
+        return res.status(400).json({ error: "closingBalance must be a number" });
+      }
+      if (typeof balanceDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(balanceDate)) {
+        return res.status(400).json({ error: "balanceDate must be a YYYY-MM-DD date" });
+      }
+      const validRow = (row: any) => row && !isNaN(parseFloat(row.amount)) && typeof row.date === "string";
+      if (!Array.isArray(transactions) || !transactions.every(validRow)) {
+        return res.status(400).json({ error: "transactions must be rows with an amount and a date" });
+      }
+
+      const account = await storage.getAccount(userId, id);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+
+      const ledger = await storage.getTransactionsByAccount(userId, id);
+      res.json(
+        buildStatementBalanceCheck(account, ledger, transactions, { amount: closingBalance, date: balanceDate })
+      );
+    } catch (error) {
+      console.error("Error checking statement balance:", error);
+      res.status(500).json({ error: "Failed to check statement balance" });
+    }
+  });
+
   // Transactions API
   app.get("/api/transactions", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const transactions = await storage.getTransactions(userId);
-      res.json(transactions);
+      if (!isPagedRequest(req.query)) {
+        const transactions = await storage.getTransactions(userId);
+        return res.json(transactions);
+      }
+
+      const parsed = parseTransactionQuery(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      res.json(await storage.queryTransactions(userId, parsed.query));
     } catch (error) {
       console.error("Error fetching transactions:", error);
       res.status(500).json({ error: "Failed to fetch transactions" });
@@ -309,7 +642,19 @@ export async function registerRoutes(
   app.post("/api/transactions", requireAuth, async (req: AuthRequest, res) => {
     try {
       const userId = getUserId(req);
-      const transaction = await storage.createTransaction(userId, req.body);
+      const accountIds = new Set((await storage.getAccounts(userId)).map((a) => a.id));
+      const error = validateTransactionInput(req.body, accountIds);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const row = pickTransactionFields(req.body) as InsertTransaction;
+      // Rows without a subcategory are categorized by the user's rules
+      const outcome = row.subcategory ? undefined : await categorize(storage, userId, row);
+      if (outcome) row.subcategory = outcome.subcategory;
+
+      const transaction = await storage.createTransaction(userId, { ...row, splits: outcome?.splits });
+      await recordAudit(storage, userId, diffRecord("transaction", undefined, transaction, auditSource(req)));
       res.status(201).json(transaction);
     } catch (error) {
       console.error("Error creating transaction:", error);
@@ -317,6 +662,51 @@ export async function registerRoutes(
     }
   });
 
+  // Edit a transaction; moving it to another account or changing its amount
+  // shifts the balance of both the old and the new account. `splits` replaces
+  // the split lines ([] removes them) and `tags` the tags
+  app.patch("/api/transactions/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const existing = await storage.getTransaction(userId, id);
+      if (!existing) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+
+      if (existing.transfer_id != null) {
+        return res.status(409).json({ error: "This transaction is part of a transfer; edit the transfer instead" });
+      }
+
+      const changes = pickTransactionFields(req.body);
+      const splits = req.body?.splits;
+
+      const accountIds = new Set((await storage.getAccounts(userId)).map((a) => a.id));
+      const updated = { ...existing, ...changes };
+      // Existing splits have to keep adding up when only the amount changes;
+      // any other `splits` sent, null included, must be an array
+      const error =
+        validateTransactionInput(updated, accountIds) ??
+        validateSplits(splits === undefined ? existing.splits : splits, String(updated.amount));
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const transaction = await storage.updateTransaction(userId, id, {
+        ...changes,
+        splits: splits === undefined ? undefined : pickSplits(splits),
+      });
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      await recordAudit(storage, userId, diffRecord("transaction", existing, transaction, auditSource(req)));
+      res.json(transaction);
+    } catch (error) {
+      console.error("Error updating transaction:", error);
+      res.status(500).json({ error: "Failed to update transaction" });
+    }
+  });
+
   // Delete transactions by date range (for statement period deletion)
   // This route MUST come before /api/transactions/:id to avoid matching "by-date-range" as an ID
   app.delete("/api/transactions/by-date-range", requireAuth, async (req, res) => {
@@ -328,87 +718,322 @@ export async function registerRoutes(
         return res.status(400).json({ error: "accountId, startDate, and endDate are required" });
       }
 
-      const deletedCount = await storage.deleteTransactionsByDateRange(
-        userId,
-        parseInt(accountId),
-        startDate,
-        endDate
+      const account = await storage.getAccount(userId, parseInt(accountId));
+      const inRange = (await storage.getTransactionsByAccount(userId, parseInt(accountId))).filter(
+        (t) => t.date >= startDate && t.date <= endDate
       );
+      if (!account || inRange.length === 0) {
+        return res.json({ deleted: 0, deletion_id: null });
+      }
+
+      const records = await collectRecords(storage, userId, { transactions: inRange });
+      let deletedCount = 0;
+      const label = `${inRange.length} ${inRange.length === 1 ? "transaction" : "transactions"} from ${account.name}, ${startDate} to ${endDate}`;
+      const deletion = await moveToTrash(storage, userId, "transactions", label, records, async () => {
+        deletedCount = await storage.deleteTransactionsByDateRange(userId, account.id, startDate, endDate);
+      });
+      await recordAudit(storage, userId, diffRecords("transaction", records.transactions, [], auditSource(req)));
 
-      res.json({ deleted: deletedCount });
+      res.json({ deleted: deletedCount, deletion_id: deletion.id });
     } catch (error) {
       console.error("Error deleting transactions:", error);
       res.status(500).json({ error: "Failed to delete transactions" });
     }
   });
 
+  // Deleting one leg of a transfer deletes the whole transfer
   app.delete("/api/transactions/:id", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req);
       const id = parseInt(req.params.id);
-      await storage.deleteTransaction(userId, id);
-      res.status(204).send();
+      const transaction = await storage.getTransaction(userId, id);
+      if (!transaction) {
+        return res.status(204).send();
+      }
+
+      const records = await collectRecords(storage, userId, { transactions: [transaction] });
+      const deletion = await moveToTrash(storage, userId, "transactions", transaction.description, records, () =>
+        storage.deleteTransaction(userId, id)
+      );
+      await recordAudit(storage, userId, diffRecords("transaction", records.transactions, [], auditSource(req)));
+      res.json({ deletion_id: deletion.id });
     } catch (error) {
       console.error("Error deleting transaction:", error);
       res.status(500).json({ error: "Failed to delete transaction" });
     }
   });
 
-  // Parse PDF statement
-  app.post("/api/parse-pdf", requireAuth, upload.single('file'), async (req, res) => {
+  // Upload a receipt or document (multipart field "file") against a transaction
+  app.post(
+    "/api/transactions/:id/attachments",
+    requireAuth,
+    (req, res, next) => {
+      attachmentUpload.single("file")(req, res, (err: unknown) => {
+        if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({ error: "Attachments are limited to 10 MB" });
+        }
+        next(err);
+      });
+    },
+    async (req, res) => {
+      try {
+        const userId = getUserId(req);
+        const id = parseInt(req.params.id);
+        const transaction = await storage.getTransaction(userId, id);
+        if (!transaction) {
+          return res.status(404).json({ error: "Transaction not found" });
+        }
+        // Transfer legs are rewritten whenever the transfer changes
+        if (transaction.transfer_id != null) {
+          return res.status(409).json({ error: "Attach files to a regular transaction, not a transfer" });
+        }
+
+        if (!req.file) {
+          return res.status(400).json({ error: "No file uploaded" });
+        }
+        const extension = ATTACHMENT_TYPES[req.file.mimetype];
+        if (!extension) {
+          return res.status(400).json({ error: "Attachments must be images or PDFs" });
+        }
+
+        const storageKey = `${userId}/${id}/${randomUUID()}${extension}`;
+        await files.put(storageKey, req.file.buffer, req.file.mimetype);
+        try {
+          const attachment = await storage.createAttachment(userId, {
+            transaction_id: id,
+            file_name: req.file.originalname,
+            content_type: req.file.mimetype,
+            size: req.file.size,
+            storage_key: storageKey,
+          });
+          res.status(201).json(attachment);
+        } catch (error) {
+          await files.delete(storageKey);
+          throw error;
+        }
+      } catch (error) {
+        console.error("Error uploading attachment:", error);
+        res.status(500).json({ error: "Failed to upload attachment" });
+      }
+    }
+  );
+
+  app.get("/api/attachments/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const attachment = await storage.getAttachment(userId, id);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      res.json(attachment);
+    } catch (error) {
+      console.error("Error fetching attachment:", error);
+      res.status(500).json({ error: "Failed to fetch attachment" });
+    }
+  });
+
+  app.get("/api/attachments/:id/content", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const attachment = await storage.getAttachment(userId, id);
+      const body = attachment && (await files.get(attachment.storage_key));
+      if (!attachment || !body) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      res
+        .type(attachment.content_type)
+        .set("X-Content-Type-Options", "nosniff")
+        .set("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`)
+        .send(body);
+    } catch (error) {
+      console.error("Error fetching attachment content:", error);
+      res.status(500).json({ error: "Failed to fetch attachment" });
+    }
+  });
+
+  app.delete("/api/attachments/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const attachment = await storage.getAttachment(userId, id);
+      if (attachment) {
+        await storage.deleteAttachment(userId, id);
+        await files.delete(attachment.storage_key);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ error: "Failed to delete attachment" });
+    }
+  });
+
+  // Read an uploaded statement of any supported format into candidate rows
+  // for the import preview. The format is detected from the file. CSV files
+  // and worksheets come back with their table and the columns used; until
+  // the columns are complete there are no candidates.
+  app.post("/api/import/parse", requireAuth, upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
+      const options = parseImportOptions(req.body);
+      if ("error" in options) {
+        return res.status(400).json({ error: options.error });
+      }
 
-      const pdfData = await parsePDF(req.file.buffer);
-      const text = pdfData.text;
-      
-      // Try Lili format first
-      let transactions = parseLiliStatementPDF(text);
-      
-      // If no transactions found, try generic parser
-      if (transactions.length === 0) {
-        transactions = parseGenericStatementPDF(text);
+      const result = await readImportFile(
+        { name: req.file.originalname, buffer: req.file.buffer },
+        options,
+        async (buffer) => (await parsePDF(buffer)).text
+      );
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      res.status(500).json({ error: "Failed to read import file" });
+    }
+  });
+
+  // Flags rows of an import that are probably already recorded, so the
+  // preview can skip them. Rows that could not be imported are never flagged;
+  // amounts are signed as on the statement, as for the bulk import.
+  app.post("/api/transactions/duplicates", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { transactions } = req.body;
+      if (!Array.isArray(transactions)) {
+        return res.status(400).json({ error: "transactions must be an array" });
       }
 
-      res.json({
-        success: true,
-        transactions,
-        rawText: text.substring(0, 2000), // Preview for debugging
+      const accounts = new Map((await storage.getAccounts(userId)).map((a) => [a.id, a]));
+      const accountIds = new Set(accounts.keys());
+      const indexes: number[] = [];
+      const candidates: ImportCandidate[] = [];
+      transactions.forEach((row, i) => {
+        if (validateTransactionInput(row, accountIds) === null) {
+          const account = accounts.get(Number(row.account_id))!;
+          indexes.push(i);
+          candidates.push({ ...row, account_id: account.id, amount: statementToLedger(account, row.amount) });
+        }
       });
+
+      const existing: Transaction[] = [];
+      for (const accountId of Array.from(new Set(candidates.map((c) => c.account_id)))) {
+        existing.push(...(await storage.getTransactionsByAccount(userId, accountId)));
+      }
+
+      const duplicates = findDuplicates(existing, candidates).map((match) => ({ ...match, index: indexes[match.index] }));
+      res.json({ duplicates });
     } catch (error) {
-      console.error("Error parsing PDF:", error);
-      res.status(500).json({ error: "Failed to parse PDF" });
+      console.error("Error checking for duplicate transactions:", error);
+      res.status(500).json({ error: "Failed to check for duplicates" });
     }
   });
 
-  // Bulk import transactions (for CSV import)
-  app.post("/api/transactions/bulk", requireAuth, async (req, res) => {
+  // Suggests a subcategory and use for each row from the user's categorized
+  // transactions. Rows with nothing to go on get null.
+  app.post("/api/transactions/suggest-categories", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req);
       const { transactions } = req.body;
+      if (!Array.isArray(transactions)) {
+        return res.status(400).json({ error: "transactions must be an array" });
+      }
+
+      const accountTypes = new Map((await storage.getAccounts(userId)).map((a) => [a.id, a.type]));
+      const classifier = trainClassifier(trainingExamples(await storage.getTransactions(userId), accountTypes));
+      const suggestions = transactions.map((row) =>
+        typeof row?.description === "string" ? suggestCategory(classifier, row.description) ?? null : null
+      );
+      res.json({ suggestions });
+    } catch (error) {
+      console.error("Error suggesting categories:", error);
+      res.status(500).json({ error: "Failed to suggest categories" });
+    }
+  });
+
+  // Bulk import transactions (for CSV import). Rows may carry `splits`, as
+  // QIF exports do. Amounts are signed as on the statement and negated for
+  // credit card and loan accounts, whose ledger holds the amount owed
+  app.post("/api/transactions/bulk", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { transactions, file_name, parser, account_id } = req.body;
       
       if (!Array.isArray(transactions) || transactions.length === 0) {
         return res.status(400).json({ error: "No transactions provided" });
       }
+      if (file_name != null && typeof file_name !== "string") {
+        return res.status(400).json({ error: "file_name must be a string" });
+      }
+      if (parser != null && typeof parser !== "string") {
+        return res.status(400).json({ error: "parser must be a string" });
+      }
 
-      const imported: any[] = [];
+      const accounts = await storage.getAccounts(userId);
+      const accountIds = new Set(accounts.map((a) => a.id));
+      if (account_id != null && !accountIds.has(Number(account_id))) {
+        return res.status(400).json({ error: "Account not found" });
+      }
+      const accountsById = new Map(accounts.map((a) => [a.id, a]));
+      const rules = await storage.getCategoryRules(userId);
+      const valid: NewTransaction[] = [];
       const errors: { index: number; error: string }[] = [];
 
-      for (let i = 0; i < transactions.length; i++) {
-        try {
-          const transaction = await storage.createTransaction(userId, transactions[i]);
-          imported.push(transaction);
-        } catch (err) {
-          errors.push({ index: i, error: err instanceof Error ? err.message : "Invalid data" });
+      transactions.forEach((row, i) => {
+        const error =
+          validateTransactionInput(row, accountIds) ??
+          (row.splits != null ? validateSplits(row.splits, String(row.amount)) : null);
+        if (error) {
+          errors.push({ index: i, error });
+        } else {
+          const picked = pickTransactionFields(row) as InsertTransaction;
+          const account = accountsById.get(picked.account_id)!;
+          // Rows come signed as the statement prints them
+          picked.amount = statementToLedger(account, picked.amount);
+          let splits = row.splits?.length
+            ? pickSplits(row.splits).map((split) => ({ ...split, amount: statementToLedger(account, split.amount) }))
+            : undefined;
+          // Rows the file left uncategorized go through the user's rules
+          const outcome = picked.subcategory || splits ? undefined : applyRules(rules, picked, account.type);
+          if (outcome) {
+            picked.subcategory = outcome.subcategory;
+            splits = outcome.splits;
+          }
+          valid.push({ ...picked, splits });
         }
+      });
+
+      // Valid rows go in as one import batch so the balance moves all at once
+      // or not at all, and the whole import can be rolled back later
+      let batchId: number | null = null;
+      let imported: Transaction[] = [];
+      if (valid.length > 0) {
+        const rowAccountIds = new Set(valid.map((t) => t.account_id));
+        const batchAccountId = account_id != null
+          ? Number(account_id)
+          : rowAccountIds.size === 1 ? valid[0].account_id : null;
+        const created = await storage.createImportBatch(
+          userId,
+          { account_id: batchAccountId, file_name: file_name || null, parser: parser || null },
+          valid
+        );
+        batchId = created.batch.id;
+        imported = created.transactions;
       }
+      await recordAudit(storage, userId, diffRecords("transaction", [], imported, auditSource(req)));
 
       res.status(201).json({
         imported: imported.length,
         errors: errors.length,
         details: errors.length > 0 ? errors : undefined,
+        batch_id: batchId,
       });
     } catch (error) {
       console.error("Error bulk importing transactions:", error);
@@ -416,71 +1041,801 @@ export async function registerRoutes(
     }
   });
 
-  // Obligations API
-  app.get("/api/obligations", requireAuth, async (req, res) => {
+  // Import history
+  app.get("/api/import-batches", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const obligations = await storage.getObligations(userId);
-      res.json(obligations);
+      const batches = await storage.getImportBatches(userId);
+      res.json(batches);
     } catch (error) {
-      console.error("Error fetching obligations:", error);
-      res.status(500).json({ error: "Failed to fetch obligations" });
+      console.error("Error fetching import batches:", error);
+      res.status(500).json({ error: "Failed to fetch import batches" });
     }
   });
 
-  app.get("/api/obligations/:id", requireAuth, async (req, res) => {
+  app.get("/api/import-batches/:id/transactions", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req);
       const id = parseInt(req.params.id);
-      const obligation = await storage.getObligation(userId, id);
-      if (!obligation) {
-        return res.status(404).json({ error: "Obligation not found" });
+      const batch = await storage.getImportBatch(userId, id);
+      if (!batch) {
+        return res.status(404).json({ error: "Import batch not found" });
       }
-      res.json(obligation);
+
+      const transactions = await storage.getTransactionsByImportBatch(userId, id);
+      res.json(transactions);
     } catch (error) {
-      console.error("Error fetching obligation:", error);
-      res.status(500).json({ error: "Failed to fetch obligation" });
+      console.error("Error fetching import batch transactions:", error);
+      res.status(500).json({ error: "Failed to fetch import batch transactions" });
     }
   });
 
-  app.post("/api/obligations", requireAuth, async (req: AuthRequest, res) => {
+  // Rolls back a whole import by moving the transactions it created (and
+  // that still exist) to the trash. The batch itself stays in the history.
+  app.post("/api/import-batches/:id/rollback", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const obligation = await storage.createObligation(userId, req.body);
-      res.status(201).json(obligation);
+      const id = parseInt(req.params.id);
+      const batch = await storage.getImportBatch(userId, id);
+      if (!batch) {
+        return res.status(404).json({ error: "Import batch not found" });
+      }
+
+      const imported = await storage.getTransactionsByImportBatch(userId, id);
+      if (imported.length === 0) {
+        return res.json({ deleted: 0, deletion_id: null });
+      }
+
+      const records = await collectRecords(storage, userId, { transactions: imported });
+      let deletedCount = 0;
+      const source = batch.file_name ? ` from ${batch.file_name}` : "";
+      const label = `${imported.length} imported ${imported.length === 1 ? "transaction" : "transactions"}${source}`;
+      const deletion = await moveToTrash(storage, userId, "transactions", label, records, async () => {
+        deletedCount = await storage.deleteTransactionsByImportBatch(userId, id);
+      });
+      await recordAudit(storage, userId, diffRecords("transaction", records.transactions, [], auditSource(req)));
+
+      res.json({ deleted: deletedCount, deletion_id: deletion.id });
     } catch (error) {
-      console.error("Error creating obligation:", error);
-      res.status(400).json({ error: "Invalid obligation data" });
+      console.error("Error rolling back import batch:", error);
+      res.status(500).json({ error: "Failed to roll back import" });
     }
   });
 
-  app.patch("/api/obligations/:id", requireAuth, async (req, res) => {
+  // Transfers API
+  app.get("/api/transfers", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const id = parseInt(req.params.id);
-      const obligation = await storage.updateObligation(userId, id, req.body);
-      if (!obligation) {
-        return res.status(404).json({ error: "Obligation not found" });
-      }
-      res.json(obligation);
+      const transfers = await storage.getTransfers(userId);
+      res.json(transfers);
     } catch (error) {
-      console.error("Error updating obligation:", error);
-      res.status(500).json({ error: "Failed to update obligation" });
+      console.error("Error fetching transfers:", error);
+      res.status(500).json({ error: "Failed to fetch transfers" });
     }
   });
 
-  app.delete("/api/obligations/:id", requireAuth, async (req, res) => {
+  app.get("/api/transfers/:id", requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req);
       const id = parseInt(req.params.id);
-      await storage.deleteObligation(userId, id);
-      res.status(204).send();
+      const transfer = await storage.getTransfer(userId, id);
+      if (!transfer) {
+        return res.status(404).json({ error: "Transfer not found" });
+      }
+      res.json(transfer);
     } catch (error) {
-      console.error("Error deleting obligation:", error);
-      res.status(500).json({ error: "Failed to delete obligation" });
+      console.error("Error fetching transfer:", error);
+      res.status(500).json({ error: "Failed to fetch transfer" });
     }
   });
 
+  // Creates the transfer with a linked pair of transactions, one per account
+  app.post("/api/transfers", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { from_account_id, to_account_id, amount, description, date } = req.body ?? {};
+      const input = { from_account_id, to_account_id, amount, description: description || "Transfer", date };
+
+      const accountIds = new Set((await storage.getAccounts(userId)).map((a) => a.id));
+      const error = validateTransferInput(input, accountIds);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const transfer = await storage.createTransfer(userId, {
+        ...input,
+        from_account_id: Number(from_account_id),
+        to_account_id: Number(to_account_id),
+        amount: String(amount),
+      });
+      await recordAudit(storage, userId, diffRecords("transaction", [], transfer.transactions, auditSource(req)));
+      res.status(201).json(transfer);
+    } catch (error) {
+      console.error("Error creating transfer:", error);
+      res.status(500).json({ error: "Failed to create transfer" });
+    }
+  });
+
+  // Rewrites both legs, so the two balances move together
+  app.patch("/api/transfers/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const existing = await storage.getTransfer(userId, id);
+      if (!existing) {
+        return res.status(404).json({ error: "Transfer not found" });
+      }
+
+      const changes: Partial<InsertTransfer> = {};
+      const body = req.body ?? {};
+      if (body.from_account_id !== undefined) changes.from_account_id = Number(body.from_account_id);
+      if (body.to_account_id !== undefined) changes.to_account_id = Number(body.to_account_id);
+      if (body.amount !== undefined) changes.amount = String(body.amount);
+      if (body.description !== undefined) changes.description = body.description;
+      if (body.date !== undefined) changes.date = body.date;
+
+      const accountIds = new Set((await storage.getAccounts(userId)).map((a) => a.id));
+      const error = validateTransferInput({ ...existing, ...changes }, accountIds);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const transfer = await storage.updateTransfer(userId, id, changes);
+      if (!transfer) {
+        return res.status(404).json({ error: "Transfer not found" });
+      }
+      // The legs are replaced, so the log shows the old pair deleted and a new one created
+      await recordAudit(
+        storage,
+        userId,
+        diffRecords("transaction", existing.transactions, transfer.transactions, auditSource(req))
+      );
+      res.json(transfer);
+    } catch (error) {
+      console.error("Error updating transfer:", error);
+      res.status(500).json({ error: "Failed to update transfer" });
+    }
+  });
+
+  app.delete("/api/transfers/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const transfer = await storage.getTransfer(userId, id);
+      if (!transfer) {
+        return res.status(204).send();
+      }
+
+      const records = await collectRecords(storage, userId, { transactions: transfer.transactions });
+      const deletion = await moveToTrash(storage, userId, "transactions", transfer.description, records, () =>
+        storage.deleteTransfer(userId, id)
+      );
+      await recordAudit(storage, userId, diffRecords("transaction", records.transactions, [], auditSource(req)));
+      res.json({ deletion_id: deletion.id });
+    } catch (error) {
+      console.error("Error deleting transfer:", error);
+      res.status(500).json({ error: "Failed to delete transfer" });
+    }
+  });
+
+  // Tags API
+  app.get("/api/tags", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const tags = await storage.getTags(userId);
+      res.json(tags);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ error: "Failed to fetch tags" });
+    }
+  });
+
+  // Rename a tag on every transaction carrying it; renaming onto an existing
+  // tag merges the two
+  app.patch("/api/tags/:tag", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const tag = normalizeTag(req.params.tag);
+      const name = normalizeTag(req.body?.name);
+      if (!tag || !name) {
+        return res.status(400).json({ error: "Invalid tag name" });
+      }
+
+      const tagged = (await storage.getTransactions(userId)).filter((t) => t.tags.includes(tag));
+      const updated = await storage.replaceTag(userId, tag, name);
+      if (updated === 0) {
+        return res.status(404).json({ error: "Tag not found" });
+      }
+      const retagged = (await storage.getTransactions(userId)).filter((t) => tagged.some((before) => before.id === t.id));
+      await recordAudit(storage, userId, diffRecords("transaction", tagged, retagged, auditSource(req)));
+      res.json({ tag: name, updated });
+    } catch (error) {
+      console.error("Error renaming tag:", error);
+      res.status(500).json({ error: "Failed to rename tag" });
+    }
+  });
+
+  // Remove a tag from every transaction carrying it
+  app.delete("/api/tags/:tag", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const tag = normalizeTag(req.params.tag);
+      if (tag) {
+        const tagged = (await storage.getTransactions(userId)).filter((t) => t.tags.includes(tag));
+        await storage.replaceTag(userId, tag, null);
+        const untagged = (await storage.getTransactions(userId)).filter((t) => tagged.some((before) => before.id === t.id));
+        await recordAudit(storage, userId, diffRecords("transaction", tagged, untagged, auditSource(req)));
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      res.status(500).json({ error: "Failed to delete tag" });
+    }
+  });
+
+  // Saved views API
+  app.get("/api/saved-views", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const views = await storage.getSavedViews(userId);
+      res.json(views);
+    } catch (error) {
+      console.error("Error fetching saved views:", error);
+      res.status(500).json({ error: "Failed to fetch saved views" });
+    }
+  });
+
+  // `filters` takes the GET /api/transactions query parameters, except the
+  // cursor and page size
+  app.post("/api/saved-views", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { name, scope, filters = {} } = req.body ?? {};
+      const error = validateSavedViewInput({ name, scope, filters });
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const views = await storage.getSavedViews(userId);
+      if (views.some((v) => v.scope === scope && v.name === name.trim())) {
+        return res.status(409).json({ error: "A view with this name already exists" });
+      }
+
+      const parsed = parseViewFilters(filters) as { filters: Record<string, string> };
+      const view = await storage.createSavedView(userId, { name: name.trim(), scope, filters: parsed.filters });
+      res.status(201).json(view);
+    } catch (error) {
+      console.error("Error creating saved view:", error);
+      res.status(500).json({ error: "Failed to create saved view" });
+    }
+  });
+
+  app.patch("/api/saved-views/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSavedView(userId, id);
+      if (!existing) {
+        return res.status(404).json({ error: "Saved view not found" });
+      }
+
+      const body = req.body ?? {};
+      const updated = {
+        name: body.name ?? existing.name,
+        scope: body.scope ?? existing.scope,
+        filters: body.filters ?? existing.filters,
+      };
+      const error = validateSavedViewInput(updated);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const views = await storage.getSavedViews(userId);
+      if (views.some((v) => v.id !== id && v.scope === updated.scope && v.name === updated.name.trim())) {
+        return res.status(409).json({ error: "A view with this name already exists" });
+      }
+
+      const changes: Partial<InsertSavedView> = {};
+      if (body.name !== undefined) changes.name = updated.name.trim();
+      if (body.scope !== undefined) changes.scope = updated.scope;
+      if (body.filters !== undefined) {
+        changes.filters = (parseViewFilters(updated.filters) as { filters: Record<string, string> }).filters;
+      }
+
+      const view = await storage.updateSavedView(userId, id, changes);
+      if (!view) {
+        return res.status(404).json({ error: "Saved view not found" });
+      }
+      res.json(view);
+    } catch (error) {
+      console.error("Error updating saved view:", error);
+      res.status(500).json({ error: "Failed to update saved view" });
+    }
+  });
+
+  app.delete("/api/saved-views/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      await storage.deleteSavedView(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting saved view:", error);
+      res.status(500).json({ error: "Failed to delete saved view" });
+    }
+  });
+
+  // Import profiles API: saved column mappings for CSV and spreadsheet exports
+  app.get("/api/import-profiles", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const profiles = await storage.getImportProfiles(userId);
+      res.json(profiles);
+    } catch (error) {
+      console.error("Error fetching import profiles:", error);
+      res.status(500).json({ error: "Failed to fetch import profiles" });
+    }
+  });
+
+  // The saved profiles for a file's header row, one per account it was
+  // imported into
+  app.post("/api/import-profiles/match", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { headers } = req.body ?? {};
+      if (!isHeaderRow(headers)) {
+        return res.status(400).json({ error: "headers must be a non-empty array of strings" });
+      }
+
+      const signature = headerSignature(headers);
+      const profiles = await storage.getImportProfiles(userId);
+      res.json(profiles.filter((p) => p.header_signature === signature));
+    } catch (error) {
+      console.error("Error matching import profiles:", error);
+      res.status(500).json({ error: "Failed to match import profiles" });
+    }
+  });
+
+  // Saves the mapping for an account and header row, replacing the one saved
+  // before for the same pair
+  app.post("/api/import-profiles", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const accountIds = new Set((await storage.getAccounts(userId)).map((a) => a.id));
+      const error = validateImportProfileInput(req.body, accountIds);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const profile = pickImportProfile(req.body);
+      const existing = (await storage.getImportProfiles(userId)).find(
+        (p) => p.account_id === profile.account_id && p.header_signature === profile.header_signature
+      );
+      if (existing) {
+        const updated = await storage.updateImportProfile(userId, existing.id, profile);
+        return res.json(updated);
+      }
+
+      const created = await storage.createImportProfile(userId, profile);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error saving import profile:", error);
+      res.status(500).json({ error: "Failed to save import profile" });
+    }
+  });
+
+  app.delete("/api/import-profiles/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      await storage.deleteImportProfile(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting import profile:", error);
+      res.status(500).json({ error: "Failed to delete import profile" });
+    }
+  });
+
+  // Categorization rules, highest priority first
+  app.get("/api/category-rules", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      res.json(await storage.getCategoryRules(userId));
+    } catch (error) {
+      console.error("Error fetching category rules:", error);
+      res.status(500).json({ error: "Failed to fetch category rules" });
+    }
+  });
+
+  app.post("/api/category-rules", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const accountIds = new Set((await storage.getAccounts(userId)).map((a) => a.id));
+      const row = { priority: 0, match_type: "contains", ...req.body };
+      const error = validateCategoryRuleInput(row, accountIds);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const rule = await storage.createCategoryRule(userId, pickCategoryRule(row));
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating category rule:", error);
+      res.status(500).json({ error: "Failed to create category rule" });
+    }
+  });
+
+  app.patch("/api/category-rules/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const existing = await storage.getCategoryRule(userId, id);
+      if (!existing) {
+        return res.status(404).json({ error: "Category rule not found" });
+      }
+
+      const accountIds = new Set((await storage.getAccounts(userId)).map((a) => a.id));
+      const row = { ...existing, ...req.body };
+      const error = validateCategoryRuleInput(row, accountIds);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const rule = await storage.updateCategoryRule(userId, id, pickCategoryRule(row));
+      if (!rule) {
+        return res.status(404).json({ error: "Category rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating category rule:", error);
+      res.status(500).json({ error: "Failed to update category rule" });
+    }
+  });
+
+  app.delete("/api/category-rules/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      await storage.deleteCategoryRule(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting category rule:", error);
+      res.status(500).json({ error: "Failed to delete category rule" });
+    }
+  });
+
+  // Re-runs the rules over existing transactions, optionally of one account.
+  // Only uncategorized ones change unless `overwrite` is true; transfers and
+  // transactions already split are left alone.
+  app.post("/api/category-rules/apply", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { account_id, overwrite } = req.body ?? {};
+      if (overwrite != null && typeof overwrite !== "boolean") {
+        return res.status(400).json({ error: "overwrite must be true or false" });
+      }
+
+      const accounts = await storage.getAccounts(userId);
+      if (account_id != null && !accounts.some((a) => a.id === Number(account_id))) {
+        return res.status(400).json({ error: "Account not found" });
+      }
+      const accountTypes = new Map(accounts.map((a) => [a.id, a.type]));
+      const rules = await storage.getCategoryRules(userId);
+      const transactions = account_id != null
+        ? await storage.getTransactionsByAccount(userId, Number(account_id))
+        : await storage.getTransactions(userId);
+
+      const before: Transaction[] = [];
+      const after: Transaction[] = [];
+      for (const existing of transactions) {
+        if (existing.transfer_id != null || existing.splits.length > 0) continue;
+        if (existing.subcategory && !overwrite) continue;
+        const outcome = applyRules(rules, existing, accountTypes.get(existing.account_id));
+        if (!outcome || (outcome.subcategory === existing.subcategory && !outcome.splits)) continue;
+
+        const updated = await storage.updateTransaction(userId, existing.id, {
+          subcategory: outcome.subcategory,
+          splits: outcome.splits,
+        });
+        if (updated) {
+          before.push(existing);
+          after.push(updated);
+        }
+      }
+      await recordAudit(storage, userId, diffRecords("transaction", before, after, auditSource(req)));
+
+      res.json({ updated: after.length });
+    } catch (error) {
+      console.error("Error applying category rules:", error);
+      res.status(500).json({ error: "Failed to apply category rules" });
+    }
+  });
+
+  // AI categorization jobs. A job sends uncategorized transactions to the AI
+  // service in the background and stores its answers as suggestions.
+  app.post("/api/categorization-jobs", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { account_id } = req.body ?? {};
+      // The stored status also covers jobs started by another server process
+      const [latestJob] = await storage.getCategorizationJobs(userId);
+      if (categorizingUsers.has(userId) || latestJob?.status === "running") {
+        return res.status(409).json({ error: "A categorization job is already running" });
+      }
+
+      const accounts = await storage.getAccounts(userId);
+      if (account_id != null && !accounts.some((a) => a.id === Number(account_id))) {
+        return res.status(400).json({ error: "Account not found" });
+      }
+      const transactions = await storage.getTransactions(userId);
+      const suggested = new Set((await storage.getCategorizationSuggestions(userId)).map((s) => s.transaction_id));
+      const uncategorized = transactions
+        .filter((t) => account_id == null || t.account_id === Number(account_id))
+        .filter((t) => !t.subcategory && t.transfer_id == null && t.splits.length === 0 && !suggested.has(t.id))
+        .slice(0, MAX_CATEGORIZATION_JOB_SIZE);
+      if (uncategorized.length === 0) {
+        return res.status(400).json({ error: "No uncategorized transactions" });
+      }
+      const subcategories = Array.from(
+        new Set(transactions.map((t) => t.subcategory).filter((s): s is string => !!s))
+      ).sort();
+
+      const job = await storage.createCategorizationJob(userId, uncategorized.length);
+      categorizingUsers.add(userId);
+      runCategorizationJob(storage, userId, job, uncategorized, subcategories, categorizer)
+        .catch((error) => console.error("Error finishing categorization job:", error))
+        .finally(() => categorizingUsers.delete(userId));
+
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error starting categorization job:", error);
+      res.status(500).json({ error: "Failed to start categorization job" });
+    }
+  });
+
+  app.get("/api/categorization-jobs", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const jobs = await storage.getCategorizationJobs(userId);
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error fetching categorization jobs:", error);
+      res.status(500).json({ error: "Failed to fetch categorization jobs" });
+    }
+  });
+
+  app.get("/api/categorization-jobs/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const job = await storage.getCategorizationJob(userId, parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: "Categorization job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching categorization job:", error);
+      res.status(500).json({ error: "Failed to fetch categorization job" });
+    }
+  });
+
+  // Pending suggestions with the transactions they are for
+  app.get("/api/categorization-suggestions", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const suggestions = await storage.getCategorizationSuggestions(userId);
+      const transactions = new Map((await storage.getTransactions(userId)).map((t) => [t.id, t]));
+      res.json(
+        suggestions
+          .filter((s) => transactions.has(s.transaction_id))
+          .map((s) => {
+            const { description, amount, date, account_id, subcategory } = transactions.get(s.transaction_id)!;
+            return { ...s, transaction: { description, amount, date, account_id, subcategory } };
+          })
+      );
+    } catch (error) {
+      console.error("Error fetching categorization suggestions:", error);
+      res.status(500).json({ error: "Failed to fetch categorization suggestions" });
+    }
+  });
+
+  // Accepted suggestions set their transaction's subcategory; both accepted
+  // and dismissed ones are then removed
+  app.post("/api/categorization-suggestions/review", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { accept = [], dismiss = [] } = req.body ?? {};
+      const isIdList = (value: unknown) => Array.isArray(value) && value.every((id) => Number.isInteger(id));
+      if (!isIdList(accept) || !isIdList(dismiss)) {
+        return res.status(400).json({ error: "accept and dismiss must be lists of suggestion ids" });
+      }
+
+      const suggestions = new Map((await storage.getCategorizationSuggestions(userId)).map((s) => [s.id, s]));
+      const before: Transaction[] = [];
+      const after: Transaction[] = [];
+      for (const id of accept as number[]) {
+        const suggestion = suggestions.get(id);
+        if (!suggestion) continue;
+        const existing = await storage.getTransaction(userId, suggestion.transaction_id);
+        if (!existing) continue;
+        const updated = await storage.updateTransaction(userId, existing.id, { subcategory: suggestion.subcategory });
+        if (updated) {
+          before.push(existing);
+          after.push(updated);
+        }
+      }
+      await recordAudit(storage, userId, diffRecords("transaction", before, after, auditSource(req)));
+
+      const reviewed = [...accept, ...dismiss].filter((id: number) => suggestions.has(id));
+      await storage.deleteCategorizationSuggestions(userId, reviewed);
+      res.json({ updated: after.length });
+    } catch (error) {
+      console.error("Error reviewing categorization suggestions:", error);
+      res.status(500).json({ error: "Failed to review categorization suggestions" });
+    }
+  });
+
+  // Obligations API
+  app.get("/api/obligations", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const obligations = await storage.getObligations(userId);
+      res.json(obligations);
+    } catch (error) {
+      console.error("Error fetching obligations:", error);
+      res.status(500).json({ error: "Failed to fetch obligations" });
+    }
+  });
+
+  app.get("/api/obligations/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const obligation = await storage.getObligation(userId, id);
+      if (!obligation) {
+        return res.status(404).json({ error: "Obligation not found" });
+      }
+      res.json(obligation);
+    } catch (error) {
+      console.error("Error fetching obligation:", error);
+      res.status(500).json({ error: "Failed to fetch obligation" });
+    }
+  });
+
+  app.post("/api/obligations", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      const obligation = await storage.createObligation(userId, req.body);
+      await recordAudit(storage, userId, diffRecord("obligation", undefined, obligation, auditSource(req)));
+      res.status(201).json(obligation);
+    } catch (error) {
+      console.error("Error creating obligation:", error);
+      res.status(400).json({ error: "Invalid obligation data" });
+    }
+  });
+
+  app.patch("/api/obligations/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const existing = await storage.getObligation(userId, id);
+      const obligation = existing && (await storage.updateObligation(userId, id, req.body));
+      if (!obligation) {
+        return res.status(404).json({ error: "Obligation not found" });
+      }
+      await recordAudit(storage, userId, diffRecord("obligation", existing, obligation, auditSource(req)));
+      res.json(obligation);
+    } catch (error) {
+      console.error("Error updating obligation:", error);
+      res.status(500).json({ error: "Failed to update obligation" });
+    }
+  });
+
+  app.delete("/api/obligations/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const obligation = await storage.getObligation(userId, id);
+      if (!obligation) {
+        return res.status(204).send();
+      }
+
+      const records = await collectRecords(storage, userId, { obligations: [obligation] });
+      const deletion = await moveToTrash(storage, userId, "obligation", obligation.name, records, () =>
+        storage.deleteObligation(userId, id)
+      );
+      await recordAudit(storage, userId, diffRecord("obligation", obligation, undefined, auditSource(req)));
+      res.json({ deletion_id: deletion.id });
+    } catch (error) {
+      console.error("Error deleting obligation:", error);
+      res.status(500).json({ error: "Failed to delete obligation" });
+    }
+  });
+
+  // Trash API
+  app.get("/api/trash", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const deletions = await storage.getDeletions(userId);
+      res.json(deletions.map(summarizeDeletion));
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ error: "Failed to fetch trash" });
+    }
+  });
+
+  // Put a deleted account, transactions or obligation back, with the balance
+  // effects of the transactions
+  app.post("/api/trash/:id/restore", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const deletion = await storage.getDeletion(userId, id);
+      if (!deletion) {
+        return res.status(404).json({ error: "Trash entry not found" });
+      }
+
+      const { records } = deletion;
+      const accountIds = new Set((await storage.getAccounts(userId)).map((a) => a.id));
+      if (missingAccountIds(records, accountIds).length > 0) {
+        return res.status(409).json({ error: "Restore the account these records belong to first" });
+      }
+
+      const unlinkedIds = new Set(records.unlinked_obligations.map((o) => o.id));
+      const unlinked = (await storage.getObligations(userId)).filter((o) => unlinkedIds.has(o.id));
+      if (!(await storage.restoreDeletion(userId, id))) {
+        return res.status(404).json({ error: "Trash entry not found" });
+      }
+      const relinked = (await storage.getObligations(userId)).filter((o) => unlinkedIds.has(o.id));
+
+      const source = auditSource(req);
+      await recordAudit(storage, userId, [
+        ...diffRecords("account", [], records.accounts, source),
+        ...diffRecords("transaction", [], records.transactions, source),
+        ...diffRecords("obligation", [], records.obligations, source),
+        ...diffRecords("obligation", unlinked, relinked, source),
+      ]);
+      res.json(summarizeDeletion(deletion));
+    } catch (error) {
+      console.error("Error restoring from trash:", error);
+      res.status(500).json({ error: "Failed to restore from trash" });
+    }
+  });
+
+  // Delete a trash entry for good, along with its attachment files
+  app.delete("/api/trash/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const id = parseInt(req.params.id);
+      const deletion = await storage.getDeletion(userId, id);
+      if (deletion) {
+        await storage.deleteDeletion(userId, id);
+        await removeAttachmentFiles(files, deletion.records.transactions);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error emptying trash entry:", error);
+      res.status(500).json({ error: "Failed to delete trash entry" });
+    }
+  });
+
+  // Audit history of one record, newest first. Deleted records keep theirs.
+  for (const [path, entityType] of Object.entries(HISTORY_ROUTES)) {
+    app.get(`/api/${path}/:id/history`, requireAuth, async (req, res) => {
+      try {
+        const userId = getUserId(req);
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ error: "Invalid id" });
+        }
+        const entries = await storage.getAuditEntries(userId, entityType, id);
+        res.json(entries);
+      } catch (error) {
+        console.error("Error fetching history:", error);
+        res.status(500).json({ error: "Failed to fetch history" });
+      }
+    });
+  }
+
   // Conversations API
   app.get("/api/conversations", requireAuth, async (req, res) => {
     try {
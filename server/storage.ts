@@ -1,4 +1,5 @@
-import { supabase, getSupabaseClient } from "./supabase";
+import { supabase } from "./supabase";
+import { searchPattern, toPage } from "./transaction-query";
 
 export interface Account {
   id: number;
@@ -7,6 +8,7 @@ export interface Account {
   type: string;
   category: string;
   balance: string;
+  opening_balance: string;
   credit_limit?: string | null;
   credit_score?: number | null;
   interest_rate?: string | null;
@@ -27,6 +29,22 @@ export interface InsertAccount {
   statement_day?: number | null;
 }
 
+export interface AccountReconciliation {
+  account_id: number;
+  opening_balance: string;
+  transaction_total: string;
+  transaction_count: number;
+  stored_balance: string;
+  computed_balance: string;
+  drift: string;
+  applied: boolean;
+}
+
+export interface ReconcileOptions {
+  opening_balance?: string;
+  apply?: boolean;
+}
+
 export interface Transaction {
   id: number;
   user_id: string;
@@ -36,9 +54,52 @@ export interface Transaction {
   category: string;
   subcategory?: string | null;
   date: string;
+  transfer_id?: number | null;
+  tags: string[];
+  import_batch_id?: number | null;
+  external_id?: string | null;
+  created_at: string;
+  splits: TransactionSplit[];
+  attachments: Attachment[];
+}
+
+// One line of a split transaction. The splits of a transaction add up to its
+// amount and carry the same sign; they never affect account balances.
+export interface TransactionSplit {
+  id: number;
+  transaction_id: number;
+  amount: string;
+  subcategory: string;
+  type: "personal" | "business";
+}
+
+export interface InsertTransactionSplit {
+  amount: string;
+  subcategory: string;
+  type: "personal" | "business";
+}
+
+// A receipt or document uploaded against a transaction. The file itself is
+// kept in the FileStore under `storage_key`.
+export interface Attachment {
+  id: number;
+  user_id: string;
+  transaction_id: number;
+  file_name: string;
+  content_type: string;
+  size: number;
+  storage_key: string;
   created_at: string;
 }
 
+export interface InsertAttachment {
+  transaction_id: number;
+  file_name: string;
+  content_type: string;
+  size: number;
+  storage_key: string;
+}
+
 export interface InsertTransaction {
   account_id: number;
   description: string;
@@ -46,6 +107,237 @@ export interface InsertTransaction {
   category: string;
   subcategory?: string | null;
   date: string;
+  tags?: string[];
+  // The bank's own id for the transaction (e.g. an OFX FITID), when imported
+  external_id?: string | null;
+  // Set by the import itself, never taken from request bodies
+  import_batch_id?: number | null;
+}
+
+// A transaction to create, with the split lines written along with it
+export interface NewTransaction extends InsertTransaction {
+  splits?: InsertTransactionSplit[];
+}
+
+// Changes to a transaction. `splits`, when given, replaces its split lines
+// ([] removes them) in the same write as the other fields.
+export interface TransactionUpdate extends Partial<InsertTransaction> {
+  splits?: InsertTransactionSplit[];
+}
+
+// One run of the bulk import. `row_count` is what the import created;
+// `transaction_count` is how many of those transactions still exist, so a
+// rolled back batch has none.
+export interface ImportBatch {
+  id: number;
+  user_id: string;
+  account_id: number | null;
+  file_name: string | null;
+  parser: string | null;
+  row_count: number;
+  transaction_count: number;
+  created_at: string;
+}
+
+export interface InsertImportBatch {
+  account_id: number | null;
+  file_name: string | null;
+  parser: string | null;
+}
+
+// How many of the user's transactions carry a tag.
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// A transfer owns two transactions with category "transfer": the leg taking
+// money out of `from_account_id` and the leg paying it into `to_account_id`.
+export interface Transfer {
+  id: number;
+  user_id: string;
+  from_account_id: number;
+  to_account_id: number;
+  amount: string;
+  description: string;
+  date: string;
+  created_at: string;
+  transactions: Transaction[];
+}
+
+export interface InsertTransfer {
+  from_account_id: number;
+  to_account_id: number;
+  amount: string;
+  description: string;
+  date: string;
+}
+
+export type TransactionSortField = "date" | "amount";
+
+// Position after the last row of a page: the sort key value and the row id
+// that breaks ties within it.
+export interface TransactionCursor {
+  value: string;
+  id: number;
+}
+
+export interface TransactionQuery {
+  account_ids?: number[];
+  start_date?: string;
+  end_date?: string;
+  min_amount?: string;
+  max_amount?: string;
+  category?: string;
+  subcategory?: string;
+  search?: string;
+  // Rows must carry every one of these tags
+  tags?: string[];
+  sort: TransactionSortField;
+  order: "asc" | "desc";
+  cursor?: TransactionCursor;
+  limit: number;
+}
+
+// Totals cover every row matching the filters, not just the current page.
+export interface TransactionTotals {
+  count: number;
+  income: string;
+  expenses: string;
+  net: string;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  next_cursor: string | null;
+  totals: TransactionTotals;
+}
+
+export type SavedViewScope = "personal" | "business";
+
+// A named set of GET /api/transactions query parameters.
+export interface SavedView {
+  id: number;
+  user_id: string;
+  name: string;
+  scope: SavedViewScope;
+  filters: Record<string, string>;
+  created_at: string;
+}
+
+export interface InsertSavedView {
+  name: string;
+  scope: SavedViewScope;
+  filters: Record<string, string>;
+}
+
+export type ImportDateFormat = "mdy" | "dmy";
+// Whether a positive amount in the export is money in or money spent
+export type ImportAmountSign = "positive_in" | "positive_out";
+
+// Header names for each field of an imported row. An export has either one
+// signed amount column or separate debit and credit columns.
+export interface ImportProfileColumns {
+  date: string;
+  description: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  category?: string;
+}
+
+// A saved column mapping for one account's CSV or spreadsheet export,
+// recognized by its header row.
+export interface ImportProfile {
+  id: number;
+  user_id: string;
+  account_id: number;
+  header_signature: string;
+  headers: string[];
+  columns: ImportProfileColumns;
+  date_format: ImportDateFormat;
+  amount_sign: ImportAmountSign;
+  created_at: string;
+}
+
+export interface InsertImportProfile {
+  account_id: number;
+  header_signature: string;
+  headers: string[];
+  columns: ImportProfileColumns;
+  date_format: ImportDateFormat;
+  amount_sign: ImportAmountSign;
+}
+
+export type CategoryRuleMatch = "contains" | "regex";
+export type CategoryRuleType = "personal" | "business";
+
+// A user-defined categorization rule. Every condition it sets has to hold:
+// the description contains `pattern` (or matches it as a regular
+// expression), both ignoring case; the account is `account_id`; the amount
+// without its sign is within `min_amount`..`max_amount`.
+export interface CategoryRule {
+  id: number;
+  user_id: string;
+  priority: number;
+  match_type: CategoryRuleMatch;
+  pattern: string | null;
+  account_id: number | null;
+  min_amount: string | null;
+  max_amount: string | null;
+  subcategory: string;
+  type: CategoryRuleType | null;
+  created_at: string;
+}
+
+export interface InsertCategoryRule {
+  priority: number;
+  match_type: CategoryRuleMatch;
+  pattern: string | null;
+  account_id: number | null;
+  min_amount: string | null;
+  max_amount: string | null;
+  subcategory: string;
+  type: CategoryRuleType | null;
+}
+
+export type CategorizationJobStatus = "running" | "completed" | "failed";
+
+// A background run of the AI categorization. `processed` counts the
+// transactions the model has answered for so far, out of `total`.
+export interface CategorizationJob {
+  id: number;
+  user_id: string;
+  status: CategorizationJobStatus;
+  total: number;
+  processed: number;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface UpdateCategorizationJob {
+  status?: CategorizationJobStatus;
+  processed?: number;
+  error?: string | null;
+  completed_at?: string | null;
+}
+
+// A subcategory a categorization job suggested for a transaction, kept for
+// review until the user accepts or dismisses it
+export interface CategorizationSuggestion {
+  id: number;
+  user_id: string;
+  job_id: number;
+  transaction_id: number;
+  subcategory: string;
+  created_at: string;
+}
+
+export interface InsertCategorizationSuggestion {
+  job_id: number;
+  transaction_id: number;
+  subcategory: string;
 }
 
 export interface Obligation {
@@ -79,6 +371,66 @@ export interface InsertObligation {
   notes?: string | null;
 }
 
+export type DeletionKind = "account" | "transactions" | "obligation";
+
+// Everything one delete removed, as it was read just before. Transactions
+// carry their splits and attachments; the attachment files stay in the
+// FileStore until the deletion is purged.
+export interface DeletedRecords {
+  accounts: Account[];
+  transfers: Omit<Transfer, "transactions">[];
+  transactions: Transaction[];
+  obligations: Obligation[];
+  // Obligations that were kept but lost their link to a deleted account
+  unlinked_obligations: { id: number; account_id: number }[];
+}
+
+// A trash entry. Restoring it puts every record back under its original id,
+// which re-applies the transactions to their account balances.
+export interface Deletion {
+  id: number;
+  user_id: string;
+  kind: DeletionKind;
+  label: string;
+  records: DeletedRecords;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface InsertDeletion {
+  kind: DeletionKind;
+  label: string;
+  records: DeletedRecords;
+  expires_at: string;
+}
+
+export type AuditEntityType = "account" | "transaction" | "obligation";
+export type AuditAction = "create" | "update" | "delete";
+
+// One change to a financial record. Entries are only ever appended; `before`
+// is null for creates and `after` for deletes. `source` names the route that
+// made the change, e.g. "DELETE /api/transactions/by-date-range".
+export interface AuditEntry {
+  id: number;
+  user_id: string;
+  entity_type: AuditEntityType;
+  entity_id: number;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  source: string;
+  created_at: string;
+}
+
+export interface InsertAuditEntry {
+  entity_type: AuditEntityType;
+  entity_id: number;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  source: string;
+}
+
 export interface Conversation {
   id: number;
   user_id: string;
@@ -105,25 +457,108 @@ export interface InsertMessage {
 }
 
 export interface IStorage {
+  // Called for every signed-in request before the route runs. Supabase Auth
+  // already keeps the user; a backend with its own users table adds them.
+  ensureUser(userId: string): Promise<void>;
+
   getAccounts(userId: string): Promise<Account[]>;
   getAccount(userId: string, id: number): Promise<Account | undefined>;
   createAccount(userId: string, account: InsertAccount): Promise<Account>;
   updateAccount(userId: string, id: number, data: Partial<InsertAccount>): Promise<Account | undefined>;
   deleteAccount(userId: string, id: number): Promise<void>;
+  reconcileAccount(userId: string, id: number, options: ReconcileOptions): Promise<AccountReconciliation | undefined>;
 
   getTransactions(userId: string): Promise<Transaction[]>;
+  queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage>;
   getTransaction(userId: string, id: number): Promise<Transaction | undefined>;
   getTransactionsByAccount(userId: string, accountId: number): Promise<Transaction[]>;
-  createTransaction(userId: string, transaction: InsertTransaction): Promise<Transaction>;
+  createTransaction(userId: string, transaction: NewTransaction): Promise<Transaction>;
+  createTransactions(userId: string, transactions: InsertTransaction[]): Promise<Transaction[]>;
+  updateTransaction(userId: string, id: number, data: TransactionUpdate): Promise<Transaction | undefined>;
   deleteTransaction(userId: string, id: number): Promise<void>;
   deleteTransactionsByDateRange(userId: string, accountId: number, startDate: string, endDate: string): Promise<number>;
 
+  // Newest first
+  getImportBatches(userId: string): Promise<ImportBatch[]>;
+  getImportBatch(userId: string, id: number): Promise<ImportBatch | undefined>;
+  // Writes the batch and its transactions, with their splits, together; none
+  // are written if any row fails.
+  createImportBatch(
+    userId: string,
+    batch: InsertImportBatch,
+    transactions: NewTransaction[]
+  ): Promise<{ batch: ImportBatch; transactions: Transaction[] }>;
+  getTransactionsByImportBatch(userId: string, batchId: number): Promise<Transaction[]>;
+  deleteTransactionsByImportBatch(userId: string, batchId: number): Promise<number>;
+
+  getAttachment(userId: string, id: number): Promise<Attachment | undefined>;
+  createAttachment(userId: string, attachment: InsertAttachment): Promise<Attachment>;
+  deleteAttachment(userId: string, id: number): Promise<void>;
+
+  getTags(userId: string): Promise<TagCount[]>;
+  // Renames `tag` on every transaction carrying it, or removes it when
+  // `replacement` is null. Returns the number of transactions changed.
+  replaceTag(userId: string, tag: string, replacement: string | null): Promise<number>;
+
+  getSavedViews(userId: string): Promise<SavedView[]>;
+  getSavedView(userId: string, id: number): Promise<SavedView | undefined>;
+  createSavedView(userId: string, view: InsertSavedView): Promise<SavedView>;
+  updateSavedView(userId: string, id: number, data: Partial<InsertSavedView>): Promise<SavedView | undefined>;
+  deleteSavedView(userId: string, id: number): Promise<void>;
+
+  getImportProfiles(userId: string): Promise<ImportProfile[]>;
+  getImportProfile(userId: string, id: number): Promise<ImportProfile | undefined>;
+  createImportProfile(userId: string, profile: InsertImportProfile): Promise<ImportProfile>;
+  updateImportProfile(userId: string, id: number, data: Partial<InsertImportProfile>): Promise<ImportProfile | undefined>;
+  deleteImportProfile(userId: string, id: number): Promise<void>;
+
+  // Highest priority first, then oldest first
+  getCategoryRules(userId: string): Promise<CategoryRule[]>;
+  getCategoryRule(userId: string, id: number): Promise<CategoryRule | undefined>;
+  createCategoryRule(userId: string, rule: InsertCategoryRule): Promise<CategoryRule>;
+  updateCategoryRule(userId: string, id: number, data: Partial<InsertCategoryRule>): Promise<CategoryRule | undefined>;
+  deleteCategoryRule(userId: string, id: number): Promise<void>;
+
+  // Newest first
+  getCategorizationJobs(userId: string): Promise<CategorizationJob[]>;
+  getCategorizationJob(userId: string, id: number): Promise<CategorizationJob | undefined>;
+  // Starts out running with nothing processed
+  createCategorizationJob(userId: string, total: number): Promise<CategorizationJob>;
+  updateCategorizationJob(userId: string, id: number, data: UpdateCategorizationJob): Promise<CategorizationJob | undefined>;
+  // Marks every user's running jobs as failed with `error` and returns them
+  failRunningCategorizationJobs(error: string, now: string): Promise<CategorizationJob[]>;
+  // Oldest first
+  getCategorizationSuggestions(userId: string): Promise<CategorizationSuggestion[]>;
+  createCategorizationSuggestions(userId: string, suggestions: InsertCategorizationSuggestion[]): Promise<CategorizationSuggestion[]>;
+  deleteCategorizationSuggestions(userId: string, ids: number[]): Promise<void>;
+
+  getTransfers(userId: string): Promise<Transfer[]>;
+  getTransfer(userId: string, id: number): Promise<Transfer | undefined>;
+  createTransfer(userId: string, transfer: InsertTransfer): Promise<Transfer>;
+  updateTransfer(userId: string, id: number, data: Partial<InsertTransfer>): Promise<Transfer | undefined>;
+  deleteTransfer(userId: string, id: number): Promise<void>;
+
   getObligations(userId: string): Promise<Obligation[]>;
   getObligation(userId: string, id: number): Promise<Obligation | undefined>;
   createObligation(userId: string, obligation: InsertObligation): Promise<Obligation>;
   updateObligation(userId: string, id: number, data: Partial<InsertObligation>): Promise<Obligation | undefined>;
   deleteObligation(userId: string, id: number): Promise<void>;
 
+  // Unexpired trash entries, newest first
+  getDeletions(userId: string): Promise<Deletion[]>;
+  getDeletion(userId: string, id: number): Promise<Deletion | undefined>;
+  createDeletion(userId: string, deletion: InsertDeletion): Promise<Deletion>;
+  // Puts the records back and removes the entry, all at once. Returns false
+  // if there is no such entry.
+  restoreDeletion(userId: string, id: number): Promise<boolean>;
+  deleteDeletion(userId: string, id: number): Promise<void>;
+  // Removes every user's entries that expired before `now` and returns them
+  purgeExpiredDeletions(now: string): Promise<Deletion[]>;
+
+  appendAuditEntries(userId: string, entries: InsertAuditEntry[]): Promise<void>;
+  // The history of one record, newest first
+  getAuditEntries(userId: string, entityType: AuditEntityType, entityId: number): Promise<AuditEntry[]>;
+
   getConversations(userId: string): Promise<Conversation[]>;
   getConversation(userId: string, id: number): Promise<Conversation | undefined>;
   createConversation(userId: string, title: string): Promise<Conversation>;
@@ -133,7 +568,24 @@ export interface IStorage {
   createMessage(userId: string, conversationId: number, role: string, content: string): Promise<Message>;
 }
 
+// Transactions are always read back with their split lines and attachments embedded.
+const TRANSACTION_COLUMNS =
+  '*, splits:transaction_splits(id, transaction_id, amount, subcategory, type), attachments(*)';
+
+// Import batches are read back with the number of their transactions that still exist.
+const IMPORT_BATCH_COLUMNS = '*, transactions(count)';
+
+function toImportBatch({ transactions, ...row }: any): ImportBatch {
+  return { ...row, transaction_count: transactions?.[0]?.count ?? 0 };
+}
+
+// Balances follow the ledger: `balance = opening_balance + sum(transactions.amount)`.
+// Every implementation applies a transaction's amount to its account in the same
+// database transaction as the row change, and a direct balance edit moves the
+// opening balance instead.
 export class SupabaseStorage implements IStorage {
+  async ensureUser(): Promise<void> {}
+
   async getAccounts(userId: string): Promise<Account[]> {
     const { data, error } = await supabase
       .from('accounts')
@@ -160,7 +612,7 @@ export class SupabaseStorage implements IStorage {
   async createAccount(userId: string, account: InsertAccount): Promise<Account> {
     const { data, error } = await supabase
       .from('accounts')
-      .insert({ ...account, user_id: userId })
+      .insert({ ...account, opening_balance: account.balance ?? "0", user_id: userId })
       .select()
       .single();
 
@@ -169,9 +621,24 @@ export class SupabaseStorage implements IStorage {
   }
 
   async updateAccount(userId: string, id: number, data: Partial<InsertAccount>): Promise<Account | undefined> {
+    const { balance, ...rest } = data;
+
+    if (balance !== undefined) {
+      const { error } = await supabase.rpc('set_account_balance', {
+        p_user_id: userId,
+        p_account_id: id,
+        p_balance: balance,
+      });
+      if (error) throw error;
+    }
+
+    if (Object.keys(rest).length === 0) {
+      return this.getAccount(userId, id);
+    }
+
     const { data: updated, error } = await supabase
       .from('accounts')
-      .update(data)
+      .update(rest)
       .eq('id', id)
       .eq('user_id', userId)
       .select()
@@ -191,10 +658,37 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
   }
 
+  async reconcileAccount(userId: string, id: number, options: ReconcileOptions): Promise<AccountReconciliation | undefined> {
+    const { data, error } = await supabase
+      .rpc('reconcile_account', {
+        p_user_id: userId,
+        p_account_id: id,
+        p_opening_balance: options.opening_balance ?? null,
+        p_apply: !!options.apply,
+      })
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return undefined;
+
+    const row = data as Record<string, string | number | boolean>;
+    const money = (value: unknown) => Number(value).toFixed(2);
+    return {
+      account_id: Number(row.account_id),
+      opening_balance: money(row.opening_balance),
+      transaction_total: money(row.transaction_total),
+      transaction_count: Number(row.transaction_count),
+      stored_balance: money(row.stored_balance),
+      computed_balance: money(row.computed_balance),
+      drift: money(row.drift),
+      applied: !!row.applied,
+    };
+  }
+
   async getTransactions(userId: string): Promise<Transaction[]> {
     const { data, error } = await supabase
       .from('transactions')
-      .select('*')
+      .select(TRANSACTION_COLUMNS)
       .eq('user_id', userId)
       .order('date', { ascending: false });
 
@@ -202,10 +696,70 @@ export class SupabaseStorage implements IStorage {
     return data || [];
   }
 
+  async queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage> {
+    const ascending = query.order === 'asc';
+    let request = supabase
+      .from('transactions')
+      .select(TRANSACTION_COLUMNS)
+      .eq('user_id', userId);
+
+    if (query.account_ids) request = request.in('account_id', query.account_ids);
+    if (query.start_date) request = request.gte('date', query.start_date);
+    if (query.end_date) request = request.lte('date', query.end_date);
+    if (query.min_amount !== undefined) request = request.gte('amount', query.min_amount);
+    if (query.max_amount !== undefined) request = request.lte('amount', query.max_amount);
+    if (query.category) request = request.eq('category', query.category);
+    if (query.subcategory) request = request.eq('subcategory', query.subcategory);
+    if (query.search) request = request.ilike('description', searchPattern(query.search));
+    if (query.tags) request = request.contains('tags', query.tags);
+
+    if (query.cursor) {
+      const op = ascending ? 'gt' : 'lt';
+      const { value, id } = query.cursor;
+      request = request.or(`${query.sort}.${op}.${value},and(${query.sort}.eq.${value},id.${op}.${id})`);
+    }
+
+    const { data, error } = await request
+      .order(query.sort, { ascending })
+      .order('id', { ascending })
+      .limit(query.limit + 1);
+
+    if (error) throw error;
+
+    const { data: totals, error: totalsError } = await supabase
+      .rpc('transaction_totals', {
+        p_user_id: userId,
+        p_account_ids: query.account_ids ?? null,
+        p_start_date: query.start_date ?? null,
+        p_end_date: query.end_date ?? null,
+        p_min_amount: query.min_amount ?? null,
+        p_max_amount: query.max_amount ?? null,
+        p_category: query.category ?? null,
+        p_subcategory: query.subcategory ?? null,
+        p_search: query.search ? searchPattern(query.search) : null,
+        p_tags: query.tags ?? null,
+      })
+      .single();
+
+    if (totalsError) throw totalsError;
+
+    const row = totals as Record<string, string | number>;
+    const money = (value: unknown) => Number(value).toFixed(2);
+    return {
+      ...toPage(data || [], query),
+      totals: {
+        count: Number(row.count),
+        income: money(row.income),
+        expenses: money(row.expenses),
+        net: money(row.net),
+      },
+    };
+  }
+
   async getTransaction(userId: string, id: number): Promise<Transaction | undefined> {
     const { data, error } = await supabase
       .from('transactions')
-      .select('*')
+      .select(TRANSACTION_COLUMNS)
       .eq('id', id)
       .eq('user_id', userId)
       .maybeSingle();
@@ -217,7 +771,7 @@ export class SupabaseStorage implements IStorage {
   async getTransactionsByAccount(userId: string, accountId: number): Promise<Transaction[]> {
     const { data, error } = await supabase
       .from('transactions')
-      .select('*')
+      .select(TRANSACTION_COLUMNS)
       .eq('account_id', accountId)
       .eq('user_id', userId)
       .order('date', { ascending: false });
@@ -226,24 +780,76 @@ export class SupabaseStorage implements IStorage {
     return data || [];
   }
 
-  async createTransaction(userId: string, transaction: InsertTransaction): Promise<Transaction> {
+  async createTransaction(userId: string, transaction: NewTransaction): Promise<Transaction> {
+    const { splits, ...row } = transaction;
+    if (splits?.length) {
+      // The splits need the new row's id, so both are written by one function
+      const { data: id, error } = await supabase.rpc('create_transaction', {
+        p_user_id: userId,
+        p_transaction: row,
+        p_splits: splits,
+      });
+
+      if (error) throw error;
+      return (await this.getTransaction(userId, id))!;
+    }
+
     const { data, error } = await supabase
       .from('transactions')
-      .insert({ ...transaction, user_id: userId })
-      .select()
+      .insert({ ...row, user_id: userId })
+      .select(TRANSACTION_COLUMNS)
       .single();
 
     if (error) throw error;
+    return data;
+  }
+
+  async createTransactions(userId: string, transactions: InsertTransaction[]): Promise<Transaction[]> {
+    if (transactions.length === 0) return [];
+
+    // A single multi-row insert: the balance trigger runs inside it, so either
+    // every row and its balance change lands or none do.
+    const { data, error } = await supabase
+      .from('transactions')
+      .insert(transactions.map((t) => ({ ...t, user_id: userId })))
+      .select(TRANSACTION_COLUMNS);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async updateTransaction(userId: string, id: number, data: TransactionUpdate): Promise<Transaction | undefined> {
+    const { splits, ...changes } = data;
+    if (splits !== undefined) {
+      // The row and its splits are written by one function, so a failure
+      // leaves neither changed
+      const { data: updatedId, error } = await supabase.rpc('update_transaction', {
+        p_user_id: userId,
+        p_transaction_id: id,
+        p_changes: changes,
+        p_splits: splits,
+      });
 
-    const account = await this.getAccount(userId, transaction.account_id);
-    if (account) {
-      const currentBalance = parseFloat(account.balance);
-      const transactionAmount = parseFloat(transaction.amount);
-      const newBalance = (currentBalance + transactionAmount).toFixed(2);
-      await this.updateAccount(userId, transaction.account_id, { balance: newBalance });
+      if (error) throw error;
+      return updatedId == null ? undefined : this.getTransaction(userId, id);
     }
 
-    return data;
+    if (Object.keys(changes).length === 0) {
+      return this.getTransaction(userId, id);
+    }
+
+    // The balance trigger backs the old amount out of the old account and
+    // applies the new amount to the new one within this update.
+    const { data: updated, error } = await supabase
+      .from('transactions')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(TRANSACTION_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    return updated || undefined;
   }
 
   async deleteTransaction(userId: string, id: number): Promise<void> {
@@ -270,56 +876,101 @@ export class SupabaseStorage implements IStorage {
     return data?.length || 0;
   }
 
-  async getObligations(userId: string): Promise<Obligation[]> {
+  async getImportBatches(userId: string): Promise<ImportBatch[]> {
     const { data, error } = await supabase
-      .from('obligations')
-      .select('*')
+      .from('import_batches')
+      .select(IMPORT_BATCH_COLUMNS)
       .eq('user_id', userId)
-      .order('due_date', { ascending: true });
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
 
     if (error) throw error;
-    return data || [];
+    return (data || []).map(toImportBatch);
   }
 
-  async getObligation(userId: string, id: number): Promise<Obligation | undefined> {
+  async getImportBatch(userId: string, id: number): Promise<ImportBatch | undefined> {
     const { data, error } = await supabase
-      .from('obligations')
-      .select('*')
+      .from('import_batches')
+      .select(IMPORT_BATCH_COLUMNS)
       .eq('id', id)
       .eq('user_id', userId)
       .maybeSingle();
 
     if (error) throw error;
-    return data || undefined;
+    return data ? toImportBatch(data) : undefined;
   }
 
-  async createObligation(userId: string, obligation: InsertObligation): Promise<Obligation> {
+  async createImportBatch(
+    userId: string,
+    batch: InsertImportBatch,
+    transactions: NewTransaction[]
+  ): Promise<{ batch: ImportBatch; transactions: Transaction[] }> {
+    const { data: batchId, error } = await supabase.rpc('create_import_batch', {
+      p_user_id: userId,
+      p_batch: batch,
+      p_transactions: transactions,
+    });
+
+    if (error) throw error;
+    const created = await this.getImportBatch(userId, batchId);
+    return { batch: created!, transactions: await this.getTransactionsByImportBatch(userId, batchId) };
+  }
+
+  async getTransactionsByImportBatch(userId: string, batchId: number): Promise<Transaction[]> {
     const { data, error } = await supabase
-      .from('obligations')
-      .insert({ ...obligation, user_id: userId })
-      .select()
-      .single();
+      .from('transactions')
+      .select(TRANSACTION_COLUMNS)
+      .eq('import_batch_id', batchId)
+      .eq('user_id', userId)
+      .order('id', { ascending: true });
 
     if (error) throw error;
-    return data;
+    return data || [];
   }
 
-  async updateObligation(userId: string, id: number, data: Partial<InsertObligation>): Promise<Obligation | undefined> {
-    const { data: updated, error } = await supabase
-      .from('obligations')
-      .update(data)
+  async deleteTransactionsByImportBatch(userId: string, batchId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('transactions')
+      .delete()
+      .eq('import_batch_id', batchId)
+      .eq('user_id', userId)
+      .select();
+
+    if (error) throw error;
+    return data?.length || 0;
+  }
+
+  async getAttachment(userId: string, id: number): Promise<Attachment | undefined> {
+    const { data, error } = await supabase
+      .from('attachments')
+      .select('*')
       .eq('id', id)
       .eq('user_id', userId)
-      .select()
       .maybeSingle();
 
     if (error) throw error;
-    return updated || undefined;
+    return data || undefined;
   }
 
-  async deleteObligation(userId: string, id: number): Promise<void> {
+  async createAttachment(userId: string, attachment: InsertAttachment): Promise<Attachment> {
+    const transaction = await this.getTransaction(userId, attachment.transaction_id);
+    if (!transaction) {
+      throw new Error(`Transaction ${attachment.transaction_id} not found`);
+    }
+
+    const { data, error } = await supabase
+      .from('attachments')
+      .insert({ ...attachment, user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteAttachment(userId: string, id: number): Promise<void> {
     const { error } = await supabase
-      .from('obligations')
+      .from('attachments')
       .delete()
       .eq('id', id)
       .eq('user_id', userId);
@@ -327,20 +978,38 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
   }
 
-  async getConversations(userId: string): Promise<Conversation[]> {
+  async getTags(userId: string): Promise<TagCount[]> {
+    const { data, error } = await supabase.rpc('transaction_tags', { p_user_id: userId });
+
+    if (error) throw error;
+    return ((data || []) as TagCount[]).map((row) => ({ tag: row.tag, count: Number(row.count) }));
+  }
+
+  async replaceTag(userId: string, tag: string, replacement: string | null): Promise<number> {
+    const { data, error } = await supabase.rpc('replace_transaction_tag', {
+      p_user_id: userId,
+      p_tag: tag,
+      p_replacement: replacement,
+    });
+
+    if (error) throw error;
+    return Number(data) || 0;
+  }
+
+  async getSavedViews(userId: string): Promise<SavedView[]> {
     const { data, error } = await supabase
-      .from('conversations')
+      .from('saved_views')
       .select('*')
       .eq('user_id', userId)
-      .order('created_at', { ascending: false });
+      .order('name', { ascending: true });
 
     if (error) throw error;
     return data || [];
   }
 
-  async getConversation(userId: string, id: number): Promise<Conversation | undefined> {
+  async getSavedView(userId: string, id: number): Promise<SavedView | undefined> {
     const { data, error } = await supabase
-      .from('conversations')
+      .from('saved_views')
       .select('*')
       .eq('id', id)
       .eq('user_id', userId)
@@ -350,10 +1019,10 @@ export class SupabaseStorage implements IStorage {
     return data || undefined;
   }
 
-  async createConversation(userId: string, title: string): Promise<Conversation> {
+  async createSavedView(userId: string, view: InsertSavedView): Promise<SavedView> {
     const { data, error } = await supabase
-      .from('conversations')
-      .insert({ title, user_id: userId })
+      .from('saved_views')
+      .insert({ ...view, user_id: userId })
       .select()
       .single();
 
@@ -361,11 +1030,501 @@ export class SupabaseStorage implements IStorage {
     return data;
   }
 
-  async deleteConversation(userId: string, id: number): Promise<void> {
-    const conversation = await this.getConversation(userId, id);
-    if (conversation) {
-      const { error } = await supabase
-        .from('conversations')
+  async updateSavedView(userId: string, id: number, data: Partial<InsertSavedView>): Promise<SavedView | undefined> {
+    const { data: updated, error } = await supabase
+      .from('saved_views')
+      .update(data)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return updated || undefined;
+  }
+
+  async deleteSavedView(userId: string, id: number): Promise<void> {
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  async getImportProfiles(userId: string): Promise<ImportProfile[]> {
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .order('account_id', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getImportProfile(userId: string, id: number): Promise<ImportProfile | undefined> {
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || undefined;
+  }
+
+  async createImportProfile(userId: string, profile: InsertImportProfile): Promise<ImportProfile> {
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .insert({ ...profile, user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateImportProfile(userId: string, id: number, data: Partial<InsertImportProfile>): Promise<ImportProfile | undefined> {
+    const { data: updated, error } = await supabase
+      .from('import_profiles')
+      .update(data)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return updated || undefined;
+  }
+
+  async deleteImportProfile(userId: string, id: number): Promise<void> {
+    const { error } = await supabase
+      .from('import_profiles')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  async getCategoryRules(userId: string): Promise<CategoryRule[]> {
+    const { data, error } = await supabase
+      .from('category_rules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('priority', { ascending: false })
+      .order('id', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getCategoryRule(userId: string, id: number): Promise<CategoryRule | undefined> {
+    const { data, error } = await supabase
+      .from('category_rules')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || undefined;
+  }
+
+  async createCategoryRule(userId: string, rule: InsertCategoryRule): Promise<CategoryRule> {
+    const { data, error } = await supabase
+      .from('category_rules')
+      .insert({ ...rule, user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateCategoryRule(userId: string, id: number, data: Partial<InsertCategoryRule>): Promise<CategoryRule | undefined> {
+    const { data: updated, error } = await supabase
+      .from('category_rules')
+      .update(data)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return updated || undefined;
+  }
+
+  async deleteCategoryRule(userId: string, id: number): Promise<void> {
+    const { error } = await supabase
+      .from('category_rules')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  async getCategorizationJobs(userId: string): Promise<CategorizationJob[]> {
+    const { data, error } = await supabase
+      .from('categorization_jobs')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getCategorizationJob(userId: string, id: number): Promise<CategorizationJob | undefined> {
+    const { data, error } = await supabase
+      .from('categorization_jobs')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || undefined;
+  }
+
+  async createCategorizationJob(userId: string, total: number): Promise<CategorizationJob> {
+    const { data, error } = await supabase
+      .from('categorization_jobs')
+      .insert({ user_id: userId, total, status: 'running', processed: 0 })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateCategorizationJob(userId: string, id: number, data: UpdateCategorizationJob): Promise<CategorizationJob | undefined> {
+    const { data: updated, error } = await supabase
+      .from('categorization_jobs')
+      .update(data)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return updated || undefined;
+  }
+
+  async failRunningCategorizationJobs(message: string, now: string): Promise<CategorizationJob[]> {
+    const { data, error } = await supabase
+      .from('categorization_jobs')
+      .update({ status: 'failed', error: message, completed_at: now })
+      .eq('status', 'running')
+      .select();
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getCategorizationSuggestions(userId: string): Promise<CategorizationSuggestion[]> {
+    const { data, error } = await supabase
+      .from('categorization_suggestions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('id', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createCategorizationSuggestions(
+    userId: string,
+    suggestions: InsertCategorizationSuggestion[]
+  ): Promise<CategorizationSuggestion[]> {
+    if (suggestions.length === 0) return [];
+    const { data, error } = await supabase
+      .from('categorization_suggestions')
+      .insert(suggestions.map((suggestion) => ({ ...suggestion, user_id: userId })))
+      .select();
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async deleteCategorizationSuggestions(userId: string, ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await supabase
+      .from('categorization_suggestions')
+      .delete()
+      .in('id', ids)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  async getTransfers(userId: string): Promise<Transfer[]> {
+    const { data, error } = await supabase
+      .from('transfers')
+      .select(`*, transactions(${TRANSACTION_COLUMNS})`)
+      .eq('user_id', userId)
+      .order('date', { ascending: false })
+      .order('id', { ascending: false })
+      .order('id', { referencedTable: 'transactions', ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getTransfer(userId: string, id: number): Promise<Transfer | undefined> {
+    const { data, error } = await supabase
+      .from('transfers')
+      .select(`*, transactions(${TRANSACTION_COLUMNS})`)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .order('id', { referencedTable: 'transactions', ascending: true })
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || undefined;
+  }
+
+  // The transfer and both legs are written inside one function call; the
+  // balance trigger applies the legs to the two accounts.
+  async createTransfer(userId: string, transfer: InsertTransfer): Promise<Transfer> {
+    const { data, error } = await supabase
+      .rpc('create_transfer', {
+        p_user_id: userId,
+        p_from_account_id: transfer.from_account_id,
+        p_to_account_id: transfer.to_account_id,
+        p_amount: transfer.amount,
+        p_description: transfer.description,
+        p_date: transfer.date,
+      })
+      .single();
+
+    if (error) throw error;
+    const created = await this.getTransfer(userId, (data as { id: number }).id);
+    return created!;
+  }
+
+  async updateTransfer(userId: string, id: number, data: Partial<InsertTransfer>): Promise<Transfer | undefined> {
+    const { data: updated, error } = await supabase
+      .rpc('update_transfer', {
+        p_user_id: userId,
+        p_transfer_id: id,
+        p_from_account_id: data.from_account_id ?? null,
+        p_to_account_id: data.to_account_id ?? null,
+        p_amount: data.amount ?? null,
+        p_description: data.description ?? null,
+        p_date: data.date ?? null,
+      })
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!updated) return undefined;
+    return this.getTransfer(userId, id);
+  }
+
+  async deleteTransfer(userId: string, id: number): Promise<void> {
+    // Both legs go with it (ON DELETE CASCADE), reversing their balance effect
+    const { error } = await supabase
+      .from('transfers')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  async getObligations(userId: string): Promise<Obligation[]> {
+    const { data, error } = await supabase
+      .from('obligations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('due_date', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getObligation(userId: string, id: number): Promise<Obligation | undefined> {
+    const { data, error } = await supabase
+      .from('obligations')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || undefined;
+  }
+
+  async createObligation(userId: string, obligation: InsertObligation): Promise<Obligation> {
+    const { data, error } = await supabase
+      .from('obligations')
+      .insert({ ...obligation, user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateObligation(userId: string, id: number, data: Partial<InsertObligation>): Promise<Obligation | undefined> {
+    const { data: updated, error } = await supabase
+      .from('obligations')
+      .update(data)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return updated || undefined;
+  }
+
+  async deleteObligation(userId: string, id: number): Promise<void> {
+    const { error } = await supabase
+      .from('obligations')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  async getDeletions(userId: string): Promise<Deletion[]> {
+    const { data, error } = await supabase
+      .from('deletions')
+      .select('*')
+      .eq('user_id', userId)
+      .gt('expires_at', new Date().toISOString())
+      .order('id', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getDeletion(userId: string, id: number): Promise<Deletion | undefined> {
+    const { data, error } = await supabase
+      .from('deletions')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || undefined;
+  }
+
+  async createDeletion(userId: string, deletion: InsertDeletion): Promise<Deletion> {
+    const { data, error } = await supabase
+      .from('deletions')
+      .insert({ ...deletion, user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // The records are reinserted by one function call, so the balance trigger
+  // applies every restored transaction or none
+  async restoreDeletion(userId: string, id: number): Promise<boolean> {
+    const { data, error } = await supabase.rpc('restore_deletion', {
+      p_user_id: userId,
+      p_deletion_id: id,
+    });
+
+    if (error) throw error;
+    return data === true;
+  }
+
+  async deleteDeletion(userId: string, id: number): Promise<void> {
+    const { error } = await supabase
+      .from('deletions')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  async purgeExpiredDeletions(now: string): Promise<Deletion[]> {
+    const { data, error } = await supabase
+      .from('deletions')
+      .delete()
+      .lte('expires_at', now)
+      .select();
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async appendAuditEntries(userId: string, entries: InsertAuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const { error } = await supabase
+      .from('audit_log')
+      .insert(entries.map((entry) => ({ ...entry, user_id: userId })));
+
+    if (error) throw error;
+  }
+
+  async getAuditEntries(userId: string, entityType: AuditEntityType, entityId: number): Promise<AuditEntry[]> {
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('id', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getConversations(userId: string): Promise<Conversation[]> {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getConversation(userId: string, id: number): Promise<Conversation | undefined> {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || undefined;
+  }
+
+  async createConversation(userId: string, title: string): Promise<Conversation> {
+    const { data, error } = await supabase
+      .from('conversations')
+      .insert({ title, user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteConversation(userId: string, id: number): Promise<void> {
+    const conversation = await this.getConversation(userId, id);
+    if (conversation) {
+      const { error } = await supabase
+        .from('conversations')
         .delete()
         .eq('id', id)
         .eq('user_id', userId);
@@ -405,4 +1564,23 @@ export class SupabaseStorage implements IStorage {
   }
 }
 
-export const storage = new SupabaseStorage();
+export type StorageBackend = "supabase" | "postgres";
+
+// STORAGE_BACKEND=postgres keeps all financial data in the Postgres database
+// named by DATABASE_URL (via Drizzle) instead of the Supabase project. Users
+// still sign in with Supabase Auth either way. The Drizzle module is loaded
+// lazily because it requires DATABASE_URL at import.
+export async function createStorage(
+  backend: StorageBackend = (process.env.STORAGE_BACKEND as StorageBackend) || "supabase"
+): Promise<IStorage> {
+  switch (backend) {
+    case "supabase":
+      return new SupabaseStorage();
+    case "postgres": {
+      const { DrizzleStorage } = await import("./drizzle-storage");
+      return new DrizzleStorage();
+    }
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected "supabase" or "postgres")`);
+  }
+}
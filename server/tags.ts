@@ -0,0 +1,18 @@
+export const MAX_TAG_LENGTH = 40;
+
+// Tags are compared case-insensitively, so they are stored lowercase. Commas
+// are reserved as the separator in `?tag=a,b`.
+export function normalizeTag(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const tag = raw.trim().toLowerCase();
+  if (tag === "" || tag.length > MAX_TAG_LENGTH || tag.includes(",")) return null;
+  return tag;
+}
+
+// Returns the tags sorted and without duplicates, or null if any is invalid.
+export function normalizeTags(raw: unknown): string[] | null {
+  if (!Array.isArray(raw)) return null;
+  const tags = raw.map(normalizeTag);
+  if (tags.some((tag) => tag === null)) return null;
+  return Array.from(new Set(tags as string[])).sort();
+}
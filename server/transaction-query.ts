@@ -0,0 +1,165 @@
+import type { Transaction, TransactionCursor, TransactionQuery, TransactionSortField } from "./storage";
+import { normalizeTag } from "./tags";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+const FILTER_PARAMS = [
+  "accountId",
+  "startDate",
+  "endDate",
+  "minAmount",
+  "maxAmount",
+  "category",
+  "subcategory",
+  "q",
+  "tag",
+  "sort",
+  "order",
+  "cursor",
+  "limit",
+];
+
+// Saved views keep the filters and sort order, but not a position or page size
+const VIEW_PARAMS = FILTER_PARAMS.filter((name) => name !== "cursor" && name !== "limit");
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Requests without any paging or filter parameter keep getting the plain
+// list, which the dashboard and assistant still aggregate client-side.
+export function isPagedRequest(params: Record<string, unknown>): boolean {
+  return FILTER_PARAMS.some((name) => params[name] !== undefined);
+}
+
+const AMOUNT_PATTERN = /^-?\d+(\.\d+)?$/;
+
+// The cursor names the sort it was made for; its value goes into the
+// backends' range filters, so it must look like a value of that column.
+const CURSOR_VALUE_PATTERNS: Record<TransactionSortField, RegExp> = {
+  date: DATE_PATTERN,
+  amount: AMOUNT_PATTERN,
+};
+
+export function encodeCursor(transaction: Transaction, sort: TransactionSortField): string {
+  const cursor = { sort, value: String(transaction[sort]), id: transaction.id };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string, sort: TransactionSortField): TransactionCursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      cursor?.sort === sort &&
+      typeof cursor.value === "string" &&
+      CURSOR_VALUE_PATTERNS[sort].test(cursor.value) &&
+      Number.isInteger(cursor.id)
+    ) {
+      return { value: cursor.value, id: cursor.id };
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+// Backends fetch one row more than the page size; if it is there, the last
+// row of the page becomes the cursor for the next one.
+export function toPage(rows: Transaction[], query: TransactionQuery) {
+  const transactions = rows.slice(0, query.limit);
+  const next_cursor =
+    rows.length > query.limit ? encodeCursor(transactions[transactions.length - 1], query.sort) : null;
+  return { transactions, next_cursor };
+}
+
+// `%` and `_` in the search text are matched literally.
+export function searchPattern(search: string): string {
+  return `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function single(value: unknown): string | undefined {
+  if (Array.isArray(value)) return single(value[value.length - 1]);
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+// Turns GET /api/transactions query parameters into a TransactionQuery, or
+// an error message naming the first bad parameter.
+export function parseTransactionQuery(
+  params: Record<string, unknown>
+): { query: TransactionQuery } | { error: string } {
+  const query: TransactionQuery = { sort: "date", order: "desc", limit: DEFAULT_PAGE_SIZE };
+
+  const accountId = single(params.accountId);
+  if (accountId) {
+    const ids = accountId.split(",").map((id) => Number(id.trim()));
+    if (ids.some((id) => !Number.isInteger(id))) return { error: "Invalid accountId" };
+    query.account_ids = ids;
+  }
+
+  for (const [param, key] of [["startDate", "start_date"], ["endDate", "end_date"]] as const) {
+    const value = single(params[param]);
+    if (value === undefined) continue;
+    if (!DATE_PATTERN.test(value)) return { error: `Invalid ${param}` };
+    query[key] = value;
+  }
+
+  for (const [param, key] of [["minAmount", "min_amount"], ["maxAmount", "max_amount"]] as const) {
+    const value = single(params[param]);
+    if (value === undefined) continue;
+    if (isNaN(Number(value))) return { error: `Invalid ${param}` };
+    query[key] = value;
+  }
+
+  query.category = single(params.category);
+  query.subcategory = single(params.subcategory);
+  query.search = single(params.q);
+
+  const tag = single(params.tag);
+  if (tag) {
+    const tags = tag.split(",").map(normalizeTag);
+    if (tags.some((t) => t === null)) return { error: "Invalid tag" };
+    query.tags = tags as string[];
+  }
+
+  const sort = single(params.sort);
+  if (sort !== undefined) {
+    if (sort !== "date" && sort !== "amount") return { error: "Invalid sort" };
+    query.sort = sort;
+  }
+
+  const order = single(params.order);
+  if (order !== undefined) {
+    if (order !== "asc" && order !== "desc") return { error: "Invalid order" };
+    query.order = order;
+  }
+
+  const limit = single(params.limit);
+  if (limit !== undefined) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1) return { error: "Invalid limit" };
+    query.limit = Math.min(parsed, MAX_PAGE_SIZE);
+  }
+
+  const cursor = single(params.cursor);
+  if (cursor !== undefined) {
+    query.cursor = decodeCursor(cursor, query.sort);
+    if (!query.cursor) return { error: "Invalid cursor" };
+  }
+
+  return { query };
+}
+
+// Checks the filters of a saved view the same way GET /api/transactions
+// would, keeping only the recognised, non-empty parameters.
+export function parseViewFilters(raw: unknown): { filters: Record<string, string> } | { error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { error: "filters must be an object" };
+
+  const filters: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (!VIEW_PARAMS.includes(name)) return { error: `Unknown filter ${name}` };
+    if (typeof value !== "string") return { error: `Invalid ${name}` };
+    if (value.trim() !== "") filters[name] = value.trim();
+  }
+
+  const parsed = parseTransactionQuery(filters);
+  return "error" in parsed ? parsed : { filters };
+}
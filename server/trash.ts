@@ -0,0 +1,124 @@
+import type { FileStore } from "./file-store";
+import type {
+  Account,
+  DeletedRecords,
+  Deletion,
+  DeletionKind,
+  IStorage,
+  Obligation,
+  Transaction,
+  Transfer,
+} from "./storage";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function trashExpiry(now = new Date()): string {
+  return new Date(now.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+interface RecordsToTrash {
+  accounts?: Account[];
+  transactions?: Transaction[];
+  obligations?: Obligation[];
+  unlinked_obligations?: Obligation[];
+}
+
+// Reads everything a delete will take with it. Deleting one leg of a
+// transfer deletes the transfer and its other leg, so those are added.
+export async function collectRecords(storage: IStorage, userId: string, records: RecordsToTrash): Promise<DeletedRecords> {
+  const transactions = new Map((records.transactions ?? []).map((t) => [t.id, t]));
+  const transfers: Omit<Transfer, "transactions">[] = [];
+  const transferIds = new Set(Array.from(transactions.values()).flatMap((t) => (t.transfer_id != null ? [t.transfer_id] : [])));
+  for (const transferId of Array.from(transferIds)) {
+    const transfer = await storage.getTransfer(userId, transferId);
+    if (!transfer) continue;
+    const { transactions: legs, ...row } = transfer;
+    transfers.push(row);
+    for (const leg of legs) transactions.set(leg.id, leg);
+  }
+
+  return {
+    accounts: records.accounts ?? [],
+    transfers,
+    transactions: Array.from(transactions.values()),
+    obligations: records.obligations ?? [],
+    unlinked_obligations: (records.unlinked_obligations ?? []).map((o) => ({ id: o.id, account_id: o.account_id! })),
+  };
+}
+
+// Writes the trash entry, then runs the delete. If the delete fails the
+// entry is dropped again, so the trash never offers records that still exist.
+export async function moveToTrash(
+  storage: IStorage,
+  userId: string,
+  kind: DeletionKind,
+  label: string,
+  records: DeletedRecords,
+  remove: () => Promise<unknown>
+): Promise<Deletion> {
+  const deletion = await storage.createDeletion(userId, { kind, label, records, expires_at: trashExpiry() });
+  try {
+    await remove();
+  } catch (error) {
+    await storage.deleteDeletion(userId, deletion.id);
+    throw error;
+  }
+  return deletion;
+}
+
+// The accounts a restore needs that are not part of it. Restoring is only
+// possible once they exist again.
+export function missingAccountIds(records: DeletedRecords, existingAccountIds: Set<number>): number[] {
+  const restored = new Set(records.accounts.map((a) => a.id));
+  const needed = [
+    ...records.transactions.map((t) => t.account_id),
+    ...records.transfers.flatMap((t) => [t.from_account_id, t.to_account_id]),
+    ...records.obligations.flatMap((o) => (o.account_id != null ? [o.account_id] : [])),
+  ];
+  return Array.from(new Set(needed)).filter((id) => !restored.has(id) && !existingAccountIds.has(id));
+}
+
+// The trash listing leaves out the records themselves.
+export function summarizeDeletion(deletion: Deletion) {
+  const { records, ...entry } = deletion;
+  return {
+    ...entry,
+    counts: {
+      accounts: records.accounts.length,
+      transactions: records.transactions.length,
+      obligations: records.obligations.length,
+    },
+  };
+}
+
+// Deletes the stored files of attachments whose rows are gone for good. A
+// file that cannot be removed is only logged; the rows are already deleted.
+export async function removeAttachmentFiles(files: FileStore, transactions: Transaction[]): Promise<void> {
+  for (const attachment of transactions.flatMap((t) => t.attachments)) {
+    try {
+      await files.delete(attachment.storage_key);
+    } catch (error) {
+      console.error(`Error removing attachment file ${attachment.storage_key}:`, error);
+    }
+  }
+}
+
+export async function purgeExpiredTrash(storage: IStorage, files: FileStore): Promise<number> {
+  const purged = await storage.purgeExpiredDeletions(new Date().toISOString());
+  for (const deletion of purged) {
+    await removeAttachmentFiles(files, deletion.records.transactions);
+  }
+  return purged.length;
+}
+
+// Purges expired trash entries at startup and then every hour.
+export function startTrashPurge(storage: IStorage, files: FileStore): NodeJS.Timeout {
+  const purge = () =>
+    purgeExpiredTrash(storage, files).catch((error) => console.error("Error purging trash:", error));
+  purge();
+  const timer = setInterval(purge, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, serial, integer, timestamp, numeric, date, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, timestamp, numeric, date, boolean, jsonb, index, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -17,6 +17,7 @@ export const accounts = pgTable("accounts", {
   type: text("type").notNull(), // 'personal' or 'business'
   category: text("category").notNull(), // 'checking', 'savings', 'credit_card', 'loan', 'investment'
   balance: numeric("balance", { precision: 12, scale: 2 }).notNull().default("0"),
+  openingBalance: numeric("opening_balance", { precision: 12, scale: 2 }).notNull().default("0"), // balance before the first transaction
   creditLimit: numeric("credit_limit", { precision: 12, scale: 2 }),
   creditScore: integer("credit_score"),
   interestRate: numeric("interest_rate", { precision: 5, scale: 2 }),
@@ -49,25 +50,259 @@ export const transactions = pgTable("transactions", {
   category: text("category").notNull(), // 'income', 'expense', 'transfer', 'payment'
   subcategory: text("subcategory"), // 'groceries', 'utilities', 'salary', etc.
   date: date("date").notNull(),
+  transferId: integer("transfer_id").references(() => transfers.id, { onDelete: "cascade" }), // set on both legs of a transfer
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`), // lowercase, sorted, no duplicates
+  importBatchId: integer("import_batch_id").references(() => importBatches.id, { onDelete: "set null" }), // set by bulk import
+  externalId: text("external_id"), // the bank's id for the transaction, e.g. an OFX FITID
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
-});
+}, (table) => [
+  // Newest-first pages of GET /api/transactions
+  index("idx_transactions_user_date_id").on(table.userId, table.date.desc(), table.id.desc()),
+  index("idx_transactions_tags").using("gin", table.tags),
+  index("idx_transactions_import_batch_id").on(table.importBatchId),
+  index("idx_transactions_account_external_id").on(table.accountId, table.externalId),
+]);
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
+export const transactionsRelations = relations(transactions, ({ one, many }) => ({
   account: one(accounts, {
     fields: [transactions.accountId],
     references: [accounts.id],
   }),
+  transfer: one(transfers, {
+    fields: [transactions.transferId],
+    references: [transfers.id],
+  }),
+  importBatch: one(importBatches, {
+    fields: [transactions.importBatchId],
+    references: [importBatches.id],
+  }),
+  splits: many(transactionSplits),
+  attachments: many(attachments),
 }));
 
 export const insertTransactionSchema = createInsertSchema(transactions).omit({
   id: true,
   userId: true,
+  transferId: true,
+  importBatchId: true,
   createdAt: true,
 });
 
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 
+// Split lines divide one transaction across subcategories (and between
+// personal and business use). Their amounts add up to the transaction's.
+export const transactionSplits = pgTable("transaction_splits", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  subcategory: text("subcategory").notNull(),
+  type: text("type").notNull(), // 'personal' or 'business'
+});
+
+export const transactionSplitsRelations = relations(transactionSplits, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionSplits.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
+export const insertTransactionSplitSchema = createInsertSchema(transactionSplits).omit({
+  id: true,
+  userId: true,
+  transactionId: true,
+});
+
+export type TransactionSplit = typeof transactionSplits.$inferSelect;
+export type InsertTransactionSplit = z.infer<typeof insertTransactionSplitSchema>;
+
+// Receipts and documents uploaded against a transaction. The file itself
+// lives in the configured file store under `storageKey`.
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(), // an image type or 'application/pdf'
+  size: integer("size").notNull(), // bytes
+  storageKey: text("storage_key").notNull().unique(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_attachments_transaction_id").on(table.transactionId),
+]);
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [attachments.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
+export type Attachment = typeof attachments.$inferSelect;
+
+// Transactions as the API returns them, with split lines and attachments embedded
+export type TransactionWithSplits = Transaction & { splits: TransactionSplit[]; attachments: Attachment[] };
+
+// Transfers move money between two of the user's accounts. Each one owns a
+// pair of transactions (one per account) that are edited and deleted with it.
+export const transfers = pgTable("transfers", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fromAccountId: integer("from_account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  toAccountId: integer("to_account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(), // always positive
+  description: text("description").notNull(),
+  date: date("date").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const transfersRelations = relations(transfers, ({ many }) => ({
+  transactions: many(transactions),
+}));
+
+export const insertTransferSchema = createInsertSchema(transfers).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export type Transfer = typeof transfers.$inferSelect;
+export type InsertTransfer = z.infer<typeof insertTransferSchema>;
+
+// One run of the bulk import. Every transaction it created carries the
+// batch id, so the whole import can be rolled back at once.
+export const importBatches = pgTable("import_batches", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").references(() => accounts.id, { onDelete: "set null" }),
+  fileName: text("file_name"),
+  parser: text("parser"), // e.g. 'csv', 'pdf'
+  rowCount: integer("row_count").notNull(), // transactions created by the import
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_import_batches_user_id").on(table.userId),
+]);
+
+export const importBatchesRelations = relations(importBatches, ({ one, many }) => ({
+  account: one(accounts, {
+    fields: [importBatches.accountId],
+    references: [accounts.id],
+  }),
+  transactions: many(transactions),
+}));
+
+export type ImportBatch = typeof importBatches.$inferSelect;
+
+// How a bank's CSV or spreadsheet export maps onto transactions, saved per
+// account and header row so the same export skips the mapping step next time.
+// `headerSignature` is the header row trimmed, lowercased and joined with "|".
+export const importProfiles = pgTable("import_profiles", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  headerSignature: text("header_signature").notNull(),
+  headers: jsonb("headers").$type<string[]>().notNull(),
+  // Header names for date, description, category and either amount or debit and credit
+  columns: jsonb("columns").$type<Record<string, string>>().notNull(),
+  dateFormat: text("date_format").notNull().default("mdy"), // 'mdy' or 'dmy'
+  amountSign: text("amount_sign").notNull().default("positive_in"), // 'positive_in' or 'positive_out'
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("import_profiles_user_id_account_id_header_signature_key").on(table.userId, table.accountId, table.headerSignature),
+]);
+
+export const insertImportProfileSchema = createInsertSchema(importProfiles).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type InsertImportProfile = z.infer<typeof insertImportProfileSchema>;
+
+// User-defined categorization rules, tried from the highest priority down.
+// The first rule whose conditions all hold sets the subcategory (and, with
+// `type`, marks the transaction as personal or business use).
+export const categoryRules = pgTable("category_rules", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  priority: integer("priority").notNull().default(0),
+  matchType: text("match_type").notNull().default("contains"), // 'contains' or 'regex'
+  pattern: text("pattern"), // matched against the description, ignoring case
+  accountId: integer("account_id").references(() => accounts.id, { onDelete: "cascade" }),
+  minAmount: numeric("min_amount", { precision: 12, scale: 2 }), // compared with the amount without its sign
+  maxAmount: numeric("max_amount", { precision: 12, scale: 2 }),
+  subcategory: text("subcategory").notNull(),
+  type: text("type"), // 'personal' or 'business'
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_category_rules_user_priority").on(table.userId, table.priority.desc()),
+]);
+
+export const insertCategoryRuleSchema = createInsertSchema(categoryRules).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export type CategoryRule = typeof categoryRules.$inferSelect;
+export type InsertCategoryRule = z.infer<typeof insertCategoryRuleSchema>;
+
+// Background runs of the AI categorization over uncategorized transactions
+export const categorizationJobs = pgTable("categorization_jobs", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("running"), // 'running', 'completed' or 'failed'
+  total: integer("total").notNull(), // transactions to send to the model
+  processed: integer("processed").notNull().default(0),
+  error: text("error"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_categorization_jobs_user_id").on(table.userId),
+]);
+
+export type CategorizationJob = typeof categorizationJobs.$inferSelect;
+
+// Subcategories suggested by a categorization job, kept until the user
+// accepts or dismisses them
+export const categorizationSuggestions = pgTable("categorization_suggestions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  jobId: integer("job_id").notNull().references(() => categorizationJobs.id, { onDelete: "cascade" }),
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+  subcategory: text("subcategory").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_categorization_suggestions_user_id").on(table.userId),
+]);
+
+export type CategorizationSuggestion = typeof categorizationSuggestions.$inferSelect;
+
+// Named filter combinations for the personal and business transaction tables.
+// `filters` holds GET /api/transactions query parameters, e.g. { tag: "reimbursable" }.
+export const savedViews = pgTable("saved_views", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  scope: text("scope").notNull(), // 'personal' or 'business'
+  filters: jsonb("filters").$type<Record<string, string>>().notNull().default({}),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("saved_views_user_id_scope_name_key").on(table.userId, table.scope, table.name),
+]);
+
+export const insertSavedViewSchema = createInsertSchema(savedViews).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export type SavedView = typeof savedViews.$inferSelect;
+export type InsertSavedView = z.infer<typeof insertSavedViewSchema>;
+
 // Obligations (recurring payments, due dates)
 export const obligations = pgTable("obligations", {
   id: serial("id").primaryKey(),
@@ -102,6 +337,42 @@ export const insertObligationSchema = createInsertSchema(obligations).omit({
 export type Obligation = typeof obligations.$inferSelect;
 export type InsertObligation = z.infer<typeof insertObligationSchema>;
 
+// Audit log: append-only history of changes to accounts, transactions and
+// obligations. `entityId` is not a foreign key so deletes stay on record.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  entityType: text("entity_type").notNull(), // 'account', 'transaction' or 'obligation'
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // 'create', 'update' or 'delete'
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  source: text("source").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("idx_audit_log_entity").on(table.userId, table.entityType, table.entityId),
+]);
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+// Trash: what one delete removed (accounts, transfers, transactions with
+// their splits and attachments, obligations), kept for restoring until
+// `expiresAt`. `records` holds the rows in API (snake_case) form.
+export const deletions = pgTable("deletions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // 'account', 'transactions' or 'obligation'
+  label: text("label").notNull(),
+  records: jsonb("records").$type<Record<string, unknown[]>>().notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  index("idx_deletions_user_id").on(table.userId),
+  index("idx_deletions_expires_at").on(table.expiresAt),
+]);
+
+export type Deletion = typeof deletions.$inferSelect;
+
 // AI Chat conversations
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
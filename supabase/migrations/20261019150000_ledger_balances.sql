@@ -0,0 +1,67 @@
+/*
+  # Ledger-based account balances
+
+  1. Changes
+    - `accounts.opening_balance` (numeric) - balance before any recorded transaction
+    - Backfilled as `balance - sum(transactions.amount)` so existing balances are unchanged
+
+  2. Functions
+    - `apply_transaction_to_balance()` trigger keeps `accounts.balance` in step with every
+      insert, update and delete on `transactions`, inside the same statement. Bulk inserts
+      and range deletes are therefore applied atomically.
+    - `set_account_balance(user, account, balance)` sets the current balance by moving the
+      opening balance, so `balance = opening_balance + sum(amount)` keeps holding.
+
+  3. Important Notes
+    - The trigger only touches accounts owned by the transaction's user and raises if the
+      account does not exist for that user, aborting the whole statement.
+*/
+
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS opening_balance numeric(12, 2) NOT NULL DEFAULT 0;
+
+UPDATE accounts a
+SET opening_balance = a.balance - COALESCE(
+  (SELECT sum(t.amount) FROM transactions t WHERE t.account_id = a.id),
+  0
+);
+
+CREATE OR REPLACE FUNCTION public.apply_transaction_to_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE accounts
+    SET balance = balance - OLD.amount
+    WHERE id = OLD.account_id AND user_id = OLD.user_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE accounts
+    SET balance = balance + NEW.amount
+    WHERE id = NEW.account_id AND user_id = NEW.user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Account % not found', NEW.account_id;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_apply_balance ON transactions;
+CREATE TRIGGER transactions_apply_balance
+  AFTER INSERT OR UPDATE OF amount, account_id OR DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION public.apply_transaction_to_balance();
+
+CREATE OR REPLACE FUNCTION public.set_account_balance(
+  p_user_id uuid,
+  p_account_id integer,
+  p_balance numeric
+)
+RETURNS SETOF accounts AS $$
+  UPDATE accounts
+  SET opening_balance = opening_balance + (p_balance - balance),
+      balance = p_balance
+  WHERE id = p_account_id AND user_id = p_user_id
+  RETURNING *;
+$$ LANGUAGE sql;
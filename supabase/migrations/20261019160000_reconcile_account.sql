@@ -0,0 +1,73 @@
+/*
+  # Account reconciliation
+
+  1. Functions
+    - `reconcile_account(user, account, opening_balance, apply)` recomputes an account's
+      balance as `opening_balance + sum(transactions.amount)` and reports the drift against
+      the stored `balance` column (`drift = stored - computed`).
+    - When `opening_balance` is given it replaces the stored one for the computation.
+    - When `apply` is true the computed balance (and any new opening balance) is written back.
+
+  2. Important Notes
+    - The account row is locked for the duration so a concurrent import cannot slip in
+      between summing the ledger and writing the balance.
+    - Returns no rows when the account does not belong to the user.
+*/
+
+CREATE OR REPLACE FUNCTION public.reconcile_account(
+  p_user_id uuid,
+  p_account_id integer,
+  p_opening_balance numeric DEFAULT NULL,
+  p_apply boolean DEFAULT false
+)
+RETURNS TABLE (
+  account_id integer,
+  opening_balance numeric,
+  transaction_total numeric,
+  transaction_count integer,
+  stored_balance numeric,
+  computed_balance numeric,
+  drift numeric,
+  applied boolean
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_account accounts%ROWTYPE;
+  v_opening numeric;
+  v_total numeric;
+  v_count integer;
+BEGIN
+  SELECT * INTO v_account
+  FROM accounts a
+  WHERE a.id = p_account_id AND a.user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(t.amount), 0), count(*)
+  INTO v_total, v_count
+  FROM transactions t
+  WHERE t.account_id = p_account_id;
+
+  v_opening := COALESCE(p_opening_balance, v_account.opening_balance);
+
+  IF p_apply THEN
+    UPDATE accounts a
+    SET opening_balance = v_opening,
+        balance = v_opening + v_total
+    WHERE a.id = p_account_id;
+  END IF;
+
+  RETURN QUERY SELECT
+    p_account_id,
+    v_opening,
+    v_total,
+    v_count,
+    v_account.balance,
+    v_opening + v_total,
+    v_account.balance - (v_opening + v_total),
+    p_apply;
+END;
+$$ LANGUAGE plpgsql;
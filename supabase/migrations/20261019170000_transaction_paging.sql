@@ -0,0 +1,50 @@
+/*
+  # Transaction paging and totals
+
+  1. Indexes
+    - `idx_transactions_user_date_id` on `(user_id, date DESC, id DESC)` so the default
+      newest-first page is read straight from the index, cursor included.
+
+  2. Functions
+    - `transaction_totals(user, filters...)` returns the count, income, expenses and net of
+      every transaction matching the same filters GET /api/transactions applies to a page.
+    - `p_search` is a LIKE pattern, already escaped and wrapped in `%` by the caller.
+    - NULL filters are ignored.
+*/
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date_id
+  ON transactions(user_id, date DESC, id DESC);
+
+CREATE OR REPLACE FUNCTION public.transaction_totals(
+  p_user_id uuid,
+  p_account_ids integer[] DEFAULT NULL,
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_min_amount numeric DEFAULT NULL,
+  p_max_amount numeric DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_subcategory text DEFAULT NULL,
+  p_search text DEFAULT NULL
+)
+RETURNS TABLE (
+  count integer,
+  income numeric,
+  expenses numeric,
+  net numeric
+) AS $$
+  SELECT
+    count(*)::integer,
+    COALESCE(sum(t.amount) FILTER (WHERE t.amount > 0), 0),
+    COALESCE(-sum(t.amount) FILTER (WHERE t.amount < 0), 0),
+    COALESCE(sum(t.amount), 0)
+  FROM transactions t
+  WHERE t.user_id = p_user_id
+    AND (p_account_ids IS NULL OR t.account_id = ANY(p_account_ids))
+    AND (p_start_date IS NULL OR t.date >= p_start_date)
+    AND (p_end_date IS NULL OR t.date <= p_end_date)
+    AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+    AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+    AND (p_category IS NULL OR t.category = p_category)
+    AND (p_subcategory IS NULL OR t.subcategory = p_subcategory)
+    AND (p_search IS NULL OR t.description ILIKE p_search);
+$$ LANGUAGE sql STABLE;
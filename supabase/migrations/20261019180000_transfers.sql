@@ -0,0 +1,215 @@
+/*
+  # Transfers between accounts
+
+  1. New Tables
+    - `transfers`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `from_account_id` (integer, references accounts)
+      - `to_account_id` (integer, references accounts)
+      - `amount` (numeric) - always positive
+      - `description` (text)
+      - `date` (date)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `transactions.transfer_id` (integer, references transfers) - set on both legs of a transfer
+
+  3. Functions
+    - `transfer_leg_amount(category, amount, incoming)` signs a leg for its account. Credit
+      cards and loans store the amount owed, so money arriving lowers their balance.
+    - `create_transfer(...)` / `update_transfer(...)` write the transfer and both legs in one
+      statement each; the balance trigger moves both account balances.
+    - Deleting either leg deletes the transfer, which cascades to the other leg.
+    - `transaction_totals` leaves transfer legs out of income and expenses.
+
+  4. Security
+    - RLS on `transfers` limited to the owning user, as for the other tables.
+*/
+
+CREATE TABLE IF NOT EXISTS transfers (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_account_id integer NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  to_account_id integer NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  description text NOT NULL,
+  date date NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (from_account_id <> to_account_id)
+);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS transfer_id integer REFERENCES transfers(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_transfers_user_id ON transfers(user_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_id ON transactions(transfer_id);
+
+ALTER TABLE transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transfers"
+  ON transfers FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own transfers"
+  ON transfers FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own transfers"
+  ON transfers FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own transfers"
+  ON transfers FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.transfer_leg_amount(
+  p_category text,
+  p_amount numeric,
+  p_incoming boolean
+)
+RETURNS numeric AS $$
+  SELECT CASE
+    WHEN p_category IN ('credit_card', 'loan') THEN
+      CASE WHEN p_incoming THEN -p_amount ELSE p_amount END
+    ELSE
+      CASE WHEN p_incoming THEN p_amount ELSE -p_amount END
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.write_transfer_legs(p_transfer transfers)
+RETURNS void AS $$
+DECLARE
+  v_from accounts%ROWTYPE;
+  v_to accounts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_from FROM accounts WHERE id = p_transfer.from_account_id AND user_id = p_transfer.user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account % not found', p_transfer.from_account_id;
+  END IF;
+
+  SELECT * INTO v_to FROM accounts WHERE id = p_transfer.to_account_id AND user_id = p_transfer.user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account % not found', p_transfer.to_account_id;
+  END IF;
+
+  DELETE FROM transactions WHERE transfer_id = p_transfer.id;
+
+  INSERT INTO transactions (user_id, account_id, description, amount, category, date, transfer_id)
+  VALUES
+    (p_transfer.user_id, v_from.id, p_transfer.description,
+     public.transfer_leg_amount(v_from.category, p_transfer.amount, false),
+     'transfer', p_transfer.date, p_transfer.id),
+    (p_transfer.user_id, v_to.id, p_transfer.description,
+     public.transfer_leg_amount(v_to.category, p_transfer.amount, true),
+     'transfer', p_transfer.date, p_transfer.id);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.create_transfer(
+  p_user_id uuid,
+  p_from_account_id integer,
+  p_to_account_id integer,
+  p_amount numeric,
+  p_description text,
+  p_date date
+)
+RETURNS SETOF transfers AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+BEGIN
+  INSERT INTO transfers (user_id, from_account_id, to_account_id, amount, description, date)
+  VALUES (p_user_id, p_from_account_id, p_to_account_id, p_amount, p_description, p_date)
+  RETURNING * INTO v_transfer;
+
+  PERFORM public.write_transfer_legs(v_transfer);
+  RETURN NEXT v_transfer;
+END;
+$$ LANGUAGE plpgsql;
+
+-- NULL arguments keep the current value. Both legs are rewritten, so their
+-- balance effect is reversed and reapplied by the balance trigger.
+CREATE OR REPLACE FUNCTION public.update_transfer(
+  p_user_id uuid,
+  p_transfer_id integer,
+  p_from_account_id integer DEFAULT NULL,
+  p_to_account_id integer DEFAULT NULL,
+  p_amount numeric DEFAULT NULL,
+  p_description text DEFAULT NULL,
+  p_date date DEFAULT NULL
+)
+RETURNS SETOF transfers AS $$
+DECLARE
+  v_transfer transfers%ROWTYPE;
+BEGIN
+  UPDATE transfers
+  SET from_account_id = COALESCE(p_from_account_id, from_account_id),
+      to_account_id = COALESCE(p_to_account_id, to_account_id),
+      amount = COALESCE(p_amount, amount),
+      description = COALESCE(p_description, description),
+      date = COALESCE(p_date, date)
+  WHERE id = p_transfer_id AND user_id = p_user_id
+  RETURNING * INTO v_transfer;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.write_transfer_legs(v_transfer);
+  RETURN NEXT v_transfer;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.delete_transfer_with_leg()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM transfers WHERE id = OLD.transfer_id AND user_id = OLD.user_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_delete_transfer ON transactions;
+CREATE TRIGGER transactions_delete_transfer
+  AFTER DELETE ON transactions
+  FOR EACH ROW
+  WHEN (OLD.transfer_id IS NOT NULL)
+  EXECUTE FUNCTION public.delete_transfer_with_leg();
+
+CREATE OR REPLACE FUNCTION public.transaction_totals(
+  p_user_id uuid,
+  p_account_ids integer[] DEFAULT NULL,
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_min_amount numeric DEFAULT NULL,
+  p_max_amount numeric DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_subcategory text DEFAULT NULL,
+  p_search text DEFAULT NULL
+)
+RETURNS TABLE (
+  count integer,
+  income numeric,
+  expenses numeric,
+  net numeric
+) AS $$
+  SELECT
+    count(*)::integer,
+    COALESCE(sum(t.amount) FILTER (WHERE t.amount > 0 AND t.transfer_id IS NULL), 0),
+    COALESCE(-sum(t.amount) FILTER (WHERE t.amount < 0 AND t.transfer_id IS NULL), 0),
+    COALESCE(sum(t.amount) FILTER (WHERE t.transfer_id IS NULL), 0)
+  FROM transactions t
+  WHERE t.user_id = p_user_id
+    AND (p_account_ids IS NULL OR t.account_id = ANY(p_account_ids))
+    AND (p_start_date IS NULL OR t.date >= p_start_date)
+    AND (p_end_date IS NULL OR t.date <= p_end_date)
+    AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+    AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+    AND (p_category IS NULL OR t.category = p_category)
+    AND (p_subcategory IS NULL OR t.subcategory = p_subcategory)
+    AND (p_search IS NULL OR t.description ILIKE p_search);
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,81 @@
+/*
+  # Split transactions
+
+  1. New Tables
+    - `transaction_splits`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `transaction_id` (integer, references transactions, cascade delete)
+      - `amount` (numeric) - same sign as the transaction; the splits of a transaction add up to its amount
+      - `subcategory` (text)
+      - `type` (text) - 'personal' or 'business'
+
+  2. Functions
+    - `set_transaction_splits(user, transaction, splits jsonb)` replaces a transaction's splits in
+      one statement. An empty array removes them. Returns no rows if the transaction is not the user's.
+
+  3. Security
+    - RLS on `transaction_splits` limited to the owning user, as for the other tables.
+
+  4. Important Notes
+    - Splits never touch account balances; only the parent transaction's amount does.
+*/
+
+CREATE TABLE IF NOT EXISTS transaction_splits (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_id integer NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL,
+  subcategory text NOT NULL,
+  type text NOT NULL CHECK (type IN ('personal', 'business'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction_id ON transaction_splits(transaction_id);
+
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transaction splits"
+  ON transaction_splits FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own transaction splits"
+  ON transaction_splits FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own transaction splits"
+  ON transaction_splits FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own transaction splits"
+  ON transaction_splits FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.set_transaction_splits(
+  p_user_id uuid,
+  p_transaction_id integer,
+  p_splits jsonb
+)
+RETURNS SETOF transaction_splits AS $$
+BEGIN
+  PERFORM 1 FROM transactions
+  WHERE id = p_transaction_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  RETURN QUERY
+  INSERT INTO transaction_splits (user_id, transaction_id, amount, subcategory, type)
+  SELECT p_user_id, p_transaction_id, (s->>'amount')::numeric, s->>'subcategory', s->>'type'
+  FROM jsonb_array_elements(p_splits) AS s
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
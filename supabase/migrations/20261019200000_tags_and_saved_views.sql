@@ -0,0 +1,138 @@
+/*
+  # Transaction tags and saved views
+
+  1. Modified Tables
+    - `transactions`
+      - `tags` (text[], default '{}') - free-form labels such as 'tax-deductible'; stored
+        lowercase, sorted and without duplicates
+
+  2. New Tables
+    - `saved_views`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text) - unique per user and scope
+      - `scope` (text) - 'personal' or 'business', the transaction table the view belongs to
+      - `filters` (jsonb) - GET /api/transactions query parameters, e.g. {"tag": "vacation-2026"}
+      - `created_at` (timestamptz)
+
+  3. Functions
+    - `transaction_totals` gains `p_tags`: only rows carrying every listed tag are counted.
+    - `transaction_tags(user)` lists the user's tags with how many transactions carry each.
+    - `replace_transaction_tag(user, tag, replacement)` renames a tag on every transaction, or
+      removes it when `replacement` is NULL. Returns the number of transactions changed.
+
+  4. Security
+    - RLS on `saved_views` limited to the owning user, as for the other tables.
+*/
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_transactions_tags ON transactions USING gin(tags);
+
+CREATE TABLE IF NOT EXISTS saved_views (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  scope text NOT NULL CHECK (scope IN ('personal', 'business')),
+  filters jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (user_id, scope, name)
+);
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own saved views"
+  ON saved_views FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own saved views"
+  ON saved_views FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own saved views"
+  ON saved_views FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own saved views"
+  ON saved_views FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Adding a parameter creates a new overload, so drop the old signature first
+DROP FUNCTION IF EXISTS public.transaction_totals(uuid, integer[], date, date, numeric, numeric, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.transaction_totals(
+  p_user_id uuid,
+  p_account_ids integer[] DEFAULT NULL,
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_min_amount numeric DEFAULT NULL,
+  p_max_amount numeric DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_subcategory text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  count integer,
+  income numeric,
+  expenses numeric,
+  net numeric
+) AS $$
+  SELECT
+    count(*)::integer,
+    COALESCE(sum(t.amount) FILTER (WHERE t.amount > 0 AND t.transfer_id IS NULL), 0),
+    COALESCE(-sum(t.amount) FILTER (WHERE t.amount < 0 AND t.transfer_id IS NULL), 0),
+    COALESCE(sum(t.amount) FILTER (WHERE t.transfer_id IS NULL), 0)
+  FROM transactions t
+  WHERE t.user_id = p_user_id
+    AND (p_account_ids IS NULL OR t.account_id = ANY(p_account_ids))
+    AND (p_start_date IS NULL OR t.date >= p_start_date)
+    AND (p_end_date IS NULL OR t.date <= p_end_date)
+    AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+    AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+    AND (p_category IS NULL OR t.category = p_category)
+    AND (p_subcategory IS NULL OR t.subcategory = p_subcategory)
+    AND (p_search IS NULL OR t.description ILIKE p_search)
+    AND (p_tags IS NULL OR t.tags @> p_tags);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.transaction_tags(p_user_id uuid)
+RETURNS TABLE (
+  tag text,
+  count integer
+) AS $$
+  SELECT tag, count(*)::integer
+  FROM transactions t, unnest(t.tags) AS tag
+  WHERE t.user_id = p_user_id
+  GROUP BY tag
+  ORDER BY tag;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.replace_transaction_tag(
+  p_user_id uuid,
+  p_tag text,
+  p_replacement text DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  -- Renaming onto an existing tag merges the two, so keep the array distinct
+  UPDATE transactions
+  SET tags = ARRAY(
+    SELECT DISTINCT t FROM unnest(array_replace(tags, p_tag, p_replacement)) AS t
+    WHERE t IS NOT NULL
+    ORDER BY t
+  )
+  WHERE user_id = p_user_id AND tags @> ARRAY[p_tag];
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
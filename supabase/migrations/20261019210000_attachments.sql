@@ -0,0 +1,57 @@
+/*
+  # Transaction attachments
+
+  1. New Tables
+    - `attachments`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `transaction_id` (integer, references transactions, cascade delete)
+      - `file_name` (text) - name of the uploaded file
+      - `content_type` (text) - an image type or 'application/pdf'
+      - `size` (integer) - bytes
+      - `storage_key` (text) - where the file lives in the configured file store (local disk or S3)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - RLS on `attachments` limited to the owning user, as for the other tables.
+
+  3. Important Notes
+    - Only metadata is kept here. The API removes the stored file when it deletes an attachment
+      or the transactions carrying one.
+*/
+
+CREATE TABLE IF NOT EXISTS attachments (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_id integer NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  content_type text NOT NULL,
+  size integer NOT NULL CHECK (size >= 0),
+  storage_key text NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_transaction_id ON attachments(transaction_id);
+
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own attachments"
+  ON attachments FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own attachments"
+  ON attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own attachments"
+  ON attachments FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own attachments"
+  ON attachments FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
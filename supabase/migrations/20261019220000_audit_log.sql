@@ -0,0 +1,54 @@
+/*
+  # Audit log
+
+  1. New Tables
+    - `audit_log`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users) - the user who made the change
+      - `entity_type` (text) - 'account', 'transaction' or 'obligation'
+      - `entity_id` (integer) - id of the changed record; not a foreign key, so entries
+        outlive the records they describe
+      - `action` (text) - 'create', 'update' or 'delete'
+      - `before` (jsonb) - the record before the change, NULL for creates
+      - `after` (jsonb) - the record after the change, NULL for deletes
+      - `source` (text) - the API route that made the change, e.g.
+        'DELETE /api/transactions/by-date-range'
+      - `created_at` (timestamptz)
+
+  2. Security
+    - RLS on `audit_log` lets users read and append their own entries. There are no update or
+      delete policies, and UPDATE/DELETE are revoked from the API roles: the log is append-only.
+
+  3. Important Notes
+    - Entries are written by the API after each change to an account, transaction or obligation,
+      including the bulk import, date range delete and the cascades of deleting an account or
+      a transfer leg.
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entity_type text NOT NULL CHECK (entity_type IN ('account', 'transaction', 'obligation')),
+  entity_id integer NOT NULL,
+  action text NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  before jsonb,
+  after jsonb,
+  source text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(user_id, entity_type, entity_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own audit log"
+  ON audit_log FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
@@ -0,0 +1,120 @@
+/*
+  # Trash for deleted records
+
+  1. New Tables
+    - `deletions`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `kind` (text) - 'account', 'transactions' or 'obligation': what the user deleted
+      - `label` (text) - short description shown in the trash, e.g. 'Checking'
+      - `records` (jsonb) - every row the delete removed, as the API returns them:
+        {accounts, transfers, transactions (with splits and attachments), obligations,
+        unlinked_obligations: [{id, account_id}]}
+      - `created_at` (timestamptz)
+      - `expires_at` (timestamptz) - 30 days after the delete; the API purges the entry after that
+
+  2. Functions
+    - `restore_deletion(user, deletion)` reinserts the records under their original ids and removes
+      the trash entry, in one statement. Accounts come back at their opening balance and the
+      balance trigger re-applies each restored transaction. Returns false if there is no such
+      unexpired entry; raises if a transaction's account no longer exists.
+
+  3. Security
+    - RLS on `deletions` limited to the owning user, as for the other tables.
+
+  4. Important Notes
+    - Deletes stay real deletes, so every query, total and balance keeps ignoring trashed rows
+      without a filter. The trash entry is written before the delete.
+    - Attachment files are only removed from the file store when the entry is purged.
+*/
+
+CREATE TABLE IF NOT EXISTS deletions (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('account', 'transactions', 'obligation')),
+  label text NOT NULL,
+  records jsonb NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_deletions_user_id ON deletions(user_id);
+CREATE INDEX IF NOT EXISTS idx_deletions_expires_at ON deletions(expires_at);
+
+ALTER TABLE deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own deletions"
+  ON deletions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own deletions"
+  ON deletions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own deletions"
+  ON deletions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own deletions"
+  ON deletions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.restore_deletion(p_user_id uuid, p_deletion_id integer)
+RETURNS boolean AS $$
+DECLARE
+  v_records jsonb;
+BEGIN
+  DELETE FROM deletions
+  WHERE id = p_deletion_id AND user_id = p_user_id AND expires_at > now()
+  RETURNING records INTO v_records;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO accounts
+  SELECT * FROM jsonb_populate_recordset(NULL::accounts, v_records->'accounts')
+  WHERE user_id = p_user_id;
+
+  UPDATE accounts SET balance = opening_balance
+  WHERE user_id = p_user_id
+    AND id IN (SELECT (a->>'id')::integer FROM jsonb_array_elements(v_records->'accounts') a);
+
+  INSERT INTO transfers
+  SELECT * FROM jsonb_populate_recordset(NULL::transfers, v_records->'transfers')
+  WHERE user_id = p_user_id;
+
+  -- The balance trigger applies each row to its account
+  INSERT INTO transactions
+  SELECT * FROM jsonb_populate_recordset(NULL::transactions, v_records->'transactions')
+  WHERE user_id = p_user_id;
+
+  INSERT INTO transaction_splits (id, user_id, transaction_id, amount, subcategory, type)
+  SELECT (s->>'id')::integer, p_user_id, (s->>'transaction_id')::integer, (s->>'amount')::numeric,
+         s->>'subcategory', s->>'type'
+  FROM jsonb_array_elements(v_records->'transactions') t,
+       jsonb_array_elements(t->'splits') s;
+
+  INSERT INTO attachments
+  SELECT a.*
+  FROM jsonb_array_elements(v_records->'transactions') t,
+       jsonb_populate_recordset(NULL::attachments, t->'attachments') a
+  WHERE a.user_id = p_user_id;
+
+  INSERT INTO obligations
+  SELECT * FROM jsonb_populate_recordset(NULL::obligations, v_records->'obligations')
+  WHERE user_id = p_user_id;
+
+  UPDATE obligations o
+  SET account_id = (u->>'account_id')::integer
+  FROM jsonb_array_elements(v_records->'unlinked_obligations') u
+  WHERE o.id = (u->>'id')::integer AND o.user_id = p_user_id AND o.account_id IS NULL;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
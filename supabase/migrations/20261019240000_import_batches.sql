@@ -0,0 +1,100 @@
+/*
+  # Import batches
+
+  1. New Tables
+    - `import_batches`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `account_id` (integer, references accounts, nullable) - the account imported into;
+        NULL when the rows went to several accounts or the account was deleted
+      - `file_name` (text, nullable) - name of the uploaded file
+      - `parser` (text, nullable) - how the file was read, e.g. 'csv' or 'pdf'
+      - `row_count` (integer) - transactions the import created
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `transactions.import_batch_id` (integer, references import_batches) - set on every
+      transaction created by a bulk import
+
+  3. Functions
+    - `create_import_batch(user, batch, transactions)` writes the batch and its transactions in
+      one statement and returns the batch id; the balance trigger applies the rows.
+
+  4. Security
+    - RLS on `import_batches` limited to the owning user, as for the other tables.
+
+  5. Important Notes
+    - Rolling back a batch deletes its transactions through the trash, so the batch row stays
+      and a restore brings its transactions back under the same batch.
+*/
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id integer REFERENCES accounts(id) ON DELETE SET NULL,
+  file_name text,
+  parser text,
+  row_count integer NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user_id ON import_batches(user_id);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS import_batch_id integer REFERENCES import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_import_batch_id ON transactions(import_batch_id);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own import batches"
+  ON import_batches FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own import batches"
+  ON import_batches FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own import batches"
+  ON import_batches FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own import batches"
+  ON import_batches FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.create_import_batch(
+  p_user_id uuid,
+  p_batch jsonb,
+  p_transactions jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_batch_id integer;
+BEGIN
+  INSERT INTO import_batches (user_id, account_id, file_name, parser, row_count)
+  VALUES (
+    p_user_id,
+    (p_batch->>'account_id')::integer,
+    p_batch->>'file_name',
+    p_batch->>'parser',
+    jsonb_array_length(p_transactions)
+  )
+  RETURNING id INTO v_batch_id;
+
+  -- The balance trigger applies each row to its account
+  INSERT INTO transactions (user_id, account_id, description, amount, category, subcategory, date, tags, import_batch_id)
+  SELECT p_user_id, (t->>'account_id')::integer, t->>'description', (t->>'amount')::numeric,
+         t->>'category', t->>'subcategory', (t->>'date')::date,
+         COALESCE(ARRAY(SELECT jsonb_array_elements_text(t->'tags')), '{}'),
+         v_batch_id
+  FROM jsonb_array_elements(p_transactions) t;
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql;
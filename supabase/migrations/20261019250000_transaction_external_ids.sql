@@ -0,0 +1,53 @@
+/*
+  # Bank transaction ids
+
+  1. Changes
+    - `transactions.external_id` (text, nullable) - the bank's own id for an imported
+      transaction, such as the FITID of an OFX/QFX download. Duplicate detection matches on it
+      before falling back to date, amount and description.
+
+  2. Functions
+    - `create_import_batch` now writes `external_id` as well.
+
+  3. Important Notes
+    - Not unique: a row the user chooses to import again despite a matching id is kept.
+*/
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS external_id text;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account_external_id ON transactions(account_id, external_id);
+
+CREATE OR REPLACE FUNCTION public.create_import_batch(
+  p_user_id uuid,
+  p_batch jsonb,
+  p_transactions jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_batch_id integer;
+BEGIN
+  INSERT INTO import_batches (user_id, account_id, file_name, parser, row_count)
+  VALUES (
+    p_user_id,
+    (p_batch->>'account_id')::integer,
+    p_batch->>'file_name',
+    p_batch->>'parser',
+    jsonb_array_length(p_transactions)
+  )
+  RETURNING id INTO v_batch_id;
+
+  -- The balance trigger applies each row to its account
+  INSERT INTO transactions (
+    user_id, account_id, description, amount, category, subcategory, date, tags, external_id, import_batch_id
+  )
+  SELECT p_user_id, (t->>'account_id')::integer, t->>'description', (t->>'amount')::numeric,
+         t->>'category', t->>'subcategory', (t->>'date')::date,
+         COALESCE(ARRAY(SELECT jsonb_array_elements_text(t->'tags')), '{}'),
+         t->>'external_id',
+         v_batch_id
+  FROM jsonb_array_elements(p_transactions) t;
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql;
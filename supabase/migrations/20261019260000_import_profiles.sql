@@ -0,0 +1,62 @@
+/*
+  # Import mapping profiles
+
+  1. New Tables
+    - `import_profiles`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `account_id` (integer, references accounts) - the account the export belongs to
+      - `header_signature` (text) - the header row trimmed, lowercased and joined with '|';
+        unique per user and account
+      - `headers` (jsonb) - the header row as it was uploaded
+      - `columns` (jsonb) - header names for `date`, `description`, optional `category`, and
+        either `amount` or `debit` and `credit`
+      - `date_format` (text) - 'mdy' or 'dmy', how slash dates are read
+      - `amount_sign` (text) - 'positive_in' when positive amounts are money in,
+        'positive_out' when they are money spent (most card exports)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - RLS on `import_profiles` limited to the owning user, as for the other tables.
+
+  3. Important Notes
+    - Deleting an account deletes its profiles.
+*/
+
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id integer NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  header_signature text NOT NULL,
+  headers jsonb NOT NULL,
+  columns jsonb NOT NULL,
+  date_format text NOT NULL DEFAULT 'mdy' CHECK (date_format IN ('mdy', 'dmy')),
+  amount_sign text NOT NULL DEFAULT 'positive_in' CHECK (amount_sign IN ('positive_in', 'positive_out')),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (user_id, account_id, header_signature)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_profiles_user_signature ON import_profiles(user_id, header_signature);
+
+ALTER TABLE import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own import profiles"
+  ON import_profiles FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own import profiles"
+  ON import_profiles FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own import profiles"
+  ON import_profiles FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own import profiles"
+  ON import_profiles FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,65 @@
+/*
+  # Categorization rules
+
+  1. New Tables
+    - `category_rules`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `priority` (integer) - rules are tried from the highest priority down, oldest first
+        among equals
+      - `match_type` (text) - 'contains' or 'regex', how `pattern` is matched
+      - `pattern` (text, nullable) - matched against the description, ignoring case
+      - `account_id` (integer, nullable, references accounts) - only transactions in this account
+      - `min_amount`, `max_amount` (numeric, nullable) - range for the amount without its sign
+      - `subcategory` (text) - what a matching transaction is categorized as
+      - `type` (text, nullable) - 'personal' or 'business' use; a transaction in an account
+        of the other type gets one split line of this type
+      - `created_at` (timestamptz)
+
+  2. Security
+    - RLS on `category_rules` limited to the owning user, as for the other tables.
+
+  3. Important Notes
+    - Every rule sets at least one of `pattern`, `account_id`, `min_amount`, `max_amount`.
+    - Deleting an account deletes the rules limited to it.
+*/
+
+CREATE TABLE IF NOT EXISTS category_rules (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  priority integer NOT NULL DEFAULT 0,
+  match_type text NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'regex')),
+  pattern text,
+  account_id integer REFERENCES accounts(id) ON DELETE CASCADE,
+  min_amount numeric(12, 2),
+  max_amount numeric(12, 2),
+  subcategory text NOT NULL,
+  type text CHECK (type IN ('personal', 'business')),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (pattern IS NOT NULL OR account_id IS NOT NULL OR min_amount IS NOT NULL OR max_amount IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_user_priority ON category_rules(user_id, priority DESC);
+
+ALTER TABLE category_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own category rules"
+  ON category_rules FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own category rules"
+  ON category_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own category rules"
+  ON category_rules FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own category rules"
+  ON category_rules FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
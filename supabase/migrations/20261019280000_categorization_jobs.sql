@@ -0,0 +1,84 @@
+/*
+  # AI categorization jobs
+
+  1. New Tables
+    - `categorization_jobs`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `status` (text) - 'running', 'completed' or 'failed'
+      - `total` (integer) - uncategorized transactions sent to the model
+      - `processed` (integer) - how many of them the model has answered for so far
+      - `error` (text, nullable) - why a failed job stopped
+      - `created_at`, `completed_at` (timestamptz)
+    - `categorization_suggestions`
+      - `id` (serial, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `job_id` (integer, references categorization_jobs)
+      - `transaction_id` (integer, references transactions)
+      - `subcategory` (text) - what the model suggests, until the user accepts or dismisses it
+      - `created_at` (timestamptz)
+
+  2. Security
+    - RLS on both tables limited to the owning user, as for the other tables.
+
+  3. Important Notes
+    - Suggestions go with their transaction when it is deleted.
+*/
+
+CREATE TABLE IF NOT EXISTS categorization_jobs (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  total integer NOT NULL,
+  processed integer NOT NULL DEFAULT 0,
+  error text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_jobs_user_id ON categorization_jobs(user_id);
+
+CREATE TABLE IF NOT EXISTS categorization_suggestions (
+  id serial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id integer NOT NULL REFERENCES categorization_jobs(id) ON DELETE CASCADE,
+  transaction_id integer NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  subcategory text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_suggestions_user_id ON categorization_suggestions(user_id);
+
+ALTER TABLE categorization_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE categorization_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own categorization jobs"
+  ON categorization_jobs FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own categorization jobs"
+  ON categorization_jobs FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own categorization jobs"
+  ON categorization_jobs FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own categorization suggestions"
+  ON categorization_suggestions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own categorization suggestions"
+  ON categorization_suggestions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own categorization suggestions"
+  ON categorization_suggestions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
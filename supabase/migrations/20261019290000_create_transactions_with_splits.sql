@@ -0,0 +1,89 @@
+/*
+  # Splits written with new transactions
+
+  1. Functions
+    - `create_transaction(user, transaction jsonb, splits jsonb)` inserts a transaction and its
+      split lines in one statement, returning the new id. Used for rows a categorization rule
+      splits on creation.
+    - `create_import_batch` now also writes each row's `splits` array, when present.
+
+  2. Important Notes
+    - Either the transaction, its balance change and its splits all land, or none do.
+*/
+
+CREATE OR REPLACE FUNCTION public.create_transaction(
+  p_user_id uuid,
+  p_transaction jsonb,
+  p_splits jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_id integer;
+BEGIN
+  -- The balance trigger applies the row to its account
+  INSERT INTO transactions (user_id, account_id, description, amount, category, subcategory, date, tags, external_id)
+  VALUES (
+    p_user_id,
+    (p_transaction->>'account_id')::integer,
+    p_transaction->>'description',
+    (p_transaction->>'amount')::numeric,
+    p_transaction->>'category',
+    p_transaction->>'subcategory',
+    (p_transaction->>'date')::date,
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_transaction->'tags')), '{}'),
+    p_transaction->>'external_id'
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO transaction_splits (user_id, transaction_id, amount, subcategory, type)
+  SELECT p_user_id, v_id, (s->>'amount')::numeric, s->>'subcategory', s->>'type'
+  FROM jsonb_array_elements(p_splits) AS s;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.create_import_batch(
+  p_user_id uuid,
+  p_batch jsonb,
+  p_transactions jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_batch_id integer;
+  v_id integer;
+  t jsonb;
+BEGIN
+  INSERT INTO import_batches (user_id, account_id, file_name, parser, row_count)
+  VALUES (
+    p_user_id,
+    (p_batch->>'account_id')::integer,
+    p_batch->>'file_name',
+    p_batch->>'parser',
+    jsonb_array_length(p_transactions)
+  )
+  RETURNING id INTO v_batch_id;
+
+  -- Row by row, so each row's splits can point at its id. The balance
+  -- trigger applies each row to its account.
+  FOR t IN SELECT * FROM jsonb_array_elements(p_transactions) LOOP
+    INSERT INTO transactions (
+      user_id, account_id, description, amount, category, subcategory, date, tags, external_id, import_batch_id
+    )
+    VALUES (
+      p_user_id, (t->>'account_id')::integer, t->>'description', (t->>'amount')::numeric,
+      t->>'category', t->>'subcategory', (t->>'date')::date,
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(t->'tags')), '{}'),
+      t->>'external_id',
+      v_batch_id
+    )
+    RETURNING id INTO v_id;
+
+    INSERT INTO transaction_splits (user_id, transaction_id, amount, subcategory, type)
+    SELECT p_user_id, v_id, (s->>'amount')::numeric, s->>'subcategory', s->>'type'
+    FROM jsonb_array_elements(COALESCE(t->'splits', '[]'::jsonb)) AS s;
+  END LOOP;
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,51 @@
+/*
+  # Splits written with transaction updates
+
+  1. Functions
+    - `update_transaction(user, transaction, changes jsonb, splits jsonb)` applies the fields
+      present in `changes` to a transaction and replaces its split lines with `splits` in one
+      statement. Returns the transaction id, or null if it is not the user's.
+
+  2. Important Notes
+    - An edit that changes the amount and the splits together either lands whole or not at all,
+      so the splits never stop adding up to the amount.
+    - `set_transaction_splits` is no longer called by the app.
+*/
+
+CREATE OR REPLACE FUNCTION public.update_transaction(
+  p_user_id uuid,
+  p_transaction_id integer,
+  p_changes jsonb,
+  p_splits jsonb
+)
+RETURNS integer AS $$
+BEGIN
+  -- Only the keys sent are changed. The balance trigger moves the amount
+  -- between accounts within this update.
+  UPDATE transactions SET
+    account_id = CASE WHEN p_changes ? 'account_id' THEN (p_changes->>'account_id')::integer ELSE account_id END,
+    description = CASE WHEN p_changes ? 'description' THEN p_changes->>'description' ELSE description END,
+    amount = CASE WHEN p_changes ? 'amount' THEN (p_changes->>'amount')::numeric ELSE amount END,
+    category = CASE WHEN p_changes ? 'category' THEN p_changes->>'category' ELSE category END,
+    subcategory = CASE WHEN p_changes ? 'subcategory' THEN p_changes->>'subcategory' ELSE subcategory END,
+    date = CASE WHEN p_changes ? 'date' THEN (p_changes->>'date')::date ELSE date END,
+    tags = CASE
+      WHEN p_changes ? 'tags' THEN COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_changes->'tags')), '{}')
+      ELSE tags
+    END,
+    external_id = CASE WHEN p_changes ? 'external_id' THEN p_changes->>'external_id' ELSE external_id END
+  WHERE id = p_transaction_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  INSERT INTO transaction_splits (user_id, transaction_id, amount, subcategory, type)
+  SELECT p_user_id, p_transaction_id, (s->>'amount')::numeric, s->>'subcategory', s->>'type'
+  FROM jsonb_array_elements(p_splits) AS s;
+
+  RETURN p_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,21 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // server modules construct their API clients at import time
+    env: {
+      SUPABASE_URL: "http://localhost:54321",
+      SUPABASE_ANON_KEY: "test-anon-key",
+      STRIPE_SECRET_KEY: "sk_test_dummy",
+      AI_INTEGRATIONS_OPENAI_API_KEY: "test-openai-key",
+    },
+  },
+});